@@ -13,18 +13,17 @@ async function runMigration() {
   });
 
   try {
-    console.log('🔄 Running payment tables migration...');
-    
-    const migrationPath = path.join(__dirname, '..', 'src', 'migrations', '001_payment_tables.sql');
-    const migrationSQL = fs.readFileSync(migrationPath, 'utf8');
-    
-    await pool.query(migrationSQL);
+    const migrationsDir = path.join(__dirname, '..', 'src', 'migrations');
+    // Migrations are idempotent (IF NOT EXISTS / ON CONFLICT), so applying all of them in order is safe
+    const files = fs.readdirSync(migrationsDir).filter(f => f.endsWith('.sql')).sort();
+
+    for (const file of files) {
+      console.log(`🔄 Running migration ${file}...`);
+      const migrationSQL = fs.readFileSync(path.join(migrationsDir, file), 'utf8');
+      await pool.query(migrationSQL);
+    }
     
-    console.log('✅ Payment tables migration completed successfully!');
-    console.log('📋 Created tables:');
-    console.log('   - payment_links');
-    console.log('   - payment_notifications');
-    console.log('   - payment_webhook_events');
+    console.log(`✅ ${files.length} migrations completed successfully!`);
     
   } catch (error) {
     console.error('❌ Migration failed:', error.message);
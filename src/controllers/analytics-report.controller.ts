@@ -0,0 +1,106 @@
+import { Request, Response, Router } from 'express';
+import { AnalyticsReportService } from '../services/analytics-report.service';
+
+// Scheduled analytics report subscriptions; they email internal figures, so the routes need the service key
+export class AnalyticsReportController {
+  private router: Router;
+
+  constructor(private reports: AnalyticsReportService) {
+    this.router = Router();
+    this.setupRoutes();
+  }
+
+  private setupRoutes(): void {
+    this.router.get('/', this.listReports.bind(this));
+    this.router.post('/', this.createReport.bind(this));
+    this.router.get('/:reportId', this.getReport.bind(this));
+    this.router.patch('/:reportId', this.updateReport.bind(this));
+    this.router.delete('/:reportId', this.deleteReport.bind(this));
+    this.router.post('/:reportId/send', this.sendReport.bind(this));
+    this.router.get('/:reportId/runs', this.listRuns.bind(this));
+  }
+
+  public getRouter(): Router {
+    return this.router;
+  }
+
+  private sendError(res: Response, error: any, message: string, code: string): void {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: { message: error.message || message, code: error.code || code }
+    });
+  }
+
+  private async listReports(req: Request, res: Response): Promise<void> {
+    try {
+      const subscriptions = await this.reports.listSubscriptions();
+      res.json({ success: true, data: subscriptions, total: subscriptions.length });
+    } catch (error: any) {
+      this.sendError(res, error, 'Failed to list analytics reports', 'ANALYTICS_REPORT_LIST_FAILED');
+    }
+  }
+
+  // Body: { name, recipients, schedule, timezone?, periodDays?, format?, filters?, enabled? }
+  private async createReport(req: Request, res: Response): Promise<void> {
+    try {
+      const report = await this.reports.createSubscription(req.body || {}, (req.headers['x-user-id'] as string) || undefined);
+      res.status(201).json({ success: true, data: report });
+    } catch (error: any) {
+      this.sendError(res, error, 'Failed to create analytics report', 'ANALYTICS_REPORT_CREATE_FAILED');
+    }
+  }
+
+  private async getReport(req: Request, res: Response): Promise<void> {
+    try {
+      const report = await this.reports.getSubscription(req.params.reportId);
+      res.json({ success: true, data: report });
+    } catch (error: any) {
+      this.sendError(res, error, 'Failed to get analytics report', 'ANALYTICS_REPORT_FETCH_FAILED');
+    }
+  }
+
+  // Body: any of the create fields; enabled: false stops the schedule
+  private async updateReport(req: Request, res: Response): Promise<void> {
+    try {
+      const report = await this.reports.updateSubscription(
+        req.params.reportId,
+        req.body || {},
+        (req.headers['x-user-id'] as string) || undefined
+      );
+      res.json({ success: true, data: report });
+    } catch (error: any) {
+      this.sendError(res, error, 'Failed to update analytics report', 'ANALYTICS_REPORT_UPDATE_FAILED');
+    }
+  }
+
+  private async deleteReport(req: Request, res: Response): Promise<void> {
+    try {
+      await this.reports.deleteSubscription(req.params.reportId);
+      res.json({ success: true, message: 'Analytics report deleted' });
+    } catch (error: any) {
+      this.sendError(res, error, 'Failed to delete analytics report', 'ANALYTICS_REPORT_DELETE_FAILED');
+    }
+  }
+
+  // Sends the report now; the run says which recipients got it
+  private async sendReport(req: Request, res: Response): Promise<void> {
+    try {
+      const run = await this.reports.send(req.params.reportId);
+      res.json({ success: true, data: run });
+    } catch (error: any) {
+      console.error('Error sending analytics report:', error);
+      this.sendError(res, error, 'Failed to send analytics report', 'ANALYTICS_REPORT_SEND_FAILED');
+    }
+  }
+
+  // Send history, most recent first; ?limit= (default 20, at most 100)
+  private async listRuns(req: Request, res: Response): Promise<void> {
+    try {
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit || '20'), 10) || 20, 1), 100);
+      const runs = await this.reports.listRuns(req.params.reportId, limit);
+      res.json({ success: true, data: runs, total: runs.length });
+    } catch (error: any) {
+      this.sendError(res, error, 'Failed to list analytics report runs', 'ANALYTICS_REPORT_RUNS_FAILED');
+    }
+  }
+}
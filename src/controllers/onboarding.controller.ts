@@ -1,12 +1,25 @@
 import { Request, Response, Router } from 'express';
-import { OnboardingService } from '../services/onboarding.service';
+import { OnboardingService, normalizeAttribution } from '../services/onboarding.service';
 import { SlaService } from '../services/sla.service';
+import { EmailEventService, EmailWebhookEvent, verifyEmailWebhookSignature } from '../services/email-event.service';
+import { hasValidServiceKey, serviceAuthMiddleware } from '../middleware/service-auth.middleware';
+import { NotificationService, NotificationPreferenceUpdate, isNotificationChannel } from '../services/notification.service';
+import { NOTIFICATION_CHANNELS } from '../services/notification-channels/message-transport';
+import { TRIAL_STATUSES, TrialStatus } from '../services/trial-lifecycle.service';
+import { AnalyticsSnapshotService } from '../services/analytics-snapshot.service';
+import { AnalyticsExportService } from '../services/analytics-export.service';
 
 export class OnboardingController {
   private router: Router;
   private customers: any[] = [];
 
-  constructor(private onboardingService: OnboardingService) {
+  constructor(
+    private onboardingService: OnboardingService,
+    private emailEvents?: EmailEventService,
+    private notifications?: NotificationService,
+    private analytics: AnalyticsSnapshotService = new AnalyticsSnapshotService(onboardingService.dbService),
+    private analyticsExport: AnalyticsExportService = new AnalyticsExportService(onboardingService.dbService)
+  ) {
     this.router = Router();
     this.setupRoutes();
   }
@@ -17,6 +30,8 @@ export class OnboardingController {
     // Customer creation (hybrid integration support)
     this.router.post('/customers', this.createCustomer.bind(this));
     this.router.get('/customers', this.listCustomers.bind(this));
+    this.router.get('/customers/:customerId/notification-preferences', this.getNotificationPreferences.bind(this));
+    this.router.put('/customers/:customerId/notification-preferences', this.updateNotificationPreferences.bind(this));
 
     // Onboarding management (non-parameterized first)
     this.router.post('/initiate', this.initiateOnboarding.bind(this));
@@ -29,6 +44,15 @@ export class OnboardingController {
 
     // Analytics
     this.router.get('/analytics/overview', this.getOnboardingAnalytics.bind(this));
+    // Bulk download including trial customers' names and emails, so it needs the service key
+    this.router.get('/analytics/export', serviceAuthMiddleware, this.exportOnboardingAnalytics.bind(this));
+
+    // Workflow definitions (versioned); publishing and activating need the service key
+    this.router.get('/workflows', this.listWorkflows.bind(this));
+    this.router.post('/workflows', serviceAuthMiddleware, this.createWorkflowVersion.bind(this));
+    this.router.get('/workflows/:key', this.getWorkflow.bind(this));
+    this.router.get('/workflows/:key/versions/:version', this.getWorkflow.bind(this));
+    this.router.patch('/workflows/:key/versions/:version', serviceAuthMiddleware, this.setWorkflowActive.bind(this));
 
     // SLA endpoints (unified for orders and onboarding)
     this.router.get('/sla/order/:orderId', this.getOrderSla.bind(this));
@@ -39,7 +63,10 @@ export class OnboardingController {
     this.router.patch('/:id/assign', this.assignOnboarding.bind(this));
     this.router.post('/:id/notify', this.notifyOnboarding.bind(this));
     this.router.put('/:id/step/:stepId', this.updateOnboardingStep.bind(this));
+    this.router.post('/:id/step/:stepId/skip', this.skipOnboardingStep.bind(this));
+    this.router.post('/:id/step/:stepId/rollback', this.rollbackOnboardingStep.bind(this));
     this.router.get('/:id/steps', this.getOnboardingSteps.bind(this));
+    this.router.get('/:id/history', this.getStepHistory.bind(this));
   }
 
   public getRouter(): Router {
@@ -53,7 +80,7 @@ export class OnboardingController {
         res.status(400).json({ success: false, error: { message: 'orderId is required' } });
         return;
       }
-      const sla = new SlaService((this.onboardingService as any).dbService);
+      const sla = new SlaService(this.onboardingService.dbService, this.onboardingService.workflowService);
       const data = await sla.getOrderSla(orderId);
       res.json({ success: true, data });
     } catch (error: any) {
@@ -68,7 +95,7 @@ export class OnboardingController {
         res.status(400).json({ success: false, error: { message: 'onboarding id is required' } });
         return;
       }
-      const sla = new SlaService((this.onboardingService as any).dbService);
+      const sla = new SlaService(this.onboardingService.dbService, this.onboardingService.workflowService);
       const data = await sla.getOnboardingSla(id);
       res.json({ success: true, data });
     } catch (error: any) {
@@ -76,6 +103,80 @@ export class OnboardingController {
     }
   }
 
+  // Workflow Definition Endpoints
+  private async listWorkflows(req: Request, res: Response): Promise<void> {
+    try {
+      const includeAllVersions = req.query.allVersions === 'true';
+      const workflows = await this.onboardingService.workflowService.listDefinitions(includeAllVersions);
+      res.json({ success: true, data: workflows, total: workflows.length });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: { message: error.message || 'Failed to list workflows', code: 'WORKFLOW_LIST_FAILED' } });
+    }
+  }
+
+  private async getWorkflow(req: Request, res: Response): Promise<void> {
+    try {
+      const { key, version } = req.params as any;
+      const parsedVersion = version !== undefined ? parseInt(version, 10) : undefined;
+      if (parsedVersion !== undefined && isNaN(parsedVersion)) {
+        res.status(400).json({ success: false, error: { message: 'version must be a number', code: 'INVALID_WORKFLOW_VERSION' } });
+        return;
+      }
+
+      const workflow = await this.onboardingService.workflowService.getDefinition(key, parsedVersion);
+      if (!workflow) {
+        res.status(404).json({ success: false, error: { message: 'Workflow not found', code: 'WORKFLOW_NOT_FOUND' } });
+        return;
+      }
+      res.json({ success: true, data: workflow });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: { message: error.message || 'Failed to fetch workflow', code: 'WORKFLOW_FETCH_FAILED' } });
+    }
+  }
+
+  // Publishes a new immutable version; onboardings already pinned to older versions are unaffected
+  private async createWorkflowVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const { key, name, description, appliesTo, priority, steps } = req.body || {};
+      if (!key || !name || !Array.isArray(steps)) {
+        res.status(400).json({ success: false, error: { message: 'key, name and steps are required', code: 'INVALID_WORKFLOW_DEFINITION' } });
+        return;
+      }
+
+      const workflow = await this.onboardingService.workflowService.createDefinitionVersion({
+        key,
+        name,
+        description,
+        appliesTo,
+        priority,
+        steps,
+        createdBy: (req.headers['x-user-id'] as string) || undefined,
+      });
+
+      res.status(201).json({ success: true, data: workflow });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: { message: error.message || 'Failed to create workflow', code: error.code || 'WORKFLOW_CREATE_FAILED' }
+      });
+    }
+  }
+
+  private async setWorkflowActive(req: Request, res: Response): Promise<void> {
+    try {
+      const { key, version } = req.params as any;
+      const { isActive } = req.body || {};
+      if (typeof isActive !== 'boolean' || isNaN(parseInt(version, 10))) {
+        res.status(400).json({ success: false, error: { message: 'numeric version and boolean isActive are required', code: 'INVALID_WORKFLOW_UPDATE' } });
+        return;
+      }
+      await this.onboardingService.workflowService.setDefinitionActive(key, parseInt(version, 10), isActive);
+      res.json({ success: true, message: `Workflow ${key} v${version} ${isActive ? 'activated' : 'deactivated'}` });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: { message: error.message || 'Failed to update workflow', code: 'WORKFLOW_UPDATE_FAILED' } });
+    }
+  }
+
   // New: Create customer (lightweight, works in limited/mock mode)
   private async createCustomer(req: Request, res: Response): Promise<void> {
     try {
@@ -99,6 +200,8 @@ export class OnboardingController {
         is_trial: body.is_trial ?? body.isTrial ?? false,
         trial_start_date: body.trial_start_date ?? body.trialStartDate ?? null,
         trial_end_date: body.trial_end_date ?? body.trialEndDate ?? null,
+        // attribution: { campaign, channel, referrer, promoCode } or utm_* fields
+        attribution: normalizeAttribution(body),
       };
 
       // Basic validation
@@ -152,10 +255,53 @@ export class OnboardingController {
     }
   }
 
+  private async getNotificationPreferences(req: Request, res: Response): Promise<void> {
+    try {
+      if (!this.notifications) {
+        res.status(503).json({ success: false, error: { message: 'Notification preferences are not available', code: 'NOTIFICATIONS_UNAVAILABLE' } });
+        return;
+      }
+      const preferences = await this.notifications.getPreferences(req.params.customerId);
+      res.json({ success: true, data: preferences });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: { message: error.message || 'Failed to fetch notification preferences', code: error.code || 'NOTIFICATION_PREFERENCES_FETCH_FAILED' }
+      });
+    }
+  }
+
+  /**
+   * Body: { preferences: [{ channel, enabled?, destination?, reason? }] }. enabled=false
+   * opts the customer out of the channel, including for explicitly requested sends.
+   */
+  private async updateNotificationPreferences(req: Request, res: Response): Promise<void> {
+    try {
+      if (!this.notifications) {
+        res.status(503).json({ success: false, error: { message: 'Notification preferences are not available', code: 'NOTIFICATIONS_UNAVAILABLE' } });
+        return;
+      }
+      const updates: NotificationPreferenceUpdate[] = req.body?.preferences;
+      if (!Array.isArray(updates) || updates.length === 0 || updates.some(update => !update || typeof update !== 'object')) {
+        res.status(400).json({ success: false, error: { message: 'preferences must be a non-empty array', code: 'INVALID_NOTIFICATION_PREFERENCES' } });
+        return;
+      }
+
+      const actor = (req.headers['x-user-id'] as string) || undefined;
+      const preferences = await this.notifications.updatePreferences(req.params.customerId, updates, actor);
+      res.json({ success: true, data: preferences });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: { message: error.message || 'Failed to update notification preferences', code: error.code || 'NOTIFICATION_PREFERENCES_UPDATE_FAILED' }
+      });
+    }
+  }
+
   // Onboarding Management Endpoints
   private async initiateOnboarding(req: Request, res: Response): Promise<void> {
     try {
-      const { customerId, orderId, onboardingType } = req.body;
+      const { customerId, orderId, onboardingType, workflowKey } = req.body;
       // Derive assignee: explicit in body, else authenticated user, else x-user-id header
       const requester = (req as any).user || {};
       const derivedAssignee = req.body?.assignedTo || requester.userId || requester.id || (req.headers['x-user-id'] as string) || null;
@@ -187,7 +333,10 @@ export class OnboardingController {
         customerId,
         orderId,
         onboardingType,
-        assignedTo: derivedAssignee
+        assignedTo: derivedAssignee,
+        workflowKey,
+        initiatedBy: requester.userId || requester.id || (req.headers['x-user-id'] as string) || undefined,
+        attribution: normalizeAttribution(req.body)
       });
 
       res.status(201).json({
@@ -277,13 +426,35 @@ export class OnboardingController {
   private async notifyOnboarding(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const { type, template, variables, email } = req.body || {};
+      const { type, template, locale, variables, email, phone } = req.body || {};
       if (!id || !type) {
         res.status(400).json({ success: false, error: { message: 'id and type are required' } });
         return;
       }
-      await this.onboardingService.notifyOnboarding(id, { type, template, variables, email });
-      res.json({ success: true, message: 'Notification queued' });
+
+      // channels: ["email", "sms"] or "email,sms"; omitted means the customer's preferred channels
+      const rawChannels = req.body?.channels;
+      const channels = rawChannels === undefined ? undefined
+        : (Array.isArray(rawChannels) ? rawChannels : String(rawChannels).split(',')).map((channel: any) => String(channel).trim().toLowerCase());
+      const unknown = (channels || []).filter(channel => !isNotificationChannel(channel));
+      if (unknown.length > 0) {
+        res.status(400).json({
+          success: false,
+          error: { message: `Unknown channel: ${unknown.join(', ')} (available: ${NOTIFICATION_CHANNELS.join(', ')})`, code: 'INVALID_NOTIFICATION_CHANNEL' }
+        });
+        return;
+      }
+
+      const queued = await this.onboardingService.notifyOnboarding(id, {
+        type,
+        template,
+        locale,
+        variables,
+        email,
+        phone,
+        channels: channels?.filter(isNotificationChannel),
+      });
+      res.json({ success: true, message: queued.length > 0 ? 'Notification queued' : 'No notification channels enabled', data: { channels: queued } });
     } catch (error: any) {
       res.status(500).json({ success: false, error: { message: error.message || 'Failed to queue notification' } });
     }
@@ -349,23 +520,88 @@ export class OnboardingController {
         return;
       }
 
-      await this.onboardingService.updateOnboardingStep(id, {
+      const requester = (req as any).user || {};
+      const result = await this.onboardingService.updateOnboardingStep(id, {
         stepId,
         notes,
-        metadata
+        metadata,
+        actor: requester.userId || requester.id || (req.headers['x-user-id'] as string) || undefined
       });
 
       res.json({
         success: true,
+        data: result,
         message: 'Onboarding step updated successfully'
       });
     } catch (error: any) {
       console.error('Error updating onboarding step:', error);
-      res.status(500).json({
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: {
+          message: error.message || 'Internal server error',
+          code: error.code || 'ONBOARDING_STEP_UPDATE_FAILED'
+        }
+      });
+    }
+  }
+
+  private async skipOnboardingStep(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, stepId } = req.params;
+      const { reason, notes, metadata } = req.body || {};
+
+      const requester = (req as any).user || {};
+      const result = await this.onboardingService.skipOnboardingStep(id, {
+        stepId,
+        reason,
+        notes,
+        metadata,
+        actor: requester.userId || requester.id || (req.headers['x-user-id'] as string) || undefined
+      });
+
+      res.json({
+        success: true,
+        data: result,
+        message: 'Onboarding step skipped'
+      });
+    } catch (error: any) {
+      console.error('Error skipping onboarding step:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: {
+          message: error.message || 'Internal server error',
+          code: error.code || 'ONBOARDING_STEP_SKIP_FAILED'
+        }
+      });
+    }
+  }
+
+  private async rollbackOnboardingStep(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, stepId } = req.params;
+      const { reason, notes, metadata } = req.body || {};
+
+      const requester = (req as any).user || {};
+      const result = await this.onboardingService.rollbackOnboardingStep(id, {
+        stepId,
+        reason,
+        notes,
+        metadata,
+        actor: requester.userId || requester.id || (req.headers['x-user-id'] as string) || undefined
+      });
+
+      res.json({
+        success: true,
+        data: result,
+        message: 'Onboarding rolled back'
+      });
+    } catch (error: any) {
+      console.error('Error rolling back onboarding step:', error);
+      res.status(error.statusCode || 500).json({
         success: false,
         error: {
           message: error.message || 'Internal server error',
-          code: 'ONBOARDING_STEP_UPDATE_FAILED'
+          code: error.code || 'ONBOARDING_STEP_ROLLBACK_FAILED'
         }
       });
     }
@@ -404,10 +640,40 @@ export class OnboardingController {
     }
   }
 
+  private async getStepHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const history = await this.onboardingService.getStepHistory(id);
+      res.json({ success: true, data: history, total: history.length });
+    } catch (error: any) {
+      console.error('Error getting onboarding step history:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: error.message || 'Internal server error',
+          code: 'ONBOARDING_HISTORY_FETCH_FAILED'
+        }
+      });
+    }
+  }
+
   // Trial Management Endpoints
   private async getTrialCustomers(req: Request, res: Response): Promise<void> {
     try {
-      const trials = await this.onboardingService.getTrialCustomers();
+      // ?status=grace,suspended
+      const statuses = req.query.status
+        ? String(req.query.status).split(',').map(status => status.trim()).filter(Boolean)
+        : undefined;
+      const unknown = (statuses || []).filter(status => !TRIAL_STATUSES.includes(status as TrialStatus));
+      if (unknown.length > 0) {
+        res.status(400).json({
+          success: false,
+          error: { message: `Unknown trial status: ${unknown.join(', ')} (available: ${TRIAL_STATUSES.join(', ')})`, code: 'INVALID_TRIAL_STATUS' }
+        });
+        return;
+      }
+
+      const trials = await this.onboardingService.getTrialCustomers(statuses as TrialStatus[] | undefined);
 
       res.json({
         success: true,
@@ -443,19 +709,41 @@ export class OnboardingController {
         return;
       }
 
-      await this.onboardingService.convertTrialToCustomer(id);
+      // Optional body: { packageCode } or { servicePackage: { name, speed, price } }, plus locale and campaign
+      const { packageCode, servicePackage, locale, campaign } = req.body || {};
+      const requester = (req as any).user || {};
+      const result = await this.onboardingService.convertTrialToCustomer(id, {
+        packageCode: packageCode !== undefined ? String(packageCode) : undefined,
+        servicePackage: servicePackage
+          ? { ...servicePackage, price: servicePackage.price !== undefined ? parseFloat(servicePackage.price) : servicePackage.price }
+          : undefined,
+        locale,
+        campaign: campaign ? String(campaign) : undefined,
+        requestedBy: requester.userId || requester.id || (req.headers['x-user-id'] as string) || undefined
+      });
+
+      // A paid conversion is only accepted here; it completes when the payment webhook arrives
+      if (result.status === 'pending_conversion') {
+        res.status(202).json({
+          success: true,
+          data: result,
+          message: 'Payment link sent; the trial converts once payment is received'
+        });
+        return;
+      }
 
       res.json({
         success: true,
+        data: result,
         message: 'Trial converted to customer successfully'
       });
     } catch (error: any) {
       console.error('Error converting trial to customer:', error);
-      res.status(500).json({
+      res.status(error.statusCode || 500).json({
         success: false,
         error: {
           message: error.message || 'Internal server error',
-          code: 'TRIAL_CONVERSION_FAILED'
+          code: error.code || 'TRIAL_CONVERSION_FAILED'
         }
       });
     }
@@ -464,26 +752,77 @@ export class OnboardingController {
   // Analytics Endpoints
   private async getOnboardingAnalytics(req: Request, res: Response): Promise<void> {
     try {
-      const { OnboardingAnalyticsService } = await import('../services/analytics.service.js');
-      const analyticsService = new OnboardingAnalyticsService(this.onboardingService.dbService);
-      
       // Build filters from query parameters
       const filters = this.buildAnalyticsFilters(req.query);
-      const analytics = await analyticsService.getOnboardingAnalytics(filters);
+      // ?fresh=true skips the cache and snapshots
+      const analytics = await this.analytics.getAnalytics(filters, { fresh: req.query.fresh === 'true' });
 
       res.json({
         success: true,
-        data: analytics,
+        data: analytics.data,
         filters,
-        generatedAt: new Date().toISOString()
+        source: analytics.source,
+        generatedAt: analytics.generatedAt
       });
     } catch (error: any) {
       console.error('Error getting onboarding analytics:', error);
-      res.status(500).json({
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: {
+          message: error.message || 'Internal server error',
+          code: error.code || 'ANALYTICS_FETCH_FAILED'
+        }
+      });
+    }
+  }
+
+  // Streams sections as they are read: ?format=csv|excel|jsonl&sections=overview,trials plus the overview filters
+  private async exportOnboardingAnalytics(req: Request, res: Response): Promise<void> {
+    try {
+      const filters = this.buildAnalyticsFilters(req.query);
+      const sections = req.query.sections
+        ? String(req.query.sections).split(',').map(section => section.trim()).filter(Boolean)
+        : undefined;
+      const prepared = this.analyticsExport.prepare({ format: req.query.format as string | undefined, sections });
+
+      const stamp = new Date().toISOString().slice(0, 10);
+      res.setHeader('Content-Type', prepared.writer.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="onboarding-analytics-${stamp}.${prepared.writer.extension}"`);
+
+      let closed = false;
+      res.on('close', () => { closed = true; });
+      const rows = await this.analyticsExport.export(prepared, filters, async chunk => {
+        if (closed) return false;
+        if (chunk && !res.write(chunk)) {
+          // Wait for the client to catch up before reading more rows
+          await new Promise<void>(resolve => {
+            const done = () => {
+              res.off('drain', done);
+              res.off('close', done);
+              resolve();
+            };
+            res.on('drain', done);
+            res.on('close', done);
+          });
+        }
+        return !closed;
+      });
+
+      if (!closed) res.end();
+      console.log(`[AnalyticsExport] ${prepared.format} export: ${prepared.sections.join(', ')} (${rows} rows)`);
+    } catch (error: any) {
+      console.error('Error exporting onboarding analytics:', error);
+      if (res.headersSent) {
+        // Part of the file is already out; cut it off so it is not mistaken for a complete export
+        res.destroy(error);
+        return;
+      }
+      res.removeHeader('Content-Disposition');
+      res.status(error.statusCode || 500).json({
         success: false,
         error: {
           message: error.message || 'Internal server error',
-          code: 'ANALYTICS_FETCH_FAILED'
+          code: error.code || 'ANALYTICS_EXPORT_FAILED'
         }
       });
     }
@@ -521,6 +860,13 @@ export class OnboardingController {
       filters.steps = Array.isArray(query.steps) ? query.steps : [query.steps];
     }
 
+    // Attribution filters: ?campaigns=spring-promo&channels=email
+    for (const key of ['campaigns', 'channels', 'referrers', 'promoCodes']) {
+      if (query[key]) {
+        filters[key] = Array.isArray(query[key]) ? query[key] : String(query[key]).split(',').map((value: string) => value.trim()).filter(Boolean);
+      }
+    }
+
     if (query.granularity) {
       filters.granularity = query.granularity;
     }
@@ -529,31 +875,50 @@ export class OnboardingController {
   }
 
   // Webhook Handlers
+  // Body is one { event, data } or an array of them (providers batch events)
+  /**
+   * Bounces and complaints pause every automated send to a customer, so the caller must
+   * sign the raw body (x-email-signature, EMAIL_WEBHOOK_SECRET) or send the service key.
+   * The route is mounted with express.raw so the signature covers the exact bytes.
+   */
   public async handleEmailWebhook(req: Request, res: Response): Promise<void> {
     try {
-      const { event, data } = req.body;
+      const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.from(JSON.stringify(req.body ?? {}));
+      if (!hasValidServiceKey(req) && !verifyEmailWebhookSignature(rawBody, req.headers['x-email-signature'] as string | undefined)) {
+        console.warn('[EmailWebhook] Rejected unsigned or wrongly signed email webhook from', req.ip);
+        res.status(401).json({ success: false, error: { message: 'Invalid email webhook signature', code: 'INVALID_EMAIL_WEBHOOK_SIGNATURE' } });
+        return;
+      }
 
-      console.log('Email webhook received:', { event, data });
+      let body: any;
+      try {
+        body = rawBody.length > 0 ? JSON.parse(rawBody.toString('utf8')) : {};
+      } catch {
+        res.status(400).json({ success: false, error: { message: 'Body must be JSON', code: 'INVALID_EMAIL_EVENT' } });
+        return;
+      }
 
-      // Handle different email events
-      switch (event) {
-        case 'delivered':
-          // Email was delivered successfully
-          break;
-        case 'opened':
-          // Email was opened by recipient
-          break;
-        case 'clicked':
-          // Link in email was clicked
-          break;
-        case 'bounced':
-          // Email bounced
-          break;
-        default:
-          console.log('Unknown email event:', event);
+      const events: EmailWebhookEvent[] = Array.isArray(body) ? body : [body || {}];
+      if (events.some(item => !item || !item.event)) {
+        res.status(400).json({ success: false, error: { message: 'event is required', code: 'INVALID_EMAIL_EVENT' } });
+        return;
+      }
+
+      if (!this.emailEvents) {
+        console.log('Email webhook received without event tracking:', events.map(item => item.event).join(', '));
+        res.json({ success: true, message: 'Webhook processed' });
+        return;
+      }
+
+      const recorded = [];
+      for (const item of events) {
+        const result = await this.emailEvents.recordEvent(item);
+        recorded.push(result
+          ? { event: result.eventType, recorded: !result.duplicate, duplicate: result.duplicate, emailInvalidated: result.emailInvalidated }
+          : { event: item.event, recorded: false, ignored: true });
       }
 
-      res.json({ success: true, message: 'Webhook processed' });
+      res.json({ success: true, message: 'Webhook processed', data: recorded });
     } catch (error: any) {
       console.error('Error processing email webhook:', error);
       res.status(500).json({
@@ -579,7 +944,8 @@ export class OnboardingController {
         if (onboarding) {
           await this.onboardingService.updateOnboardingStep(onboarding.id, {
             stepId: 'equipment_shipped',
-            metadata: { trackingNumber, status }
+            metadata: { trackingNumber, status },
+            actor: 'system:shipping-webhook'
           });
         }
       }
@@ -587,11 +953,11 @@ export class OnboardingController {
       res.json({ success: true, message: 'Shipping webhook processed' });
     } catch (error: any) {
       console.error('Error processing shipping webhook:', error);
-      res.status(500).json({
+      res.status(error.statusCode || 500).json({
         success: false,
         error: {
           message: error.message || 'Internal server error',
-          code: 'SHIPPING_WEBHOOK_PROCESSING_FAILED'
+          code: error.code || 'SHIPPING_WEBHOOK_PROCESSING_FAILED'
         }
       });
     }
@@ -611,7 +977,8 @@ export class OnboardingController {
           if (onboarding) {
             await this.onboardingService.updateOnboardingStep(onboarding.id, {
               stepId: 'installation_completed',
-              metadata: { equipmentId, status }
+              metadata: { equipmentId, status },
+              actor: 'system:equipment-webhook'
             });
           }
           break;
@@ -621,7 +988,8 @@ export class OnboardingController {
           if (activeOnboarding) {
             await this.onboardingService.updateOnboardingStep(activeOnboarding.id, {
               stepId: 'service_activated',
-              metadata: { equipmentId, status }
+              metadata: { equipmentId, status },
+              actor: 'system:equipment-webhook'
             });
           }
           break;
@@ -632,11 +1000,11 @@ export class OnboardingController {
       res.json({ success: true, message: 'Equipment webhook processed' });
     } catch (error: any) {
       console.error('Error processing equipment webhook:', error);
-      res.status(500).json({
+      res.status(error.statusCode || 500).json({
         success: false,
         error: {
           message: error.message || 'Internal server error',
-          code: 'EQUIPMENT_WEBHOOK_PROCESSING_FAILED'
+          code: error.code || 'EQUIPMENT_WEBHOOK_PROCESSING_FAILED'
         }
       });
     }
@@ -1,40 +1,26 @@
 import { Router, Request, Response } from 'express';
 import { PaymentService, PaymentRequest } from '../services/payment.service';
-import { MockPaymentService } from '../services/mock-payment.service';
-import type { Pool } from 'pg';
+import { QueueService } from '../services/queue.service';
 
 export class PaymentController {
   public router: Router;
-  private paymentService: PaymentService | MockPaymentService;
-  private useMockData: boolean;
-  private provider: 'stripe' | 'peach';
+  private paymentService: PaymentService;
+  private queueService?: QueueService;
 
-  constructor(db: Pool) {
+  constructor(paymentService: PaymentService, queueService?: QueueService) {
     this.router = Router();
-    
-    // Determine provider and whether to use mock
-    this.provider = (process.env.PAYMENT_PROVIDER === 'peach' ? 'peach' : 'stripe');
-    // Use mock ONLY if explicitly enabled OR if provider is stripe and no valid key
-    const hasValidStripeKey = process.env.STRIPE_SECRET_KEY && 
-                             process.env.STRIPE_SECRET_KEY !== '' &&
-                             (process.env.STRIPE_SECRET_KEY as string).startsWith('sk_');
-    this.useMockData = process.env.USE_MOCK_PAYMENTS === 'true' || (this.provider === 'stripe' && !hasValidStripeKey);
-    
-    // Debug logging
-    console.log('[PaymentController] Configuration check:', {
-      USE_MOCK_PAYMENTS: process.env.USE_MOCK_PAYMENTS,
-      PAYMENT_PROVIDER: this.provider,
-      STRIPE_SECRET_KEY: process.env.STRIPE_SECRET_KEY ? 'present' : 'missing',
-      hasValidStripeKey: hasValidStripeKey,
-      useMockData: this.useMockData
-    });
+    this.paymentService = paymentService;
 
-    // Initialize appropriate service
-    this.paymentService = this.useMockData 
-      ? new MockPaymentService(db)
-      : new PaymentService(db, this.provider);
+    console.log(`[PaymentController] Using ${this.paymentService.defaultProvider.toUpperCase()} payment provider`);
 
-    console.log(`[PaymentController] Using ${this.useMockData ? 'MOCK' : this.provider.toUpperCase()} payment service`);
+    // Stored webhook events and scheduled reminders are processed by the payments queue worker
+    this.queueService = queueService;
+    if (this.queueService) {
+      this.paymentService.reminders.useQueue(this.queueService);
+      this.queueService.registerPaymentJobHandler(job => job.type === 'webhook-event'
+        ? this.paymentService.processWebhookEvent(job.eventId)
+        : this.paymentService.reminders.processReminderJob(job.paymentLinkId, job.sequence));
+    }
     
     this.setupRoutes();
   }
@@ -48,9 +34,23 @@ export class PaymentController {
     
     // Webhook endpoint (handles both Stripe and Peach Payment Links)
     this.router.post('/webhook', this.handleWebhook.bind(this));
+    this.router.post('/webhook/:provider', this.handleWebhook.bind(this));
+
+    // Stored webhook events (admin): list and replay failed or stuck ones
+    this.router.get('/webhooks/events', this.listWebhookEvents.bind(this));
+    this.router.post('/webhooks/events/:eventId/replay', this.replayWebhookEvent.bind(this));
     
     // Resend payment email
     this.router.post('/:paymentLinkId/resend', this.resendPaymentEmail.bind(this));
+
+    // Refunds (full or partial) of a paid link
+    this.router.post('/:paymentLinkId/refund', this.refundPayment.bind(this));
+    this.router.get('/:paymentLinkId/refunds', this.listRefunds.bind(this));
+
+    // Cancellation: a single link, or every pending link of an order cancelled upstream
+    this.router.post('/:paymentLinkId/cancel', this.cancelPaymentLink.bind(this));
+    this.router.post('/orders/:orderId/cancel', this.cancelOrderPaymentLinks.bind(this));
+    this.router.get('/:paymentLinkId/history', this.getStatusHistory.bind(this));
     
     // Mock checkout page is handled directly in server.ts to bypass authentication
   }
@@ -60,39 +60,18 @@ export class PaymentController {
     try {
       const sessionId = (req.query.session_id as string) || (req.body?.sessionId as string);
       const ref = (req.query.ref as string) || (req.body?.ref as string);
-      const isPeach = (this.provider === 'peach');
+      const reference = ref || sessionId;
 
-      if (isPeach) {
-        if (!ref && !sessionId) {
-          res.status(400).json({ success: false, error: { message: 'ref (Peach reference) is required' } });
-          return;
-        }
-        if (typeof (this.paymentService as any).confirmPeachReference !== 'function') {
-          res.status(400).json({ success: false, error: { message: 'Confirmation not available in mock mode' } });
-          return;
-        }
-        const result = await (this.paymentService as any).confirmPeachReference(ref || sessionId);
-        if (result && result.success) {
-          res.json({ success: true, orderId: result.orderId });
-        } else {
-          res.status(400).json({ success: false, error: { message: result?.error || 'Payment not confirmed' } });
-        }
+      if (!reference) {
+        res.status(400).json({ success: false, error: { message: 'session_id or ref is required' } });
         return;
       }
 
-      if (!sessionId) {
-        res.status(400).json({ success: false, error: { message: 'session_id is required' } });
-        return;
-      }
-      if (typeof (this.paymentService as any).confirmCheckoutSession !== 'function') {
-        res.status(400).json({ success: false, error: { message: 'Confirmation not available in mock mode' } });
-        return;
-      }
-      const result = await (this.paymentService as any).confirmCheckoutSession(sessionId);
-      if (result && result.success) {
+      const result = await this.paymentService.confirmPayment(reference);
+      if (result.success) {
         res.json({ success: true, orderId: result.orderId });
       } else {
-        res.status(400).json({ success: false, error: { message: result?.error || 'Payment not confirmed' } });
+        res.status(400).json({ success: false, error: { message: result.error || 'Payment not confirmed' } });
       }
     } catch (error: any) {
       console.error('[PaymentController] confirmPayment failed:', error);
@@ -127,8 +106,21 @@ export class PaymentController {
         return;
       }
 
+      // Optional provider selection: { provider: 'peach' } or { routingRules: [{ provider, orderTypes, minAmountCents, maxAmountCents }] }
+      const routingRules = req.body.routingRules ?? (req.body.routingRule ? [req.body.routingRule] : undefined);
+      if (routingRules !== undefined && (!Array.isArray(routingRules) || routingRules.some((rule: any) => !rule || typeof rule.provider !== 'string'))) {
+        res.status(400).json({
+          success: false,
+          error: { message: 'routingRules must be an array of rules, each with a provider' }
+        });
+        return;
+      }
+
       // Create payment link
-      const paymentLink = await this.paymentService.createPaymentLink(paymentRequest);
+      const paymentLink = await this.paymentService.createPaymentLink(paymentRequest, {
+        provider: req.body.provider,
+        routingRules
+      });
 
       // Send payment email in background; do not block payment creation on email failures
       this.paymentService
@@ -142,13 +134,14 @@ export class PaymentController {
         data: {
           paymentLinkId: paymentLink.id,
           paymentUrl: paymentLink.url,
+          provider: paymentLink.provider,
           expiresAt: paymentLink.expiresAt,
           emailSent: true
         }
       });
     } catch (error: any) {
       console.error('[PaymentController] Create payment request failed:', error);
-      res.status(500).json({
+      res.status(error.statusCode || 500).json({
         success: false,
         error: { message: error.message || 'Failed to create payment request' }
       });
@@ -174,47 +167,21 @@ export class PaymentController {
     }
   }
 
+  // Verify and store the event, acknowledge, then process it once from the payments queue
   private async handleWebhook(req: Request, res: Response): Promise<void> {
     try {
       // When using express.raw, req.body is a Buffer; pass both raw and parsed fallbacks
       const rawBody: Buffer | undefined = Buffer.isBuffer(req.body) ? (req.body as unknown as Buffer) : undefined;
       const webhookData = rawBody ?? req.body;
+      const headers = req.headers as Record<string, any>;
 
-      // For mock payments, handle differently
-      if (this.useMockData) {
-        if (!webhookData.id) {
-          res.status(400).json({ error: 'Invalid webhook data - missing session ID' });
-          return;
-        }
-
-        await this.paymentService.handleWebhook(webhookData);
-        res.json({ 
-          success: true,
-          message: 'Mock webhook processed successfully',
-          sessionId: webhookData.id 
-        });
-        return;
+      // /webhook/:provider routes to that provider; the legacy /webhook uses the default one
+      const { eventId, duplicate, needsProcessing } = await this.paymentService.ingestWebhook(webhookData, headers, req.params.provider);
+      if (needsProcessing) {
+        await this.dispatchWebhookEvent(eventId);
       }
 
-      if (this.provider === 'peach') {
-        // Forward body and headers to service for Peach HMAC verification
-        const headers = req.headers as Record<string, any>;
-        if (typeof (this.paymentService as any).handlePeachWebhook !== 'function') {
-          res.status(400).json({ error: 'Peach webhook not available' });
-          return;
-        }
-        await (this.paymentService as any).handlePeachWebhook(webhookData, headers);
-        res.json({ success: true, message: 'Peach webhook processed successfully' });
-      } else {
-        // Stripe: verify signature
-        const stripeSignature = req.headers['stripe-signature'] as string;
-        if (!stripeSignature) {
-          res.status(400).json({ error: 'Missing Stripe signature' });
-          return;
-        }
-        await this.paymentService.handleWebhook(webhookData, stripeSignature);
-        res.json({ success: true, message: 'Stripe webhook processed successfully' });
-      }
+      res.json({ success: true, received: true, eventId, duplicate });
     } catch (error: any) {
       console.error('[PaymentController] Webhook handling failed:', error);
       res.status(400).json({
@@ -224,21 +191,188 @@ export class PaymentController {
     }
   }
 
-  private async resendPaymentEmail(req: Request, res: Response): Promise<void> {
+  // Body: { amountCents?, reason }; without amountCents the remaining refundable amount is refunded
+  private async refundPayment(req: Request, res: Response): Promise<void> {
     try {
       const { paymentLinkId } = req.params;
-      
-      // Get payment link details from database
-      const result = await this.paymentService.getPaymentStatus(paymentLinkId);
-      
-      if (!result.success) {
-        res.status(404).json({
+      const { amountCents, reason } = req.body || {};
+
+      if (!reason || typeof reason !== 'string' || !reason.trim()) {
+        res.status(400).json({ success: false, error: { message: 'reason is required', code: 'VALIDATION_ERROR' } });
+        return;
+      }
+      if (amountCents !== undefined && (typeof amountCents !== 'number' || !Number.isInteger(amountCents) || amountCents <= 0)) {
+        res.status(400).json({ success: false, error: { message: 'amountCents must be a positive integer', code: 'VALIDATION_ERROR' } });
+        return;
+      }
+
+      const refund = await this.paymentService.refundPayment(paymentLinkId, {
+        amountCents,
+        reason: reason.trim(),
+        requestedBy: this.getActor(req),
+      });
+
+      if (refund.status === 'failed') {
+        res.status(502).json({
+          success: false,
+          error: { message: refund.failureReason || 'Refund was declined by the payment provider', code: 'REFUND_FAILED' },
+          data: refund
+        });
+        return;
+      }
+
+      // Pending refunds complete through the provider's refund webhooks
+      res.status(refund.status === 'succeeded' ? 200 : 202).json({
+        success: true,
+        data: refund
+      });
+    } catch (error: any) {
+      console.error('[PaymentController] Refund failed:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: { message: error.message || 'Failed to refund payment', code: error.code || 'REFUND_ERROR' }
+      });
+    }
+  }
+
+  private async listRefunds(req: Request, res: Response): Promise<void> {
+    try {
+      const refunds = await this.paymentService.refunds.listForLink(req.params.paymentLinkId);
+      res.json({ success: true, data: refunds });
+    } catch (error: any) {
+      console.error('[PaymentController] List refunds failed:', error);
+      res.status(500).json({
+        success: false,
+        error: { message: error.message || 'Failed to list refunds' }
+      });
+    }
+  }
+
+  private async cancelPaymentLink(req: Request, res: Response): Promise<void> {
+    try {
+      const link = await this.paymentService.cancelPaymentLink(req.params.paymentLinkId, {
+        reason: req.body?.reason,
+        actor: this.getActor(req),
+      });
+      res.json({ success: true, data: { id: link.id, orderId: link.orderId, provider: link.provider, status: link.status } });
+    } catch (error: any) {
+      console.error('[PaymentController] Cancel payment link failed:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: { message: error.message || 'Failed to cancel payment link', code: error.code || 'CANCEL_ERROR' }
+      });
+    }
+  }
+
+  private async cancelOrderPaymentLinks(req: Request, res: Response): Promise<void> {
+    try {
+      const links = await this.paymentService.cancelPaymentLinksForOrder(req.params.orderId, {
+        reason: req.body?.reason || 'Order cancelled',
+        actor: this.getActor(req),
+      });
+      res.json({
+        success: true,
+        data: { orderId: req.params.orderId, cancelled: links.map(link => link.id) }
+      });
+    } catch (error: any) {
+      console.error('[PaymentController] Cancel order payment links failed:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: { message: error.message || 'Failed to cancel payment links', code: error.code || 'CANCEL_ERROR' }
+      });
+    }
+  }
+
+  private async getStatusHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const history = await this.paymentService.getStatusHistory(req.params.paymentLinkId);
+      res.json({ success: true, data: history });
+    } catch (error: any) {
+      console.error('[PaymentController] Get payment link history failed:', error);
+      res.status(500).json({
+        success: false,
+        error: { message: error.message || 'Failed to get payment link history' }
+      });
+    }
+  }
+
+  // Authenticated user, else x-user-id header, else the calling service
+  private getActor(req: Request): string | undefined {
+    const requester = (req as any).user || {};
+    return requester.userId || requester.id || (req.headers['x-user-id'] as string) || undefined;
+  }
+
+  private async listWebhookEvents(req: Request, res: Response): Promise<void> {
+    try {
+      const { status, provider } = req.query as Record<string, string | undefined>;
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+      const offset = req.query.offset ? parseInt(req.query.offset as string, 10) : undefined;
+
+      const result = await this.paymentService.webhookEvents.list({ status, provider, limit, offset });
+
+      res.json({
+        success: true,
+        data: result.events,
+        total: result.total
+      });
+    } catch (error: any) {
+      console.error('[PaymentController] List webhook events failed:', error);
+      res.status(500).json({
+        success: false,
+        error: { message: error.message || 'Failed to list webhook events' }
+      });
+    }
+  }
+
+  private async replayWebhookEvent(req: Request, res: Response): Promise<void> {
+    try {
+      const eventId = parseInt(req.params.eventId, 10);
+      const event = Number.isNaN(eventId) ? null : await this.paymentService.webhookEvents.get(eventId);
+
+      if (!event) {
+        res.status(404).json({ success: false, error: { message: 'Webhook event not found' } });
+        return;
+      }
+      if (!this.paymentService.webhookEvents.isReplayable(event)) {
+        res.status(409).json({
           success: false,
-          error: { message: 'Payment link not found' }
+          error: { message: `Only failed events and events stuck in received or processing can be replayed (status: ${event.status})` }
         });
         return;
       }
 
+      await this.dispatchWebhookEvent(event.id);
+
+      res.json({
+        success: true,
+        message: 'Webhook event queued for replay',
+        data: { eventId: event.id }
+      });
+    } catch (error: any) {
+      console.error('[PaymentController] Replay webhook event failed:', error);
+      res.status(500).json({
+        success: false,
+        error: { message: error.message || 'Failed to replay webhook event' }
+      });
+    }
+  }
+
+  // Queue the event; without Redis, process it in the background so the provider still gets an immediate ack
+  private async dispatchWebhookEvent(eventId: number): Promise<void> {
+    const queued = this.queueService ? await this.queueService.addPaymentJob({ type: 'webhook-event', eventId }) : false;
+    if (queued) return;
+
+    setImmediate(() => {
+      this.paymentService.processWebhookEvent(eventId).catch((err: any) => {
+        console.warn(`[PaymentController] Inline webhook processing failed for event ${eventId}:`, err?.message || err);
+      });
+    });
+  }
+
+  private async resendPaymentEmail(req: Request, res: Response): Promise<void> {
+    try {
+      const { paymentLinkId } = req.params;
+      
       // Use the payment service to resend the email
       const resendResult = await this.paymentService.resendPaymentEmail(paymentLinkId);
       
@@ -270,14 +404,11 @@ export class PaymentController {
     try {
       const { checkoutId } = req.params;
       
-      if (!this.useMockData) {
-        res.status(404).json({ error: 'Mock checkout not available in production mode' });
+      const html = await this.paymentService.getHostedCheckoutPage(checkoutId);
+      if (html === null) {
+        res.status(404).send('<h1>Payment Link Not Found</h1>');
         return;
       }
-
-      // Type assertion since we know it's MockPaymentService in mock mode
-      const mockService = this.paymentService as MockPaymentService;
-      const html = await mockService.getMockCheckoutPage(checkoutId);
       
       res.setHeader('Content-Type', 'text/html');
       res.send(html);
@@ -0,0 +1,167 @@
+import { Request, Response, Router } from 'express';
+import { TemplateRegistryService } from '../services/template-registry.service';
+import { DEFAULT_TEMPLATE_LOCALE } from '../services/email-templates/template-engine';
+
+export class TemplateController {
+  private router: Router;
+
+  constructor(private templates: TemplateRegistryService) {
+    this.router = Router();
+    this.setupRoutes();
+  }
+
+  private setupRoutes(): void {
+    this.router.get('/', this.listTemplates.bind(this));
+    this.router.get('/:name/preview', this.previewTemplate.bind(this));
+    this.router.get('/:name/versions', this.listVersions.bind(this));
+    this.router.post('/:name/versions', this.createVersion.bind(this));
+    this.router.get('/:name/versions/:version', this.getVersion.bind(this));
+    this.router.patch('/:name/versions/:version', this.setVersionActive.bind(this));
+  }
+
+  public getRouter(): Router {
+    return this.router;
+  }
+
+  private async listTemplates(req: Request, res: Response): Promise<void> {
+    try {
+      const templates = await this.templates.listTemplates();
+      res.json({
+        success: true,
+        data: templates.map(({ html, text, ...summary }) => summary),
+        total: templates.length,
+      });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: { message: error.message || 'Failed to list templates', code: 'TEMPLATE_LIST_FAILED' } });
+    }
+  }
+
+  /**
+   * Render a template with its sample variables. Query: locale, version, variables
+   * (JSON object of overrides) and format=html to return the HTML body on its own.
+   */
+  private async previewTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      const { locale, format } = req.query as Record<string, string | undefined>;
+      const version = this.parseVersion(req.query.version as string | undefined);
+      if (version === null) {
+        res.status(400).json({ success: false, error: { message: 'version must be a number', code: 'INVALID_TEMPLATE_VERSION' } });
+        return;
+      }
+
+      let variables: Record<string, any> | undefined;
+      if (req.query.variables) {
+        try {
+          variables = JSON.parse(req.query.variables as string);
+        } catch {
+          variables = undefined;
+        }
+        if (!variables || typeof variables !== 'object' || Array.isArray(variables)) {
+          res.status(400).json({ success: false, error: { message: 'variables must be a JSON object', code: 'INVALID_TEMPLATE_VARIABLES' } });
+          return;
+        }
+      }
+
+      const preview = await this.templates.preview(req.params.name, { locale, version, variables });
+      if (format === 'html') {
+        res.type('html').send(preview.html);
+        return;
+      }
+      res.json({ success: true, data: preview });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: { message: error.message || 'Failed to preview template', code: error.code || 'TEMPLATE_PREVIEW_FAILED' }
+      });
+    }
+  }
+
+  private async listVersions(req: Request, res: Response): Promise<void> {
+    try {
+      const versions = await this.templates.listVersions(req.params.name, req.query.locale as string | undefined);
+      if (versions.length === 0) {
+        res.status(404).json({ success: false, error: { message: 'Template not found', code: 'TEMPLATE_NOT_FOUND' } });
+        return;
+      }
+      res.json({ success: true, data: versions, total: versions.length });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: { message: error.message || 'Failed to list template versions', code: 'TEMPLATE_LIST_FAILED' } });
+    }
+  }
+
+  private async getVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const version = this.parseVersion(req.params.version);
+      if (version === null || version === undefined) {
+        res.status(400).json({ success: false, error: { message: 'version must be a number', code: 'INVALID_TEMPLATE_VERSION' } });
+        return;
+      }
+
+      const template = await this.templates.getTemplate(req.params.name, { locale: req.query.locale as string | undefined, version });
+      if (!template) {
+        res.status(404).json({ success: false, error: { message: 'Template not found', code: 'TEMPLATE_NOT_FOUND' } });
+        return;
+      }
+      res.json({ success: true, data: template });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: { message: error.message || 'Failed to fetch template', code: 'TEMPLATE_FETCH_FAILED' } });
+    }
+  }
+
+  // Publishes a new immutable version that becomes live for its locale immediately
+  private async createVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const { locale, kind, description, subject, html, text, sampleVariables } = req.body || {};
+      if (!html || !text) {
+        res.status(400).json({ success: false, error: { message: 'html and text are required', code: 'INVALID_TEMPLATE' } });
+        return;
+      }
+
+      const template = await this.templates.createVersion({
+        name: req.params.name,
+        locale,
+        kind,
+        description,
+        subject,
+        html,
+        text,
+        sampleVariables,
+        createdBy: (req.headers['x-user-id'] as string) || undefined,
+      });
+
+      res.status(201).json({ success: true, data: template });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: { message: error.message || 'Failed to create template version', code: error.code || 'TEMPLATE_CREATE_FAILED' }
+      });
+    }
+  }
+
+  private async setVersionActive(req: Request, res: Response): Promise<void> {
+    try {
+      const { name } = req.params;
+      const version = this.parseVersion(req.params.version);
+      const { isActive, locale } = req.body || {};
+      if (typeof isActive !== 'boolean' || !version) {
+        res.status(400).json({ success: false, error: { message: 'published version and boolean isActive are required', code: 'INVALID_TEMPLATE_UPDATE' } });
+        return;
+      }
+
+      await this.templates.setVersionActive(name, locale || DEFAULT_TEMPLATE_LOCALE, version, isActive);
+      res.json({ success: true, message: `Template ${name} v${version} ${isActive ? 'activated' : 'deactivated'}` });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: { message: error.message || 'Failed to update template', code: error.code || 'TEMPLATE_UPDATE_FAILED' }
+      });
+    }
+  }
+
+  // undefined when absent, null when not a number
+  private parseVersion(raw: string | undefined): number | undefined | null {
+    if (raw === undefined || raw === '') return undefined;
+    const version = parseInt(raw, 10);
+    return isNaN(version) || version < 0 ? null : version;
+  }
+}
@@ -1,5 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 
+// True when the request carries the shared service key (ONBOARDING_SERVICE_API_KEY)
+export function hasValidServiceKey(req: Request): boolean {
+  const serviceKey = req.headers['x-service-key'] as string;
+  const expectedServiceKey = process.env.ONBOARDING_SERVICE_API_KEY || 'default-service-key';
+  return Boolean(serviceKey) && serviceKey === expectedServiceKey;
+}
+
 /**
  * Service Authentication Middleware
  * Ensures only authorized services (like the main OMS server) can access payment endpoints
@@ -7,7 +14,6 @@ import { Request, Response, NextFunction } from 'express';
 export function serviceAuthMiddleware(req: Request, res: Response, next: NextFunction): void {
   const serviceKey = req.headers['x-service-key'] as string;
   const forwardedFrom = req.headers['x-forwarded-from'] as string;
-  const expectedServiceKey = process.env.ONBOARDING_SERVICE_API_KEY || 'default-service-key';
 
   // Allow webhook endpoints to bypass service auth (they need to be publicly accessible)
   if (req.path === '/webhook' && req.method === 'POST') {
@@ -16,7 +22,7 @@ export function serviceAuthMiddleware(req: Request, res: Response, next: NextFun
   }
 
   // Check for service authentication
-  if (!serviceKey || serviceKey !== expectedServiceKey) {
+  if (!hasValidServiceKey(req)) {
     console.warn('[ServiceAuth] Unauthorized service access attempt:', {
       path: req.path,
       method: req.method,
@@ -0,0 +1,63 @@
+-- Versioned onboarding workflow definitions
+-- Replaces the step lists previously hard-coded in OnboardingService, QueueService and SlaService
+
+CREATE TABLE IF NOT EXISTS onboarding_workflow_definitions (
+  id SERIAL PRIMARY KEY,
+  workflow_key VARCHAR(100) NOT NULL,
+  version INTEGER NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  description TEXT NULL,
+  applies_to JSONB NOT NULL DEFAULT '{}'::jsonb, -- { onboardingTypes?, customerTypes?, serviceTypes? }
+  priority INTEGER NOT NULL DEFAULT 0,
+  steps JSONB NOT NULL, -- ordered [{ id, name, description, slaHours, weight, next? }]
+  is_active BOOLEAN DEFAULT TRUE,
+  created_by VARCHAR(255) NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (workflow_key, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_definitions_active ON onboarding_workflow_definitions(is_active, workflow_key);
+
+-- Pin each onboarding to the definition version it started on
+ALTER TABLE IF EXISTS customer_onboarding
+  ADD COLUMN IF NOT EXISTS workflow_key VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS workflow_version INTEGER;
+
+-- Seed the canonical 10-step workflow (must match DEFAULT_WORKFLOW_DEFINITION in workflow.service.ts)
+INSERT INTO onboarding_workflow_definitions (workflow_key, version, name, description, applies_to, priority, steps, created_by)
+VALUES (
+  'standard',
+  1,
+  'Standard Onboarding',
+  'Canonical 10-step onboarding workflow',
+  '{}'::jsonb,
+  0,
+  '[
+    {"id": "initiated", "name": "Onboarding Initiated", "description": "Onboarding process has been started", "slaHours": 2, "weight": 10},
+    {"id": "welcome_sent", "name": "Welcome Email Sent", "description": "Welcome email has been sent to customer", "slaHours": 2, "weight": 10},
+    {"id": "service_setup", "name": "Service Configuration", "description": "Configure service parameters and account setup", "slaHours": 24, "weight": 15},
+    {"id": "equipment_ordered", "name": "Equipment Ordered", "description": "Equipment has been ordered for installation", "slaHours": 48, "weight": 10},
+    {"id": "equipment_shipped", "name": "Equipment Shipped", "description": "Equipment has been shipped to customer", "slaHours": 72, "weight": 15},
+    {"id": "installation_scheduled", "name": "Installation Scheduled", "description": "Installation appointment has been scheduled", "slaHours": 24, "weight": 10},
+    {"id": "installation_completed", "name": "Installation Completed", "description": "Service installation has been completed", "slaHours": 24, "weight": 15},
+    {"id": "service_activated", "name": "Service Activated", "description": "Service has been activated and tested", "slaHours": 12, "weight": 10},
+    {"id": "follow_up", "name": "Follow-up & Support", "description": "Post-activation follow-up and support setup", "slaHours": 168, "weight": 5},
+    {"id": "completed", "name": "Onboarding Completed", "description": "Onboarding process has been completed successfully", "slaHours": 0, "weight": 0}
+  ]'::jsonb,
+  'migration'
+)
+ON CONFLICT (workflow_key, version) DO NOTHING;
+
+-- Existing onboardings followed the standard workflow
+DO $$
+BEGIN
+  IF to_regclass('customer_onboarding') IS NOT NULL THEN
+    UPDATE customer_onboarding
+       SET workflow_key = 'standard', workflow_version = 1
+     WHERE workflow_key IS NULL;
+  END IF;
+END $$;
+
+COMMENT ON TABLE onboarding_workflow_definitions IS 'Versioned onboarding workflow definitions (steps, order, branching, SLA, completion weight)';
+COMMENT ON COLUMN onboarding_workflow_definitions.applies_to IS 'Selector used by initiateOnboarding: onboardingTypes, customerTypes, serviceTypes';
+COMMENT ON COLUMN onboarding_workflow_definitions.steps IS 'Ordered step list; rows are immutable once published, changes create a new version';
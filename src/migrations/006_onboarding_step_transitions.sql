@@ -0,0 +1,46 @@
+-- Append-only step-transition log for onboarding instances
+-- Every step update writes one row: who moved the onboarding, from which step, to which step, and why
+
+CREATE TABLE IF NOT EXISTS onboarding_step_transitions (
+  id BIGSERIAL PRIMARY KEY,
+  onboarding_id UUID NOT NULL,
+  from_step VARCHAR(50) NULL,
+  to_step VARCHAR(50) NOT NULL,
+  action VARCHAR(20) NOT NULL DEFAULT 'advance', -- advance, backfill
+  actor VARCHAR(255) NULL, -- x-user-id of the caller, or system:<component>
+  notes TEXT NULL,
+  metadata JSONB NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_step_transitions_onboarding_id ON onboarding_step_transitions(onboarding_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_step_transitions_to_step ON onboarding_step_transitions(to_step, created_at);
+
+-- Reject UPDATE/DELETE so the log stays append-only
+CREATE OR REPLACE FUNCTION prevent_step_transition_mutation() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'onboarding_step_transitions is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_step_transitions_append_only ON onboarding_step_transitions;
+CREATE TRIGGER trg_step_transitions_append_only
+  BEFORE UPDATE OR DELETE ON onboarding_step_transitions
+  FOR EACH ROW EXECUTE FUNCTION prevent_step_transition_mutation();
+
+-- Existing onboardings only know their current step; record it once so history is never empty
+DO $$
+BEGIN
+  IF to_regclass('customer_onboarding') IS NOT NULL THEN
+    INSERT INTO onboarding_step_transitions (onboarding_id, from_step, to_step, action, notes, created_at)
+    SELECT co.id, NULL, co.current_step, 'backfill', 'Backfilled from customer_onboarding.current_step', co.started_at
+      FROM customer_onboarding co
+     WHERE NOT EXISTS (
+       SELECT 1 FROM onboarding_step_transitions t WHERE t.onboarding_id = co.id
+     );
+  END IF;
+END $$;
+
+COMMENT ON TABLE onboarding_step_transitions IS 'Append-only log of onboarding step transitions (actor, timestamps, notes, metadata)';
+COMMENT ON COLUMN onboarding_step_transitions.action IS 'Transition kind: advance, backfill';
+COMMENT ON COLUMN onboarding_step_transitions.actor IS 'User id from x-user-id, or system:<component> for automated transitions';
@@ -0,0 +1,25 @@
+-- Explicit skip/rollback transitions for the onboarding state machine
+-- Skips and rollbacks must carry a reason; the action column is restricted to known kinds
+
+ALTER TABLE IF EXISTS onboarding_step_transitions
+  ADD COLUMN IF NOT EXISTS reason TEXT NULL;
+
+DO $$
+BEGIN
+  IF to_regclass('onboarding_step_transitions') IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_step_transitions_action') THEN
+    ALTER TABLE onboarding_step_transitions
+      ADD CONSTRAINT chk_step_transitions_action
+      CHECK (action IN ('advance', 'skip', 'rollback', 'backfill'));
+  END IF;
+
+  IF to_regclass('onboarding_step_transitions') IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_step_transitions_reason') THEN
+    ALTER TABLE onboarding_step_transitions
+      ADD CONSTRAINT chk_step_transitions_reason
+      CHECK (action NOT IN ('skip', 'rollback') OR COALESCE(BTRIM(reason), '') <> '');
+  END IF;
+END $$;
+
+COMMENT ON COLUMN onboarding_step_transitions.action IS 'Transition kind: advance, skip, rollback, backfill';
+COMMENT ON COLUMN onboarding_step_transitions.reason IS 'Why a step was skipped or rolled back';
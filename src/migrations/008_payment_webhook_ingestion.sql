@@ -0,0 +1,30 @@
+-- Idempotent payment webhook ingestion
+-- Webhooks are stored once per provider event id, acknowledged, then processed from the payments queue
+
+ALTER TABLE IF EXISTS payment_webhook_events
+  ADD COLUMN IF NOT EXISTS provider VARCHAR(20),
+  ADD COLUMN IF NOT EXISTS provider_event_id VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS status VARCHAR(20) DEFAULT 'received', -- received, processing, processed, failed, legacy
+  ADD COLUMN IF NOT EXISTS attempts INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_error TEXT NULL;
+
+-- Retried deliveries of the same provider event collapse onto one row
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_webhook_events_provider_event
+  ON payment_webhook_events (provider, provider_event_id)
+  WHERE provider_event_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payment_webhook_events_status
+  ON payment_webhook_events (status, created_at);
+
+-- Rows written before this migration were processed inline with no outcome recorded
+UPDATE payment_webhook_events
+   SET status = 'legacy',
+       provider = COALESCE(provider, CASE WHEN event_type LIKE 'payment_links_%' THEN 'peach'
+                                          WHEN event_type LIKE 'mock_%' THEN 'mock'
+                                          ELSE 'stripe' END)
+ WHERE provider_event_id IS NULL AND (status IS NULL OR status = 'received');
+
+COMMENT ON TABLE payment_webhook_events IS 'Payment provider webhook events (Stripe, Peach, mock), deduplicated by provider event id';
+COMMENT ON COLUMN payment_webhook_events.provider_event_id IS 'Stripe event id, or paymentId:status for Peach Payment Links';
+COMMENT ON COLUMN payment_webhook_events.status IS 'received, processing, processed, failed; legacy for rows stored before queued processing';
+COMMENT ON COLUMN payment_webhook_events.last_error IS 'Error from the most recent failed processing attempt';
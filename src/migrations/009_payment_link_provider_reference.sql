@@ -0,0 +1,14 @@
+-- Provider-neutral reference for payment links
+-- Each provider's checkout id (Stripe session id, Peach payment link id, mock reference) lives in one column
+
+ALTER TABLE IF EXISTS payment_links
+  ADD COLUMN IF NOT EXISTS provider_reference VARCHAR(255);
+
+-- Stripe rows stored stripe_migration_<session> in peach_checkout_id, so prefer the session id
+UPDATE payment_links
+   SET provider_reference = COALESCE(stripe_session_id, peach_checkout_id)
+ WHERE provider_reference IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payment_links_provider_reference ON payment_links(provider_reference);
+
+COMMENT ON COLUMN payment_links.provider_reference IS 'Checkout id at the payment provider (Stripe session id, Peach payment link id, mock reference)';
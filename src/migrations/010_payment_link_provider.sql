@@ -0,0 +1,18 @@
+-- Record which provider issued each payment link so several providers can be live at once
+-- Status, confirm, webhook and reconcile calls route by this column instead of PAYMENT_PROVIDER
+
+ALTER TABLE IF EXISTS payment_links
+  ADD COLUMN IF NOT EXISTS provider VARCHAR(20);
+
+-- Infer the provider of existing links from the columns each integration wrote
+UPDATE payment_links
+   SET provider = CASE
+     WHEN stripe_session_id IS NOT NULL THEN 'stripe'
+     WHEN peach_checkout_id LIKE 'mock_%' OR id LIKE 'mock_%' THEN 'mock'
+     ELSE 'peach'
+   END
+ WHERE provider IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payment_links_provider_status ON payment_links(provider, status);
+
+COMMENT ON COLUMN payment_links.provider IS 'Payment provider that issued the link: stripe, peach, mock';
@@ -0,0 +1,32 @@
+-- Full and partial refunds of paid payment links
+-- One row per refund request; provider refund webhooks move it pending -> succeeded | failed
+
+CREATE TABLE IF NOT EXISTS payment_refunds (
+  id SERIAL PRIMARY KEY,
+  payment_link_id VARCHAR(255) NOT NULL REFERENCES payment_links(id),
+  order_id UUID NOT NULL,
+  provider VARCHAR(20) NOT NULL,
+  provider_refund_id VARCHAR(255) NULL,
+  amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+  currency VARCHAR(3) DEFAULT 'ZAR',
+  reason TEXT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  failure_reason TEXT NULL,
+  requested_by VARCHAR(255) NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMP NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_refunds_provider_refund
+  ON payment_refunds (provider, provider_refund_id)
+  WHERE provider_refund_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_payment_link_id ON payment_refunds(payment_link_id);
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_order_id ON payment_refunds(order_id);
+
+COMMENT ON TABLE payment_refunds IS 'Refunds of paid payment links, full or partial';
+COMMENT ON COLUMN payment_refunds.provider_refund_id IS 'Stripe refund id or mock refund reference';
+COMMENT ON COLUMN payment_refunds.status IS 'pending, succeeded, failed; pending and succeeded refunds count against the refundable amount';
+COMMENT ON COLUMN payment_refunds.requested_by IS 'User who requested the refund, or provider:webhook for refunds made at the gateway';
+COMMENT ON COLUMN payment_links.status IS 'Payment status: pending, paid, partially_refunded, refunded, expired, cancelled, failed';
@@ -0,0 +1,32 @@
+-- Payment link cancellation, explicit expiry and reissue
+-- Every payment_links.status change is recorded in payment_link_status_changes
+
+CREATE TABLE IF NOT EXISTS payment_link_status_changes (
+  id SERIAL PRIMARY KEY,
+  payment_link_id VARCHAR(255) NOT NULL REFERENCES payment_links(id),
+  from_status VARCHAR(50) NULL, -- NULL for the row written when the link is created
+  to_status VARCHAR(50) NOT NULL,
+  reason TEXT NULL,
+  actor VARCHAR(255) NULL,
+  metadata JSONB NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_link_status_changes_link
+  ON payment_link_status_changes (payment_link_id, created_at);
+
+ALTER TABLE IF EXISTS payment_links
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP NULL,
+  ADD COLUMN IF NOT EXISTS request_payload JSONB NULL,
+  ADD COLUMN IF NOT EXISTS reissued_from VARCHAR(255) NULL REFERENCES payment_links(id),
+  ADD COLUMN IF NOT EXISTS replaced_by VARCHAR(255) NULL REFERENCES payment_links(id);
+
+-- Expiry sweep looks for pending links past expires_at
+CREATE INDEX IF NOT EXISTS idx_payment_links_pending_expires_at
+  ON payment_links (expires_at)
+  WHERE status = 'pending';
+
+COMMENT ON TABLE payment_link_status_changes IS 'Audit trail of payment link status changes (paid, failed, expired, cancelled, refunds)';
+COMMENT ON COLUMN payment_links.request_payload IS 'PaymentRequest the link was created from; needed to reissue an expired link';
+COMMENT ON COLUMN payment_links.reissued_from IS 'Expired link this link replaces';
+COMMENT ON COLUMN payment_links.replaced_by IS 'Link issued to replace this one after it expired';
@@ -0,0 +1,20 @@
+-- Scheduled payment reminders
+-- Each reminder is a delayed job on the payments queue, tracked in payment_notifications
+-- scheduled -> sent | failed | cancelled (cancelled when the link is paid, expired or cancelled)
+
+ALTER TABLE IF EXISTS payment_notifications
+  ADD COLUMN IF NOT EXISTS scheduled_for TIMESTAMP NULL,
+  ADD COLUMN IF NOT EXISTS job_id VARCHAR(255) NULL,
+  ADD COLUMN IF NOT EXISTS reminder_sequence INTEGER NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_notifications_job_id
+  ON payment_notifications (job_id)
+  WHERE job_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payment_notifications_link_status
+  ON payment_notifications (payment_link_id, status);
+
+COMMENT ON COLUMN payment_notifications.status IS 'scheduled, pending, sent, failed, cancelled, bounced';
+COMMENT ON COLUMN payment_notifications.scheduled_for IS 'When a scheduled reminder is due';
+COMMENT ON COLUMN payment_notifications.job_id IS 'BullMQ job id of the delayed reminder on the payments queue';
+COMMENT ON COLUMN payment_notifications.reminder_sequence IS '1-based position in PAYMENT_REMINDER_SCHEDULE';
@@ -0,0 +1,14 @@
+-- Correlate provider payment attempts with payment links and keep the failure reason
+-- Stripe payment_intent.* events carry the payment intent id, not the checkout session id
+
+ALTER TABLE IF EXISTS payment_links
+  ADD COLUMN IF NOT EXISTS stripe_payment_intent_id VARCHAR(255) NULL,
+  ADD COLUMN IF NOT EXISTS failure_reason TEXT NULL,
+  ADD COLUMN IF NOT EXISTS failed_at TIMESTAMP NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_links_stripe_payment_intent_id
+  ON payment_links (stripe_payment_intent_id)
+  WHERE stripe_payment_intent_id IS NOT NULL;
+
+COMMENT ON COLUMN payment_links.stripe_payment_intent_id IS 'Stripe PaymentIntent created by the checkout session';
+COMMENT ON COLUMN payment_links.failure_reason IS 'Reason given by the provider for the most recent failed payment attempt';
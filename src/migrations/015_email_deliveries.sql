@@ -0,0 +1,25 @@
+-- Outgoing email log for the email queue worker
+-- One row per send attempt: sent, failed (the job retries) or skipped (no recipient)
+
+CREATE TABLE IF NOT EXISTS email_deliveries (
+  id BIGSERIAL PRIMARY KEY,
+  template VARCHAR(100) NOT NULL,
+  email_type VARCHAR(50) NULL, -- EmailJobData.type
+  recipient VARCHAR(255) NULL,
+  subject TEXT NULL,
+  customer_id VARCHAR(255) NULL,
+  onboarding_id UUID NULL,
+  transport VARCHAR(100) NULL, -- transport that delivered (or last attempted) the message
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, sent, failed, skipped
+  provider_message_id VARCHAR(255) NULL,
+  error_message TEXT NULL,
+  variables JSONB NULL,
+  job_id VARCHAR(255) NULL,
+  attempt INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  sent_at TIMESTAMP NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_customer ON email_deliveries(customer_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_onboarding ON email_deliveries(onboarding_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_status ON email_deliveries(status, created_at);
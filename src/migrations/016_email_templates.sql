@@ -0,0 +1,31 @@
+-- Versioned email templates and partials
+-- Published rows are immutable; editing copy publishes a new version per (name, locale).
+-- Templates without a published version fall back to the built-in copy in src/services/email-templates.
+
+CREATE TABLE IF NOT EXISTS email_templates (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  locale VARCHAR(20) NOT NULL DEFAULT 'en', -- en, af, af-ZA, ...
+  version INTEGER NOT NULL,
+  kind VARCHAR(20) NOT NULL DEFAULT 'template', -- template, partial
+  description TEXT NULL,
+  subject TEXT NOT NULL DEFAULT '',
+  html TEXT NOT NULL,
+  text TEXT NOT NULL,
+  sample_variables JSONB NULL,
+  is_active BOOLEAN DEFAULT TRUE,
+  created_by VARCHAR(255) NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (name, locale, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_templates_active ON email_templates(name, locale, is_active, version DESC);
+
+-- Which template version produced each email
+ALTER TABLE IF EXISTS email_deliveries
+  ADD COLUMN IF NOT EXISTS template_locale VARCHAR(20) NULL,
+  ADD COLUMN IF NOT EXISTS template_version INTEGER NULL;
+
+COMMENT ON TABLE email_templates IS 'Versioned email templates and partials; the latest active version per (name, locale) is used';
+COMMENT ON COLUMN email_templates.version IS 'Per (name, locale); 0 is reserved for the built-in copy';
+COMMENT ON COLUMN email_templates.sample_variables IS 'Variables used by GET /api/templates/:name/preview';
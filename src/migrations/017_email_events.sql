@@ -0,0 +1,56 @@
+-- Email engagement events (delivered, opened, clicked, bounced, complained) from POST /webhooks/email
+-- Events are matched to the send they belong to by provider message id, then by explicit ids, then by recipient
+
+CREATE TABLE IF NOT EXISTS email_events (
+  id BIGSERIAL PRIMARY KEY,
+  provider_event_id VARCHAR(255) NULL,
+  event_type VARCHAR(20) NOT NULL, -- delivered, opened, clicked, bounced, complained
+  recipient VARCHAR(255) NULL,
+  provider_message_id VARCHAR(255) NULL,
+  email_delivery_id BIGINT NULL REFERENCES email_deliveries(id),
+  payment_notification_id INTEGER NULL REFERENCES payment_notifications(id),
+  customer_id VARCHAR(255) NULL,
+  onboarding_id UUID NULL,
+  payment_link_id VARCHAR(255) NULL,
+  url TEXT NULL, -- clicked link
+  bounce_type VARCHAR(20) NULL, -- hard, soft
+  reason TEXT NULL,
+  payload JSONB NULL,
+  occurred_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_events_provider_event_id
+  ON email_events (provider_event_id)
+  WHERE provider_event_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_email_events_customer ON email_events(customer_id, event_type, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_email_events_recipient ON email_events(lower(recipient), occurred_at);
+
+-- First engagement per send
+ALTER TABLE IF EXISTS email_deliveries
+  ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMP NULL,
+  ADD COLUMN IF NOT EXISTS opened_at TIMESTAMP NULL,
+  ADD COLUMN IF NOT EXISTS clicked_at TIMESTAMP NULL,
+  ADD COLUMN IF NOT EXISTS bounced_at TIMESTAMP NULL;
+
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_message_id
+  ON email_deliveries (provider_message_id)
+  WHERE provider_message_id IS NOT NULL;
+
+ALTER TABLE IF EXISTS payment_notifications
+  ADD COLUMN IF NOT EXISTS provider_message_id VARCHAR(255) NULL,
+  ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMP NULL,
+  ADD COLUMN IF NOT EXISTS opened_at TIMESTAMP NULL,
+  ADD COLUMN IF NOT EXISTS clicked_at TIMESTAMP NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payment_notifications_message_id
+  ON payment_notifications (provider_message_id)
+  WHERE provider_message_id IS NOT NULL;
+
+-- A hard bounce marks the address invalid and pauses automated sends to it
+ALTER TABLE IF EXISTS customers
+  ADD COLUMN IF NOT EXISTS email_invalid BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS email_invalid_at TIMESTAMP NULL,
+  ADD COLUMN IF NOT EXISTS email_invalid_reason TEXT NULL;
+
+COMMENT ON COLUMN customers.email_invalid IS 'Set by a hard bounce or complaint; cleared by a later delivered event';
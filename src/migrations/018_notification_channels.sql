@@ -0,0 +1,40 @@
+-- Notification channels beyond email: per-customer channel preferences and an SMS/WhatsApp send log
+
+-- One row per customer and channel once the customer (or an operator) sets a preference;
+-- customers without a row get NOTIFICATION_DEFAULT_CHANNELS
+CREATE TABLE IF NOT EXISTS customer_notification_preferences (
+  customer_id VARCHAR(255) NOT NULL,
+  channel VARCHAR(20) NOT NULL, -- email, sms, whatsapp
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  destination VARCHAR(255) NULL, -- overrides customers.email / customers.phone for this channel
+  opted_out_at TIMESTAMP NULL,
+  opt_out_reason TEXT NULL,
+  updated_by VARCHAR(255) NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (customer_id, channel)
+);
+
+-- One row per SMS/WhatsApp send attempt (email keeps using email_deliveries)
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id BIGSERIAL PRIMARY KEY,
+  channel VARCHAR(20) NOT NULL, -- sms, whatsapp
+  template VARCHAR(100) NOT NULL,
+  notification_type VARCHAR(50) NULL, -- NotificationJobData.type
+  recipient VARCHAR(255) NULL,
+  body TEXT NULL,
+  customer_id VARCHAR(255) NULL,
+  onboarding_id UUID NULL,
+  transport VARCHAR(100) NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, sent, failed, skipped
+  provider_message_id VARCHAR(255) NULL,
+  error_message TEXT NULL,
+  job_id VARCHAR(255) NULL,
+  attempt INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  sent_at TIMESTAMP NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_customer ON notification_deliveries(customer_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_onboarding ON notification_deliveries(onboarding_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_status ON notification_deliveries(channel, status, created_at);
@@ -0,0 +1,17 @@
+-- Trial lifecycle: expiry warnings, grace period and suspension/closure of lapsed trials
+-- trial_status: active -> grace -> suspended | closed, or converted at any point before closure
+
+ALTER TABLE IF EXISTS customer_onboarding
+  ADD COLUMN IF NOT EXISTS trial_status VARCHAR(20) NULL, -- NULL for non-trial onboardings
+  ADD COLUMN IF NOT EXISTS trial_status_changed_at TIMESTAMP NULL,
+  ADD COLUMN IF NOT EXISTS trial_grace_ends_at TIMESTAMP NULL,
+  ADD COLUMN IF NOT EXISTS trial_warnings_sent INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS trial_last_warning_at TIMESTAMP NULL;
+
+UPDATE customer_onboarding
+   SET trial_status = 'active', trial_status_changed_at = NOW()
+ WHERE onboarding_type = 'trial' AND completed_at IS NULL AND trial_status IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_customer_onboarding_trial_status
+  ON customer_onboarding (trial_status, trial_grace_ends_at)
+  WHERE trial_status IS NOT NULL;
@@ -0,0 +1,24 @@
+-- Paid trial conversions: the trial stays in pending_conversion until the order's payment link is paid
+
+CREATE TABLE IF NOT EXISTS trial_conversions (
+  id UUID PRIMARY KEY,
+  onboarding_id UUID NOT NULL,
+  customer_id UUID NOT NULL,
+  order_id UUID NULL, -- NULL when converted without a payment
+  payment_link_id VARCHAR(255) NULL,
+  service_package JSONB NULL,
+  amount_cents INTEGER NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending_payment', -- pending_payment, completed, expired, cancelled
+  previous_trial_status VARCHAR(20) NULL, -- restored when the payment never arrives
+  requested_by VARCHAR(255) NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMP NULL
+);
+
+-- One conversion awaiting payment per onboarding
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trial_conversions_pending
+  ON trial_conversions (onboarding_id)
+  WHERE status = 'pending_payment';
+
+CREATE INDEX IF NOT EXISTS idx_trial_conversions_order ON trial_conversions (order_id);
@@ -0,0 +1,36 @@
+-- Trial outcomes for conversion analytics: converted, expired (grace period ended and the trial was
+-- suspended) or cancelled (grace period ended and the trial was closed, TRIAL_GRACE_ACTION=close).
+-- A paid conversion whose payment link expired or was cancelled is not an outcome: the trial
+-- carries on and the attempt stays in trial_conversions.
+-- A trial can have several events, e.g. expired and later converted; analytics use the latest
+-- one per onboarding.
+
+CREATE TABLE IF NOT EXISTS trial_conversion_events (
+  id BIGSERIAL PRIMARY KEY,
+  onboarding_id UUID NOT NULL,
+  customer_id UUID NOT NULL,
+  outcome VARCHAR(20) NOT NULL, -- converted, expired, cancelled
+  campaign VARCHAR(255) NULL, -- NULL is reported as "unattributed"
+  conversion_id UUID NULL, -- trial_conversions.id for converted
+  trial_started_at TIMESTAMP NULL,
+  occurred_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  metadata JSONB NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_trial_conversion_events_onboarding ON trial_conversion_events (onboarding_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_trial_conversion_events_occurred ON trial_conversion_events (occurred_at, outcome);
+
+ALTER TABLE IF EXISTS trial_conversions
+  ADD COLUMN IF NOT EXISTS campaign VARCHAR(255) NULL;
+
+-- Backfill outcomes of trials that ended before events were recorded
+INSERT INTO trial_conversion_events (onboarding_id, customer_id, outcome, trial_started_at, occurred_at, metadata)
+SELECT co.id, co.customer_id,
+       CASE co.trial_status WHEN 'converted' THEN 'converted' WHEN 'closed' THEN 'cancelled' ELSE 'expired' END,
+       COALESCE(c.trial_start_date, co.started_at),
+       COALESCE(co.trial_status_changed_at, NOW()),
+       '{"backfilled": true}'::jsonb
+  FROM customer_onboarding co
+  JOIN customers c ON c.id = co.customer_id
+ WHERE co.trial_status IN ('converted', 'suspended', 'closed')
+   AND NOT EXISTS (SELECT 1 FROM trial_conversion_events e WHERE e.onboarding_id = co.id);
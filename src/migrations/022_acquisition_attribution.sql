@@ -0,0 +1,22 @@
+-- UTM-style acquisition attribution on customers and onboardings.
+-- An onboarding copies its customer's attribution unless the initiate request gives its own.
+
+ALTER TABLE IF EXISTS customers
+  ADD COLUMN IF NOT EXISTS attribution_campaign VARCHAR(255) NULL,
+  ADD COLUMN IF NOT EXISTS attribution_channel VARCHAR(255) NULL,
+  ADD COLUMN IF NOT EXISTS attribution_referrer VARCHAR(255) NULL,
+  ADD COLUMN IF NOT EXISTS attribution_promo_code VARCHAR(255) NULL;
+
+ALTER TABLE IF EXISTS customer_onboarding
+  ADD COLUMN IF NOT EXISTS attribution_campaign VARCHAR(255) NULL,
+  ADD COLUMN IF NOT EXISTS attribution_channel VARCHAR(255) NULL,
+  ADD COLUMN IF NOT EXISTS attribution_referrer VARCHAR(255) NULL,
+  ADD COLUMN IF NOT EXISTS attribution_promo_code VARCHAR(255) NULL;
+
+CREATE INDEX IF NOT EXISTS idx_customers_attribution_campaign
+  ON customers (attribution_campaign)
+  WHERE attribution_campaign IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_customer_onboarding_attribution_campaign
+  ON customer_onboarding (attribution_campaign, started_at)
+  WHERE attribution_campaign IS NOT NULL;
@@ -0,0 +1,30 @@
+-- Precomputed onboarding analytics. The analytics queue snapshots every tracked filter set
+-- hourly and daily; GET /api/onboarding/analytics/overview serves the latest snapshot.
+
+CREATE TABLE IF NOT EXISTS analytics_snapshots (
+  id BIGSERIAL PRIMARY KEY,
+  filter_hash VARCHAR(64) NOT NULL, -- sha256 of the normalized filters
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  period VARCHAR(10) NOT NULL, -- hourly, daily
+  period_start TIMESTAMP NOT NULL,
+  data JSONB NOT NULL, -- OnboardingAnalytics
+  duration_ms INTEGER NULL,
+  computed_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT chk_analytics_snapshots_period CHECK (period IN ('hourly', 'daily'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_analytics_snapshots_period
+  ON analytics_snapshots (filter_hash, period, period_start);
+CREATE INDEX IF NOT EXISTS idx_analytics_snapshots_latest
+  ON analytics_snapshots (filter_hash, computed_at DESC);
+
+-- Filter sets requested through the endpoint; snapshotted while they keep being requested
+CREATE TABLE IF NOT EXISTS analytics_snapshot_filters (
+  filter_hash VARCHAR(64) PRIMARY KEY,
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_requested_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+COMMENT ON TABLE analytics_snapshots IS 'Hourly and daily OnboardingAnalytics snapshots per filter set';
+COMMENT ON TABLE analytics_snapshot_filters IS 'Analytics filter sets kept warm by the snapshot job';
@@ -0,0 +1,43 @@
+-- Scheduled analytics reports. Each enabled subscription has a repeating job on the analytics
+-- queue that emails the onboarding summary for its filter set to its recipients.
+
+CREATE TABLE IF NOT EXISTS analytics_report_subscriptions (
+  id UUID PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  recipients TEXT[] NOT NULL,
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb, -- OnboardingFilters without dateRange
+  schedule VARCHAR(100) NOT NULL, -- cron pattern
+  timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+  period_days INTEGER NOT NULL DEFAULT 7, -- the report covers the days before each run
+  format VARCHAR(20) NOT NULL DEFAULT 'summary', -- summary, detailed
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by VARCHAR(255) NULL,
+  updated_by VARCHAR(255) NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_sent_at TIMESTAMP NULL,
+  CONSTRAINT chk_analytics_report_subscriptions_format CHECK (format IN ('summary', 'detailed')),
+  CONSTRAINT chk_analytics_report_subscriptions_period CHECK (period_days > 0)
+);
+
+-- Send history: one row per run, with the outcome per recipient
+CREATE TABLE IF NOT EXISTS analytics_report_runs (
+  id BIGSERIAL PRIMARY KEY,
+  subscription_id UUID NOT NULL REFERENCES analytics_report_subscriptions(id) ON DELETE CASCADE,
+  trigger VARCHAR(20) NOT NULL, -- schedule, manual
+  status VARCHAR(20) NOT NULL DEFAULT 'running', -- running, sent, partial, failed
+  period_start TIMESTAMP NOT NULL,
+  period_end TIMESTAMP NOT NULL,
+  recipient_count INTEGER NOT NULL DEFAULT 0,
+  sent_count INTEGER NOT NULL DEFAULT 0,
+  deliveries JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ recipient, status, deliveryId, error }]
+  error_message TEXT NULL,
+  started_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMP NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_analytics_report_runs_subscription
+  ON analytics_report_runs (subscription_id, started_at DESC);
+
+COMMENT ON TABLE analytics_report_subscriptions IS 'Onboarding analytics reports emailed on a cron schedule';
+COMMENT ON TABLE analytics_report_runs IS 'Send history of analytics reports; emails are also logged in email_deliveries';
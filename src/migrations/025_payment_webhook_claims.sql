@@ -0,0 +1,7 @@
+-- When processing of a webhook event started, so events left in 'processing' by a worker
+-- that died can be claimed again once PAYMENT_WEBHOOK_PROCESSING_TIMEOUT_MINUTES has passed
+
+ALTER TABLE IF EXISTS payment_webhook_events
+  ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMP NULL;
+
+COMMENT ON COLUMN payment_webhook_events.claimed_at IS 'Start of the most recent processing attempt; NULL rows in processing are treated as stale';
@@ -5,6 +5,7 @@ import compression from 'compression';
 import dotenv from 'dotenv';
 import { Pool } from 'pg';
 import { PaymentController } from './controllers/payment.controller';
+import { PaymentService } from './services/payment.service';
 import { serviceAuthMiddleware, serviceCorsPolicyMiddleware } from './middleware/service-auth.middleware';
 import { errorHandler, notFoundHandler } from './middleware/error.middleware';
 import { requestLogger } from './middleware/logger.middleware';
@@ -20,6 +21,7 @@ class PaymentServer {
   private app: express.Application;
   private port: number;
   private db: Pool;
+  private paymentService: PaymentService;
   private paymentController: PaymentController;
 
   constructor() {
@@ -35,7 +37,9 @@ class PaymentServer {
       connectionTimeoutMillis: 2000,
     });
 
-    this.paymentController = new PaymentController(this.db);
+    // No queue here: webhook events are processed in the background of the request
+    this.paymentService = new PaymentService(this.db);
+    this.paymentController = new PaymentController(this.paymentService);
     
     this.setupMiddleware();
     this.setupRoutes();
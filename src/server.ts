@@ -6,10 +6,26 @@ import dotenv from 'dotenv';
 import { OnboardingService } from './services/onboarding.service';
 import { QueueService } from './services/queue.service';
 import { DatabaseService } from './services/database.service';
+import { WorkflowService } from './services/workflow.service';
+import { StepHistoryService } from './services/step-history.service';
+import { OnboardingStateMachine } from './services/onboarding-state-machine.service';
 import { OnboardingController } from './controllers/onboarding.controller';
 import { PaymentController } from './controllers/payment.controller';
+import { TemplateController } from './controllers/template.controller';
+import { AnalyticsReportController } from './controllers/analytics-report.controller';
 import { PaymentService } from './services/payment.service';
 import { ReconcilerService } from './services/reconciler.service';
+import { PaymentExpiryService } from './services/payment-expiry.service';
+import { TrialLifecycleService } from './services/trial-lifecycle.service';
+import { TrialConversionService } from './services/trial-conversion.service';
+import { OrderIntegrationService } from './services/order-integration.service';
+import { AnalyticsSnapshotService } from './services/analytics-snapshot.service';
+import { AnalyticsExportService } from './services/analytics-export.service';
+import { AnalyticsReportService } from './services/analytics-report.service';
+import { EmailService } from './services/email.service';
+import { EmailEventService } from './services/email-event.service';
+import { NotificationService } from './services/notification.service';
+import { TemplateRegistryService } from './services/template-registry.service';
 import { serviceAuthMiddleware, serviceCorsPolicyMiddleware } from './middleware/service-auth.middleware';
 import { errorHandler, notFoundHandler } from './middleware/error.middleware';
 import { requestLogger } from './middleware/logger.middleware';
@@ -22,18 +38,67 @@ class OnboardingServer {
   private onboardingService: OnboardingService;
   private queueService: QueueService;
   private dbService: DatabaseService;
+  private workflowService: WorkflowService;
   private onboardingController: OnboardingController;
+  private paymentService: PaymentService;
   private paymentController: PaymentController;
+  private templateController: TemplateController;
+  private analyticsReportController: AnalyticsReportController;
   private reconcilerService?: ReconcilerService;
+  private paymentExpiryService?: PaymentExpiryService;
+  private trialLifecycleService: TrialLifecycleService;
+  private trialConversions: TrialConversionService;
+  private analyticsSnapshots: AnalyticsSnapshotService;
+  private analyticsReports: AnalyticsReportService;
 
   constructor() {
     this.app = express();
     this.port = parseInt(process.env.PORT || '3004');
     this.dbService = new DatabaseService();
-    this.queueService = new QueueService(this.dbService);
-    this.onboardingService = new OnboardingService(this.dbService, this.queueService);
-    this.onboardingController = new OnboardingController(this.onboardingService);
-    this.paymentController = new PaymentController(this.dbService.getPool());
+    this.workflowService = new WorkflowService(this.dbService);
+    const stepHistory = new StepHistoryService(this.dbService);
+    const stateMachine = new OnboardingStateMachine(this.dbService, this.workflowService, stepHistory);
+    const templateRegistry = new TemplateRegistryService(this.dbService);
+    const emailService = new EmailService(this.dbService, undefined, templateRegistry);
+    const notificationService = new NotificationService(this.dbService, emailService);
+    const transports = notificationService.transportNames;
+    console.log(`📧 Notification transports: email=${transports.email}, sms=${transports.sms}, whatsapp=${transports.whatsapp}`);
+    this.queueService = new QueueService(this.dbService, this.workflowService, stateMachine, notificationService);
+    this.trialLifecycleService = new TrialLifecycleService(this.dbService, this.queueService, {
+      runIntervalMs: parseInt(process.env.TRIAL_LIFECYCLE_INTERVAL_MINUTES || '60') * 60 * 1000,
+    });
+    this.queueService.registerTrialJobHandler(data => this.trialLifecycleService.processJob(data));
+    this.paymentService = new PaymentService(this.dbService.getPool());
+    // Paid trial conversions complete (or fall back) when their payment link changes status
+    const trialConversions = new TrialConversionService(
+      this.dbService,
+      this.queueService,
+      this.trialLifecycleService,
+      new OrderIntegrationService(this.dbService.getPool(), this.paymentService)
+    );
+    this.trialConversions = trialConversions;
+    this.paymentService.onLinkStatusChange(change => trialConversions.handleLinkStatusChange(change));
+    this.onboardingService = new OnboardingService(
+      this.dbService,
+      this.queueService,
+      this.workflowService,
+      stepHistory,
+      stateMachine,
+      this.trialLifecycleService,
+      trialConversions
+    );
+    this.analyticsSnapshots = new AnalyticsSnapshotService(this.dbService, this.queueService);
+    this.analyticsReports = new AnalyticsReportService(this.dbService, emailService, this.queueService);
+    this.onboardingController = new OnboardingController(
+      this.onboardingService,
+      new EmailEventService(this.dbService),
+      notificationService,
+      this.analyticsSnapshots,
+      new AnalyticsExportService(this.dbService)
+    );
+    this.analyticsReportController = new AnalyticsReportController(this.analyticsReports);
+    this.paymentController = new PaymentController(this.paymentService, this.queueService);
+    this.templateController = new TemplateController(templateRegistry);
   }
 
   // Register Stripe webhook route BEFORE JSON body parser to preserve raw body
@@ -45,6 +110,18 @@ class OnboardingServer {
       express.raw({ type: 'application/json' }),
       this.paymentController['handleWebhook'].bind(this.paymentController)
     );
+    // Per-provider webhook endpoint so several providers can be live at once
+    this.app.post(
+      '/api/payments/webhook/:provider',
+      express.raw({ type: 'application/json' }),
+      this.paymentController['handleWebhook'].bind(this.paymentController)
+    );
+    // Email engagement events; signed over the raw body (EMAIL_WEBHOOK_SECRET) or sent with the service key
+    this.app.post(
+      '/webhooks/email',
+      express.raw({ type: 'application/json' }),
+      this.onboardingController.handleEmailWebhook.bind(this.onboardingController)
+    );
   }
 
   private setupMiddleware(): void {
@@ -96,6 +173,8 @@ class OnboardingServer {
     });
 
     // API routes
+    // Scheduled analytics reports (service-to-service authentication), ahead of the onboarding router
+    this.app.use('/api/onboarding/analytics/reports', serviceAuthMiddleware, this.analyticsReportController.getRouter());
     this.app.use('/api/onboarding', this.onboardingController.getRouter());
     
     // Payment routes with selective authentication
@@ -112,6 +191,9 @@ class OnboardingServer {
     // All other payment routes require service-to-service authentication
     this.app.use('/api/payments', serviceAuthMiddleware, this.paymentController.router);
 
+    // Email template registry (service-to-service authentication)
+    this.app.use('/api/templates', serviceAuthMiddleware, this.templateController.getRouter());
+
     // Queue stats endpoint
     this.app.get('/api/queues/stats', async (req, res) => {
       try {
@@ -123,7 +205,6 @@ class OnboardingServer {
     });
     
     // Webhook endpoints
-    this.app.post('/webhooks/email', this.onboardingController.handleEmailWebhook.bind(this.onboardingController));
     this.app.post('/webhooks/shipping', this.onboardingController.handleShippingWebhook.bind(this.onboardingController));
     this.app.post('/webhooks/equipment', this.onboardingController.handleEquipmentWebhook.bind(this.onboardingController));
 
@@ -137,6 +218,10 @@ class OnboardingServer {
       console.log(`\n${signal} received, shutting down gracefully...`);
       
       try {
+        this.reconcilerService?.stop();
+        this.paymentExpiryService?.stop();
+        this.trialLifecycleService.stop();
+        this.trialConversions.stop();
         await this.dbService.disconnect();
         await this.queueService.disconnect();
         console.log('All connections closed successfully');
@@ -181,11 +266,9 @@ class OnboardingServer {
       
       // Start reconciler (payment status validator) every 6 hours by default
       try {
-        const provider = process.env.PAYMENT_PROVIDER === 'peach' ? 'peach' : 'stripe';
-        const paymentService = new PaymentService(this.dbService.getPool(), provider as any);
         const intervalMinutes = parseInt(process.env.RECONCILE_INTERVAL_MINUTES || '360');
         const minAgeMinutes = parseInt(process.env.RECONCILE_MIN_AGE_MINUTES || '10');
-        this.reconcilerService = new ReconcilerService(this.dbService.getPool(), paymentService, {
+        this.reconcilerService = new ReconcilerService(this.dbService.getPool(), this.paymentService, {
           runIntervalMs: intervalMinutes * 60 * 1000,
           batchSize: 50,
           minAgeMinutes
@@ -194,6 +277,39 @@ class OnboardingServer {
       } catch (recErr) {
         console.warn('⚠️  Reconciler not started:', (recErr as Error).message);
       }
+
+      // Expire overdue payment links (Peach and mock links have no expiry webhook)
+      try {
+        const intervalMinutes = parseInt(process.env.PAYMENT_EXPIRY_INTERVAL_MINUTES || '15');
+        this.paymentExpiryService = new PaymentExpiryService(this.dbService.getPool(), this.paymentService, {
+          runIntervalMs: intervalMinutes * 60 * 1000,
+          batchSize: 50,
+          reissue: process.env.PAYMENT_EXPIRY_REISSUE === 'true',
+          maxReissues: parseInt(process.env.PAYMENT_EXPIRY_MAX_REISSUES || '1')
+        });
+        this.paymentExpiryService.start();
+      } catch (expiryErr) {
+        console.warn('⚠️  Payment expiry sweep not started:', (expiryErr as Error).message);
+      }
+
+      // Expire lapsed trials and end grace periods the queue missed
+      this.trialLifecycleService.start();
+      // Complete paid conversions whose status listener failed
+      this.trialConversions.start(parseInt(process.env.TRIAL_CONVERSION_SWEEP_INTERVAL_MINUTES || '15') * 60 * 1000);
+
+      // Hourly and daily analytics snapshots on the analytics queue
+      try {
+        await this.analyticsSnapshots.start();
+      } catch (snapshotErr) {
+        console.warn('⚠️  Analytics snapshots not scheduled:', (snapshotErr as Error).message);
+      }
+
+      // Emailed analytics reports, one repeating job per enabled subscription
+      try {
+        await this.analyticsReports.start();
+      } catch (reportErr) {
+        console.warn('⚠️  Analytics reports not scheduled:', (reportErr as Error).message);
+      }
       
       // Start server
       this.app.listen(this.port, () => {
@@ -0,0 +1,156 @@
+import { DatabaseService } from './database.service';
+import { AnalyticsRowQuery, OnboardingAnalyticsService, OnboardingFilters } from './analytics.service';
+import {
+  ANALYTICS_EXPORT_FORMATS,
+  AnalyticsExportFormat,
+  AnalyticsExportWriter,
+  createExportWriter,
+} from './analytics/export-format';
+import { createValidationError } from '../middleware/error.middleware';
+
+export type AnalyticsExportSection = 'overview' | 'funnel' | 'steps' | 'step_visits' | 'trials';
+
+export const ANALYTICS_EXPORT_SECTIONS: AnalyticsExportSection[] = ['overview', 'funnel', 'steps', 'step_visits', 'trials'];
+
+export interface AnalyticsExportRequest {
+  format?: string;
+  // All sections when omitted
+  sections?: string[];
+}
+
+// Receives each chunk; resolves false once the client has gone away
+export type AnalyticsExportSink = (chunk: string) => Promise<boolean>;
+
+export interface AnalyticsExport {
+  format: AnalyticsExportFormat;
+  sections: AnalyticsExportSection[];
+  writer: AnalyticsExportWriter;
+}
+
+const SECTION_COLUMNS: Record<AnalyticsExportSection, string[]> = {
+  overview: ['metric', 'value'],
+  funnel: ['campaign', 'onboardings', 'completed', 'trials', 'convertedTrials', 'completionRate', 'conversionRate'],
+  steps: ['step', 'visits', 'averageDays'],
+  step_visits: ['onboardingId', 'step', 'enteredAt', 'leftAt', 'days'],
+  trials: [
+    'onboardingId',
+    'customerId',
+    'customerName',
+    'email',
+    'trialStatus',
+    'trialEndDate',
+    'startedAt',
+    'campaign',
+    'latestOutcome',
+    'outcomeAt',
+  ],
+};
+
+// Rows fetched per cursor round trip
+const CURSOR_BATCH_SIZE = 500;
+
+/**
+ * Exports onboarding analytics with the same filters as the overview endpoint. Summary
+ * sections come from OnboardingAnalyticsService; the row-level sections (step_visits,
+ * trials) are read through a Postgres cursor in batches and written as they arrive,
+ * so memory use does not grow with the number of rows.
+ */
+export class AnalyticsExportService {
+  constructor(
+    private dbService: DatabaseService,
+    private analytics: OnboardingAnalyticsService = new OnboardingAnalyticsService(dbService)
+  ) {}
+
+  // Validates the request before anything is written, so errors can still be sent as JSON
+  prepare(request: AnalyticsExportRequest): AnalyticsExport {
+    const format = (request.format || 'csv') as AnalyticsExportFormat;
+    if (!ANALYTICS_EXPORT_FORMATS.includes(format)) {
+      throw createValidationError(`Unknown export format: ${request.format} (available: ${ANALYTICS_EXPORT_FORMATS.join(', ')})`);
+    }
+
+    const requested = request.sections && request.sections.length > 0 ? request.sections : ANALYTICS_EXPORT_SECTIONS;
+    const unknown = requested.filter(section => !ANALYTICS_EXPORT_SECTIONS.includes(section as AnalyticsExportSection));
+    if (unknown.length > 0) {
+      throw createValidationError(`Unknown export sections: ${unknown.join(', ')} (available: ${ANALYTICS_EXPORT_SECTIONS.join(', ')})`);
+    }
+
+    // Keep the documented order whatever order they were asked for in
+    const sections = ANALYTICS_EXPORT_SECTIONS.filter(section => requested.includes(section));
+    return { format, sections, writer: createExportWriter(format) };
+  }
+
+  // Writes the export to the sink; returns the number of rows written
+  async export(prepared: AnalyticsExport, filters: OnboardingFilters, sink: AnalyticsExportSink): Promise<number> {
+    const { writer } = prepared;
+    let rows = 0;
+    if (!(await sink(writer.start()))) return rows;
+
+    for (const [index, section] of prepared.sections.entries()) {
+      const columns = SECTION_COLUMNS[section];
+      if (!(await sink(writer.section(section, columns, index === 0)))) return rows;
+
+      const write = async (batch: Array<Record<string, unknown>>) => {
+        rows += batch.length;
+        return batch.length === 0 || sink(writer.rows(section, columns, batch));
+      };
+
+      const completed = section === 'step_visits' || section === 'trials'
+        ? await this.streamQuery(section === 'trials' ? this.analytics.trialListQuery(filters) : this.analytics.stepVisitsQuery(filters), write)
+        : await write(await this.summaryRows(section, filters));
+      if (!completed) {
+        console.log(`[AnalyticsExport] Client disconnected during ${section} after ${rows} rows`);
+        return rows;
+      }
+    }
+    return rows;
+  }
+
+  private async summaryRows(section: AnalyticsExportSection, filters: OnboardingFilters): Promise<Array<Record<string, unknown>>> {
+    switch (section) {
+      case 'overview': {
+        const overview = await this.analytics.getOverviewMetrics(filters);
+        return Object.entries(overview).map(([metric, value]) => ({ metric, value }));
+      }
+      case 'funnel':
+        return (await this.analytics.getCampaignFunnel(filters)) as unknown as Array<Record<string, unknown>>;
+      case 'steps': {
+        const performance = await this.analytics.getPerformanceMetrics(filters);
+        return performance.stepCompletionTimes.map(step => ({
+          step: step.step,
+          visits: step.count,
+          averageDays: step.avgTime,
+        }));
+      }
+      default:
+        return [];
+    }
+  }
+
+  // Cursors only live inside a transaction; stops early (and returns false) when onRows does
+  private async streamQuery(query: AnalyticsRowQuery, onRows: (rows: Array<Record<string, unknown>>) => Promise<boolean>): Promise<boolean> {
+    const client = await this.dbService.getClient();
+    try {
+      await client.query('BEGIN READ ONLY');
+      await client.query(`DECLARE analytics_export NO SCROLL CURSOR FOR ${query.text}`, query.params as any[]);
+
+      let completed = true;
+      for (;;) {
+        const batch = await client.query(`FETCH ${CURSOR_BATCH_SIZE} FROM analytics_export`);
+        if (batch.rows.length === 0) break;
+        if (!(await onRows(batch.rows))) {
+          completed = false;
+          break;
+        }
+      }
+
+      await client.query('CLOSE analytics_export');
+      await client.query('COMMIT');
+      return completed;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
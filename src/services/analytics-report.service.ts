@@ -0,0 +1,448 @@
+import { randomUUID } from 'crypto';
+import { DatabaseService } from './database.service';
+import { EmailService } from './email.service';
+import type { AnalyticsJobData, QueueService } from './queue.service';
+import { OnboardingAnalyticsService, OnboardingFilters } from './analytics.service';
+import { normalizeAnalyticsFilters } from './analytics-snapshot.service';
+import { createNotFoundError, createValidationError } from '../middleware/error.middleware';
+
+export type AnalyticsReportFormat = 'summary' | 'detailed';
+
+export const ANALYTICS_REPORT_FORMATS: AnalyticsReportFormat[] = ['summary', 'detailed'];
+
+export interface AnalyticsReportSubscription {
+  id: string;
+  name: string;
+  recipients: string[];
+  // Applied to every run; the date range is always the periodDays before the run
+  filters: OnboardingFilters;
+  // Cron pattern, evaluated in timezone
+  schedule: string;
+  timezone: string;
+  periodDays: number;
+  format: AnalyticsReportFormat;
+  enabled: boolean;
+  createdBy: string | null;
+  updatedBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  lastSentAt: string | null;
+}
+
+export type AnalyticsReportSubscriptionInput = Partial<Pick<
+  AnalyticsReportSubscription,
+  'name' | 'recipients' | 'filters' | 'schedule' | 'timezone' | 'periodDays' | 'format' | 'enabled'
+>>;
+
+export interface AnalyticsReportDelivery {
+  recipient: string;
+  status: 'sent' | 'skipped' | 'failed';
+  // email_deliveries.id; unset when the transport failed
+  deliveryId?: number;
+  error?: string;
+}
+
+export interface AnalyticsReportRun {
+  id: number;
+  subscriptionId: string;
+  trigger: 'schedule' | 'manual';
+  // sent: every recipient got the report; partial: some did; failed: none did
+  status: 'running' | 'sent' | 'partial' | 'failed';
+  periodStart: string;
+  periodEnd: string;
+  recipientCount: number;
+  sentCount: number;
+  deliveries: AnalyticsReportDelivery[];
+  errorMessage: string | null;
+  startedAt: string;
+  completedAt: string | null;
+}
+
+const REPORT_TEMPLATE = 'analytics-report';
+const MAX_RECIPIENTS = 50;
+const MAX_PERIOD_DAYS = 366;
+const EMAIL_ADDRESS = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Five or six cron fields; the queue rejects patterns that do not parse
+const CRON_PATTERN = /^\s*\S+(\s+\S+){4,5}\s*$/;
+const LIST_FILTERS = ['onboardingTypes', 'customerTypes', 'assignedUsers', 'steps', 'campaigns', 'channels', 'referrers', 'promoCodes'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const oneDecimal = (value: number) => (Math.round(value * 10) / 10).toFixed(1);
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+function validateTimezone(timezone: string): void {
+  try {
+    new Intl.DateTimeFormat('en', { timeZone: timezone });
+  } catch {
+    throw createValidationError(`Unknown timezone: ${timezone}`);
+  }
+}
+
+function validateFilters(filters: unknown): OnboardingFilters {
+  if (!filters || typeof filters !== 'object' || Array.isArray(filters)) {
+    throw createValidationError('filters must be an object');
+  }
+  for (const [key, value] of Object.entries(filters)) {
+    if (key === 'dateRange') {
+      throw createValidationError('Report filters cannot have a dateRange; set periodDays instead');
+    }
+    if (!LIST_FILTERS.includes(key)) {
+      throw createValidationError(`Unknown report filter: ${key} (available: ${LIST_FILTERS.join(', ')})`);
+    }
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+      throw createValidationError(`Report filter ${key} must be a list of strings`);
+    }
+  }
+  return normalizeAnalyticsFilters(filters as OnboardingFilters);
+}
+
+// "campaigns: spring-promo; channels: email" for the email header
+function describeFilters(filters: OnboardingFilters): string {
+  return Object.entries(filters)
+    .map(([key, values]) => `${key}: ${(values as string[]).join(', ')}`)
+    .join('; ');
+}
+
+/**
+ * Onboarding analytics reports emailed to managers on a cron schedule. Subscriptions
+ * live in analytics_report_subscriptions; each enabled one has a repeating
+ * analytics-report job on the analytics queue. A run renders the analytics-report
+ * template from OnboardingAnalytics for the subscription's filters, sends it to each
+ * recipient through EmailService and records the outcome in analytics_report_runs.
+ */
+export class AnalyticsReportService {
+  constructor(
+    private dbService: DatabaseService,
+    private emailService: EmailService,
+    private queueService?: QueueService,
+    private analytics: OnboardingAnalyticsService = new OnboardingAnalyticsService(dbService)
+  ) {}
+
+  async listSubscriptions(): Promise<AnalyticsReportSubscription[]> {
+    const result = await this.dbService.query(`SELECT * FROM analytics_report_subscriptions ORDER BY created_at DESC`);
+    return result.rows.map((row: any) => this.mapSubscription(row));
+  }
+
+  async getSubscription(id: string): Promise<AnalyticsReportSubscription> {
+    const subscription = await this.findSubscription(id);
+    if (!subscription) {
+      throw createNotFoundError('Analytics report subscription');
+    }
+    return subscription;
+  }
+
+  async createSubscription(input: AnalyticsReportSubscriptionInput, actor?: string): Promise<AnalyticsReportSubscription> {
+    const values = this.validate(input);
+    const id = randomUUID();
+
+    // Scheduling first means a pattern the queue cannot parse stores nothing
+    await this.schedule({ id, ...values });
+    try {
+      const result = await this.dbService.query(
+        `INSERT INTO analytics_report_subscriptions
+           (id, name, recipients, filters, schedule, timezone, period_days, format, enabled, created_by, updated_by, created_at, updated_at)
+         VALUES ($1, $2, $3, $4::jsonb, $5, $6, $7, $8, $9, $10, $10, NOW(), NOW())
+         RETURNING *`,
+        [id, values.name, values.recipients, JSON.stringify(values.filters), values.schedule, values.timezone, values.periodDays, values.format, values.enabled, actor || null]
+      );
+      console.log(`[AnalyticsReport] Created ${values.format} report "${values.name}" (${values.schedule} ${values.timezone})${actor ? ` by ${actor}` : ''}`);
+      return this.mapSubscription(result.rows[0]);
+    } catch (error) {
+      await this.unschedule(id);
+      throw error;
+    }
+  }
+
+  async updateSubscription(id: string, input: AnalyticsReportSubscriptionInput, actor?: string): Promise<AnalyticsReportSubscription> {
+    const existing = await this.getSubscription(id);
+    const values = this.validate(input, existing);
+
+    await this.schedule({ id, ...values });
+    const result = await this.dbService.query(
+      `UPDATE analytics_report_subscriptions
+          SET name = $2, recipients = $3, filters = $4::jsonb, schedule = $5, timezone = $6, period_days = $7, format = $8, enabled = $9,
+              updated_by = $10, updated_at = NOW()
+        WHERE id = $1
+        RETURNING *`,
+      [id, values.name, values.recipients, JSON.stringify(values.filters), values.schedule, values.timezone, values.periodDays, values.format, values.enabled, actor || null]
+    );
+    return this.mapSubscription(result.rows[0]);
+  }
+
+  async deleteSubscription(id: string): Promise<void> {
+    await this.unschedule(id);
+    const result = await this.dbService.query(`DELETE FROM analytics_report_subscriptions WHERE id = $1`, [id]);
+    if (result.rowCount === 0) {
+      throw createNotFoundError('Analytics report subscription');
+    }
+  }
+
+  // Send history, most recent first
+  async listRuns(id: string, limit = 20): Promise<AnalyticsReportRun[]> {
+    await this.getSubscription(id);
+    const result = await this.dbService.query(
+      `SELECT * FROM analytics_report_runs WHERE subscription_id = $1 ORDER BY started_at DESC LIMIT $2`,
+      [id, limit]
+    );
+    return result.rows.map((row: any) => this.mapRun(row));
+  }
+
+  // Send a report now, outside its schedule
+  async send(id: string): Promise<AnalyticsReportRun> {
+    return this.run(await this.getSubscription(id), 'manual');
+  }
+
+  // Schedule every enabled subscription; false when the queue is unavailable
+  async start(): Promise<boolean> {
+    if (!this.queueService) return false;
+
+    this.queueService.registerAnalyticsJobHandler('analytics-report', data => this.processJob(data));
+    const result = await this.dbService.query(`SELECT * FROM analytics_report_subscriptions WHERE enabled = TRUE`);
+
+    let scheduled = 0;
+    for (const row of result.rows) {
+      const subscription = this.mapSubscription(row);
+      try {
+        if (!(await this.schedule(subscription))) {
+          console.warn('[AnalyticsReport] Queue unavailable; reports can only be sent manually');
+          return false;
+        }
+        scheduled++;
+      } catch (error: any) {
+        console.warn(`[AnalyticsReport] Could not schedule report ${subscription.id}:`, error?.message || error);
+      }
+    }
+    console.log(`[AnalyticsReport] Scheduled ${scheduled} analytics report(s)`);
+    return true;
+  }
+
+  async processJob(data: AnalyticsJobData): Promise<void> {
+    if (data.type !== 'analytics-report') return;
+
+    const subscription = await this.findSubscription(data.subscriptionId);
+    // Deleted or disabled while the scheduler was not updated (e.g. the queue was down)
+    if (!subscription || !subscription.enabled) {
+      await this.unschedule(data.subscriptionId);
+      console.log(`[AnalyticsReport] Report ${data.subscriptionId} is ${subscription ? 'disabled' : 'gone'}; schedule removed`);
+      return;
+    }
+    await this.run(subscription, 'schedule');
+  }
+
+  /**
+   * Render once, then send to each recipient. Throws only when the report cannot be
+   * rendered, before anything is sent; failed sends are recorded on the run instead,
+   * so a retried job never mails the same report twice.
+   */
+  private async run(subscription: AnalyticsReportSubscription, trigger: AnalyticsReportRun['trigger']): Promise<AnalyticsReportRun> {
+    const periodEnd = new Date();
+    const periodStart = new Date(periodEnd.getTime() - subscription.periodDays * DAY_MS);
+    const started = await this.dbService.query(
+      `INSERT INTO analytics_report_runs (subscription_id, trigger, status, period_start, period_end, recipient_count, started_at)
+       VALUES ($1, $2, 'running', $3, $4, $5, NOW())
+       RETURNING id`,
+      [subscription.id, trigger, periodStart, periodEnd, subscription.recipients.length]
+    );
+    const runId = started.rows[0].id;
+
+    let variables: Record<string, any>;
+    try {
+      variables = await this.reportVariables(subscription, periodStart, periodEnd);
+    } catch (error: any) {
+      await this.dbService.query(
+        `UPDATE analytics_report_runs SET status = 'failed', error_message = $2, completed_at = NOW() WHERE id = $1`,
+        [runId, String(error?.message || error).slice(0, 2000)]
+      );
+      throw error;
+    }
+
+    const deliveries: AnalyticsReportDelivery[] = [];
+    for (const recipient of subscription.recipients) {
+      try {
+        const result = await this.emailService.sendTemplate({ template: REPORT_TEMPLATE, type: REPORT_TEMPLATE, to: recipient, variables });
+        deliveries.push({ recipient, status: result.status, deliveryId: result.deliveryId });
+      } catch (error: any) {
+        deliveries.push({ recipient, status: 'failed', error: String(error?.message || error).slice(0, 500) });
+      }
+    }
+
+    const sentCount = deliveries.filter(delivery => delivery.status === 'sent').length;
+    const status = sentCount === deliveries.length ? 'sent' : sentCount > 0 ? 'partial' : 'failed';
+    const result = await this.dbService.query(
+      `UPDATE analytics_report_runs SET status = $2, sent_count = $3, deliveries = $4::jsonb, completed_at = NOW()
+        WHERE id = $1
+        RETURNING *`,
+      [runId, status, sentCount, JSON.stringify(deliveries)]
+    );
+    if (sentCount > 0) {
+      await this.dbService.query(`UPDATE analytics_report_subscriptions SET last_sent_at = NOW() WHERE id = $1`, [subscription.id]);
+    }
+
+    console.log(`[AnalyticsReport] ${trigger === 'manual' ? 'Manual' : 'Scheduled'} report "${subscription.name}" ${status}: ${sentCount}/${deliveries.length} sent`);
+    return this.mapRun(result.rows[0]);
+  }
+
+  /**
+   * Template variables. Volume and completion cover onboardings started in the period;
+   * in-progress, stuck and expiring counts are the current state for the filters.
+   */
+  private async reportVariables(subscription: AnalyticsReportSubscription, periodStart: Date, periodEnd: Date): Promise<Record<string, any>> {
+    const filters = subscription.filters;
+    const [period, current] = await Promise.all([
+      this.analytics.getOnboardingAnalytics({ ...filters, dateRange: { start: periodStart.toISOString(), end: periodEnd.toISOString() } }),
+      this.analytics.getOverviewMetrics(filters),
+    ]);
+
+    const variables: Record<string, any> = {
+      reportName: subscription.name,
+      periodLabel: `${isoDate(periodStart)} to ${isoDate(periodEnd)}`,
+      filtersLabel: describeFilters(filters),
+      totalOnboardings: period.overview.totalOnboardings,
+      completedOnboardings: period.overview.completedOnboardings,
+      completionRate: oneDecimal(period.overview.completionRate),
+      activeOnboardings: current.activeOnboardings,
+      stuckOnboardings: current.stuckOnboardings,
+      expiringTrials: current.expiringTrials,
+      detailed: subscription.format === 'detailed',
+    };
+    if (!variables.detailed) return variables;
+
+    const [bottleneck] = period.performance.bottleneckSteps;
+    const [anomaly] = period.insights.anomalies;
+    const [opportunity] = period.insights.opportunities;
+    const [insight] = period.insights.topInsights;
+    return {
+      ...variables,
+      averageCompletionDays: oneDecimal(period.overview.averageCompletionTime),
+      trialConversionRate: oneDecimal(period.conversion.conversionRate),
+      slowestStep: bottleneck?.step || '',
+      slowestStepDays: bottleneck ? oneDecimal(bottleneck.avgTime) : '',
+      slowestStepStuck: bottleneck?.stuckCount ?? 0,
+      anomalyCount: period.insights.anomalies.length,
+      topAnomaly: anomaly?.description || '',
+      topAnomalyAction: anomaly?.recommendedAction || '',
+      topOpportunity: opportunity?.description || '',
+      topInsight: insight?.description || '',
+    };
+  }
+
+  // Input merged over the existing subscription, validated
+  private validate(
+    input: AnalyticsReportSubscriptionInput,
+    existing?: AnalyticsReportSubscription
+  ): Omit<AnalyticsReportSubscription, 'id' | 'createdBy' | 'updatedBy' | 'createdAt' | 'updatedAt' | 'lastSentAt'> {
+    const name = input.name ?? existing?.name;
+    if (typeof name !== 'string' || !name.trim() || name.length > 255) {
+      throw createValidationError('name is required (at most 255 characters)');
+    }
+
+    const recipients = input.recipients ?? existing?.recipients;
+    if (!Array.isArray(recipients) || recipients.length === 0 || recipients.length > MAX_RECIPIENTS) {
+      throw createValidationError(`recipients must list 1 to ${MAX_RECIPIENTS} email addresses`);
+    }
+    const invalid = recipients.filter(recipient => typeof recipient !== 'string' || !EMAIL_ADDRESS.test(recipient.trim()));
+    if (invalid.length > 0) {
+      throw createValidationError(`Invalid recipient email addresses: ${invalid.join(', ')}`);
+    }
+
+    const schedule = input.schedule ?? existing?.schedule;
+    if (typeof schedule !== 'string' || !CRON_PATTERN.test(schedule)) {
+      throw createValidationError('schedule must be a cron pattern, e.g. "0 7 * * 1" for Mondays at 07:00');
+    }
+
+    const timezone = input.timezone ?? existing?.timezone ?? 'UTC';
+    validateTimezone(timezone);
+
+    const periodDays = input.periodDays ?? existing?.periodDays ?? 7;
+    if (!Number.isInteger(periodDays) || periodDays < 1 || periodDays > MAX_PERIOD_DAYS) {
+      throw createValidationError(`periodDays must be a whole number from 1 to ${MAX_PERIOD_DAYS}`);
+    }
+
+    const format = input.format ?? existing?.format ?? 'summary';
+    if (!ANALYTICS_REPORT_FORMATS.includes(format)) {
+      throw createValidationError(`Unknown report format: ${format} (available: ${ANALYTICS_REPORT_FORMATS.join(', ')})`);
+    }
+
+    const enabled = input.enabled ?? existing?.enabled ?? true;
+    if (typeof enabled !== 'boolean') {
+      throw createValidationError('enabled must be a boolean');
+    }
+
+    return {
+      name: name.trim(),
+      recipients: [...new Set(recipients.map(recipient => recipient.trim().toLowerCase()))],
+      filters: validateFilters(input.filters ?? existing?.filters ?? {}),
+      schedule: schedule.trim().replace(/\s+/g, ' '),
+      timezone,
+      periodDays,
+      format,
+      enabled,
+    };
+  }
+
+  // Enabled subscriptions get a repeating job, disabled ones lose it; false without a queue
+  private async schedule(subscription: Pick<AnalyticsReportSubscription, 'id' | 'schedule' | 'timezone' | 'enabled'>): Promise<boolean> {
+    if (!subscription.enabled) {
+      await this.unschedule(subscription.id);
+      return true;
+    }
+    if (!this.queueService) return false;
+
+    const scheduled = await this.queueService.scheduleAnalyticsJob(
+      { type: 'analytics-report', subscriptionId: subscription.id },
+      subscription.schedule,
+      subscription.timezone
+    );
+    if (!scheduled) {
+      console.warn(`[AnalyticsReport] Queue unavailable; report ${subscription.id} not scheduled`);
+    }
+    return scheduled;
+  }
+
+  private async unschedule(id: string): Promise<void> {
+    await this.queueService?.unscheduleAnalyticsJob({ type: 'analytics-report', subscriptionId: id });
+  }
+
+  private async findSubscription(id: string): Promise<AnalyticsReportSubscription | null> {
+    const result = await this.dbService.query(`SELECT * FROM analytics_report_subscriptions WHERE id = $1`, [id]);
+    return result.rows[0] ? this.mapSubscription(result.rows[0]) : null;
+  }
+
+  private mapSubscription(row: any): AnalyticsReportSubscription {
+    return {
+      id: row.id,
+      name: row.name,
+      recipients: row.recipients || [],
+      filters: row.filters || {},
+      schedule: row.schedule,
+      timezone: row.timezone,
+      periodDays: row.period_days,
+      format: row.format,
+      enabled: row.enabled,
+      createdBy: row.created_by,
+      updatedBy: row.updated_by,
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString(),
+      lastSentAt: row.last_sent_at ? new Date(row.last_sent_at).toISOString() : null,
+    };
+  }
+
+  private mapRun(row: any): AnalyticsReportRun {
+    return {
+      id: Number(row.id),
+      subscriptionId: row.subscription_id,
+      trigger: row.trigger,
+      status: row.status,
+      periodStart: new Date(row.period_start).toISOString(),
+      periodEnd: new Date(row.period_end).toISOString(),
+      recipientCount: row.recipient_count,
+      sentCount: row.sent_count,
+      deliveries: row.deliveries || [],
+      errorMessage: row.error_message,
+      startedAt: new Date(row.started_at).toISOString(),
+      completedAt: row.completed_at ? new Date(row.completed_at).toISOString() : null,
+    };
+  }
+}
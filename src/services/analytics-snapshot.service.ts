@@ -0,0 +1,232 @@
+import { createHash } from 'crypto';
+import { DatabaseService } from './database.service';
+import type { AnalyticsJobData, QueueService } from './queue.service';
+import { OnboardingAnalytics, OnboardingAnalyticsService, OnboardingFilters } from './analytics.service';
+
+export type AnalyticsSnapshotPeriod = Extract<AnalyticsJobData, { type: 'analytics-snapshot' }>['period'];
+
+export interface AnalyticsSnapshotOptions {
+  // Redis cache lifetime per filter set (ANALYTICS_CACHE_TTL_SECONDS)
+  cacheTtlSeconds?: number;
+  // Older snapshots are not served; the endpoint computes live instead (ANALYTICS_SNAPSHOT_MAX_AGE_MINUTES)
+  maxSnapshotAgeMinutes?: number;
+  // Filter sets not requested for this long stop being snapshotted (ANALYTICS_SNAPSHOT_FILTER_DAYS)
+  trackedFilterDays?: number;
+  hourlyRetentionDays?: number;
+  dailyRetentionDays?: number;
+}
+
+export interface AnalyticsResult {
+  data: OnboardingAnalytics;
+  // cache: Redis; snapshot: analytics_snapshots; live: computed for this request
+  source: 'cache' | 'snapshot' | 'live';
+  generatedAt: string;
+}
+
+// Cron patterns of the snapshot jobs
+const SNAPSHOT_SCHEDULES: Record<AnalyticsSnapshotPeriod, string> = {
+  hourly: '5 * * * *',
+  daily: '15 0 * * *',
+};
+
+const CACHE_PREFIX = 'analytics:overview:';
+
+/**
+ * Filters in a canonical form: empty values dropped, keys and list values sorted, so
+ * the same filters in any order hash the same.
+ */
+export function normalizeAnalyticsFilters(filters: OnboardingFilters = {}): OnboardingFilters {
+  const normalized: Record<string, any> = {};
+  for (const key of Object.keys(filters).sort()) {
+    const value = (filters as Record<string, any>)[key];
+    if (value === undefined || value === null || value === '') continue;
+    if (Array.isArray(value)) {
+      if (value.length > 0) normalized[key] = [...new Set(value.map(String))].sort();
+    } else if (typeof value === 'object') {
+      normalized[key] = normalizeAnalyticsFilters(value);
+    } else {
+      normalized[key] = value;
+    }
+  }
+  return normalized as OnboardingFilters;
+}
+
+export function hashAnalyticsFilters(filters: OnboardingFilters = {}): string {
+  return createHash('sha256').update(JSON.stringify(normalizeAnalyticsFilters(filters))).digest('hex');
+}
+
+/**
+ * Serves onboarding analytics from Redis, then from the latest snapshot, and only
+ * computes live when neither is fresh (or the caller asks for fresh data). Snapshots
+ * are computed by hourly and daily jobs on the analytics queue for the default view
+ * and every filter set requested recently.
+ */
+export class AnalyticsSnapshotService {
+  private readonly cacheTtlSeconds: number;
+  private readonly maxSnapshotAgeMinutes: number;
+  private readonly trackedFilterDays: number;
+  private readonly hourlyRetentionDays: number;
+  private readonly dailyRetentionDays: number;
+
+  constructor(
+    private dbService: DatabaseService,
+    private queueService?: QueueService,
+    private analytics: OnboardingAnalyticsService = new OnboardingAnalyticsService(dbService),
+    options: AnalyticsSnapshotOptions = {}
+  ) {
+    this.cacheTtlSeconds = options.cacheTtlSeconds ?? parseInt(process.env.ANALYTICS_CACHE_TTL_SECONDS || '300', 10);
+    this.maxSnapshotAgeMinutes = options.maxSnapshotAgeMinutes ?? parseInt(process.env.ANALYTICS_SNAPSHOT_MAX_AGE_MINUTES || '90', 10);
+    this.trackedFilterDays = options.trackedFilterDays ?? parseInt(process.env.ANALYTICS_SNAPSHOT_FILTER_DAYS || '7', 10);
+    this.hourlyRetentionDays = options.hourlyRetentionDays ?? 7;
+    this.dailyRetentionDays = options.dailyRetentionDays ?? 365;
+  }
+
+  async getAnalytics(filters: OnboardingFilters = {}, options: { fresh?: boolean } = {}): Promise<AnalyticsResult> {
+    const normalized = normalizeAnalyticsFilters(filters);
+    const hash = hashAnalyticsFilters(normalized);
+
+    if (!options.fresh) {
+      const cached = await this.readCache(hash);
+      if (cached) return { ...cached, source: 'cache' };
+
+      const snapshot = await this.readSnapshot(hash);
+      if (snapshot) {
+        await this.writeCache(hash, snapshot);
+        await this.trackFilters(hash, normalized);
+        return { ...snapshot, source: 'snapshot' };
+      }
+    }
+
+    const result = { data: await this.analytics.getOnboardingAnalytics(normalized), generatedAt: new Date().toISOString() };
+    await this.writeCache(hash, result);
+    await this.trackFilters(hash, normalized);
+    return { ...result, source: 'live' };
+  }
+
+  // Schedule the hourly and daily snapshot jobs; false when the queue is unavailable
+  async start(): Promise<boolean> {
+    if (!this.queueService) return false;
+
+    this.queueService.registerAnalyticsJobHandler('analytics-snapshot', data => this.processJob(data));
+    for (const period of Object.keys(SNAPSHOT_SCHEDULES) as AnalyticsSnapshotPeriod[]) {
+      const scheduled = await this.queueService.scheduleAnalyticsJob({ type: 'analytics-snapshot', period }, SNAPSHOT_SCHEDULES[period]);
+      if (!scheduled) {
+        console.warn('[AnalyticsSnapshot] Queue unavailable; analytics will be computed per request');
+        return false;
+      }
+    }
+    console.log(`[AnalyticsSnapshot] Scheduled hourly (${SNAPSHOT_SCHEDULES.hourly}) and daily (${SNAPSHOT_SCHEDULES.daily}) snapshots`);
+    return true;
+  }
+
+  async processJob(data: AnalyticsJobData): Promise<void> {
+    if (data.type === 'analytics-snapshot') {
+      await this.snapshotAll(data.period);
+    }
+  }
+
+  // Snapshot the default view and every tracked filter set, one at a time
+  async snapshotAll(period: AnalyticsSnapshotPeriod): Promise<{ computed: number; failed: number }> {
+    const summary = { computed: 0, failed: 0 };
+    const tracked = await this.dbService.query(
+      `SELECT filter_hash, filters FROM analytics_snapshot_filters
+        WHERE last_requested_at > NOW() - make_interval(days => $1::int)`,
+      [this.trackedFilterDays]
+    );
+
+    const filterSets = new Map<string, OnboardingFilters>([[hashAnalyticsFilters({}), {}]]);
+    for (const row of tracked.rows) {
+      filterSets.set(row.filter_hash, row.filters || {});
+    }
+
+    for (const [hash, filters] of filterSets) {
+      try {
+        await this.snapshot(period, hash, filters);
+        summary.computed++;
+      } catch (error: any) {
+        summary.failed++;
+        console.warn(`[AnalyticsSnapshot] ${period} snapshot ${hash.slice(0, 12)} failed:`, error?.message || error);
+      }
+    }
+
+    await this.prune();
+    console.log(`[AnalyticsSnapshot] ${period} snapshots: ${summary.computed} computed, ${summary.failed} failed`);
+    return summary;
+  }
+
+  private async snapshot(period: AnalyticsSnapshotPeriod, hash: string, filters: OnboardingFilters): Promise<void> {
+    const startedAt = Date.now();
+    const data = await this.analytics.getOnboardingAnalytics(filters);
+
+    const result = await this.dbService.query(
+      `INSERT INTO analytics_snapshots (filter_hash, filters, period, period_start, data, duration_ms, computed_at)
+       VALUES ($1, $2::jsonb, $3, DATE_TRUNC($4, NOW()), $5::jsonb, $6, NOW())
+       ON CONFLICT (filter_hash, period, period_start)
+       DO UPDATE SET data = EXCLUDED.data, duration_ms = EXCLUDED.duration_ms, computed_at = EXCLUDED.computed_at
+       RETURNING computed_at`,
+      [hash, JSON.stringify(filters), period, period === 'hourly' ? 'hour' : 'day', JSON.stringify(data), Date.now() - startedAt]
+    );
+
+    // Later requests should see the new snapshot, not a cached older result
+    await this.writeCache(hash, { data, generatedAt: new Date(result.rows[0].computed_at).toISOString() });
+  }
+
+  private async prune(): Promise<void> {
+    await this.dbService.query(
+      `DELETE FROM analytics_snapshots
+        WHERE (period = 'hourly' AND computed_at < NOW() - make_interval(days => $1::int))
+           OR (period = 'daily' AND computed_at < NOW() - make_interval(days => $2::int))`,
+      [this.hourlyRetentionDays, this.dailyRetentionDays]
+    );
+    await this.dbService.query(
+      `DELETE FROM analytics_snapshot_filters
+        WHERE last_requested_at < NOW() - make_interval(days => $1::int)`,
+      [this.trackedFilterDays]
+    );
+  }
+
+  private async readSnapshot(hash: string): Promise<Omit<AnalyticsResult, 'source'> | null> {
+    const result = await this.dbService.query(
+      `SELECT data, computed_at FROM analytics_snapshots
+        WHERE filter_hash = $1 AND computed_at > NOW() - make_interval(mins => $2::int)
+        ORDER BY computed_at DESC
+        LIMIT 1`,
+      [hash, this.maxSnapshotAgeMinutes]
+    );
+    const row = result.rows[0];
+    return row ? { data: row.data, generatedAt: new Date(row.computed_at).toISOString() } : null;
+  }
+
+  private async trackFilters(hash: string, filters: OnboardingFilters): Promise<void> {
+    try {
+      await this.dbService.query(
+        `INSERT INTO analytics_snapshot_filters (filter_hash, filters, created_at, last_requested_at)
+         VALUES ($1, $2::jsonb, NOW(), NOW())
+         ON CONFLICT (filter_hash) DO UPDATE SET last_requested_at = NOW()`,
+        [hash, JSON.stringify(filters)]
+      );
+    } catch (error: any) {
+      console.warn('[AnalyticsSnapshot] Could not track filter set:', error?.message || error);
+    }
+  }
+
+  // The cache is an optimisation: without Redis every read misses and writes are skipped
+  private async readCache(hash: string): Promise<Omit<AnalyticsResult, 'source'> | null> {
+    try {
+      const cached = await this.dbService.redisClient.get(`${CACHE_PREFIX}${hash}`);
+      return cached ? JSON.parse(cached) : null;
+    } catch (error: any) {
+      console.warn('[AnalyticsSnapshot] Cache read failed:', error?.message || error);
+      return null;
+    }
+  }
+
+  private async writeCache(hash: string, result: Omit<AnalyticsResult, 'source'>): Promise<void> {
+    if (this.cacheTtlSeconds <= 0) return;
+    try {
+      await this.dbService.redisClient.set(`${CACHE_PREFIX}${hash}`, JSON.stringify(result), 'EX', this.cacheTtlSeconds);
+    } catch (error: any) {
+      console.warn('[AnalyticsSnapshot] Cache write failed:', error?.message || error);
+    }
+  }
+}
@@ -1,4 +1,14 @@
-import { DatabaseService } from './database.service.js';
+import { DatabaseService } from './database.service';
+import { AnalyticsFilterColumns, AnalyticsQuery } from './analytics/analytics-query';
+import { trendWindow } from './analytics/time-buckets';
+import {
+  AnalyticsRule,
+  DEFAULT_ANALYTICS_RULES,
+  MetricObservation,
+  RuleMetric,
+  evaluateRule,
+  presentFindings,
+} from './analytics/insight-rules';
 
 export interface OnboardingAnalytics {
   overview: OnboardingOverviewMetrics;
@@ -6,6 +16,18 @@ export interface OnboardingAnalytics {
   performance: OnboardingPerformanceMetrics;
   insights: OnboardingInsightsMetrics;
   trends: OnboardingTrendMetrics;
+  funnelByCampaign: CampaignFunnelMetrics[];
+}
+
+// Onboardings started per attribution campaign and how far they got
+export interface CampaignFunnelMetrics {
+  campaign: string;
+  onboardings: number;
+  completed: number;
+  trials: number;
+  convertedTrials: number;
+  completionRate: number;
+  conversionRate: number;
 }
 
 export interface OnboardingOverviewMetrics {
@@ -20,15 +42,21 @@ export interface OnboardingOverviewMetrics {
   expiringTrials: number;
 }
 
+// Trials are counted by their latest outcome in trial_conversion_events within the date range
 export interface TrialConversionMetrics {
   totalTrials: number;
   convertedTrials: number;
+  expiredTrials: number;
+  cancelledTrials: number;
   conversionRate: number;
+  // Days from trial start to conversion
   averageConversionTime: number;
   conversionByCampaign: Array<{
     campaign: string;
     rate: number;
     count: number;
+    converted: number;
+    averageConversionTime: number;
   }>;
   conversionTrend: Array<{
     date: string;
@@ -126,24 +154,114 @@ export interface OnboardingFilters {
   customerTypes?: string[];
   assignedUsers?: string[];
   steps?: string[];
+  // Attribution filters (customer_onboarding.attribution_*)
+  campaigns?: string[];
+  channels?: string[];
+  referrers?: string[];
+  promoCodes?: string[];
   granularity?: 'hour' | 'day' | 'week' | 'month' | 'quarter' | 'year';
 }
 
+// Filter columns per source table (customer_onboarding co, step visits v, customers c)
+const customerColumn = (customerId: string, column: string) =>
+  `(SELECT fc.${column} FROM customers fc WHERE fc.id = ${customerId})`;
+
+const ONBOARDING_COLUMNS: AnalyticsFilterColumns = {
+  date: 'co.started_at',
+  onboardingType: 'co.onboarding_type',
+  currentStep: 'co.current_step',
+  assignedTo: 'co.assigned_to',
+  customerType: customerColumn('co.customer_id', 'customer_type'),
+  campaign: 'co.attribution_campaign',
+  channel: 'co.attribution_channel',
+  referrer: 'co.attribution_referrer',
+  promoCode: 'co.attribution_promo_code',
+};
+
+// Trial outcomes (trial_conversion_events e joined to co); onboarding type and step are
+// not filtered because a converted trial becomes a new_customer onboarding
+const OUTCOME_COLUMNS: AnalyticsFilterColumns = {
+  date: 'e.occurred_at',
+  assignedTo: 'co.assigned_to',
+  customerType: customerColumn('e.customer_id', 'customer_type'),
+  campaign: 'COALESCE(e.campaign, co.attribution_campaign)',
+  channel: 'co.attribution_channel',
+  referrer: 'co.attribution_referrer',
+  promoCode: 'co.attribution_promo_code',
+};
+
+// Step visits (v joined to co), filtered on the visited step and dated by when it was left
+const VISIT_COLUMNS: AnalyticsFilterColumns = { ...ONBOARDING_COLUMNS, date: 'v.left_at', currentStep: 'v.step' };
+
+const CUSTOMER_COLUMNS: AnalyticsFilterColumns = {
+  customerType: 'c.customer_type',
+  campaign: 'c.attribution_campaign',
+  channel: 'c.attribution_channel',
+  referrer: 'c.attribution_referrer',
+  promoCode: 'c.attribution_promo_code',
+};
+
+// Same definitions as OnboardingService: open until completed_at is set, a closed trial is
+// no longer active, and the last activity is the latest step transition
+const OPEN_ONBOARDING = "co.completed_at IS NULL AND (co.trial_status IS NULL OR co.trial_status <> 'closed')";
+const LAST_ACTIVITY = `COALESCE(
+  (SELECT MAX(st.created_at) FROM onboarding_step_transitions st WHERE st.onboarding_id = co.id),
+  co.started_at
+)`;
+const COMPLETION_DAYS = 'EXTRACT(EPOCH FROM (co.completed_at - co.started_at))/86400';
+
+// One row per visit to a step, from the transition into it to the next transition
+// (left_at is NULL while the onboarding is still there). Computed over the whole log
+// and filtered afterwards, since dropping transitions would change the next one.
+const STEP_VISITS = `
+  SELECT 
+    t.onboarding_id,
+    t.to_step as step,
+    t.created_at as entered_at,
+    LEAD(t.created_at) OVER (PARTITION BY t.onboarding_id ORDER BY t.created_at, t.id) as left_at
+  FROM onboarding_step_transitions t
+`;
+const VISIT_DAYS = 'EXTRACT(EPOCH FROM (v.left_at - v.entered_at))/86400';
+
+// Latest outcome per trial among the events matching the query
+const latestTrialOutcomes = (query: AnalyticsQuery) => `
+  SELECT DISTINCT ON (e.onboarding_id)
+    e.onboarding_id, e.outcome, COALESCE(e.campaign, co.attribution_campaign, 'unattributed') AS campaign,
+    e.trial_started_at, e.occurred_at
+  FROM trial_conversion_events e
+  LEFT JOIN customer_onboarding co ON co.id = e.onboarding_id
+  ${query.where()}
+  ORDER BY e.onboarding_id, e.occurred_at DESC, e.id DESC
+`;
+
+// Trials are told apart by trial_status (a converted trial becomes a new_customer onboarding)
+const TRIAL_COLUMNS: AnalyticsFilterColumns = { ...ONBOARDING_COLUMNS, onboardingType: undefined };
+
+// Row-level query for exports, streamed through a cursor rather than run with query()
+export interface AnalyticsRowQuery {
+  text: string;
+  params: unknown[];
+}
+
+// Earlier windows a z_score baseline is computed from
+const BASELINE_WINDOWS = 8;
+
 export class OnboardingAnalyticsService {
   private db: DatabaseService;
 
-  constructor(db: DatabaseService) {
+  constructor(db: DatabaseService, private rules: AnalyticsRule[] = DEFAULT_ANALYTICS_RULES) {
     this.db = db;
   }
 
   async getOnboardingAnalytics(filters?: OnboardingFilters): Promise<OnboardingAnalytics> {
     try {
-      const [overview, conversion, performance, insights, trends] = await Promise.all([
+      const [overview, conversion, performance, insights, trends, funnelByCampaign] = await Promise.all([
         this.getOverviewMetrics(filters),
         this.getTrialConversionMetrics(filters),
         this.getPerformanceMetrics(filters),
         this.getInsightsMetrics(filters),
-        this.getTrendMetrics(filters)
+        this.getTrendMetrics(filters),
+        this.getCampaignFunnel(filters)
       ]);
 
       return {
@@ -151,7 +269,8 @@ export class OnboardingAnalyticsService {
         conversion,
         performance,
         insights,
-        trends
+        trends,
+        funnelByCampaign
       };
     } catch (error) {
       console.error('Error getting onboarding analytics:', error);
@@ -159,84 +278,68 @@ export class OnboardingAnalyticsService {
     }
   }
 
-  private async getOverviewMetrics(filters?: OnboardingFilters): Promise<OnboardingOverviewMetrics> {
-    const dateFilter = this.buildDateFilter(filters?.dateRange);
-    
+  async getOverviewMetrics(filters?: OnboardingFilters): Promise<OnboardingOverviewMetrics> {
+    const onboardings = AnalyticsQuery.forFilters(filters, ONBOARDING_COLUMNS);
+    const customers = AnalyticsQuery.forFilters(filters, CUSTOMER_COLUMNS).and('c.is_trial = true');
+    const outcomes = AnalyticsQuery.forFilters(filters, OUTCOME_COLUMNS);
+    const stuck = onboardings.and(OPEN_ONBOARDING).and(`${LAST_ACTIVITY} < NOW() - INTERVAL '7 days'`);
+    const expiring = customers.and("c.trial_end_date BETWEEN NOW() AND NOW() + INTERVAL '7 days'");
+
     const [
-      totalResult,
-      activeResult,
-      completedResult,
+      onboardingResult,
       trialResult,
       conversionResult,
-      avgTimeResult,
       stuckResult,
       expiringResult
     ] = await Promise.all([
       this.db.query(`
-        SELECT COUNT(*)::int as count 
-        FROM onboarding_instances 
-        ${dateFilter}
-      `),
-      this.db.query(`
-        SELECT COUNT(*)::int as count 
-        FROM onboarding_instances 
-        WHERE current_step != 'completed' 
-        ${dateFilter}
-      `),
-      this.db.query(`
-        SELECT COUNT(*)::int as count 
-        FROM onboarding_instances 
-        WHERE current_step = 'completed' 
-        ${dateFilter}
-      `),
+        SELECT 
+          COUNT(*)::int as total,
+          COUNT(*) FILTER (WHERE ${OPEN_ONBOARDING})::int as active,
+          COUNT(*) FILTER (WHERE co.completed_at IS NOT NULL)::int as completed,
+          AVG(${COMPLETION_DAYS}) as avg_days
+        FROM customer_onboarding co
+        ${onboardings.where()}
+      `, onboardings.params),
       this.db.query(`
         SELECT COUNT(*)::int as count 
-        FROM customers 
-        WHERE is_trial = true
-      `),
+        FROM customers c
+        ${customers.where()}
+      `, customers.params),
       this.db.query(`
         SELECT 
           COUNT(*)::int as total,
-          COUNT(CASE WHEN trial_end_date IS NOT NULL AND trial_end_date < NOW() THEN 1 END)::int as converted
-        FROM customers 
-        WHERE is_trial = true
-      `),
-      this.db.query(`
-        SELECT AVG(EXTRACT(EPOCH FROM (updated_at - created_at))/86400) as avg_days
-        FROM onboarding_instances 
-        WHERE current_step = 'completed' 
-        ${dateFilter}
-      `),
+          COUNT(*) FILTER (WHERE outcome = 'converted')::int as converted
+        FROM (${latestTrialOutcomes(outcomes)}) outcomes
+      `, outcomes.params),
       this.db.query(`
         SELECT COUNT(*)::int as count
-        FROM onboarding_instances 
-        WHERE current_step != 'completed' 
-        AND updated_at < NOW() - INTERVAL '7 days'
-        ${dateFilter}
-      `),
+        FROM customer_onboarding co
+        ${stuck.where()}
+      `, stuck.params),
       this.db.query(`
         SELECT COUNT(*)::int as count
-        FROM customers 
-        WHERE is_trial = true 
-        AND trial_end_date BETWEEN NOW() AND NOW() + INTERVAL '7 days'
-      `)
+        FROM customers c
+        ${expiring.where()}
+      `, expiring.params)
     ]);
 
-    const total = totalResult.rows[0]?.count || 0;
-    const completed = completedResult.rows[0]?.count || 0;
+    const data = onboardingResult.rows[0];
+    const total = data?.total || 0;
+    const completedCount = data?.completed || 0;
     const conversionData = conversionResult.rows[0];
     const totalTrials = conversionData?.total || 0;
     const converted = conversionData?.converted || 0;
     const conversionRate = totalTrials > 0 ? (converted / totalTrials) * 100 : 0;
-    const completionRate = total > 0 ? (completed / total) * 100 : 0;
+    const completionRate = total > 0 ? (completedCount / total) * 100 : 0;
 
     return {
       totalOnboardings: total,
-      activeOnboardings: activeResult.rows[0]?.count || 0,
-      completedOnboardings: completed,
+      activeOnboardings: data?.active || 0,
+      completedOnboardings: completedCount,
       trialCustomers: trialResult.rows[0]?.count || 0,
       conversionRate: Math.round(conversionRate * 100) / 100,
-      averageCompletionTime: Math.round((avgTimeResult.rows[0]?.avg_days || 0) * 100) / 100,
+      averageCompletionTime: Math.round((Number(data?.avg_days) || 0) * 100) / 100,
       completionRate: Math.round(completionRate * 100) / 100,
       stuckOnboardings: stuckResult.rows[0]?.count || 0,
       expiringTrials: expiringResult.rows[0]?.count || 0
@@ -244,48 +347,68 @@ export class OnboardingAnalyticsService {
   }
 
   private async getTrialConversionMetrics(filters?: OnboardingFilters): Promise<TrialConversionMetrics> {
-    const dateFilter = this.buildDateFilter(filters?.dateRange);
-    
-    const [trialResult, conversionTrend] = await Promise.all([
+    const outcomes = AnalyticsQuery.forFilters(filters, OUTCOME_COLUMNS);
+    const trend = trendWindow(outcomes, filters, 'e.occurred_at');
+
+    const [outcomeResult, campaignResult, conversionTrend] = await Promise.all([
       this.db.query(`
         SELECT 
           COUNT(*)::int as total,
-          COUNT(CASE WHEN trial_end_date IS NOT NULL AND trial_end_date < NOW() THEN 1 END)::int as converted,
-          AVG(CASE 
-            WHEN trial_end_date IS NOT NULL AND trial_end_date < NOW() 
-            THEN EXTRACT(EPOCH FROM (trial_end_date - trial_start_date))/86400 
-          END) as avg_conversion_time
-        FROM customers 
-        WHERE is_trial = true
-      `),
+          COUNT(*) FILTER (WHERE outcome = 'converted')::int as converted,
+          COUNT(*) FILTER (WHERE outcome = 'expired')::int as expired,
+          COUNT(*) FILTER (WHERE outcome = 'cancelled')::int as cancelled,
+          AVG(EXTRACT(EPOCH FROM (occurred_at - trial_started_at))/86400)
+            FILTER (WHERE outcome = 'converted') as avg_conversion_time
+        FROM (${latestTrialOutcomes(outcomes)}) outcomes
+      `, outcomes.params),
       this.db.query(`
         SELECT 
-          DATE_TRUNC('day', trial_start_date) as date,
+          campaign,
           COUNT(*)::int as total,
-          COUNT(CASE WHEN trial_end_date IS NOT NULL AND trial_end_date < NOW() THEN 1 END)::int as converted
-        FROM customers 
-        WHERE is_trial = true 
-        AND trial_start_date >= NOW() - INTERVAL '30 days'
-        GROUP BY DATE_TRUNC('day', trial_start_date)
-        ORDER BY date DESC
-      `)
+          COUNT(*) FILTER (WHERE outcome = 'converted')::int as converted,
+          AVG(EXTRACT(EPOCH FROM (occurred_at - trial_started_at))/86400)
+            FILTER (WHERE outcome = 'converted') as avg_conversion_time
+        FROM (${latestTrialOutcomes(outcomes)}) outcomes
+        GROUP BY campaign
+        ORDER BY total DESC, campaign ASC
+      `, outcomes.params),
+      this.db.query(`
+        ${trend.buckets}
+        SELECT 
+          ${trend.label('b.bucket')} as date,
+          COUNT(outcomes.onboarding_id)::int as total,
+          COUNT(outcomes.onboarding_id) FILTER (WHERE outcomes.outcome = 'converted')::int as converted
+        FROM buckets b
+        LEFT JOIN (${latestTrialOutcomes(trend.query)}) outcomes
+          ON ${trend.bucketOf('outcomes.occurred_at')} = b.bucket
+        GROUP BY b.bucket
+        ORDER BY b.bucket ASC
+      `, trend.query.params)
     ]);
 
-    const data = trialResult.rows[0];
+    const data = outcomeResult.rows[0];
     const total = data?.total || 0;
     const converted = data?.converted || 0;
     const conversionRate = total > 0 ? (converted / total) * 100 : 0;
 
-    const expiringTrials = await this.getExpiringTrials();
+    const expiringTrials = await this.getExpiringTrials(filters);
 
     return {
       totalTrials: total,
       convertedTrials: converted,
+      expiredTrials: data?.expired || 0,
+      cancelledTrials: data?.cancelled || 0,
       conversionRate: Math.round(conversionRate * 100) / 100,
-      averageConversionTime: Math.round((data?.avg_conversion_time || 0) * 100) / 100,
-      conversionByCampaign: [], // Would be populated with campaign data
-      conversionTrend: conversionTrend.rows.map(row => ({
-        date: row.date.toISOString().split('T')[0],
+      averageConversionTime: Math.round((Number(data?.avg_conversion_time) || 0) * 100) / 100,
+      conversionByCampaign: campaignResult.rows.map((row: any) => ({
+        campaign: row.campaign,
+        rate: row.total > 0 ? Math.round((row.converted / row.total) * 10000) / 100 : 0,
+        count: row.total,
+        converted: row.converted,
+        averageConversionTime: Math.round((Number(row.avg_conversion_time) || 0) * 100) / 100
+      })),
+      conversionTrend: conversionTrend.rows.map((row: any) => ({
+        date: row.date,
         rate: row.total > 0 ? Math.round((row.converted / row.total) * 10000) / 100 : 0,
         count: row.total
       })),
@@ -293,300 +416,414 @@ export class OnboardingAnalyticsService {
     };
   }
 
-  private async getPerformanceMetrics(filters?: OnboardingFilters): Promise<OnboardingPerformanceMetrics> {
-    const dateFilter = this.buildDateFilter(filters?.dateRange);
-    
-    const [completionByType, stepTimes, bottleneckSteps] = await Promise.all([
+  async getCampaignFunnel(filters?: OnboardingFilters): Promise<CampaignFunnelMetrics[]> {
+    const query = AnalyticsQuery.forFilters(filters, ONBOARDING_COLUMNS);
+
+    // Converted trials become new_customer onboardings, so trials are told apart by trial_status
+    const result = await this.db.query(`
+      SELECT 
+        COALESCE(co.attribution_campaign, 'unattributed') as campaign,
+        COUNT(*)::int as onboardings,
+        COUNT(*) FILTER (WHERE co.completed_at IS NOT NULL)::int as completed,
+        COUNT(*) FILTER (WHERE co.trial_status IS NOT NULL)::int as trials,
+        COUNT(*) FILTER (WHERE co.trial_status = 'converted')::int as converted
+      FROM customer_onboarding co
+      ${query.where()}
+      GROUP BY COALESCE(co.attribution_campaign, 'unattributed')
+      ORDER BY onboardings DESC, campaign ASC
+    `, query.params);
+
+    return result.rows.map((row: any) => ({
+      campaign: row.campaign,
+      onboardings: row.onboardings,
+      completed: row.completed,
+      trials: row.trials,
+      convertedTrials: row.converted,
+      completionRate: row.onboardings > 0 ? Math.round((row.completed / row.onboardings) * 10000) / 100 : 0,
+      conversionRate: row.trials > 0 ? Math.round((row.converted / row.trials) * 10000) / 100 : 0
+    }));
+  }
+
+  async getPerformanceMetrics(filters?: OnboardingFilters): Promise<OnboardingPerformanceMetrics> {
+    const onboardings = AnalyticsQuery.forFilters(filters, ONBOARDING_COLUMNS);
+    // Step visits of the onboardings in the date range, whenever the step was left
+    const visits = AnalyticsQuery.forFilters(filters, { ...VISIT_COLUMNS, date: 'co.started_at' });
+
+    const [completionByType, stepTimes, bottleneckSteps, totalResult] = await Promise.all([
       this.db.query(`
         SELECT 
-          onboarding_type,
+          co.onboarding_type,
           COUNT(*)::int as total,
-          COUNT(CASE WHEN current_step = 'completed' THEN 1 END)::int as completed,
-          AVG(CASE 
-            WHEN current_step = 'completed' 
-            THEN EXTRACT(EPOCH FROM (updated_at - created_at))/86400 
-          END) as avg_time
-        FROM onboarding_instances 
-        ${dateFilter}
-        GROUP BY onboarding_type
-      `),
+          COUNT(*) FILTER (WHERE co.completed_at IS NOT NULL)::int as completed,
+          AVG(${COMPLETION_DAYS}) as avg_time
+        FROM customer_onboarding co
+        ${onboardings.where()}
+        GROUP BY co.onboarding_type
+      `, onboardings.params),
+      // Dwell time of finished visits; the terminal step is never left
       this.db.query(`
         SELECT 
-          current_step,
+          v.step,
           COUNT(*)::int as count,
-          AVG(EXTRACT(EPOCH FROM (updated_at - created_at))/86400) as avg_time
-        FROM onboarding_instances 
-        WHERE current_step != 'initiated'
-        ${dateFilter}
-        GROUP BY current_step
+          AVG(${VISIT_DAYS}) as avg_time
+        FROM (${STEP_VISITS}) v
+        JOIN customer_onboarding co ON co.id = v.onboarding_id
+        ${visits.and('v.left_at IS NOT NULL').where()}
+        GROUP BY v.step
         ORDER BY avg_time DESC
-      `),
+      `, visits.params),
+      // Open visits count up to now, so a step nobody leaves ranks as a bottleneck
       this.db.query(`
         SELECT 
-          current_step,
-          AVG(EXTRACT(EPOCH FROM (updated_at - created_at))/86400) as avg_time,
-          COUNT(*)::int as stuck_count
-        FROM onboarding_instances 
-        WHERE current_step != 'completed' 
-        AND updated_at < NOW() - INTERVAL '3 days'
-        ${dateFilter}
-        GROUP BY current_step
-        HAVING AVG(EXTRACT(EPOCH FROM (updated_at - created_at))/86400) > 2
+          v.step,
+          AVG(EXTRACT(EPOCH FROM (COALESCE(v.left_at, NOW()) - v.entered_at))/86400) as avg_time,
+          COUNT(*) FILTER (WHERE v.left_at IS NULL AND v.entered_at < NOW() - INTERVAL '3 days')::int as stuck_count
+        FROM (${STEP_VISITS}) v
+        JOIN customer_onboarding co ON co.id = v.onboarding_id
+        ${visits.and(`v.left_at IS NOT NULL OR (${OPEN_ONBOARDING})`).where()}
+        GROUP BY v.step
+        HAVING AVG(EXTRACT(EPOCH FROM (COALESCE(v.left_at, NOW()) - v.entered_at))/86400) > 2
         ORDER BY avg_time DESC
         LIMIT 5
-      `)
+      `, visits.params),
+      this.db.query(`
+        SELECT COUNT(*)::int as total,
+               COUNT(*) FILTER (WHERE co.completed_at IS NOT NULL)::int as completed,
+               AVG(${COMPLETION_DAYS}) as avg_time
+        FROM customer_onboarding co
+        ${onboardings.where()}
+      `, onboardings.params)
     ]);
 
-    const totalResult = await this.db.query(`
-      SELECT COUNT(*)::int as total,
-             COUNT(CASE WHEN current_step = 'completed' THEN 1 END)::int as completed
-      FROM onboarding_instances 
-      ${dateFilter}
-    `);
-    
     const total = totalResult.rows[0]?.total || 0;
     const completed = totalResult.rows[0]?.completed || 0;
     const completionRate = total > 0 ? (completed / total) * 100 : 0;
 
     return {
       completionRate: Math.round(completionRate * 100) / 100,
-      averageCompletionTime: 0, // Would be calculated from completed onboardings
-      completionByType: completionByType.rows.map(row => ({
+      averageCompletionTime: Math.round((Number(totalResult.rows[0]?.avg_time) || 0) * 100) / 100,
+      completionByType: completionByType.rows.map((row: any) => ({
         type: row.onboarding_type || 'unknown',
         rate: row.total > 0 ? Math.round((row.completed / row.total) * 10000) / 100 : 0,
-        avgTime: Math.round((row.avg_time || 0) * 100) / 100,
+        avgTime: Math.round((Number(row.avg_time) || 0) * 100) / 100,
         count: row.total
       })),
-      stepCompletionTimes: stepTimes.rows.map(row => ({
-        step: row.current_step,
-        avgTime: Math.round((row.avg_time || 0) * 100) / 100,
+      stepCompletionTimes: stepTimes.rows.map((row: any) => ({
+        step: row.step,
+        avgTime: Math.round((Number(row.avg_time) || 0) * 100) / 100,
         count: row.count
       })),
-      bottleneckSteps: bottleneckSteps.rows.map(row => ({
-        step: row.current_step,
-        avgTime: Math.round((row.avg_time || 0) * 100) / 100,
+      bottleneckSteps: bottleneckSteps.rows.map((row: any) => ({
+        step: row.step,
+        avgTime: Math.round((Number(row.avg_time) || 0) * 100) / 100,
         stuckCount: row.stuck_count
       }))
     };
   }
 
-  private async getInsightsMetrics(filters?: OnboardingFilters): Promise<OnboardingInsightsMetrics> {
-    // Generate insights based on current data
-    const insights = await this.generateInsights();
-    const anomalies = await this.detectAnomalies();
-    const opportunities = await this.identifyOpportunities();
+  // Every step visit of the onboardings started in the date range, oldest first per onboarding
+  stepVisitsQuery(filters?: OnboardingFilters): AnalyticsRowQuery {
+    const query = AnalyticsQuery.forFilters(filters, { ...VISIT_COLUMNS, date: 'co.started_at' });
+    return {
+      text: `
+        SELECT 
+          v.onboarding_id as "onboardingId",
+          v.step,
+          v.entered_at as "enteredAt",
+          v.left_at as "leftAt",
+          ROUND((${VISIT_DAYS})::numeric, 2)::float8 as "days"
+        FROM (${STEP_VISITS}) v
+        JOIN customer_onboarding co ON co.id = v.onboarding_id
+        ${query.where()}
+        ORDER BY co.started_at DESC, v.onboarding_id, v.entered_at ASC
+      `,
+      params: query.params
+    };
+  }
 
+  // Trial onboardings with their current status and latest recorded outcome
+  trialListQuery(filters?: OnboardingFilters): AnalyticsRowQuery {
+    const query = AnalyticsQuery.forFilters(filters, TRIAL_COLUMNS).and('co.trial_status IS NOT NULL');
     return {
-      topInsights: insights,
-      anomalies,
-      opportunities
+      text: `
+        SELECT 
+          co.id as "onboardingId",
+          co.customer_id as "customerId",
+          CONCAT(c.first_name, ' ', c.last_name) as "customerName",
+          c.email,
+          co.trial_status as "trialStatus",
+          c.trial_end_date as "trialEndDate",
+          co.started_at as "startedAt",
+          COALESCE(co.attribution_campaign, 'unattributed') as "campaign",
+          o.outcome as "latestOutcome",
+          o.occurred_at as "outcomeAt"
+        FROM customer_onboarding co
+        LEFT JOIN customers c ON c.id = co.customer_id
+        LEFT JOIN LATERAL (
+          SELECT e.outcome, e.occurred_at
+            FROM trial_conversion_events e
+           WHERE e.onboarding_id = co.id
+           ORDER BY e.occurred_at DESC, e.id DESC
+           LIMIT 1
+        ) o ON TRUE
+        ${query.where()}
+        ORDER BY co.started_at DESC
+      `,
+      params: query.params
     };
   }
 
+  // Evaluates the analytics rules; rules look back from now, so dateRange is ignored
+  private async getInsightsMetrics(filters?: OnboardingFilters): Promise<OnboardingInsightsMetrics> {
+    const segment: OnboardingFilters | undefined = filters && { ...filters, dateRange: undefined };
+
+    // Rules sharing a metric and window share one observation
+    const observations = new Map<string, Promise<MetricObservation[]>>();
+    const findings = await Promise.all(this.rules.map(async rule => {
+      const key = `${rule.metric}:${rule.lookbackDays}`;
+      if (!observations.has(key)) {
+        observations.set(key, this.observeMetric(rule.metric, rule.lookbackDays, segment));
+      }
+      return evaluateRule(rule, await observations.get(key)!);
+    }));
+
+    return presentFindings(findings.flat());
+  }
+
+  private async observeMetric(metric: RuleMetric, lookbackDays: number, filters?: OnboardingFilters): Promise<MetricObservation[]> {
+    const onboardings = AnalyticsQuery.forFilters(filters, ONBOARDING_COLUMNS);
+    const window = 'make_interval(days => ?::int)';
+
+    switch (metric) {
+      case 'completion_rate': {
+        const query = onboardings.and(`co.started_at >= NOW() - ${window}`, [lookbackDays]);
+        const result = await this.db.query(`
+          SELECT 
+            COUNT(*)::int as total,
+            COUNT(*) FILTER (WHERE co.completed_at IS NOT NULL)::int as completed
+          FROM customer_onboarding co
+          ${query.where()}
+        `, query.params);
+        const total = result.rows[0]?.total || 0;
+        const completed = result.rows[0]?.completed || 0;
+        return [{ current: total > 0 ? (completed / total) * 100 : 0, sampleSize: total }];
+      }
+
+      case 'completions':
+      case 'onboarding_volume': {
+        const column = metric === 'completions' ? 'co.completed_at' : 'co.started_at';
+        const query = onboardings.and(`${column} >= NOW() - ${window}`, [lookbackDays * 2]);
+        const { query: bound, placeholder } = query.bind(lookbackDays);
+        const result = await this.db.query(`
+          SELECT 
+            COUNT(*) FILTER (WHERE ${column} >= NOW() - make_interval(days => ${placeholder}::int))::int as current,
+            COUNT(*) FILTER (WHERE ${column} < NOW() - make_interval(days => ${placeholder}::int))::int as previous
+          FROM customer_onboarding co
+          ${bound.where()}
+        `, bound.params);
+        const current = result.rows[0]?.current || 0;
+        const previous = result.rows[0]?.previous || 0;
+        return [{ current, previous, sampleSize: current + previous }];
+      }
+
+      case 'stuck_onboardings': {
+        const query = onboardings
+          .and(OPEN_ONBOARDING)
+          .and(`${LAST_ACTIVITY} < NOW() - ${window}`, [lookbackDays]);
+        const result = await this.db.query(`
+          SELECT COUNT(*)::int as count
+          FROM customer_onboarding co
+          ${query.where()}
+        `, query.params);
+        const count = result.rows[0]?.count || 0;
+        return [{ current: count, sampleSize: count }];
+      }
+
+      case 'expiring_trials': {
+        const query = AnalyticsQuery.forFilters(filters, CUSTOMER_COLUMNS)
+          .and('c.is_trial = true')
+          .and(`c.trial_end_date BETWEEN NOW() AND NOW() + ${window}`, [lookbackDays]);
+        const result = await this.db.query(`
+          SELECT COUNT(*)::int as count
+          FROM customers c
+          ${query.where()}
+        `, query.params);
+        const count = result.rows[0]?.count || 0;
+        return [{ current: count, sampleSize: count }];
+      }
+
+      case 'step_duration':
+        return this.observeStepDurations(lookbackDays, filters);
+    }
+  }
+
+  // Average hours per finished step visit in the current window and in each of the
+  // earlier windows, by when the step was left
+  private async observeStepDurations(lookbackDays: number, filters?: OnboardingFilters): Promise<MetricObservation[]> {
+    let query = AnalyticsQuery.forFilters(filters, VISIT_COLUMNS)
+      .and('v.left_at >= NOW() - make_interval(days => ?::int)', [lookbackDays * (BASELINE_WINDOWS + 1)]);
+    const days = query.bind(lookbackDays);
+    query = days.query;
+
+    const result = await this.db.query(`
+      SELECT 
+        v.step,
+        FLOOR(EXTRACT(EPOCH FROM (NOW() - v.left_at)) / (${days.placeholder}::int * 86400))::int as window_index,
+        AVG(EXTRACT(EPOCH FROM (v.left_at - v.entered_at))/3600) as avg_hours,
+        COUNT(*)::int as samples
+      FROM (${STEP_VISITS}) v
+      JOIN customer_onboarding co ON co.id = v.onboarding_id
+      ${query.where()}
+      GROUP BY v.step, window_index
+      ORDER BY v.step ASC, window_index ASC
+    `, query.params);
+
+    const byStep = new Map<string, Array<{ index: number; hours: number; samples: number }>>();
+    for (const row of result.rows) {
+      const windowsForStep = byStep.get(row.step) || [];
+      windowsForStep.push({ index: row.window_index, hours: Number(row.avg_hours) || 0, samples: row.samples });
+      byStep.set(row.step, windowsForStep);
+    }
+
+    const observations: MetricObservation[] = [];
+    for (const [step, stepWindows] of byStep) {
+      const current = stepWindows.find(item => item.index === 0);
+      if (!current) continue;
+      observations.push({
+        subject: step,
+        current: current.hours,
+        history: stepWindows.filter(item => item.index > 0 && item.index <= BASELINE_WINDOWS).map(item => item.hours),
+        sampleSize: current.samples
+      });
+    }
+    return observations;
+  }
+
   private async getTrendMetrics(filters?: OnboardingFilters): Promise<OnboardingTrendMetrics> {
-    const dateFilter = this.buildDateFilter(filters?.dateRange);
-    
-    const [completionTrend, volumeTrend] = await Promise.all([
+    // Onboardings are bucketed by start, step visits by when the step was left
+    const trend = trendWindow(AnalyticsQuery.forFilters(filters, ONBOARDING_COLUMNS), filters, 'co.started_at');
+    const stepTrend = trendWindow(
+      AnalyticsQuery.forFilters(filters, VISIT_COLUMNS).and('v.left_at IS NOT NULL'),
+      filters,
+      'v.left_at'
+    );
+
+    // Volume is the bucket total of the completion series, so one query serves both
+    const [completionTrend, stepTrendResult] = await Promise.all([
       this.db.query(`
+        ${trend.buckets}
         SELECT 
-          DATE_TRUNC('day', created_at) as date,
-          COUNT(*)::int as total,
-          COUNT(CASE WHEN current_step = 'completed' THEN 1 END)::int as completed,
-          AVG(CASE 
-            WHEN current_step = 'completed' 
-            THEN EXTRACT(EPOCH FROM (updated_at - created_at))/86400 
-          END) as avg_time
-        FROM onboarding_instances 
-        WHERE created_at >= NOW() - INTERVAL '30 days'
-        GROUP BY DATE_TRUNC('day', created_at)
-        ORDER BY date DESC
-      `),
+          ${trend.label('b.bucket')} as date,
+          COUNT(o.id)::int as total,
+          COUNT(o.completed_at)::int as completed,
+          AVG(EXTRACT(EPOCH FROM (o.completed_at - o.started_at))/86400) as avg_time
+        FROM buckets b
+        LEFT JOIN (
+          SELECT co.* FROM customer_onboarding co ${trend.query.where()}
+        ) o ON ${trend.bucketOf('o.started_at')} = b.bucket
+        GROUP BY b.bucket
+        ORDER BY b.bucket ASC
+      `, trend.query.params),
       this.db.query(`
+        ${stepTrend.buckets},
+        visits AS (
+          SELECT v.step, v.left_at, ${VISIT_DAYS} as days
+          FROM (${STEP_VISITS}) v
+          JOIN customer_onboarding co ON co.id = v.onboarding_id
+          ${stepTrend.query.where()}
+        )
         SELECT 
-          DATE_TRUNC('day', created_at) as date,
-          COUNT(*)::int as volume
-        FROM onboarding_instances 
-        WHERE created_at >= NOW() - INTERVAL '30 days'
-        GROUP BY DATE_TRUNC('day', created_at)
-        ORDER BY date DESC
-      `)
+          s.step,
+          ${stepTrend.label('b.bucket')} as date,
+          COUNT(v.step)::int as count,
+          AVG(v.days) as avg_time
+        FROM (SELECT DISTINCT step FROM visits) s
+        CROSS JOIN buckets b
+        LEFT JOIN visits v ON v.step = s.step AND ${stepTrend.bucketOf('v.left_at')} = b.bucket
+        GROUP BY s.step, b.bucket
+        ORDER BY s.step ASC, b.bucket ASC
+      `, stepTrend.query.params)
     ]);
 
+    const stepTrends: OnboardingTrendMetrics['stepTrends'] = [];
+    for (const row of stepTrendResult.rows) {
+      let entry = stepTrends[stepTrends.length - 1];
+      if (!entry || entry.step !== row.step) {
+        entry = { step: row.step, trend: [] };
+        stepTrends.push(entry);
+      }
+      entry.trend.push({
+        date: row.date,
+        avgTime: Math.round((Number(row.avg_time) || 0) * 100) / 100,
+        count: row.count
+      });
+    }
+
     return {
-      completionTrend: completionTrend.rows.map((row, index) => ({
-        date: row.date.toISOString().split('T')[0],
+      completionTrend: completionTrend.rows.map((row: any) => ({
+        date: row.date,
         rate: row.total > 0 ? Math.round((row.completed / row.total) * 10000) / 100 : 0,
-        avgTime: Math.round((row.avg_time || 0) * 100) / 100,
+        avgTime: Math.round((Number(row.avg_time) || 0) * 100) / 100,
         count: row.total
       })),
-      volumeTrend: volumeTrend.rows.map((row, index) => ({
-        date: row.date.toISOString().split('T')[0],
-        volume: row.volume,
-        growth: index < volumeTrend.rows.length - 1 
-          ? Math.round(((row.volume - volumeTrend.rows[index + 1].volume) / volumeTrend.rows[index + 1].volume) * 10000) / 100
-          : 0
-      })),
-      stepTrends: [] // Would be populated with detailed step trends
+      // Growth against the previous bucket; 0 when that bucket was empty
+      volumeTrend: completionTrend.rows.map((row: any, index: number) => {
+        const previous = index > 0 ? completionTrend.rows[index - 1].total : 0;
+        return {
+          date: row.date,
+          volume: row.total,
+          growth: previous > 0 ? Math.round(((row.total - previous) / previous) * 10000) / 100 : 0
+        };
+      }),
+      stepTrends
     };
   }
 
-  private async getExpiringTrials(): Promise<Array<{
+  private async getExpiringTrials(filters?: OnboardingFilters): Promise<Array<{
     id: string;
     customerName: string;
     daysRemaining: number;
     engagement: number;
   }>> {
+    const query = AnalyticsQuery.forFilters(filters, CUSTOMER_COLUMNS)
+      .and('c.is_trial = true')
+      .and("c.trial_end_date BETWEEN NOW() AND NOW() + INTERVAL '7 days'");
+
+    // Engagement: % of emails sent in the last 30 days (onboarding and payment) that were opened or clicked
     const result = await this.db.query(`
       SELECT 
         c.id,
         CONCAT(c.first_name, ' ', c.last_name) as customer_name,
         EXTRACT(EPOCH FROM (c.trial_end_date - NOW()))/86400 as days_remaining,
-        0 as engagement -- Would be calculated from actual engagement data
+        CASE WHEN e.sent > 0 THEN ROUND(100.0 * e.engaged / e.sent) ELSE 0 END as engagement
       FROM customers c
-      WHERE c.is_trial = true 
-      AND c.trial_end_date BETWEEN NOW() AND NOW() + INTERVAL '7 days'
+      LEFT JOIN LATERAL (
+        SELECT
+          COUNT(*) as sent,
+          COUNT(*) FILTER (WHERE sends.opened_at IS NOT NULL OR sends.clicked_at IS NOT NULL) as engaged
+        FROM (
+          SELECT d.opened_at, d.clicked_at
+            FROM email_deliveries d
+           WHERE d.customer_id = c.id::text
+             AND d.status = 'sent'
+             AND d.created_at > NOW() - INTERVAL '30 days'
+          UNION ALL
+          SELECT n.opened_at, n.clicked_at
+            FROM payment_notifications n
+           WHERE lower(n.customer_email) = lower(c.email)
+             AND n.status IN ('sent', 'bounced')
+             AND n.created_at > NOW() - INTERVAL '30 days'
+        ) sends
+      ) e ON TRUE
+      ${query.where()}
       ORDER BY c.trial_end_date ASC
-    `);
+    `, query.params);
 
-    return result.rows.map(row => ({
+    return result.rows.map((row: any) => ({
       id: row.id,
       customerName: row.customer_name || 'Unknown',
       daysRemaining: Math.ceil(row.days_remaining || 0),
-      engagement: row.engagement
+      engagement: Number(row.engagement) || 0
     }));
   }
-
-  private async generateInsights(): Promise<Array<{
-    id: string;
-    title: string;
-    description: string;
-    impact: 'high' | 'medium' | 'low';
-    category: string;
-    confidence: number;
-    actionable: boolean;
-    recommendations: string[];
-  }>> {
-    // Generate insights based on current data patterns
-    const insights = [];
-
-    // Check completion rate
-    const completionResult = await this.db.query(`
-      SELECT 
-        COUNT(*)::int as total,
-        COUNT(CASE WHEN current_step = 'completed' THEN 1 END)::int as completed
-      FROM onboarding_instances 
-      WHERE created_at >= NOW() - INTERVAL '30 days'
-    `);
-    
-    const total = completionResult.rows[0]?.total || 0;
-    const completed = completionResult.rows[0]?.completed || 0;
-    const completionRate = total > 0 ? (completed / total) * 100 : 0;
-
-    if (completionRate > 90) {
-      insights.push({
-        id: 'high-completion-rate',
-        title: 'Excellent Onboarding Completion Rate',
-        description: `Your onboarding completion rate is ${completionRate.toFixed(1)}%, which exceeds the target of 95%.`,
-        impact: 'high',
-        category: 'performance',
-        confidence: 0.95,
-        actionable: false,
-        recommendations: ['Continue current processes', 'Share best practices with team']
-      });
-    } else if (completionRate < 80) {
-      insights.push({
-        id: 'low-completion-rate',
-        title: 'Onboarding Completion Rate Needs Improvement',
-        description: `Your onboarding completion rate is ${completionRate.toFixed(1)}%, which is below the target of 95%.`,
-        impact: 'high',
-        category: 'performance',
-        confidence: 0.90,
-        actionable: true,
-        recommendations: [
-          'Review stuck onboardings and identify bottlenecks',
-          'Implement automated follow-up reminders',
-          'Provide additional support for customers in early stages'
-        ]
-      });
-    }
-
-    return insights;
-  }
-
-  private async detectAnomalies(): Promise<Array<{
-    id: string;
-    type: string;
-    description: string;
-    severity: 'critical' | 'warning' | 'info';
-    detectedAt: string;
-    impact: string;
-    recommendedAction: string;
-  }>> {
-    const anomalies = [];
-
-    // Check for stuck onboardings
-    const stuckResult = await this.db.query(`
-      SELECT COUNT(*)::int as count
-      FROM onboarding_instances 
-      WHERE current_step != 'completed' 
-      AND updated_at < NOW() - INTERVAL '7 days'
-    `);
-
-    const stuckCount = stuckResult.rows[0]?.count || 0;
-    if (stuckCount > 10) {
-      anomalies.push({
-        id: 'high-stuck-onboardings',
-        type: 'stuck_onboardings',
-        description: `${stuckCount} onboardings have been stuck for more than 7 days`,
-        severity: 'warning',
-        detectedAt: new Date().toISOString(),
-        impact: 'Customer satisfaction and conversion rates may be affected',
-        recommendedAction: 'Review stuck onboardings and implement proactive outreach'
-      });
-    }
-
-    return anomalies;
-  }
-
-  private async identifyOpportunities(): Promise<Array<{
-    id: string;
-    title: string;
-    description: string;
-    potentialImpact: string;
-    effort: 'low' | 'medium' | 'high';
-    priority: number;
-    timeline: string;
-  }>> {
-    const opportunities = [];
-
-    // Check trial conversion opportunities
-    const trialResult = await this.db.query(`
-      SELECT COUNT(*)::int as count
-      FROM customers 
-      WHERE is_trial = true 
-      AND trial_end_date BETWEEN NOW() AND NOW() + INTERVAL '3 days'
-    `);
-
-    const expiringCount = trialResult.rows[0]?.count || 0;
-    if (expiringCount > 0) {
-      opportunities.push({
-        id: 'trial-conversion-opportunity',
-        title: 'Trial Conversion Opportunity',
-        description: `${expiringCount} trials are expiring in the next 3 days`,
-        potentialImpact: 'High conversion potential with immediate action',
-        effort: 'low',
-        priority: 1,
-        timeline: 'Immediate'
-      });
-    }
-
-    return opportunities;
-  }
-
-  private buildDateFilter(dateRange?: { start: string; end: string }): string {
-    if (!dateRange) {
-      return '';
-    }
-    return `WHERE created_at >= '${dateRange.start}' AND created_at <= '${dateRange.end}'`;
-  }
 }
@@ -0,0 +1,89 @@
+import type { OnboardingFilters } from '../analytics.service';
+
+/**
+ * Column (or SQL expression) a query exposes for each filter. A filter whose column
+ * is not mapped is ignored by that query (e.g. onboarding steps mean nothing to the
+ * customers table).
+ */
+export interface AnalyticsFilterColumns {
+  // dateRange
+  date?: string;
+  onboardingType?: string;
+  currentStep?: string;
+  assignedTo?: string;
+  customerType?: string;
+  campaign?: string;
+  channel?: string;
+  referrer?: string;
+  promoCode?: string;
+}
+
+/**
+ * WHERE clause builder for analytics SQL. Values are always bound as parameters;
+ * conditions use `?` placeholders that are numbered in order. Instances are
+ * immutable, so one filtered base query can be extended per metric.
+ */
+export class AnalyticsQuery {
+  private constructor(private readonly conditions: string[], readonly params: unknown[]) {}
+
+  static empty(): AnalyticsQuery {
+    return new AnalyticsQuery([], []);
+  }
+
+  static forFilters(filters: OnboardingFilters | undefined, columns: AnalyticsFilterColumns): AnalyticsQuery {
+    let query = AnalyticsQuery.empty();
+    if (!filters) return query;
+
+    if (columns.date && filters.dateRange?.start) {
+      query = query.and(`${columns.date} >= ?::timestamp`, [filters.dateRange.start]);
+    }
+    if (columns.date && filters.dateRange?.end) {
+      query = query.and(`${columns.date} <= ?::timestamp`, [filters.dateRange.end]);
+    }
+
+    query = query
+      .in(columns.onboardingType, filters.onboardingTypes)
+      .in(columns.currentStep, filters.steps)
+      .in(columns.assignedTo, filters.assignedUsers)
+      .in(columns.campaign, filters.campaigns)
+      .in(columns.channel, filters.channels)
+      .in(columns.referrer, filters.referrers)
+      .in(columns.promoCode, filters.promoCodes)
+      .in(columns.customerType, filters.customerTypes);
+    return query;
+  }
+
+  // Add a condition; each `?` binds the next value
+  and(condition: string, values: unknown[] = []): AnalyticsQuery {
+    let index = 0;
+    const params = [...this.params];
+    const sql = condition.replace(/\?/g, () => {
+      if (index >= values.length) {
+        throw new Error(`Missing value for placeholder ${index + 1} in: ${condition}`);
+      }
+      params.push(values[index++]);
+      return `$${params.length}`;
+    });
+    if (index !== values.length) {
+      throw new Error(`Expected ${index} values, got ${values.length} for: ${condition}`);
+    }
+    return new AnalyticsQuery([...this.conditions, `(${sql})`], params);
+  }
+
+  // Bind a value used outside the WHERE clause (e.g. in a CTE); returns its placeholder
+  bind(value: unknown): { query: AnalyticsQuery; placeholder: string } {
+    const params = [...this.params, value];
+    return { query: new AnalyticsQuery(this.conditions, params), placeholder: `$${params.length}` };
+  }
+
+  // `column = ANY(values)`; a missing column or empty list adds nothing
+  in(column: string | undefined, values: string[] | undefined): AnalyticsQuery {
+    if (!column || !values || values.length === 0) return this;
+    return this.and(`${column} = ANY(?::text[])`, [values]);
+  }
+
+  // "WHERE a AND b", or '' without conditions
+  where(): string {
+    return this.conditions.length > 0 ? `WHERE ${this.conditions.join(' AND ')}` : '';
+  }
+}
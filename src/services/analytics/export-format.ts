@@ -0,0 +1,71 @@
+export type AnalyticsExportFormat = 'csv' | 'excel' | 'jsonl';
+
+export const ANALYTICS_EXPORT_FORMATS: AnalyticsExportFormat[] = ['csv', 'excel', 'jsonl'];
+
+/**
+ * Turns export sections into text chunks. CSV sections follow each other separated by a
+ * blank line, each with its own header row; the first column names the section. The
+ * excel format is the same CSV with a UTF-8 byte order mark, which spreadsheet apps
+ * need to read non-ASCII names correctly. JSON Lines writes one object per row.
+ */
+export interface AnalyticsExportWriter {
+  contentType: string;
+  extension: string;
+  start(): string;
+  section(name: string, columns: string[], first: boolean): string;
+  rows(name: string, columns: string[], rows: Array<Record<string, unknown>>): string;
+}
+
+const exportValue = (value: unknown): unknown => value instanceof Date ? value.toISOString() : value;
+
+// Text starting like a formula is prefixed with a quote so spreadsheets show it as text
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value: unknown): string => {
+  const exported = exportValue(value);
+  if (exported === null || exported === undefined) return '';
+  if (typeof exported === 'number' || typeof exported === 'boolean') return String(exported);
+
+  let text = typeof exported === 'object' ? JSON.stringify(exported) : String(exported);
+  if (FORMULA_START.test(text) && Number.isNaN(Number(text))) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvLine = (cells: unknown[]) => `${cells.map(csvCell).join(',')}\r\n`;
+
+const csvWriter = (byteOrderMark: boolean): AnalyticsExportWriter => ({
+  contentType: 'text/csv; charset=utf-8',
+  extension: 'csv',
+  start: () => byteOrderMark ? '\uFEFF' : '',
+  section: (name, columns, first) => `${first ? '' : '\r\n'}${csvLine(['section', ...columns])}`,
+  rows: (name, columns, rows) => rows.map(row => csvLine([name, ...columns.map(column => row[column])])).join(''),
+});
+
+const jsonLinesWriter: AnalyticsExportWriter = {
+  contentType: 'application/x-ndjson; charset=utf-8',
+  extension: 'jsonl',
+  start: () => '',
+  section: () => '',
+  rows: (name, columns, rows) => rows
+    .map(row => {
+      const line: Record<string, unknown> = { section: name };
+      for (const column of columns) {
+        line[column] = exportValue(row[column]) ?? null;
+      }
+      return `${JSON.stringify(line)}\n`;
+    })
+    .join(''),
+};
+
+export function createExportWriter(format: AnalyticsExportFormat): AnalyticsExportWriter {
+  switch (format) {
+    case 'csv':
+      return csvWriter(false);
+    case 'excel':
+      return csvWriter(true);
+    case 'jsonl':
+      return jsonLinesWriter;
+  }
+}
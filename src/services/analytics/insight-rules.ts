@@ -0,0 +1,326 @@
+import type { OnboardingInsightsMetrics } from '../analytics.service';
+
+export type RuleSeverity = 'critical' | 'warning' | 'info';
+
+/**
+ * Metrics the analytics service can observe for rules. Each is measured over the
+ * rule's lookback window ending now:
+ *  completion_rate     % of onboardings started in the window that completed
+ *  completions         onboardings completed in the window
+ *  onboarding_volume   onboardings started in the window
+ *  stuck_onboardings   open onboardings without a step transition for the whole window
+ *  step_duration       average hours per finished visit to each step (one observation per step)
+ *  expiring_trials     trials ending within the window
+ */
+export type RuleMetric =
+  | 'completion_rate'
+  | 'completions'
+  | 'onboarding_volume'
+  | 'stuck_onboardings'
+  | 'step_duration'
+  | 'expiring_trials';
+
+/**
+ * What the threshold is compared with:
+ *  value           the current value
+ *  week_over_week  % change against the previous window of the same length
+ *  z_score         standard deviations of the current value from earlier windows
+ */
+export type RuleBaseline = 'value' | 'week_over_week' | 'z_score';
+
+export interface MetricObservation {
+  // Per-step metrics name the step; others leave it unset
+  subject?: string;
+  current: number;
+  // Same metric over the previous window (week_over_week)
+  previous?: number;
+  // Same metric over earlier windows, most recent first (z_score)
+  history?: number[];
+  // Records behind the observation (both windows for week_over_week); small samples are not reported
+  sampleSize: number;
+}
+
+interface RuleBase {
+  id: string;
+  metric: RuleMetric;
+  baseline: RuleBaseline;
+  // Fires when the compared value is above or below the threshold
+  direction: 'above' | 'below';
+  threshold: number;
+  lookbackDays: number;
+  severity: RuleSeverity;
+  // Fewer records (or, for z_score, fewer earlier windows) than this never fire
+  minSamples?: number;
+  describe(finding: RuleFinding): string;
+}
+
+export interface InsightRule extends RuleBase {
+  kind: 'insight';
+  title: string;
+  category: string;
+  actionable: boolean;
+  recommendations: string[];
+}
+
+export interface AnomalyRule extends RuleBase {
+  kind: 'anomaly';
+  type: string;
+  impact: string;
+  recommendedAction: string;
+}
+
+export interface OpportunityRule extends RuleBase {
+  kind: 'opportunity';
+  title: string;
+  potentialImpact: string;
+  effort: 'low' | 'medium' | 'high';
+  timeline: string;
+}
+
+export type AnalyticsRule = InsightRule | AnomalyRule | OpportunityRule;
+
+export interface RuleFinding {
+  rule: AnalyticsRule;
+  subject?: string;
+  current: number;
+  // Previous value (week_over_week) or mean of earlier windows (z_score)
+  baseline?: number;
+  // The value compared with the threshold
+  score: number;
+  sampleSize: number;
+}
+
+const DEFAULT_MIN_SAMPLES = 5;
+
+const round = (value: number, places = 1) => Math.round(value * 10 ** places) / 10 ** places;
+
+const signed = (value: number) => `${value > 0 ? '+' : ''}${round(value)}%`;
+
+// "7 days", "1 day": the rule's lookback window in messages
+const days = (rule: AnalyticsRule) => `${rule.lookbackDays} day${rule.lookbackDays === 1 ? '' : 's'}`;
+
+export const DEFAULT_ANALYTICS_RULES: AnalyticsRule[] = [
+  {
+    kind: 'insight',
+    id: 'high-completion-rate',
+    title: 'Excellent Onboarding Completion Rate',
+    category: 'performance',
+    metric: 'completion_rate',
+    baseline: 'value',
+    direction: 'above',
+    threshold: 90,
+    lookbackDays: 30,
+    severity: 'info',
+    minSamples: 10,
+    actionable: false,
+    recommendations: ['Continue current processes', 'Share best practices with team'],
+    describe: ({ current, rule }) =>
+      `Your ${rule.lookbackDays}-day onboarding completion rate is ${round(current)}%, above the ${rule.threshold}% target.`,
+  },
+  {
+    kind: 'insight',
+    id: 'low-completion-rate',
+    title: 'Onboarding Completion Rate Needs Improvement',
+    category: 'performance',
+    metric: 'completion_rate',
+    baseline: 'value',
+    direction: 'below',
+    threshold: 80,
+    lookbackDays: 30,
+    severity: 'critical',
+    minSamples: 10,
+    actionable: true,
+    recommendations: [
+      'Review stuck onboardings and identify bottlenecks',
+      'Implement automated follow-up reminders',
+      'Provide additional support for customers in early stages',
+    ],
+    describe: ({ current, rule }) =>
+      `Your ${rule.lookbackDays}-day onboarding completion rate is ${round(current)}%, below the ${rule.threshold}% target.`,
+  },
+  {
+    kind: 'insight',
+    id: 'onboarding-volume-surge',
+    title: 'Onboarding Volume Is Up',
+    category: 'volume',
+    metric: 'onboarding_volume',
+    baseline: 'week_over_week',
+    direction: 'above',
+    threshold: 50,
+    lookbackDays: 7,
+    severity: 'warning',
+    actionable: true,
+    recommendations: ['Check installer and support capacity for the coming weeks'],
+    describe: ({ current, baseline, score, rule }) =>
+      `${current} onboardings started in the last ${days(rule)} against ${baseline} in the ${days(rule)} before (${signed(score)}; alert at ${signed(rule.threshold)}).`,
+  },
+  {
+    kind: 'anomaly',
+    id: 'onboarding-volume-drop',
+    type: 'volume_drop',
+    metric: 'onboarding_volume',
+    baseline: 'week_over_week',
+    direction: 'below',
+    threshold: -30,
+    lookbackDays: 7,
+    severity: 'warning',
+    impact: 'Fewer new customers are entering onboarding',
+    recommendedAction: 'Check acquisition campaigns and the signup flow',
+    describe: ({ current, baseline, score, rule }) =>
+      `${current} onboardings started in the last ${days(rule)} against ${baseline} in the ${days(rule)} before (${signed(score)}; alert at ${signed(rule.threshold)}).`,
+  },
+  {
+    kind: 'anomaly',
+    id: 'completions-drop',
+    type: 'completion_drop',
+    metric: 'completions',
+    baseline: 'week_over_week',
+    direction: 'below',
+    threshold: -25,
+    lookbackDays: 7,
+    severity: 'warning',
+    impact: 'Customers are waiting longer for an active service',
+    recommendedAction: 'Look for steps that slowed down this week',
+    describe: ({ current, baseline, score, rule }) =>
+      `${current} onboardings completed in the last ${days(rule)} against ${baseline} in the ${days(rule)} before (${signed(score)}; alert at ${signed(rule.threshold)}).`,
+  },
+  {
+    kind: 'anomaly',
+    id: 'high-stuck-onboardings',
+    type: 'stuck_onboardings',
+    metric: 'stuck_onboardings',
+    baseline: 'value',
+    direction: 'above',
+    threshold: 10,
+    lookbackDays: 7,
+    severity: 'warning',
+    minSamples: 1,
+    impact: 'Customer satisfaction and conversion rates may be affected',
+    recommendedAction: 'Review stuck onboardings and implement proactive outreach',
+    describe: ({ current, rule }) => `${current} onboardings have not moved for more than ${days(rule)}, above the limit of ${rule.threshold}`,
+  },
+  {
+    kind: 'anomaly',
+    id: 'slow-step',
+    type: 'step_duration',
+    metric: 'step_duration',
+    baseline: 'z_score',
+    direction: 'above',
+    threshold: 2,
+    lookbackDays: 7,
+    severity: 'warning',
+    impact: 'Onboardings spend longer than usual in this step',
+    recommendedAction: 'Check staffing, supplier lead times and blockers for the step',
+    describe: ({ subject, current, baseline, score, rule }) =>
+      `Step ${subject} took ${round(current)}h on average in the last ${days(rule)}, against ${round(baseline || 0)}h in earlier ${rule.lookbackDays}-day windows (z = ${round(score, 2)}, alert above ${rule.threshold}).`,
+  },
+  {
+    kind: 'opportunity',
+    id: 'trial-conversion-opportunity',
+    title: 'Trial Conversion Opportunity',
+    metric: 'expiring_trials',
+    baseline: 'value',
+    direction: 'above',
+    threshold: 0,
+    lookbackDays: 3,
+    severity: 'critical',
+    minSamples: 1,
+    potentialImpact: 'High conversion potential with immediate action',
+    effort: 'low',
+    timeline: 'Immediate',
+    describe: ({ current, rule }) => `${current} trials are expiring in the next ${days(rule)}`,
+  },
+];
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const standardDeviation = (values: number[]) => {
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1));
+};
+
+// Findings for one rule; an observation without a usable baseline never fires
+export function evaluateRule(rule: AnalyticsRule, observations: MetricObservation[]): RuleFinding[] {
+  const minSamples = rule.minSamples ?? DEFAULT_MIN_SAMPLES;
+  const findings: RuleFinding[] = [];
+
+  for (const observation of observations) {
+    let score: number;
+    let baseline: number | undefined;
+
+    if (rule.baseline === 'week_over_week') {
+      if (observation.sampleSize < minSamples || !observation.previous) continue;
+      baseline = observation.previous;
+      score = ((observation.current - baseline) / baseline) * 100;
+    } else if (rule.baseline === 'z_score') {
+      const history = observation.history || [];
+      if (history.length < minSamples || observation.sampleSize === 0) continue;
+      const deviation = standardDeviation(history);
+      if (!(deviation > 0)) continue;
+      baseline = mean(history);
+      score = (observation.current - baseline) / deviation;
+    } else {
+      if (observation.sampleSize < minSamples) continue;
+      score = observation.current;
+    }
+
+    const fires = rule.direction === 'above' ? score > rule.threshold : score < rule.threshold;
+    if (fires) {
+      findings.push({ rule, subject: observation.subject, current: observation.current, baseline, score, sampleSize: observation.sampleSize });
+    }
+  }
+  return findings;
+}
+
+const SEVERITY_ORDER: Record<RuleSeverity, number> = { critical: 0, warning: 1, info: 2 };
+const IMPACT: Record<RuleSeverity, 'high' | 'medium' | 'low'> = { critical: 'high', warning: 'medium', info: 'low' };
+
+// More records behind a finding, more confidence in it
+const confidence = (sampleSize: number) => round(Math.min(0.99, sampleSize / (sampleSize + 10)), 2);
+
+const findingId = (finding: RuleFinding) => finding.subject ? `${finding.rule.id}:${finding.subject}` : finding.rule.id;
+
+// The insights section of OnboardingAnalytics, most severe first
+export function presentFindings(findings: RuleFinding[], detectedAt = new Date()): OnboardingInsightsMetrics {
+  const sorted = [...findings].sort((a, b) =>
+    SEVERITY_ORDER[a.rule.severity] - SEVERITY_ORDER[b.rule.severity] || Math.abs(b.score) - Math.abs(a.score)
+  );
+  const metrics: OnboardingInsightsMetrics = { topInsights: [], anomalies: [], opportunities: [] };
+
+  for (const finding of sorted) {
+    const { rule } = finding;
+    if (rule.kind === 'insight') {
+      metrics.topInsights.push({
+        id: findingId(finding),
+        title: rule.title,
+        description: rule.describe(finding),
+        impact: IMPACT[rule.severity],
+        category: rule.category,
+        confidence: confidence(finding.sampleSize),
+        actionable: rule.actionable,
+        recommendations: rule.recommendations,
+      });
+    } else if (rule.kind === 'anomaly') {
+      metrics.anomalies.push({
+        id: findingId(finding),
+        type: rule.type,
+        description: rule.describe(finding),
+        severity: rule.severity,
+        detectedAt: detectedAt.toISOString(),
+        impact: rule.impact,
+        recommendedAction: rule.recommendedAction,
+      });
+    } else {
+      metrics.opportunities.push({
+        id: findingId(finding),
+        title: rule.title,
+        description: rule.describe(finding),
+        potentialImpact: rule.potentialImpact,
+        effort: rule.effort,
+        priority: SEVERITY_ORDER[rule.severity] + 1,
+        timeline: rule.timeline,
+      });
+    }
+  }
+  return metrics;
+}
@@ -0,0 +1,94 @@
+import type { OnboardingFilters } from '../analytics.service';
+import { AnalyticsQuery } from './analytics-query';
+import { createValidationError } from '../../middleware/error.middleware';
+
+export type Granularity = NonNullable<OnboardingFilters['granularity']>;
+
+export const GRANULARITIES: Granularity[] = ['hour', 'day', 'week', 'month', 'quarter', 'year'];
+
+// Larger series are rejected rather than built (e.g. hourly buckets over several years)
+export const MAX_TREND_BUCKETS = 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// step: bucket width; defaultSpan: window without a dateRange
+const BUCKETS: Record<Granularity, { step: string; defaultSpan: string; approxMs: number }> = {
+  hour: { step: '1 hour', defaultSpan: '48 hours', approxMs: HOUR_MS },
+  day: { step: '1 day', defaultSpan: '30 days', approxMs: DAY_MS },
+  week: { step: '1 week', defaultSpan: '12 weeks', approxMs: 7 * DAY_MS },
+  month: { step: '1 month', defaultSpan: '12 months', approxMs: 30 * DAY_MS },
+  quarter: { step: '3 months', defaultSpan: '24 months', approxMs: 91 * DAY_MS },
+  year: { step: '1 year', defaultSpan: '5 years', approxMs: 365 * DAY_MS },
+};
+
+export interface TrendWindow {
+  granularity: Granularity;
+  // The filtered query limited to the window, with the series bounds bound
+  query: AnalyticsQuery;
+  // "WITH buckets AS (...)": one row per bucket start, oldest first
+  buckets: string;
+  // Bucket start of a timestamp column
+  bucketOf(column: string): string;
+  // Bucket label: "YYYY-MM-DD", or "YYYY-MM-DDTHH:00:00" for hourly buckets
+  label(column: string): string;
+}
+
+/**
+ * Series window for trend queries: the requested dateRange, with a missing end read
+ * as now and a missing start as the granularity's default span before the end. Buckets come from generate_series so empty ones can be
+ * LEFT JOINed and reported as zero.
+ */
+export function trendWindow(query: AnalyticsQuery, filters: OnboardingFilters | undefined, dateColumn: string): TrendWindow {
+  const granularity = filters?.granularity || 'day';
+  if (!GRANULARITIES.includes(granularity)) {
+    throw createValidationError(`Unknown granularity: ${granularity} (available: ${GRANULARITIES.join(', ')})`);
+  }
+  const { step, defaultSpan, approxMs } = BUCKETS[granularity];
+
+  const start = filters?.dateRange?.start || null;
+  const end = filters?.dateRange?.end || null;
+  const endMs = end ? new Date(end).getTime() : Date.now();
+  if (Number.isNaN(endMs)) {
+    throw createValidationError('dateRange must have a valid end');
+  }
+  if (start) {
+    // A start without an end runs to now, so it is checked against now
+    const span = endMs - new Date(start).getTime();
+    if (Number.isNaN(span) || span < 0) {
+      throw createValidationError('dateRange must have a valid start before its end');
+    }
+    if (span / approxMs > MAX_TREND_BUCKETS) {
+      throw createValidationError(`Too many ${granularity} buckets for the date range (max ${MAX_TREND_BUCKETS}); use a coarser granularity`);
+    }
+  }
+
+  // granularity and step come from the whitelist above, so they are safe to inline
+  const bucketOf = (column: string) => `DATE_TRUNC('${granularity}', ${column})`;
+
+  const to = query.bind(end);
+  let windowed = to.query;
+  const seriesEnd = `COALESCE(${to.placeholder}::timestamp, NOW()::timestamp)`;
+  const defaultStart = `${seriesEnd} - INTERVAL '${defaultSpan}'`;
+  if (!start) {
+    windowed = windowed.and(`${dateColumn} >= ${bucketOf(defaultStart)}`);
+  }
+  const from = windowed.bind(start);
+  windowed = from.query;
+
+  return {
+    granularity,
+    query: windowed,
+    buckets: `WITH buckets AS (
+        SELECT generate_series(
+          ${bucketOf(`COALESCE(${from.placeholder}::timestamp, ${defaultStart})`)},
+          ${bucketOf(seriesEnd)},
+          INTERVAL '${step}'
+        ) AS bucket
+      )`,
+    bucketOf,
+    label: (column: string) => granularity === 'hour'
+      ? `TO_CHAR(${column}, 'YYYY-MM-DD"T"HH24:00:00')`
+      : `TO_CHAR(${column}, 'YYYY-MM-DD')`,
+  };
+}
@@ -0,0 +1,348 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { DatabaseService } from './database.service';
+
+export type EmailEventType = 'delivered' | 'opened' | 'clicked' | 'bounced' | 'complained';
+
+export const EMAIL_EVENT_TYPES: EmailEventType[] = ['delivered', 'opened', 'clicked', 'bounced', 'complained'];
+
+// One event as posted to /webhooks/email: { event, data }
+export interface EmailWebhookEvent {
+  event: string;
+  data?: {
+    // Provider's id for this event, used to drop duplicate deliveries of the webhook
+    eventId?: string;
+    id?: string;
+    messageId?: string;
+    email?: string;
+    recipient?: string;
+    timestamp?: string | number;
+    url?: string;
+    // hard / permanent invalidates the address; anything else is a soft bounce
+    bounceType?: string;
+    // Mailgun's name for it on failed events: permanent or temporary
+    severity?: string;
+    reason?: string;
+    // Explicit correlation when the sender passed our ids through
+    deliveryId?: number | string;
+    notificationId?: number | string;
+    [key: string]: any;
+  };
+}
+
+export interface RecordedEmailEvent {
+  id: number | null;
+  eventType: EmailEventType;
+  duplicate: boolean;
+  emailDeliveryId: number | null;
+  paymentNotificationId: number | null;
+  customerId: string | null;
+  // Set when a bounce or complaint marked the address invalid
+  emailInvalidated: boolean;
+}
+
+interface EmailSendMatch {
+  emailDeliveryId: number | null;
+  paymentNotificationId: number | null;
+  customerId: string | null;
+  onboardingId: string | null;
+  paymentLinkId: string | null;
+  recipient: string | null;
+}
+
+/**
+ * Checks the x-email-signature header of /webhooks/email: the hex HMAC-SHA256 of the
+ * raw body with EMAIL_WEBHOOK_SECRET, optionally prefixed "sha256=". Always false
+ * when no secret is configured.
+ */
+export function verifyEmailWebhookSignature(
+  rawBody: Buffer,
+  signature: string | undefined,
+  secret: string | undefined = process.env.EMAIL_WEBHOOK_SECRET
+): boolean {
+  if (!secret || !signature) return false;
+  const expected = Buffer.from(createHmac('sha256', secret).update(rawBody).digest('hex'));
+  const received = Buffer.from(signature.replace(/^sha256=/, '').trim().toLowerCase());
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+// Only recent sends are matched by recipient alone
+const RECIPIENT_MATCH_WINDOW_DAYS = 30;
+
+/**
+ * Engagement events for emails sent by the email queue (email_deliveries) and by
+ * PaymentService (payment_notifications). Hard bounces and complaints mark the
+ * address invalid on customers, which pauses automated sends to it.
+ */
+export class EmailEventService {
+  constructor(private dbService: DatabaseService) {}
+
+  async recordEvent(webhook: EmailWebhookEvent): Promise<RecordedEmailEvent | null> {
+    const eventType = this.normalizeEventType(webhook.event);
+    if (!eventType) {
+      console.log(`[EmailEvents] Ignoring unknown email event: ${webhook.event}`);
+      return null;
+    }
+
+    const data = webhook.data || {};
+    const providerEventId = data.eventId || data.id || null;
+    const occurredAt = this.parseTimestamp(data.timestamp);
+    const match = await this.findSend(data);
+    const recipient = data.email || data.recipient || match.recipient;
+    const bounceType = eventType === 'bounced' ? this.normalizeBounceType(webhook.event, data) : null;
+
+    const inserted = await this.dbService.query(
+      `INSERT INTO email_events
+         (provider_event_id, event_type, recipient, provider_message_id, email_delivery_id, payment_notification_id,
+          customer_id, onboarding_id, payment_link_id, url, bounce_type, reason, payload, occurred_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+       ON CONFLICT (provider_event_id) WHERE provider_event_id IS NOT NULL DO NOTHING
+       RETURNING id`,
+      [
+        providerEventId,
+        eventType,
+        recipient || null,
+        data.messageId || null,
+        match.emailDeliveryId,
+        match.paymentNotificationId,
+        match.customerId,
+        match.onboardingId,
+        match.paymentLinkId,
+        data.url || null,
+        bounceType,
+        data.reason ? String(data.reason).slice(0, 2000) : null,
+        JSON.stringify(data),
+        occurredAt,
+      ]
+    );
+
+    const result: RecordedEmailEvent = {
+      id: inserted.rows[0]?.id ?? null,
+      eventType,
+      duplicate: inserted.rows.length === 0,
+      emailDeliveryId: match.emailDeliveryId,
+      paymentNotificationId: match.paymentNotificationId,
+      customerId: match.customerId,
+      emailInvalidated: false,
+    };
+    if (result.duplicate) {
+      console.log(`[EmailEvents] Duplicate ${eventType} event ${providerEventId}; already recorded`);
+      return result;
+    }
+
+    await this.applyToSend(eventType, match, occurredAt);
+
+    if (recipient && (eventType === 'complained' || (eventType === 'bounced' && bounceType === 'hard'))) {
+      result.emailInvalidated = await this.markEmailInvalid(recipient, eventType === 'bounced'
+        ? `Hard bounce${data.reason ? `: ${data.reason}` : ''}`
+        : 'Recipient marked the email as spam');
+    } else if (recipient && eventType === 'delivered') {
+      await this.clearEmailInvalid(recipient);
+    }
+
+    console.log(`[EmailEvents] ${eventType} for ${recipient || 'unknown recipient'}` +
+      (match.emailDeliveryId ? ` (delivery ${match.emailDeliveryId})` : '') +
+      (match.paymentNotificationId ? ` (payment notification ${match.paymentNotificationId})` : ''));
+    return result;
+  }
+
+  // Automated sends to this address are paused
+  async isEmailInvalid(email: string): Promise<boolean> {
+    const result = await this.dbService.query(
+      'SELECT 1 FROM customers WHERE lower(email) = lower($1) AND email_invalid = TRUE LIMIT 1',
+      [email]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Find the send an event belongs to: provider message id, then the ids we
+   * passed through, then the latest send to the recipient.
+   */
+  private async findSend(data: NonNullable<EmailWebhookEvent['data']>): Promise<EmailSendMatch> {
+    const none: EmailSendMatch = {
+      emailDeliveryId: null,
+      paymentNotificationId: null,
+      customerId: null,
+      onboardingId: null,
+      paymentLinkId: null,
+      recipient: null,
+    };
+
+    if (data.messageId) {
+      const delivery = await this.findDelivery('provider_message_id = $1', [data.messageId]);
+      if (delivery) return delivery;
+      const notification = await this.findNotification('n.provider_message_id = $1', [data.messageId]);
+      if (notification) return notification;
+    }
+
+    const deliveryId = this.parseId(data.deliveryId);
+    if (deliveryId) {
+      const delivery = await this.findDelivery('id = $1', [deliveryId]);
+      if (delivery) return delivery;
+    }
+    const notificationId = this.parseId(data.notificationId);
+    if (notificationId) {
+      const notification = await this.findNotification('n.id = $1', [notificationId]);
+      if (notification) return notification;
+    }
+
+    const recipient = data.email || data.recipient;
+    if (!recipient) return none;
+
+    const [delivery, notification] = await Promise.all([
+      this.findDelivery(
+        `lower(recipient) = lower($1) AND status = 'sent' AND created_at > NOW() - ($2::int * INTERVAL '1 day')`,
+        [recipient, RECIPIENT_MATCH_WINDOW_DAYS]
+      ),
+      this.findNotification(
+        `lower(n.customer_email) = lower($1) AND n.status IN ('sent', 'bounced') AND n.created_at > NOW() - ($2::int * INTERVAL '1 day')`,
+        [recipient, RECIPIENT_MATCH_WINDOW_DAYS]
+      ),
+    ]);
+    if (delivery && notification) {
+      return delivery.sentAt >= notification.sentAt ? delivery : notification;
+    }
+    if (delivery || notification) {
+      return (delivery || notification)!;
+    }
+
+    // No recent send; still attribute the event to the customer with that address
+    const customer = await this.dbService.query(
+      'SELECT id FROM customers WHERE lower(email) = lower($1) ORDER BY created_at DESC LIMIT 1',
+      [recipient]
+    );
+    return { ...none, recipient, customerId: customer.rows[0] ? String(customer.rows[0].id) : null };
+  }
+
+  private async findDelivery(where: string, params: any[]): Promise<(EmailSendMatch & { sentAt: Date }) | null> {
+    const result = await this.dbService.query(
+      `SELECT id, recipient, customer_id, onboarding_id, COALESCE(sent_at, created_at) AS sent_at
+         FROM email_deliveries
+        WHERE ${where}
+        ORDER BY created_at DESC
+        LIMIT 1`,
+      params
+    );
+    const row = result.rows[0];
+    if (!row) return null;
+    return {
+      emailDeliveryId: row.id,
+      paymentNotificationId: null,
+      customerId: row.customer_id,
+      onboardingId: row.onboarding_id,
+      paymentLinkId: null,
+      recipient: row.recipient,
+      sentAt: row.sent_at,
+    };
+  }
+
+  private async findNotification(where: string, params: any[]): Promise<(EmailSendMatch & { sentAt: Date }) | null> {
+    const result = await this.dbService.query(
+      `SELECT n.id, n.payment_link_id, n.customer_email, l.customer_id, COALESCE(n.sent_at, n.created_at) AS sent_at
+         FROM payment_notifications n
+         LEFT JOIN payment_links l ON l.id = n.payment_link_id
+        WHERE ${where}
+        ORDER BY n.created_at DESC
+        LIMIT 1`,
+      params
+    );
+    const row = result.rows[0];
+    if (!row) return null;
+    return {
+      emailDeliveryId: null,
+      paymentNotificationId: row.id,
+      customerId: row.customer_id ? String(row.customer_id) : null,
+      onboardingId: null,
+      paymentLinkId: row.payment_link_id,
+      recipient: row.customer_email,
+      sentAt: row.sent_at,
+    };
+  }
+
+  // Keep the first delivered / opened / clicked time on the send itself
+  private async applyToSend(eventType: EmailEventType, match: EmailSendMatch, occurredAt: Date): Promise<void> {
+    const column = ({ delivered: 'delivered_at', opened: 'opened_at', clicked: 'clicked_at', bounced: 'bounced_at' } as Record<string, string>)[eventType];
+
+    if (match.emailDeliveryId && column) {
+      await this.dbService.query(
+        `UPDATE email_deliveries SET ${column} = COALESCE(${column}, $2) WHERE id = $1`,
+        [match.emailDeliveryId, occurredAt]
+      );
+    }
+
+    if (match.paymentNotificationId) {
+      if (eventType === 'bounced') {
+        await this.dbService.query(
+          `UPDATE payment_notifications SET status = 'bounced' WHERE id = $1`,
+          [match.paymentNotificationId]
+        );
+      } else if (column && column !== 'bounced_at') {
+        await this.dbService.query(
+          `UPDATE payment_notifications SET ${column} = COALESCE(${column}, $2) WHERE id = $1`,
+          [match.paymentNotificationId, occurredAt]
+        );
+      }
+    }
+  }
+
+  private async markEmailInvalid(email: string, reason: string): Promise<boolean> {
+    const result = await this.dbService.query(
+      `UPDATE customers
+          SET email_invalid = TRUE, email_invalid_at = NOW(), email_invalid_reason = $2
+        WHERE lower(email) = lower($1) AND email_invalid = FALSE`,
+      [email, reason.slice(0, 2000)]
+    );
+    if (result.rowCount > 0) {
+      console.warn(`[EmailEvents] Marked ${email} invalid (${reason}); automated emails to it are paused`);
+    }
+    return result.rowCount > 0;
+  }
+
+  // A later successful delivery shows the address works again
+  private async clearEmailInvalid(email: string): Promise<void> {
+    const result = await this.dbService.query(
+      `UPDATE customers
+          SET email_invalid = FALSE, email_invalid_at = NULL, email_invalid_reason = NULL
+        WHERE lower(email) = lower($1) AND email_invalid = TRUE`,
+      [email]
+    );
+    if (result.rowCount > 0) {
+      console.log(`[EmailEvents] ${email} delivered again; automated emails resumed`);
+    }
+  }
+
+  // Accepts common provider spellings (SendGrid "open", Mailgun "failed", SES "Bounce")
+  private normalizeEventType(event: string | undefined): EmailEventType | null {
+    const aliases: Record<string, EmailEventType> = {
+      delivered: 'delivered', delivery: 'delivered',
+      opened: 'opened', open: 'opened',
+      clicked: 'clicked', click: 'clicked',
+      bounced: 'bounced', bounce: 'bounced', failed: 'bounced',
+      // Not sent at all (e.g. an earlier bounce or unsubscribe); recorded as a soft bounce
+      dropped: 'bounced',
+      complained: 'complained', complaint: 'complained', spamreport: 'complained',
+    };
+    return event ? aliases[String(event).toLowerCase()] || null : null;
+  }
+
+  // Bounces are soft unless the provider says the failure is permanent; a drop is never hard
+  private normalizeBounceType(event: string, data: NonNullable<EmailWebhookEvent['data']>): 'hard' | 'soft' {
+    if (String(event).toLowerCase() === 'dropped') return 'soft';
+    const value = String(data.bounceType || data.severity || '').toLowerCase();
+    return value === 'hard' || value === 'permanent' ? 'hard' : 'soft';
+  }
+
+  // Unix seconds, milliseconds or ISO strings; defaults to now
+  private parseTimestamp(timestamp: string | number | undefined): Date {
+    if (timestamp === undefined || timestamp === null || timestamp === '') return new Date();
+    const numeric = typeof timestamp === 'number' ? timestamp : (/^\d+$/.test(timestamp) ? parseInt(timestamp, 10) : NaN);
+    const date = isNaN(numeric) ? new Date(timestamp) : new Date(numeric < 1e12 ? numeric * 1000 : numeric);
+    return isNaN(date.getTime()) ? new Date() : date;
+  }
+
+  private parseId(value: number | string | undefined): number | null {
+    if (value === undefined || value === null || value === '') return null;
+    const id = typeof value === 'number' ? value : parseInt(value, 10);
+    return Number.isInteger(id) && id > 0 ? id : null;
+  }
+}
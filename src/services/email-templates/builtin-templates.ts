@@ -0,0 +1,14 @@
+import { EmailTemplateDefinition } from './template-engine';
+import { BUILTIN_EMAIL_PARTIALS } from './partials';
+import { ONBOARDING_EMAIL_TEMPLATES } from './onboarding.templates';
+import { PAYMENT_EMAIL_TEMPLATES } from './payment.templates';
+import { REPORT_EMAIL_TEMPLATES } from './report.templates';
+
+/**
+ * Templates shipped with the service, in the default locale. They are used until
+ * a version is published to email_templates, and again if every published
+ * version is deactivated.
+ */
+export const BUILTIN_EMAIL_TEMPLATES: Record<string, EmailTemplateDefinition> = Object.fromEntries(
+  [...BUILTIN_EMAIL_PARTIALS, ...ONBOARDING_EMAIL_TEMPLATES, ...PAYMENT_EMAIL_TEMPLATES, ...REPORT_EMAIL_TEMPLATES].map(template => [template.name, template])
+);
@@ -0,0 +1,180 @@
+import { EmailTemplateDefinition } from './template-engine';
+
+const layout = (title: string, body: string): string => `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title}</title>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: #2563eb; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+    .content { background: #f8fafc; padding: 30px; border-radius: 0 0 8px 8px; }
+    .footer { text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e2e8f0; color: #64748b; font-size: 0.9em; }
+  </style>
+</head>
+<body>
+  <div class="header"><h1>${title}</h1></div>
+  <div class="content">
+${body}
+  </div>
+  {{> footer}}
+</body>
+</html>
+`;
+
+const sampleCustomer = {
+  firstName: 'Thandi',
+  lastName: 'Mokoena',
+  customerName: 'Thandi Mokoena',
+  customerNumber: 'CUST-01234',
+  email: 'thandi@example.com',
+};
+
+/**
+ * Onboarding emails sent by the email queue. Customer fields (firstName, lastName,
+ * customerName, customerNumber, trialEndDate) are filled in by EmailService.
+ */
+export const ONBOARDING_EMAIL_TEMPLATES: EmailTemplateDefinition[] = [
+  {
+    name: 'welcome',
+    kind: 'template',
+    description: 'Sent when an onboarding starts',
+    sampleVariables: sampleCustomer,
+    subject: 'Welcome to Xnext, {{firstName}}!',
+    html: layout('Welcome to Xnext', `
+    <h2>Hi {{firstName}},</h2>
+    <p>Thanks for choosing Xnext. Your onboarding has started and we'll keep you updated at every step.</p>
+    {{#customerNumber}}<p>Your customer reference is <strong>{{customerNumber}}</strong>.</p>{{/customerNumber}}`),
+    text: `
+Hi {{firstName}},
+
+Thanks for choosing Xnext. Your onboarding has started and we'll keep you updated at every step.
+{{#customerNumber}}
+Your customer reference is {{customerNumber}}.
+{{/customerNumber}}
+{{> footer}}
+`,
+  },
+  {
+    name: 'follow-up',
+    kind: 'template',
+    description: 'Post-activation check-in',
+    sampleVariables: sampleCustomer,
+    subject: 'How is your Xnext service, {{firstName}}?',
+    html: layout('Checking In', `
+    <h2>Hi {{firstName}},</h2>
+    <p>Your service has been active for a little while now. We'd love to know how it's going.</p>
+    <p>If anything isn't working as expected, just reply to this email and our support team will help.</p>`),
+    text: `
+Hi {{firstName}},
+
+Your service has been active for a little while now. We'd love to know how it's going.
+
+If anything isn't working as expected, just reply to this email and our support team will help.
+
+{{> footer}}
+`,
+  },
+  {
+    name: 'completion',
+    kind: 'template',
+    description: 'Sent when the service is activated',
+    sampleVariables: sampleCustomer,
+    subject: 'Your Xnext service is active',
+    html: layout('🎉 You\'re Connected', `
+    <h2>Hi {{firstName}},</h2>
+    <p>Your onboarding is complete and your service is now active.</p>
+    <p>Welcome aboard - we're glad to have you.</p>`),
+    text: `
+Hi {{firstName}},
+
+Your onboarding is complete and your service is now active.
+
+Welcome aboard - we're glad to have you.
+
+{{> footer}}
+`,
+  },
+  {
+    name: 'trial-conversion',
+    kind: 'template',
+    description: 'Sent when a trial is converted to a paying customer',
+    sampleVariables: sampleCustomer,
+    subject: 'Your Xnext trial is now a full subscription',
+    html: layout('Welcome, Full Subscriber', `
+    <h2>Hi {{firstName}},</h2>
+    <p>Your trial has been converted to a full subscription. Your service continues without interruption.</p>`),
+    text: `
+Hi {{firstName}},
+
+Your trial has been converted to a full subscription. Your service continues without interruption.
+
+{{> footer}}
+`,
+  },
+  {
+    name: 'trial-expiry',
+    kind: 'template',
+    description: 'Warns a trial customer before the trial ends',
+    sampleVariables: { ...sampleCustomer, trialEndDate: '2026-01-31' },
+    subject: 'Your Xnext trial ends on {{trialEndDate}}',
+    html: layout('Your Trial Is Ending', `
+    <h2>Hi {{firstName}},</h2>
+    <p>Your free trial ends on <strong>{{trialEndDate}}</strong>.</p>
+    <p>Upgrade before then to keep your service running without interruption.</p>`),
+    text: `
+Hi {{firstName}},
+
+Your free trial ends on {{trialEndDate}}.
+
+Upgrade before then to keep your service running without interruption.
+
+{{> footer}}
+`,
+  },
+  {
+    name: 'trial-expired',
+    kind: 'template',
+    description: 'Sent when a trial ends and its grace period starts',
+    sampleVariables: { ...sampleCustomer, trialEndDate: '2026-01-31', graceEndDate: '2026-02-07' },
+    subject: 'Your Xnext trial has ended',
+    html: layout('Your Trial Has Ended', `
+    <h2>Hi {{firstName}},</h2>
+    <p>Your free trial ended on <strong>{{trialEndDate}}</strong>.</p>
+    <p>Your service stays on until <strong>{{graceEndDate}}</strong>. Upgrade before then to keep it running.</p>`),
+    text: `
+Hi {{firstName}},
+
+Your free trial ended on {{trialEndDate}}.
+
+Your service stays on until {{graceEndDate}}. Upgrade before then to keep it running.
+
+{{> footer}}
+`,
+  },
+  {
+    name: 'trial-ended',
+    kind: 'template',
+    description: 'Sent when the grace period after a trial ends and the service is suspended or closed',
+    sampleVariables: { ...sampleCustomer, trialEndDate: '2026-01-31', suspended: true },
+    subject: 'Your Xnext trial service has been {{#suspended}}suspended{{/suspended}}{{^suspended}}closed{{/suspended}}',
+    html: layout('Trial Service Stopped', `
+    <h2>Hi {{firstName}},</h2>
+    {{#suspended}}<p>Your trial service has been suspended. Upgrade at any time to reconnect it.</p>{{/suspended}}
+    {{^suspended}}<p>Your trial has been closed. Contact us if you would like to sign up again.</p>{{/suspended}}`),
+    text: `
+Hi {{firstName}},
+
+{{#suspended}}
+Your trial service has been suspended. Upgrade at any time to reconnect it.
+{{/suspended}}
+{{^suspended}}
+Your trial has been closed. Contact us if you would like to sign up again.
+{{/suspended}}
+
+{{> footer}}
+`,
+  },
+];
@@ -0,0 +1,18 @@
+import { EmailTemplateDefinition } from './template-engine';
+
+export const BUILTIN_EMAIL_PARTIALS: EmailTemplateDefinition[] = [
+  {
+    name: 'footer',
+    kind: 'partial',
+    description: 'Company footer shared by customer emails; shows the order number when orderId is set',
+    subject: '',
+    html: `
+          <div class="footer">
+            <p>Xnext Internet Services{{#orderId}} | Order #{{orderId}}{{/orderId}}</p>
+            <p>Need help? Contact us at support@xnext.co.za</p>
+          </div>`,
+    text: `{{#orderId}}Order #{{orderId}}
+{{/orderId}}Xnext Internet Services
+Need help? Contact us at support@xnext.co.za`,
+  },
+];
@@ -0,0 +1,392 @@
+import { EmailTemplateDefinition } from './template-engine';
+
+const samplePayment = {
+  customerName: 'Thandi Mokoena',
+  orderId: 'ORD-10042',
+  packageName: 'Fibre 100',
+  packageSpeed: '100/50 Mbps',
+  monthlyFee: '899.00',
+  installationType: 'Standard fibre installation',
+  installationFee: '1499.00',
+  total: '2398.00',
+  paymentUrl: 'https://pay.example.com/checkout/sample',
+  serviceAddress: { street: '12 Long Street', city: 'Cape Town', province: 'Western Cape', postalCode: '8001' },
+};
+
+/**
+ * Payment emails sent by PaymentService. Amounts are pre-formatted rand values
+ * ("899.00"); installationFee and installationType are empty when not applicable.
+ */
+export const PAYMENT_EMAIL_TEMPLATES: EmailTemplateDefinition[] = [
+  {
+    name: 'payment-request-new-install',
+    kind: 'template',
+    description: 'Payment request for a new installation order',
+    sampleVariables: samplePayment,
+    subject: 'Complete Your Payment - New Internet Installation',
+    html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Payment Required - New Installation</title>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: #2563eb; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+            .content { background: #f8fafc; padding: 30px; border-radius: 0 0 8px 8px; }
+            .package-details { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #2563eb; }
+            .price-breakdown { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; }
+            .price-row { display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #e2e8f0; }
+            .price-total { font-weight: bold; font-size: 1.2em; color: #2563eb; }
+            .cta-button { display: inline-block; background: #10b981; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; margin: 20px 0; }
+            .address { background: #f1f5f9; padding: 15px; border-radius: 6px; margin: 10px 0; }
+            .footer { text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e2e8f0; color: #64748b; font-size: 0.9em; }
+          </style>
+        </head>
+        <body>
+          <div class="header">
+            <h1>🌐 New Internet Installation</h1>
+            <p>Complete your payment to proceed with installation</p>
+          </div>
+          
+          <div class="content">
+            <h2>Hi {{customerName}},</h2>
+            <p>Thank you for choosing our internet services! Your new installation order is ready for payment.</p>
+            
+            <div class="package-details">
+              <h3>📦 Service Package</h3>
+              <p><strong>{{packageName}}</strong></p>
+              <p>Speed: <strong>{{packageSpeed}}</strong></p>
+              <p>Monthly Fee: <strong>R{{monthlyFee}}</strong></p>
+              {{#installationType}}<p>Installation: <strong>{{installationType}}</strong></p>{{/installationType}}
+            </div>
+
+            <div class="address">
+              <h4>📍 Installation Address</h4>
+              <p>{{serviceAddress.street}}<br>
+              {{serviceAddress.city}}, {{serviceAddress.province}}<br>
+              {{serviceAddress.postalCode}}</p>
+            </div>
+
+            <div class="price-breakdown">
+              <h3>💰 Payment Breakdown</h3>
+              <div class="price-row">
+                <span>Monthly Service Fee</span>
+                <span>R{{monthlyFee}}</span>
+              </div>
+              {{#installationFee}}
+              <div class="price-row">
+                <span>Installation Fee</span>
+                <span>R{{installationFee}}</span>
+              </div>{{/installationFee}}
+              <div class="price-row price-total">
+                <span>Total Amount</span>
+                <span>R{{total}}</span>
+              </div>
+            </div>
+
+            <div style="text-align: center;">
+              <a href="{{paymentUrl}}" class="cta-button">💳 Pay Now - R{{total}}</a>
+            </div>
+
+            <p><strong>What happens next?</strong></p>
+            <ul>
+              <li>✅ Complete your payment using the secure link above</li>
+              <li>📞 Our team will contact you within 24 hours to schedule installation</li>
+              <li>🔧 Professional installation at your premises</li>
+              <li>🌐 Enjoy high-speed internet!</li>
+            </ul>
+
+            <p><em>This payment link expires in 24 hours. If you need assistance, please contact our support team.</em></p>
+          </div>
+
+          {{> footer}}
+        </body>
+        </html>
+      `,
+    text: `
+Hi {{customerName}},
+
+Thank you for choosing our internet services! Your new installation order is ready for payment.
+
+Service Package: {{packageName}}
+Speed: {{packageSpeed}}
+Monthly Fee: R{{monthlyFee}}
+
+Installation Address:
+{{serviceAddress.street}}
+{{serviceAddress.city}}, {{serviceAddress.province}}
+{{serviceAddress.postalCode}}
+
+Payment Breakdown:
+- Monthly Service Fee: R{{monthlyFee}}
+{{#installationFee}}- Installation Fee: R{{installationFee}}{{/installationFee}}
+Total Amount: R{{total}}
+
+Complete your payment: {{paymentUrl}}
+
+What happens next?
+1. Complete your payment using the secure link above
+2. Our team will contact you within 24 hours to schedule installation
+3. Professional installation at your premises
+4. Enjoy high-speed internet!
+
+This payment link expires in 24 hours.
+
+{{> footer}}
+      `,
+  },
+  {
+    name: 'payment-request-service-change',
+    kind: 'template',
+    description: 'Payment request for a service change (and disconnect) order',
+    sampleVariables: samplePayment,
+    subject: 'Complete Your Payment - Service Change Request',
+    html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Payment Required - Service Change</title>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: #7c3aed; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+            .content { background: #f8fafc; padding: 30px; border-radius: 0 0 8px 8px; }
+            .package-details { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #7c3aed; }
+            .price-breakdown { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; }
+            .price-row { display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #e2e8f0; }
+            .price-total { font-weight: bold; font-size: 1.2em; color: #7c3aed; }
+            .cta-button { display: inline-block; background: #10b981; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; margin: 20px 0; }
+            .address { background: #f1f5f9; padding: 15px; border-radius: 6px; margin: 10px 0; }
+            .footer { text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e2e8f0; color: #64748b; font-size: 0.9em; }
+          </style>
+        </head>
+        <body>
+          <div class="header">
+            <h1>🔄 Service Change Request</h1>
+            <p>Complete your payment to process the service change</p>
+          </div>
+          
+          <div class="content">
+            <h2>Hi {{customerName}},</h2>
+            <p>Your service change request is ready for payment. Complete the payment below to proceed with updating your internet service.</p>
+            
+            <div class="package-details">
+              <h3>📦 New Service Package</h3>
+              <p><strong>{{packageName}}</strong></p>
+              <p>Speed: <strong>{{packageSpeed}}</strong></p>
+              <p>New Monthly Fee: <strong>R{{monthlyFee}}</strong></p>
+            </div>
+
+            <div class="address">
+              <h4>📍 Service Address</h4>
+              <p>{{serviceAddress.street}}<br>
+              {{serviceAddress.city}}, {{serviceAddress.province}}<br>
+              {{serviceAddress.postalCode}}</p>
+            </div>
+
+            <div class="price-breakdown">
+              <h3>💰 Payment Details</h3>
+              <div class="price-row">
+                <span>New Monthly Service Fee</span>
+                <span>R{{monthlyFee}}</span>
+              </div>
+              {{#installationFee}}
+              <div class="price-row">
+                <span>Service Change Fee</span>
+                <span>R{{installationFee}}</span>
+              </div>{{/installationFee}}
+              <div class="price-row price-total">
+                <span>Total Amount</span>
+                <span>R{{total}}</span>
+              </div>
+            </div>
+
+            <div style="text-align: center;">
+              <a href="{{paymentUrl}}" class="cta-button">💳 Pay Now - R{{total}}</a>
+            </div>
+
+            <p><strong>What happens next?</strong></p>
+            <ul>
+              <li>✅ Complete your payment using the secure link above</li>
+              <li>🔄 Our team will process your service change within 24-48 hours</li>
+              <li>📞 You'll receive confirmation once the change is complete</li>
+              <li>🌐 Start enjoying your updated service!</li>
+            </ul>
+
+            <p><em>This payment link expires in 24 hours. If you need assistance, please contact our support team.</em></p>
+          </div>
+
+          {{> footer}}
+        </body>
+        </html>
+      `,
+    text: `
+Hi {{customerName}},
+
+Your service change request is ready for payment.
+
+New Service Package: {{packageName}}
+Speed: {{packageSpeed}}
+New Monthly Fee: R{{monthlyFee}}
+
+Service Address:
+{{serviceAddress.street}}
+{{serviceAddress.city}}, {{serviceAddress.province}}
+{{serviceAddress.postalCode}}
+
+Payment Details:
+- New Monthly Service Fee: R{{monthlyFee}}
+{{#installationFee}}- Service Change Fee: R{{installationFee}}{{/installationFee}}
+Total Amount: R{{total}}
+
+Complete your payment: {{paymentUrl}}
+
+What happens next?
+1. Complete your payment using the secure link above
+2. Our team will process your service change within 24-48 hours
+3. You'll receive confirmation once the change is complete
+4. Start enjoying your updated service!
+
+This payment link expires in 24 hours.
+
+{{> footer}}
+      `,
+  },
+  {
+    name: 'payment-failed',
+    kind: 'template',
+    description: 'Sent with a fresh link after a failed payment',
+    sampleVariables: { ...samplePayment, failureReason: 'Your card was declined.' },
+    subject: 'Payment Unsuccessful - Please Try Again',
+    html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Payment Unsuccessful</title>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: #dc2626; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+            .content { background: #f8fafc; padding: 30px; border-radius: 0 0 8px 8px; }
+            .reason { background: #fef2f2; padding: 15px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #dc2626; color: #991b1b; }
+            .package-details { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #2563eb; }
+            .cta-button { display: inline-block; background: #10b981; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; margin: 20px 0; }
+            .footer { text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e2e8f0; color: #64748b; font-size: 0.9em; }
+          </style>
+        </head>
+        <body>
+          <div class="header">
+            <h1>⚠️ Payment Unsuccessful</h1>
+            <p>Your order is still reserved - please try again</p>
+          </div>
+
+          <div class="content">
+            <h2>Hi {{customerName}},</h2>
+            <p>We could not complete your payment for order #{{orderId}}. No money has been taken.</p>
+
+            <div class="reason">
+              <strong>Reason:</strong> {{failureReason}}
+            </div>
+
+            <div class="package-details">
+              <h3>📦 {{packageName}}</h3>
+              <p>Speed: <strong>{{packageSpeed}}</strong></p>
+              <p>Amount due: <strong>R{{total}}</strong></p>
+            </div>
+
+            <p>You can try again with the same or a different card using this new secure link:</p>
+
+            <div style="text-align: center;">
+              <a href="{{paymentUrl}}" class="cta-button">💳 Try Again - R{{total}}</a>
+            </div>
+
+            <p><em>This payment link expires in 24 hours. If the problem continues, please contact your bank or our support team.</em></p>
+          </div>
+
+          {{> footer}}
+        </body>
+        </html>
+      `,
+    text: `
+Hi {{customerName}},
+
+We could not complete your payment for order #{{orderId}}. No money has been taken.
+
+Reason: {{failureReason}}
+
+Service Package: {{packageName}}
+Amount due: R{{total}}
+
+Try again: {{paymentUrl}}
+
+This payment link expires in 24 hours. If the problem continues, please contact your bank or our support team.
+
+{{> footer}}
+      `,
+  },
+  {
+    name: 'payment-reminder',
+    kind: 'template',
+    description: 'Reminder for a pending payment link (scheduled reminders and manual resend)',
+    sampleVariables: { orderId: 'ORD-10042', amount: '2398.00', status: 'PENDING', paymentUrl: 'https://pay.example.com/checkout/sample' },
+    subject: '🔔 Payment Reminder - Complete Your Service Setup',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; background-color: #f9f9f9;">
+        <div style="background-color: white; padding: 30px; border-radius: 10px; box-shadow: 0 2px 10px rgba(0,0,0,0.1);">
+          <div style="text-align: center; margin-bottom: 30px;">
+            <h1 style="color: #2563eb; margin: 0;">🔔 Payment Reminder</h1>
+            <p style="color: #666; margin: 10px 0 0 0;">Complete Your Service Setup</p>
+          </div>
+          
+          <div style="background-color: #fef3c7; padding: 20px; border-radius: 8px; margin-bottom: 25px; border-left: 4px solid #f59e0b;">
+            <h3 style="margin: 0 0 10px 0; color: #92400e;">⏰ Payment Pending</h3>
+            <p style="margin: 0; color: #92400e;">Your payment is still pending. Please complete it to activate your service.</p>
+          </div>
+
+          <div style="background-color: #f8fafc; padding: 20px; border-radius: 8px; margin-bottom: 25px;">
+            <h3 style="margin: 0 0 15px 0; color: #374151;">📋 Payment Details</h3>
+            <table style="width: 100%; border-collapse: collapse;">
+              <tr>
+                <td style="padding: 8px 0; color: #6b7280; border-bottom: 1px solid #e5e7eb;">Order ID:</td>
+                <td style="padding: 8px 0; font-weight: bold; color: #374151; border-bottom: 1px solid #e5e7eb;">{{orderId}}</td>
+              </tr>
+              <tr>
+                <td style="padding: 8px 0; color: #6b7280; border-bottom: 1px solid #e5e7eb;">Amount:</td>
+                <td style="padding: 8px 0; font-weight: bold; color: #374151; border-bottom: 1px solid #e5e7eb;">R{{amount}}</td>
+              </tr>
+              <tr>
+                <td style="padding: 8px 0; color: #6b7280;">Status:</td>
+                <td style="padding: 8px 0; font-weight: bold; color: #f59e0b;">{{status}}</td>
+              </tr>
+            </table>
+          </div>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="{{paymentUrl}}" 
+               style="display: inline-block; background-color: #2563eb; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; font-size: 16px;">
+              💳 Complete Payment Now
+            </a>
+          </div>
+
+          <div style="background-color: #fef2f2; padding: 15px; border-radius: 8px; margin-top: 25px; border-left: 4px solid #ef4444;">
+            <p style="margin: 0; color: #dc2626; font-size: 14px;">
+              <strong>⚠️ Important:</strong> This payment link will expire soon. Please complete your payment to avoid service delays.
+            </p>
+          </div>
+
+          <div style="text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+            <p style="color: #6b7280; font-size: 12px; margin: 0;">
+              Need help? Contact our support team<br>
+              This is an automated reminder from Xnext ISP Services
+            </p>
+          </div>
+        </div>
+      </div>
+    `,
+    text: `Payment reminder for order {{orderId}}. Please complete your payment: {{paymentUrl}}`,
+  },
+];
@@ -0,0 +1,120 @@
+import { EmailTemplateDefinition } from './template-engine';
+
+const sampleReport = {
+  reportName: 'Weekly onboarding summary',
+  periodLabel: '2026-10-12 to 2026-10-19',
+  filtersLabel: 'campaigns: spring-promo',
+  totalOnboardings: 42,
+  completedOnboardings: 31,
+  activeOnboardings: 18,
+  completionRate: '73.8',
+  averageCompletionDays: '4.2',
+  stuckOnboardings: 3,
+  expiringTrials: 5,
+  trialConversionRate: '41.2',
+  detailed: true,
+  slowestStep: 'installation_scheduled',
+  slowestStepDays: '2.6',
+  slowestStepStuck: 2,
+  anomalyCount: 1,
+  topAnomaly: '12 onboardings started in the last 7 days against 20 in the 7 days before (-40%; alert at -30%).',
+  topAnomalyAction: 'Check acquisition campaigns and the signup flow',
+  topOpportunity: '5 trials are expiring in the next 3 days',
+  topInsight: 'Your 30-day onboarding completion rate is 73.8%, below the 80% target.',
+};
+
+/**
+ * Internal reports sent by AnalyticsReportService to the subscription's recipients,
+ * not to customers. Numbers are pre-formatted; the detailed section and its lines
+ * are left out when there is nothing to show.
+ */
+export const REPORT_EMAIL_TEMPLATES: EmailTemplateDefinition[] = [
+  {
+    name: 'analytics-report',
+    kind: 'template',
+    description: 'Scheduled onboarding analytics report for managers',
+    sampleVariables: sampleReport,
+    subject: '{{reportName}}: {{periodLabel}}',
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>{{reportName}}</title>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: #2563eb; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+    .content { background: #f8fafc; padding: 30px; border-radius: 0 0 8px 8px; }
+    .metrics { width: 100%; border-collapse: collapse; background: white; border-radius: 8px; }
+    .metrics td { padding: 10px 15px; border-bottom: 1px solid #e2e8f0; }
+    .metrics td.value { text-align: right; font-weight: bold; }
+    .section { background: white; padding: 15px 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #2563eb; }
+    .alert { border-left-color: #f59e0b; }
+    .muted { color: #64748b; font-size: 0.9em; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>{{reportName}}</h1>
+    <p>{{periodLabel}}</p>
+  </div>
+  <div class="content">
+    {{#filtersLabel}}<p class="muted">Filtered by {{filtersLabel}}</p>{{/filtersLabel}}
+    <table class="metrics">
+      <tr><td>Onboardings started</td><td class="value">{{totalOnboardings}}</td></tr>
+      <tr><td>Completed</td><td class="value">{{completedOnboardings}}</td></tr>
+      <tr><td>Completion rate</td><td class="value">{{completionRate}}%</td></tr>
+      <tr><td>Still in progress</td><td class="value">{{activeOnboardings}}</td></tr>
+      <tr><td>Stuck (no progress for 7 days)</td><td class="value">{{stuckOnboardings}}</td></tr>
+      <tr><td>Trials expiring in the next 7 days</td><td class="value">{{expiringTrials}}</td></tr>
+    </table>
+    {{#detailed}}
+    <div class="section">
+      <h3>Details</h3>
+      <p>Average time to complete: <strong>{{averageCompletionDays}} days</strong></p>
+      <p>Trial conversion rate: <strong>{{trialConversionRate}}%</strong></p>
+      {{#slowestStep}}<p>Slowest step: <strong>{{slowestStep}}</strong> ({{slowestStepDays}} days on average, {{slowestStepStuck}} stuck)</p>{{/slowestStep}}
+    </div>
+    {{#topAnomaly}}
+    <div class="section alert">
+      <h3>Needs attention ({{anomalyCount}})</h3>
+      <p>{{topAnomaly}}</p>
+      {{#topAnomalyAction}}<p class="muted">{{topAnomalyAction}}</p>{{/topAnomalyAction}}
+    </div>
+    {{/topAnomaly}}
+    {{#topOpportunity}}<div class="section"><h3>Opportunity</h3><p>{{topOpportunity}}</p></div>{{/topOpportunity}}
+    {{#topInsight}}<div class="section"><h3>Insight</h3><p>{{topInsight}}</p></div>{{/topInsight}}
+    {{/detailed}}
+    <p class="muted">You receive this report as a recipient of the "{{reportName}}" analytics report subscription.</p>
+  </div>
+</body>
+</html>
+`,
+    text: `
+{{reportName}}
+{{periodLabel}}
+{{#filtersLabel}}Filtered by {{filtersLabel}}
+{{/filtersLabel}}
+Onboardings started: {{totalOnboardings}}
+Completed: {{completedOnboardings}}
+Completion rate: {{completionRate}}%
+Still in progress: {{activeOnboardings}}
+Stuck (no progress for 7 days): {{stuckOnboardings}}
+Trials expiring in the next 7 days: {{expiringTrials}}
+{{#detailed}}
+Average time to complete: {{averageCompletionDays}} days
+Trial conversion rate: {{trialConversionRate}}%
+{{#slowestStep}}Slowest step: {{slowestStep}} ({{slowestStepDays}} days on average, {{slowestStepStuck}} stuck)
+{{/slowestStep}}{{#topAnomaly}}
+Needs attention ({{anomalyCount}}): {{topAnomaly}}
+{{topAnomalyAction}}
+{{/topAnomaly}}{{#topOpportunity}}
+Opportunity: {{topOpportunity}}
+{{/topOpportunity}}{{#topInsight}}
+Insight: {{topInsight}}
+{{/topInsight}}{{/detailed}}
+You receive this report as a recipient of the "{{reportName}}" analytics report subscription.
+`,
+  },
+];
@@ -0,0 +1,121 @@
+export type EmailTemplateKind = 'template' | 'partial';
+
+export interface EmailTemplateContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// A template or partial as shipped in code or stored in email_templates
+export interface EmailTemplateDefinition extends EmailTemplateContent {
+  name: string;
+  // Partials have no subject and are included with {{> name}}
+  kind: EmailTemplateKind;
+  description?: string;
+  // Used by the preview endpoint
+  sampleVariables?: Record<string, any>;
+}
+
+export type EmailPartials = Record<string, Pick<EmailTemplateContent, 'html' | 'text'>>;
+
+export const DEFAULT_TEMPLATE_LOCALE = 'en';
+
+const MAX_PARTIAL_DEPTH = 5;
+const PARTIAL = /{{\s*>\s*([\w.-]+)\s*}}/g;
+// {{#name}}shown when truthy{{/name}} and {{^name}}shown when falsy{{/name}}
+const SECTION = /{{\s*([#^])\s*([\w.-]+)\s*}}([\s\S]*?){{\s*\/\s*\2\s*}}/g;
+const SECTION_OPEN = /{{\s*[#^]\s*([\w.-]+)\s*}}/g;
+const VARIABLE = /{{\s*([\w.-]+)\s*}}/g;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Dotted paths read nested values: {{servicePackage.name}}
+export function lookupVariable(variables: Record<string, any>, path: string): any {
+  return path.split('.').reduce<any>((value, key) => (value === undefined || value === null ? undefined : value[key]), variables);
+}
+
+function isTruthy(value: any): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function formatValue(value: any): string {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value);
+}
+
+function expandPartials(source: string, part: 'html' | 'text', partials: EmailPartials, depth = 0): string {
+  return source.replace(PARTIAL, (_, name: string) => {
+    const partial = partials[name];
+    if (!partial) {
+      throw new Error(`Unknown email partial: ${name}`);
+    }
+    if (depth >= MAX_PARTIAL_DEPTH) {
+      throw new Error(`Email partial ${name} is nested more than ${MAX_PARTIAL_DEPTH} levels deep`);
+    }
+    return expandPartials(partial[part], part, partials, depth + 1);
+  });
+}
+
+function renderPart(source: string, variables: Record<string, any>, escape: boolean): string {
+  let output = source;
+  let previous: string;
+  // Inner sections are left in place by the lazy match and resolved on the next pass
+  do {
+    previous = output;
+    output = output.replace(SECTION, (_, kind: string, path: string, inner: string) =>
+      isTruthy(lookupVariable(variables, path)) === (kind === '#') ? inner : ''
+    );
+  } while (output !== previous);
+
+  return output.replace(VARIABLE, (_, path: string) => {
+    const value = formatValue(lookupVariable(variables, path));
+    return escape ? escapeHtml(value) : value;
+  });
+}
+
+/**
+ * Render a template. Values are HTML-escaped in the html part only; unknown
+ * variables render as empty strings, unknown partials throw.
+ */
+export function renderTemplate(template: EmailTemplateContent, variables: Record<string, any>, partials: EmailPartials = {}): EmailTemplateContent {
+  return {
+    subject: renderPart(expandPartials(template.subject, 'text', partials), variables, false).trim(),
+    html: renderPart(expandPartials(template.html, 'html', partials), variables, true),
+    text: renderPart(expandPartials(template.text, 'text', partials), variables, false),
+  };
+}
+
+// Partials a template includes directly
+export function partialNames(template: Pick<EmailTemplateContent, 'html' | 'text'> & { subject?: string }): string[] {
+  const names = new Set<string>();
+  for (const source of [template.subject || '', template.html, template.text]) {
+    for (const match of source.matchAll(PARTIAL)) {
+      names.add(match[1]);
+    }
+  }
+  return Array.from(names);
+}
+
+// Variable and section names a template uses (after partial expansion), for previews
+export function templateVariables(template: EmailTemplateContent, partials: EmailPartials = {}): { variables: string[]; sections: string[] } {
+  const variables = new Set<string>();
+  const sections = new Set<string>();
+  for (const [source, part] of [[template.subject, 'text'], [template.html, 'html'], [template.text, 'text']] as const) {
+    const expanded = expandPartials(source, part, partials);
+    for (const match of expanded.matchAll(SECTION_OPEN)) {
+      sections.add(match[1]);
+    }
+    for (const match of expanded.matchAll(VARIABLE)) {
+      variables.add(match[1]);
+    }
+  }
+  return { variables: Array.from(variables), sections: Array.from(sections) };
+}
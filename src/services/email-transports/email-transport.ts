@@ -0,0 +1,29 @@
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  from?: string;
+  // Correlates the send with its email_deliveries row
+  deliveryId?: number;
+  headers?: Record<string, string>;
+}
+
+export interface EmailSendResult {
+  // Transport that actually delivered the message (differs from the configured one after a fallback)
+  transport: string;
+  messageId?: string | null;
+}
+
+/**
+ * Contract for outgoing email. EmailService owns recipients, templates and the
+ * email_deliveries record; transports only hand the rendered message over.
+ */
+export interface EmailTransport {
+  readonly name: string;
+
+  // Throws when the message could not be handed over
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+export const DEFAULT_EMAIL_FROM = 'noreply@xnext.co.za';
@@ -0,0 +1,47 @@
+import { EmailTransport, EmailMessage, EmailSendResult } from './email-transport';
+import { SmtpEmailTransport } from './smtp.transport';
+import { OmsRelayEmailTransport } from './oms-relay.transport';
+import { OutboxEmailTransport } from './outbox.transport';
+
+const transportFactories: Record<string, () => EmailTransport> = {
+  smtp: () => new SmtpEmailTransport(),
+  oms: () => new OmsRelayEmailTransport(),
+  outbox: () => new OutboxEmailTransport(),
+};
+
+// Tries each transport in order; the first that accepts the message wins
+export class FallbackEmailTransport implements EmailTransport {
+  readonly name: string;
+
+  constructor(private transports: EmailTransport[]) {
+    this.name = transports.map(transport => transport.name).join(',');
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    let lastError: unknown;
+    for (const transport of this.transports) {
+      try {
+        return await transport.send(message);
+      } catch (error: any) {
+        lastError = error;
+        console.warn(`[EmailTransport] ${transport.name} failed for ${message.to}:`, error?.message || error);
+      }
+    }
+    throw lastError instanceof Error ? lastError : new Error('All email transports failed');
+  }
+}
+
+/**
+ * EMAIL_TRANSPORT: smtp, oms or outbox, or a comma-separated fallback chain.
+ * Default "oms,smtp" matches how payment emails were already sent.
+ */
+export function createEmailTransport(spec: string = process.env.EMAIL_TRANSPORT || 'oms,smtp'): EmailTransport {
+  const names = spec.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+  const unknown = names.filter(name => !transportFactories[name]);
+  if (unknown.length > 0 || names.length === 0) {
+    throw new Error(`Unknown email transport: ${unknown.join(', ') || spec} (available: ${Object.keys(transportFactories).join(', ')})`);
+  }
+
+  const transports = names.map(name => transportFactories[name]());
+  return transports.length === 1 ? transports[0] : new FallbackEmailTransport(transports);
+}
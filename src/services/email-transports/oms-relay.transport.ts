@@ -0,0 +1,31 @@
+import axios from 'axios';
+import { EmailTransport, EmailMessage, EmailSendResult } from './email-transport';
+
+// Sends through the OMS server's /email/send relay (the same one payment emails use)
+export class OmsRelayEmailTransport implements EmailTransport {
+  readonly name = 'oms';
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const omsServerUrl = process.env.OMS_SERVER_URL || 'http://localhost:3003';
+    const serviceApiKey = process.env.ONBOARDING_SERVICE_API_KEY || 'oms-svc-auth-x9k2m8n4p7q1w5e8r3t6y9u2i5o8p1a4s7d0f3g6h9j2k5l8';
+
+    // Hosted OMS expects /email/send and header x-service-key
+    const response = await axios.post(`${omsServerUrl}/email/send`, {
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text
+    }, {
+      headers: {
+        'Content-Type': 'application/json',
+        'x-service-key': serviceApiKey
+      },
+      timeout: 10000
+    });
+
+    if (!response.data?.success) {
+      throw new Error(`OMS server email failed: ${response.data?.error || 'unknown error'}`);
+    }
+    return { transport: this.name, messageId: response.data?.messageId || response.data?.data?.messageId || null };
+  }
+}
@@ -0,0 +1,32 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { EmailTransport, EmailMessage, EmailSendResult, DEFAULT_EMAIL_FROM } from './email-transport';
+
+/**
+ * Writes each message to EMAIL_OUTBOX_DIR as JSON instead of sending it.
+ * For local development and testing; nothing leaves the machine.
+ */
+export class OutboxEmailTransport implements EmailTransport {
+  readonly name = 'outbox';
+  private readonly directory: string;
+
+  constructor(directory: string = process.env.EMAIL_OUTBOX_DIR || path.join(process.cwd(), 'tmp', 'email-outbox')) {
+    this.directory = directory;
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const messageId = `outbox_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+    const file = path.join(this.directory, `${messageId}.json`);
+    await fs.writeFile(file, JSON.stringify({
+      messageId,
+      from: message.from || process.env.SMTP_FROM || DEFAULT_EMAIL_FROM,
+      ...message,
+      writtenAt: new Date().toISOString(),
+    }, null, 2));
+
+    console.log(`📭 [OutboxEmailTransport] ${message.subject} -> ${message.to} (${file})`);
+    return { transport: this.name, messageId };
+  }
+}
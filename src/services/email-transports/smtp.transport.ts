@@ -0,0 +1,32 @@
+import nodemailer from 'nodemailer';
+import { EmailTransport, EmailMessage, EmailSendResult, DEFAULT_EMAIL_FROM } from './email-transport';
+
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor() {
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST || 'smtp.gmail.com',
+      port: parseInt(process.env.SMTP_PORT || '587'),
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: {
+        user: process.env.SMTP_USER || 'noreply@xnext.co.za',
+        pass: process.env.SMTP_PASS || 'dummy_password'
+      }
+    });
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const info = await this.transporter.sendMail({
+      from: message.from || process.env.SMTP_FROM || DEFAULT_EMAIL_FROM,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      headers: message.headers,
+    });
+
+    return { transport: this.name, messageId: info.messageId || null };
+  }
+}
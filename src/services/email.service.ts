@@ -0,0 +1,243 @@
+import { DatabaseService } from './database.service';
+import { EmailTransport } from './email-transports/email-transport';
+import { createEmailTransport } from './email-transports/factory';
+import { TemplateRegistryService } from './template-registry.service';
+
+// Set by customer_notification_preferences (NotificationService)
+const EMAIL_OPTED_OUT = `EXISTS (
+                  SELECT 1 FROM customer_notification_preferences p
+                   WHERE p.customer_id = c.id::text AND p.channel = 'email' AND p.enabled = FALSE
+                )`;
+
+export interface EmailRecipient {
+  customerId: string;
+  email: string | null;
+  phone: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  customerNumber: string | null;
+  trialEndDate: Date | null;
+  // Hard bounce or complaint recorded; automated sends are paused
+  emailInvalid: boolean;
+  // The customer switched email notifications off
+  emailOptedOut: boolean;
+}
+
+export interface SendTemplateRequest {
+  template: string;
+  // Template locale; falls back to the default locale
+  locale?: string;
+  // EmailJobData.type, kept on the delivery row for reporting
+  type?: string;
+  customerId?: string;
+  // Used to find the customer when customerId is not known
+  onboardingId?: string;
+  // Overrides the customer's address (also for addresses marked invalid)
+  to?: string;
+  variables?: Record<string, any>;
+  jobId?: string;
+  attempt?: number;
+}
+
+export interface EmailDeliveryResult {
+  deliveryId: number;
+  status: 'sent' | 'skipped';
+  recipient: string | null;
+  transport?: string;
+  messageId?: string | null;
+}
+
+/**
+ * Sends named templates to customers. The recipient is resolved from customers
+ * (by customer id or onboarding id), customer fields are merged into the template
+ * variables, and every attempt is recorded in email_deliveries.
+ */
+export class EmailService {
+  private transport: EmailTransport;
+  public templates: TemplateRegistryService;
+
+  constructor(private dbService: DatabaseService, transport?: EmailTransport, templates?: TemplateRegistryService) {
+    this.transport = transport || createEmailTransport();
+    this.templates = templates || new TemplateRegistryService(dbService);
+  }
+
+  get transportName(): string {
+    return this.transport.name;
+  }
+
+  async resolveRecipient(customerId?: string, onboardingId?: string): Promise<EmailRecipient | null> {
+    let result;
+    if (customerId && customerId !== 'unknown') {
+      result = await this.dbService.query(
+        `SELECT c.id, c.email, c.phone, c.first_name, c.last_name, c.customer_number, c.trial_end_date, c.email_invalid,
+                ${EMAIL_OPTED_OUT} AS email_opted_out
+           FROM customers c WHERE c.id = $1`,
+        [customerId]
+      );
+    } else if (onboardingId) {
+      result = await this.dbService.query(
+        `SELECT c.id, c.email, c.phone, c.first_name, c.last_name, c.customer_number, c.trial_end_date, c.email_invalid,
+                ${EMAIL_OPTED_OUT} AS email_opted_out
+           FROM customer_onboarding co
+           JOIN customers c ON c.id = co.customer_id
+          WHERE co.id = $1`,
+        [onboardingId]
+      );
+    } else {
+      return null;
+    }
+
+    const row = result.rows[0];
+    if (!row) return null;
+    return {
+      customerId: String(row.id),
+      email: row.email || null,
+      phone: row.phone || null,
+      firstName: row.first_name || null,
+      lastName: row.last_name || null,
+      customerNumber: row.customer_number || null,
+      trialEndDate: row.trial_end_date || null,
+      emailInvalid: row.email_invalid === true,
+      emailOptedOut: row.email_opted_out === true,
+    };
+  }
+
+  /**
+   * Render and send a template. Returns 'skipped' when no recipient address can be
+   * found, the customer opted out of email or the address is marked invalid; throws
+   * when the transport fails so queue jobs are retried.
+   */
+  async sendTemplate(request: SendTemplateRequest): Promise<EmailDeliveryResult> {
+    const recipient = await this.resolveRecipient(request.customerId, request.onboardingId);
+    const to = request.to || recipient?.email || null;
+    const variables = this.templateVariables(recipient, request.variables);
+
+    const customerId = recipient?.customerId || (request.customerId !== 'unknown' ? request.customerId : undefined) || null;
+
+    if (!to) {
+      const deliveryId = await this.recordDelivery(request, {
+        recipient: null,
+        subject: null,
+        customerId,
+        variables,
+        status: 'skipped',
+        errorMessage: recipient ? 'Customer has no email address' : 'Customer not found',
+      });
+      console.warn(`[EmailService] Skipping ${request.template} email: no recipient for customer ${request.customerId || request.onboardingId || 'unknown'}`);
+      return { deliveryId, status: 'skipped', recipient: null };
+    }
+
+    if (recipient?.emailOptedOut) {
+      const deliveryId = await this.recordDelivery(request, {
+        recipient: to,
+        subject: null,
+        customerId,
+        variables,
+        status: 'skipped',
+        errorMessage: 'Customer opted out of email notifications',
+      });
+      console.log(`[EmailService] Skipping ${request.template} email: customer ${customerId} opted out of email`);
+      return { deliveryId, status: 'skipped', recipient: to };
+    }
+
+    if (!request.to && recipient?.emailInvalid) {
+      const deliveryId = await this.recordDelivery(request, {
+        recipient: to,
+        subject: null,
+        customerId,
+        variables,
+        status: 'skipped',
+        errorMessage: 'Email address marked invalid after a bounce or complaint',
+      });
+      console.warn(`[EmailService] Skipping ${request.template} email: ${to} is marked invalid`);
+      return { deliveryId, status: 'skipped', recipient: to };
+    }
+
+    const rendered = await this.templates.render(request.template, variables, { locale: request.locale });
+    const deliveryId = await this.recordDelivery(request, {
+      recipient: to,
+      subject: rendered.subject,
+      customerId,
+      variables,
+      status: 'pending',
+      templateLocale: rendered.locale,
+      templateVersion: rendered.version,
+    });
+
+    try {
+      const sent = await this.transport.send({ to, subject: rendered.subject, html: rendered.html, text: rendered.text, deliveryId });
+      await this.dbService.query(
+        `UPDATE email_deliveries
+            SET status = 'sent', transport = $2, provider_message_id = $3, sent_at = NOW()
+          WHERE id = $1`,
+        [deliveryId, sent.transport, sent.messageId || null]
+      );
+      console.log(`[EmailService] Sent ${request.template} email to ${to} via ${sent.transport}`);
+      return { deliveryId, status: 'sent', recipient: to, transport: sent.transport, messageId: sent.messageId };
+    } catch (error: any) {
+      await this.dbService.query(
+        `UPDATE email_deliveries SET status = 'failed', transport = $2, error_message = $3 WHERE id = $1`,
+        [deliveryId, this.transport.name, String(error?.message || error).slice(0, 2000)]
+      );
+      console.error(`[EmailService] Failed to send ${request.template} email to ${to}:`, error?.message || error);
+      throw error;
+    }
+  }
+
+  // Customer fields for the template; job variables win over them
+  templateVariables(recipient: EmailRecipient | null, overrides: Record<string, any> = {}): Record<string, any> {
+    const variables: Record<string, any> = {
+      ...(recipient ? {
+        customerId: recipient.customerId,
+        firstName: recipient.firstName,
+        lastName: recipient.lastName,
+        customerName: [recipient.firstName, recipient.lastName].filter(Boolean).join(' '),
+        customerNumber: recipient.customerNumber,
+        trialEndDate: recipient.trialEndDate,
+        email: recipient.email,
+      } : {}),
+      ...overrides,
+    };
+    if (!variables.firstName) variables.firstName = 'there';
+    return variables;
+  }
+
+  private async recordDelivery(
+    request: SendTemplateRequest,
+    row: {
+      recipient: string | null;
+      subject: string | null;
+      customerId: string | null;
+      variables: Record<string, any>;
+      status: string;
+      errorMessage?: string;
+      templateLocale?: string;
+      templateVersion?: number;
+    }
+  ): Promise<number> {
+    const result = await this.dbService.query(
+      `INSERT INTO email_deliveries
+         (template, email_type, recipient, subject, customer_id, onboarding_id, transport, status, error_message, variables, job_id, attempt,
+          template_locale, template_version)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+       RETURNING id`,
+      [
+        request.template,
+        request.type || null,
+        row.recipient,
+        row.subject,
+        row.customerId,
+        request.onboardingId || null,
+        this.transport.name,
+        row.status,
+        row.errorMessage || null,
+        JSON.stringify(row.variables),
+        request.jobId || null,
+        request.attempt || 1,
+        row.templateLocale || null,
+        row.templateVersion ?? null,
+      ]
+    );
+    return result.rows[0].id;
+  }
+}
@@ -0,0 +1,22 @@
+import { MessageTransport, TextMessageChannel } from './message-transport';
+import { TwilioMessageTransport } from './twilio.transport';
+import { StubMessageTransport } from './stub.transport';
+
+const transportFactories: Record<string, (channel: TextMessageChannel) => MessageTransport> = {
+  twilio: channel => new TwilioMessageTransport(channel),
+  stub: () => new StubMessageTransport(),
+};
+
+/**
+ * SMS_TRANSPORT / WHATSAPP_TRANSPORT: twilio or stub. Defaults to twilio when
+ * TWILIO_ACCOUNT_SID is set and to the stub otherwise.
+ */
+export function createMessageTransport(channel: TextMessageChannel, spec?: string): MessageTransport {
+  const configured = spec ?? (channel === 'whatsapp' ? process.env.WHATSAPP_TRANSPORT : process.env.SMS_TRANSPORT);
+  const name = (configured || (process.env.TWILIO_ACCOUNT_SID ? 'twilio' : 'stub')).trim().toLowerCase();
+  const factory = transportFactories[name];
+  if (!factory) {
+    throw new Error(`Unknown ${channel} transport: ${name} (available: ${Object.keys(transportFactories).join(', ')})`);
+  }
+  return factory(channel);
+}
@@ -0,0 +1,14 @@
+/**
+ * Short copy for SMS and WhatsApp, keyed by email template name. Rendered with the
+ * same {{variable}} syntax and variables as the email templates; a template with no
+ * short copy is only sent by email.
+ */
+export const SHORT_MESSAGE_TEMPLATES: Record<string, string> = {
+  welcome: 'Hi {{firstName}}, welcome to Xnext! Your onboarding has started{{#customerNumber}} (ref {{customerNumber}}){{/customerNumber}}. We will keep you updated at every step.',
+  'follow-up': 'Hi {{firstName}}, how is your Xnext service? Reply or call us if anything is not working as expected.',
+  completion: 'Hi {{firstName}}, your Xnext service is now active. Enjoy!',
+  'trial-conversion': 'Hi {{firstName}}, your Xnext trial is now a full subscription. Thanks for staying with us.',
+  'trial-expiry': 'Hi {{firstName}}, your Xnext trial ends on {{trialEndDate}}. Upgrade to keep your service connected.',
+  'trial-expired': 'Hi {{firstName}}, your Xnext trial has ended. Your service stays on until {{graceEndDate}}; upgrade before then to keep it.',
+  'trial-ended': 'Hi {{firstName}}, your Xnext trial service has been {{#suspended}}suspended. Upgrade at any time to reconnect.{{/suspended}}{{^suspended}}closed.{{/suspended}}',
+};
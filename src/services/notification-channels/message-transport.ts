@@ -0,0 +1,56 @@
+export type NotificationChannelName = 'email' | 'sms' | 'whatsapp';
+
+export const NOTIFICATION_CHANNELS: NotificationChannelName[] = ['email', 'sms', 'whatsapp'];
+
+// Channels delivered as short text messages to a phone number
+export type TextMessageChannel = Exclude<NotificationChannelName, 'email'>;
+
+export interface TextMessage {
+  channel: TextMessageChannel;
+  // E.164 phone number, e.g. +27821234567
+  to: string;
+  body: string;
+  // Correlates the send with its notification_deliveries row
+  deliveryId?: number;
+}
+
+export interface TextMessageSendResult {
+  transport: string;
+  messageId?: string | null;
+}
+
+/**
+ * Contract for SMS and WhatsApp gateways. NotificationService owns recipients,
+ * preferences and the notification_deliveries record; transports only hand the
+ * rendered message over.
+ */
+export interface MessageTransport {
+  readonly name: string;
+
+  // Throws when the message could not be handed over
+  send(message: TextMessage): Promise<TextMessageSendResult>;
+}
+
+/**
+ * Normalise a phone number to E.164. Local numbers ("082 123 4567") get
+ * SMS_DEFAULT_COUNTRY_CODE (default 27); returns null when it cannot be a number.
+ */
+export function normalizePhoneNumber(raw: string | null | undefined, countryCode: string = process.env.SMS_DEFAULT_COUNTRY_CODE || '27'): string | null {
+  if (!raw) return null;
+  const trimmed = String(raw).trim();
+  const digits = trimmed.replace(/[^\d]/g, '');
+  if (!digits) return null;
+
+  let international: string;
+  if (trimmed.startsWith('+')) {
+    international = digits;
+  } else if (digits.startsWith('00')) {
+    international = digits.slice(2);
+  } else if (digits.startsWith('0')) {
+    international = `${countryCode}${digits.slice(1)}`;
+  } else {
+    international = digits;
+  }
+
+  return international.length >= 8 && international.length <= 15 ? `+${international}` : null;
+}
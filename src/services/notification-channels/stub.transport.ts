@@ -0,0 +1,22 @@
+import { MessageTransport, TextMessage, TextMessageSendResult } from './message-transport';
+
+/**
+ * Keeps messages in memory and logs them instead of sending. For local
+ * development and tests; `sent` holds every message handed over.
+ */
+export class StubMessageTransport implements MessageTransport {
+  readonly name = 'stub';
+  readonly sent: Array<TextMessage & { messageId: string; sentAt: Date }> = [];
+
+  async send(message: TextMessage): Promise<TextMessageSendResult> {
+    const messageId = `stub_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+    this.sent.push({ ...message, messageId, sentAt: new Date() });
+
+    console.log(`📱 [StubMessageTransport] ${message.channel} -> ${message.to}: ${message.body}`);
+    return { transport: this.name, messageId };
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
@@ -0,0 +1,37 @@
+import axios from 'axios';
+import { MessageTransport, TextMessage, TextMessageChannel, TextMessageSendResult } from './message-transport';
+
+/**
+ * Sends SMS and WhatsApp messages through the Twilio Messages API
+ * (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_SMS_FROM, TWILIO_WHATSAPP_FROM).
+ */
+export class TwilioMessageTransport implements MessageTransport {
+  readonly name = 'twilio';
+
+  constructor(private channel: TextMessageChannel) {}
+
+  async send(message: TextMessage): Promise<TextMessageSendResult> {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID;
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+    const from = this.channel === 'whatsapp' ? process.env.TWILIO_WHATSAPP_FROM : process.env.TWILIO_SMS_FROM;
+    if (!accountSid || !authToken || !from) {
+      throw new Error(`Twilio ${this.channel} is not configured (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_${this.channel.toUpperCase()}_FROM)`);
+    }
+
+    // WhatsApp numbers are addressed as whatsapp:+27...
+    const address = (number: string) => (this.channel === 'whatsapp' && !number.startsWith('whatsapp:') ? `whatsapp:${number}` : number);
+    const form = new URLSearchParams({ To: address(message.to), From: address(from), Body: message.body });
+
+    const response = await axios.post(
+      `https://api.twilio.com/2010-04-01/Accounts/${encodeURIComponent(accountSid)}/Messages.json`,
+      form.toString(),
+      {
+        auth: { username: accountSid, password: authToken },
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        timeout: 10000,
+      }
+    );
+
+    return { transport: this.name, messageId: response.data?.sid || null };
+  }
+}
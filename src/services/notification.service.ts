@@ -0,0 +1,292 @@
+import { DatabaseService } from './database.service';
+import { EmailService, SendTemplateRequest } from './email.service';
+import { renderTemplate } from './email-templates/template-engine';
+import {
+  MessageTransport,
+  NOTIFICATION_CHANNELS,
+  NotificationChannelName,
+  TextMessageChannel,
+  normalizePhoneNumber,
+} from './notification-channels/message-transport';
+import { createMessageTransport } from './notification-channels/factory';
+import { SHORT_MESSAGE_TEMPLATES } from './notification-channels/message-templates';
+import { createNotFoundError, createValidationError } from '../middleware/error.middleware';
+
+export interface NotificationPreference {
+  channel: NotificationChannelName;
+  enabled: boolean;
+  // Overrides the customer's email address or phone number for this channel
+  destination: string | null;
+  optedOutAt: Date | null;
+  optOutReason: string | null;
+  // 'default' until the customer has a row for the channel
+  source: 'customer' | 'default';
+  updatedAt: Date | null;
+}
+
+export interface NotificationPreferenceUpdate {
+  channel: NotificationChannelName;
+  enabled?: boolean;
+  // null clears the override
+  destination?: string | null;
+  reason?: string;
+}
+
+export interface SendNotificationRequest extends SendTemplateRequest {
+  channel?: NotificationChannelName;
+}
+
+export interface NotificationDeliveryResult {
+  channel: NotificationChannelName;
+  // email_deliveries.id for email, notification_deliveries.id otherwise
+  deliveryId: number;
+  status: 'sent' | 'skipped';
+  recipient: string | null;
+  transport?: string;
+  messageId?: string | null;
+}
+
+// WhatsApp business messages need the customer's explicit opt-in
+const OPT_IN_CHANNELS: NotificationChannelName[] = ['whatsapp'];
+
+export function isNotificationChannel(value: any): value is NotificationChannelName {
+  return NOTIFICATION_CHANNELS.includes(value);
+}
+
+// NOTIFICATION_DEFAULT_CHANNELS: channels used for customers without preferences (default "email")
+export function defaultNotificationChannels(raw: string = process.env.NOTIFICATION_DEFAULT_CHANNELS || 'email'): NotificationChannelName[] {
+  const channels = raw.split(',').map(channel => channel.trim().toLowerCase()).filter(isNotificationChannel);
+  return channels.filter(channel => !OPT_IN_CHANNELS.includes(channel));
+}
+
+/**
+ * Customer notifications over email, SMS and WhatsApp. Email goes through
+ * EmailService; SMS and WhatsApp use the short copy of the same template and are
+ * recorded in notification_deliveries. Per-customer preferences decide which
+ * channels automated notifications use, and an opt-out is honoured on every send.
+ */
+export class NotificationService {
+  private transports: Record<TextMessageChannel, MessageTransport>;
+
+  constructor(
+    private dbService: DatabaseService,
+    public emailService: EmailService = new EmailService(dbService),
+    transports: Partial<Record<TextMessageChannel, MessageTransport>> = {}
+  ) {
+    this.transports = {
+      sms: transports.sms || createMessageTransport('sms'),
+      whatsapp: transports.whatsapp || createMessageTransport('whatsapp'),
+    };
+  }
+
+  get transportNames(): Record<NotificationChannelName, string> {
+    return { email: this.emailService.transportName, sms: this.transports.sms.name, whatsapp: this.transports.whatsapp.name };
+  }
+
+  async getPreferences(customerId: string): Promise<NotificationPreference[]> {
+    const customer = await this.dbService.query('SELECT id FROM customers WHERE id = $1', [customerId]);
+    if (customer.rows.length === 0) {
+      throw createNotFoundError('Customer');
+    }
+
+    const result = await this.dbService.query(
+      'SELECT * FROM customer_notification_preferences WHERE customer_id = $1',
+      [customerId]
+    );
+    const defaults = defaultNotificationChannels();
+
+    return NOTIFICATION_CHANNELS.map(channel => {
+      const row = result.rows.find((r: any) => r.channel === channel);
+      if (!row) {
+        return {
+          channel,
+          enabled: defaults.includes(channel),
+          destination: null,
+          optedOutAt: null,
+          optOutReason: null,
+          source: 'default' as const,
+          updatedAt: null,
+        };
+      }
+      return {
+        channel,
+        enabled: row.enabled,
+        destination: row.destination || null,
+        optedOutAt: row.opted_out_at || null,
+        optOutReason: row.opt_out_reason || null,
+        source: 'customer' as const,
+        updatedAt: row.updated_at || null,
+      };
+    });
+  }
+
+  async updatePreferences(customerId: string, updates: NotificationPreferenceUpdate[], actor?: string): Promise<NotificationPreference[]> {
+    for (const update of updates) {
+      if (!isNotificationChannel(update.channel)) {
+        throw createValidationError(`Unknown notification channel: ${update.channel} (available: ${NOTIFICATION_CHANNELS.join(', ')})`);
+      }
+      if (update.enabled !== undefined && typeof update.enabled !== 'boolean') {
+        throw createValidationError(`enabled must be a boolean for ${update.channel}`);
+      }
+      if (update.destination && update.channel !== 'email' && !normalizePhoneNumber(update.destination)) {
+        throw createValidationError(`Invalid phone number for ${update.channel}: ${update.destination}`);
+      }
+    }
+
+    // Also checks that the customer exists
+    const current = await this.getPreferences(customerId);
+
+    for (const update of updates) {
+      const existing = current.find(preference => preference.channel === update.channel)!;
+      const enabled = update.enabled ?? existing.enabled;
+      const destination = update.destination === undefined
+        ? existing.destination
+        : (update.destination && update.channel !== 'email' ? normalizePhoneNumber(update.destination) : update.destination || null);
+
+      await this.dbService.query(
+        `INSERT INTO customer_notification_preferences
+           (customer_id, channel, enabled, destination, opted_out_at, opt_out_reason, updated_by, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, CASE WHEN $3 THEN NULL ELSE NOW() END, CASE WHEN $3 THEN NULL ELSE $5 END, $6, NOW(), NOW())
+         ON CONFLICT (customer_id, channel) DO UPDATE SET
+           enabled = EXCLUDED.enabled,
+           destination = EXCLUDED.destination,
+           -- Keep the original opt-out time while the channel stays off
+           opted_out_at = CASE
+             WHEN EXCLUDED.enabled THEN NULL
+             ELSE COALESCE(customer_notification_preferences.opted_out_at, NOW())
+           END,
+           opt_out_reason = CASE
+             WHEN EXCLUDED.enabled THEN NULL
+             ELSE COALESCE(EXCLUDED.opt_out_reason, customer_notification_preferences.opt_out_reason)
+           END,
+           updated_by = EXCLUDED.updated_by,
+           updated_at = NOW()`,
+        [customerId, update.channel, enabled, destination, update.reason || null, actor || null]
+      );
+
+      if (existing.enabled !== enabled) {
+        console.log(`[Notifications] Customer ${customerId} ${enabled ? 'enabled' : 'opted out of'} ${update.channel}${actor ? ` (${actor})` : ''}`);
+      }
+    }
+
+    return this.getPreferences(customerId);
+  }
+
+  /**
+   * Channels an automated notification should use: the customer's enabled channels,
+   * or NOTIFICATION_DEFAULT_CHANNELS without preferences. Falls back to email when
+   * preferences cannot be read.
+   */
+  async resolveChannels(customerId?: string, onboardingId?: string): Promise<NotificationChannelName[]> {
+    try {
+      const recipient = await this.emailService.resolveRecipient(customerId, onboardingId);
+      if (!recipient) return ['email'];
+
+      const preferences = await this.getPreferences(recipient.customerId);
+      return preferences.filter(preference => preference.enabled).map(preference => preference.channel);
+    } catch (error) {
+      console.warn(`[Notifications] Could not read preferences for ${customerId || onboardingId}, using email:`, (error as Error).message);
+      return ['email'];
+    }
+  }
+
+  /**
+   * Send a template over one channel. Returns 'skipped' when the customer opted out
+   * of the channel, has no address for it, or the template has no copy for it; throws
+   * when the transport fails so queue jobs are retried.
+   */
+  async send(request: SendNotificationRequest): Promise<NotificationDeliveryResult> {
+    const channel = request.channel || 'email';
+    if (channel === 'email') {
+      const result = await this.emailService.sendTemplate(request);
+      return { channel, ...result };
+    }
+    if (!isNotificationChannel(channel)) {
+      throw createValidationError(`Unknown notification channel: ${channel}`);
+    }
+    return this.sendTextMessage(channel, request);
+  }
+
+  private async sendTextMessage(channel: TextMessageChannel, request: SendTemplateRequest): Promise<NotificationDeliveryResult> {
+    const recipient = await this.emailService.resolveRecipient(request.customerId, request.onboardingId);
+    const customerId = recipient?.customerId || (request.customerId !== 'unknown' ? request.customerId : undefined) || null;
+    const preference = recipient ? (await this.getPreferences(recipient.customerId)).find(p => p.channel === channel) : undefined;
+    const to = normalizePhoneNumber(request.to || preference?.destination || recipient?.phone);
+
+    const skip = async (reason: string): Promise<NotificationDeliveryResult> => {
+      const deliveryId = await this.recordDelivery(channel, request, { recipient: to, body: null, customerId, status: 'skipped', errorMessage: reason });
+      console.log(`[Notifications] Skipping ${request.template} ${channel} for customer ${customerId || request.onboardingId || 'unknown'}: ${reason}`);
+      return { channel, deliveryId, status: 'skipped', recipient: to };
+    };
+
+    if (!recipient && !request.to) {
+      return skip('Customer not found');
+    }
+    if (preference && preference.source === 'customer' && !preference.enabled) {
+      return skip(`Customer opted out of ${channel} notifications`);
+    }
+    if (OPT_IN_CHANNELS.includes(channel) && !(preference?.source === 'customer' && preference.enabled)) {
+      return skip(`Customer has not opted in to ${channel} notifications`);
+    }
+    if (!to) {
+      return skip('Customer has no valid phone number');
+    }
+
+    const copy = SHORT_MESSAGE_TEMPLATES[request.template];
+    if (!copy) {
+      return skip(`Template ${request.template} has no ${channel} copy`);
+    }
+
+    const variables = this.emailService.templateVariables(recipient, request.variables);
+    const body = renderTemplate({ subject: '', html: '', text: copy }, variables).text.trim();
+    const deliveryId = await this.recordDelivery(channel, request, { recipient: to, body, customerId, status: 'pending' });
+    const transport = this.transports[channel];
+
+    try {
+      const sent = await transport.send({ channel, to, body, deliveryId });
+      await this.dbService.query(
+        `UPDATE notification_deliveries
+            SET status = 'sent', transport = $2, provider_message_id = $3, sent_at = NOW()
+          WHERE id = $1`,
+        [deliveryId, sent.transport, sent.messageId || null]
+      );
+      console.log(`[Notifications] Sent ${request.template} ${channel} to ${to} via ${sent.transport}`);
+      return { channel, deliveryId, status: 'sent', recipient: to, transport: sent.transport, messageId: sent.messageId };
+    } catch (error: any) {
+      await this.dbService.query(
+        `UPDATE notification_deliveries SET status = 'failed', transport = $2, error_message = $3 WHERE id = $1`,
+        [deliveryId, transport.name, String(error?.message || error).slice(0, 2000)]
+      );
+      console.error(`[Notifications] Failed to send ${request.template} ${channel} to ${to}:`, error?.message || error);
+      throw error;
+    }
+  }
+
+  private async recordDelivery(
+    channel: TextMessageChannel,
+    request: SendTemplateRequest,
+    row: { recipient: string | null; body: string | null; customerId: string | null; status: string; errorMessage?: string }
+  ): Promise<number> {
+    const result = await this.dbService.query(
+      `INSERT INTO notification_deliveries
+         (channel, template, notification_type, recipient, body, customer_id, onboarding_id, transport, status, error_message, job_id, attempt)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       RETURNING id`,
+      [
+        channel,
+        request.template,
+        request.type || null,
+        row.recipient,
+        row.body,
+        row.customerId,
+        request.onboardingId || null,
+        this.transports[channel].name,
+        row.status,
+        row.errorMessage || null,
+        request.jobId || null,
+        request.attempt || 1,
+      ]
+    );
+    return result.rows[0].id;
+  }
+}
@@ -0,0 +1,235 @@
+import { DatabaseService } from './database.service';
+import { WorkflowService, WorkflowDefinition } from './workflow.service';
+import { StepHistoryService, StepTransition, StepTransitionAction } from './step-history.service';
+import { createConflictError, createNotFoundError, createValidationError } from '../middleware/error.middleware';
+
+export type StepOperation = 'advance' | 'skip' | 'rollback';
+
+export interface StepTransitionRequest {
+  operation: StepOperation;
+  stepId: string;
+  // Required for skip and rollback
+  reason?: string;
+  notes?: string;
+  metadata?: any;
+  actor?: string;
+}
+
+export interface StepTransitionResult {
+  onboardingId: string;
+  customerId: string;
+  fromStep: string;
+  toStep: string;
+  operation: StepOperation;
+  completionPercentage: number;
+  completed: boolean;
+  // False when the onboarding was already on the requested step (repeated webhook delivery)
+  changed: boolean;
+}
+
+// A step on the replayed path, with the transition that put it there
+export interface ReplayedStep {
+  stepId: string;
+  transition: StepTransition;
+}
+
+/**
+ * Guards every onboarding step change against the pinned workflow definition.
+ *
+ * - advance: only to a step the current step leads to (linear next or a declared branch)
+ * - skip: same targets as advance, recorded as skipped; requires a reason
+ * - rollback: only to an earlier step on the path actually taken; requires a reason
+ *
+ * Completion percentage is recomputed by replaying the transition log, so a rollback
+ * gives back the weight of the steps it undoes.
+ */
+export class OnboardingStateMachine {
+  constructor(
+    private dbService: DatabaseService,
+    private workflowService: WorkflowService,
+    private stepHistory: StepHistoryService
+  ) {}
+
+  async transition(onboardingId: string, request: StepTransitionRequest): Promise<StepTransitionResult> {
+    if (!request.stepId) {
+      throw createValidationError('Step ID is required');
+    }
+    if (request.operation !== 'advance' && !request.reason?.trim()) {
+      throw createValidationError(`A reason is required to ${request.operation} a step`);
+    }
+
+    const client = await this.dbService.getClient();
+    try {
+      await client.query('BEGIN');
+
+      // Lock the onboarding so concurrent updates are validated against the latest step
+      const currentResult = await client.query(
+        'SELECT * FROM customer_onboarding WHERE id = $1 FOR UPDATE',
+        [onboardingId]
+      );
+      if (currentResult.rows.length === 0) {
+        throw createNotFoundError(`Onboarding ${onboardingId}`);
+      }
+
+      const onboarding = currentResult.rows[0];
+      const workflow = await this.workflowService.getDefinitionForOnboarding(onboarding);
+      const fromStep: string = onboarding.current_step;
+
+      if (!this.workflowService.getStep(workflow, request.stepId)) {
+        throw createValidationError(`Step ${request.stepId} is not part of workflow ${workflow.key} v${workflow.version}`);
+      }
+
+      const history = await this.stepHistory.getHistory(onboardingId, client);
+
+      // Repeated advance into the current step is a no-op, not a conflict
+      if (request.operation === 'advance' && request.stepId === fromStep) {
+        await client.query('COMMIT');
+        return {
+          onboardingId,
+          customerId: onboarding.customer_id,
+          fromStep,
+          toStep: fromStep,
+          operation: request.operation,
+          completionPercentage: onboarding.completion_percentage,
+          completed: !!onboarding.completed_at,
+          changed: false,
+        };
+      }
+
+      this.assertAllowed(workflow, onboarding, history, request);
+
+      const action: StepTransitionAction = request.operation;
+      const transition = await this.stepHistory.record({
+        onboardingId,
+        fromStep,
+        toStep: request.stepId,
+        action,
+        actor: request.actor,
+        reason: request.reason,
+        notes: request.notes,
+        metadata: request.metadata,
+      }, client);
+
+      const path = this.replay(workflow, [...history, transition]);
+      const completionPercentage = this.computeCompletion(workflow, path);
+      const completed = this.workflowService.isTerminalStep(workflow, request.stepId);
+
+      await client.query(
+        `UPDATE customer_onboarding
+            SET current_step = $1,
+                completion_percentage = $2,
+                notes = COALESCE($3, notes),
+                completed_at = CASE WHEN $4 THEN COALESCE(completed_at, NOW()) ELSE NULL END
+          WHERE id = $5`,
+        [request.stepId, completionPercentage, request.notes || null, completed, onboardingId]
+      );
+
+      await client.query('COMMIT');
+
+      console.log(`[OnboardingStateMachine] ${request.operation} ${onboardingId}: ${fromStep} -> ${request.stepId} (${completionPercentage}%)`);
+
+      return {
+        onboardingId,
+        customerId: onboarding.customer_id,
+        fromStep,
+        toStep: request.stepId,
+        operation: request.operation,
+        completionPercentage,
+        completed,
+        changed: true,
+      };
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Replay the transition log into the path currently taken through the workflow.
+   * Backfilled rows only know the step the onboarding was on, so the linear prefix up to it is assumed.
+   */
+  replay(workflow: WorkflowDefinition, history: StepTransition[]): ReplayedStep[] {
+    let path: ReplayedStep[] = [];
+
+    for (const transition of history) {
+      if (transition.action === 'backfill') {
+        const index = workflow.steps.findIndex(step => step.id === transition.toStep);
+        path = workflow.steps
+          .slice(0, index + 1)
+          .map(step => ({ stepId: step.id, transition }));
+        continue;
+      }
+
+      if (transition.action === 'rollback' || transition.fromStep === null) {
+        const index = path.findIndex(entry => entry.stepId === transition.toStep);
+        if (index >= 0) {
+          path = path.slice(0, index + 1);
+          continue;
+        }
+        path = [];
+      }
+
+      path.push({ stepId: transition.toStep, transition });
+    }
+
+    return path;
+  }
+
+  // Steps the onboarding may advance or skip to from its current step
+  getAllowedNextSteps(workflow: WorkflowDefinition, currentStepId: string): string[] {
+    const step = this.workflowService.getStep(workflow, currentStepId);
+    if (!step) return [];
+
+    if (step.next && step.next.length > 0) {
+      return Array.from(new Set(step.next.map(transition => transition.to)));
+    }
+
+    const next = this.workflowService.getNextStep(workflow, currentStepId);
+    return next ? [next] : [];
+  }
+
+  private assertAllowed(
+    workflow: WorkflowDefinition,
+    onboarding: any,
+    history: StepTransition[],
+    request: StepTransitionRequest
+  ): void {
+    const current: string = onboarding.current_step;
+
+    if (request.operation === 'rollback') {
+      const path = this.replay(workflow, history).map(entry => entry.stepId);
+      const index = path.lastIndexOf(request.stepId);
+      if (index < 0 || index >= path.length - 1) {
+        throw createConflictError(`Cannot roll back from ${current} to ${request.stepId}: step is not earlier on this onboarding's path`);
+      }
+      return;
+    }
+
+    if (onboarding.completed_at) {
+      throw createConflictError(`Onboarding ${onboarding.id} is already completed; roll back before changing steps`);
+    }
+
+    const allowed = this.getAllowedNextSteps(workflow, current);
+    if (!allowed.includes(request.stepId)) {
+      throw createConflictError(
+        `Cannot ${request.operation} from ${current} to ${request.stepId}; allowed: ${allowed.join(', ') || 'none'}`
+      );
+    }
+  }
+
+  // Sum of the weights of steps entered after the initial one; the terminal step is always 100
+  private computeCompletion(workflow: WorkflowDefinition, path: ReplayedStep[]): number {
+    const last = path[path.length - 1];
+    if (last && this.workflowService.isTerminalStep(workflow, last.stepId)) {
+      return 100;
+    }
+
+    const initialStep = this.workflowService.getInitialStep(workflow).id;
+    const total = path
+      .filter(entry => entry.stepId !== initialStep)
+      .reduce((sum, entry) => sum + this.workflowService.getStepWeight(workflow, entry.stepId), 0);
+    return Math.min(100, total);
+  }
+}
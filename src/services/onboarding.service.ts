@@ -1,11 +1,25 @@
 import { DatabaseService } from './database.service';
 import { QueueService, OnboardingJobData } from './queue.service';
+import { WorkflowService } from './workflow.service';
+import { StepHistoryService, StepTransition } from './step-history.service';
+import { OnboardingStateMachine, StepOperation, StepTransitionResult } from './onboarding-state-machine.service';
+import { NotificationChannelName } from './notification-channels/message-transport';
+import { TrialLifecycleService, TrialStatus } from './trial-lifecycle.service';
+import { TrialConversionRequest, TrialConversionResult, TrialConversionService } from './trial-conversion.service';
 
 // Database row types
 interface DatabaseRow {
   [key: string]: any;
 }
 
+// UTM-style acquisition source of a customer or onboarding
+export interface Attribution {
+  campaign?: string;
+  channel?: string;
+  referrer?: string;
+  promoCode?: string;
+}
+
 export interface OnboardingData {
   id: string;
   customerId: string;
@@ -17,6 +31,9 @@ export interface OnboardingData {
   startedAt: Date;
   completedAt?: Date;
   notes?: string;
+  workflowKey?: string;
+  workflowVersion?: number;
+  attribution?: Attribution;
 }
 
 export interface CreateOnboardingRequest {
@@ -24,12 +41,21 @@ export interface CreateOnboardingRequest {
   orderId?: string;
   onboardingType: 'new_customer' | 'trial';
   assignedTo?: string;
+  // Force a specific workflow instead of resolving one from the customer/order context
+  workflowKey?: string;
+  initiatedBy?: string;
+  // Defaults to the customer's attribution
+  attribution?: Attribution;
 }
 
 export interface UpdateStepRequest {
   stepId: string;
   notes?: string;
   metadata?: any;
+  // x-user-id of the caller, or system:<component> for automated updates
+  actor?: string;
+  // Required for skip and rollback
+  reason?: string;
 }
 
 export interface OnboardingStep {
@@ -40,6 +66,7 @@ export interface OnboardingStep {
   completedAt?: Date;
   completedBy?: string;
   notes?: string;
+  metadata?: any;
 }
 
 export interface CreateCustomerRequest {
@@ -58,82 +85,63 @@ export interface CreateCustomerRequest {
   is_trial?: boolean;
   trial_start_date?: string | null;
   trial_end_date?: string | null;
+  attribution?: Attribution;
 }
 
-export class OnboardingService {
-  private readonly defaultSteps: OnboardingStep[] = [
-    {
-      id: 'initiated',
-      name: 'Onboarding Initiated',
-      description: 'Onboarding process has been started',
-      status: 'completed'
-    },
-    {
-      id: 'welcome_sent',
-      name: 'Welcome Email Sent',
-      description: 'Welcome email has been sent to customer',
-      status: 'pending'
-    },
-    {
-      id: 'service_setup',
-      name: 'Service Configuration',
-      description: 'Configure service parameters and account setup',
-      status: 'pending'
-    },
-    {
-      id: 'equipment_ordered',
-      name: 'Equipment Ordered',
-      description: 'Equipment has been ordered for installation',
-      status: 'pending'
-    },
-    {
-      id: 'equipment_shipped',
-      name: 'Equipment Shipped',
-      description: 'Equipment has been shipped to customer',
-      status: 'pending'
-    },
-    {
-      id: 'installation_scheduled',
-      name: 'Installation Scheduled',
-      description: 'Installation appointment has been scheduled',
-      status: 'pending'
-    },
-    {
-      id: 'installation_completed',
-      name: 'Installation Completed',
-      description: 'Service installation has been completed',
-      status: 'pending'
-    },
-    {
-      id: 'service_activated',
-      name: 'Service Activated',
-      description: 'Service has been activated and tested',
-      status: 'pending'
-    },
-    {
-      id: 'follow_up',
-      name: 'Follow-up & Support',
-      description: 'Post-activation follow-up and support setup',
-      status: 'pending'
-    },
-    {
-      id: 'completed',
-      name: 'Onboarding Completed',
-      description: 'Onboarding process has been completed successfully',
-      status: 'pending'
+/**
+ * Read attribution from a request body: `attribution: { campaign, channel, referrer, promoCode }`
+ * or flat fields, including utm_campaign / utm_medium / utm_source. Returns undefined when empty.
+ */
+export function normalizeAttribution(raw: any): Attribution | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const source = { ...raw, ...(raw.attribution && typeof raw.attribution === 'object' ? raw.attribution : {}) };
+  const pick = (...keys: string[]): string | undefined => {
+    for (const key of keys) {
+      const value = source[key];
+      if (value !== undefined && value !== null && String(value).trim() !== '') {
+        return String(value).trim().slice(0, 255);
+      }
     }
-  ];
+    return undefined;
+  };
+
+  const attribution: Attribution = {
+    campaign: pick('campaign', 'utm_campaign', 'utmCampaign'),
+    channel: pick('channel', 'utm_medium', 'utmMedium'),
+    referrer: pick('referrer', 'utm_source', 'utmSource'),
+    promoCode: pick('promoCode', 'promo_code'),
+  };
+  return Object.values(attribution).some(Boolean) ? attribution : undefined;
+}
+
+function mapAttribution(row: DatabaseRow): Attribution | undefined {
+  if (!row.attribution_campaign && !row.attribution_channel && !row.attribution_referrer && !row.attribution_promo_code) {
+    return undefined;
+  }
+  return {
+    campaign: row.attribution_campaign || undefined,
+    channel: row.attribution_channel || undefined,
+    referrer: row.attribution_referrer || undefined,
+    promoCode: row.attribution_promo_code || undefined,
+  };
+}
 
+export class OnboardingService {
   constructor(
     public dbService: DatabaseService,
-    private queueService: QueueService
+    private queueService: QueueService,
+    public workflowService: WorkflowService,
+    private stepHistory: StepHistoryService,
+    private stateMachine: OnboardingStateMachine,
+    private trialLifecycle: TrialLifecycleService = new TrialLifecycleService(dbService, queueService),
+    private trialConversions: TrialConversionService = new TrialConversionService(dbService, queueService, trialLifecycle)
   ) {}
 
   async getActiveOnboardings(): Promise<OnboardingData[]> {
     const result = await this.dbService.query(
       `SELECT id, customer_id, order_id, onboarding_type, current_step, completion_percentage, assigned_to, started_at
        FROM customer_onboarding
-       WHERE completed_at IS NULL
+       WHERE completed_at IS NULL AND (trial_status IS NULL OR trial_status <> 'closed')
        ORDER BY started_at DESC`
     );
     return result.rows.map((row: DatabaseRow) => ({
@@ -155,30 +163,47 @@ export class OnboardingService {
     );
   }
 
+  // Queue one job per channel; without channels the customer's preferred channels are used
   async notifyOnboarding(
     onboardingId: string,
-    opts: { type: 'welcome' | 'reminder' | 'completion' | 'trial-expiry'; template?: string; variables?: any; email?: string }
-  ): Promise<void> {
-    // Fetch email if not provided
-    let email = opts.email as string | undefined;
-    if (!email) {
-      const r = await this.dbService.query(
-        `SELECT c.email, co.customer_id
-           FROM customer_onboarding co
-           JOIN customers c ON c.id = co.customer_id
-          WHERE co.id = $1`,
-        [onboardingId]
-      );
-      email = r.rows[0]?.email;
+    opts: {
+      type: 'welcome' | 'reminder' | 'completion' | 'trial-expiry';
+      template?: string;
+      locale?: string;
+      variables?: any;
+      email?: string;
+      phone?: string;
+      channels?: NotificationChannelName[];
+    }
+  ): Promise<NotificationChannelName[]> {
+    const r = await this.dbService.query(
+      'SELECT customer_id FROM customer_onboarding WHERE id = $1',
+      [onboardingId]
+    );
+    if (r.rows.length === 0) {
+      throw new Error(`Onboarding ${onboardingId} not found`);
     }
 
-    await this.queueService.addEmailJob({
+    // The worker resolves the address from customers unless one is given
+    const job = {
       type: opts.type,
-      email: email || '',
-      customerId: 'unknown',
+      email: opts.email || undefined,
+      phone: opts.phone || undefined,
+      customerId: r.rows[0].customer_id,
+      onboardingId,
       template: opts.template || opts.type,
+      locale: opts.locale,
       variables: opts.variables || {},
-    });
+    };
+    if (!opts.channels || opts.channels.length === 0) {
+      return this.queueService.addNotificationJob(job);
+    }
+
+    const queued: NotificationChannelName[] = [];
+    for (const channel of Array.from(new Set(opts.channels))) {
+      queued.push(...(await this.queueService.addNotificationJob({ ...job, channel })));
+    }
+    return queued;
   }
 
   async createCustomer(request: CreateCustomerRequest): Promise<DatabaseRow> {
@@ -191,12 +216,14 @@ export class OnboardingService {
       const result = await this.dbService.query(
         `INSERT INTO customers (
            id, customer_number, first_name, last_name, email, phone, address,
-           customer_type, is_trial, trial_start_date, trial_end_date, created_at, updated_at
+           customer_type, is_trial, trial_start_date, trial_end_date,
+           attribution_campaign, attribution_channel, attribution_referrer, attribution_promo_code, created_at, updated_at
          ) VALUES (
-           gen_random_uuid(), $1, $2, $3, $4, $5, $6::jsonb, $7, $8, $9, $10, NOW(), NOW()
+           gen_random_uuid(), $1, $2, $3, $4, $5, $6::jsonb, $7, $8, $9, $10, $11, $12, $13, $14, NOW(), NOW()
          ) RETURNING 
            id, customer_number, first_name, last_name, email, phone, address,
-           customer_type, is_trial, trial_start_date, trial_end_date, created_at, updated_at`,
+           customer_type, is_trial, trial_start_date, trial_end_date,
+           attribution_campaign, attribution_channel, attribution_referrer, attribution_promo_code, created_at, updated_at`,
         [
           customerNumber,
           request.first_name,
@@ -208,6 +235,10 @@ export class OnboardingService {
           request.is_trial ?? false,
           request.trial_start_date ?? null,
           request.trial_end_date ?? null,
+          request.attribution?.campaign ?? null,
+          request.attribution?.channel ?? null,
+          request.attribution?.referrer ?? null,
+          request.attribution?.promoCode ?? null,
         ]
       );
 
@@ -224,7 +255,9 @@ export class OnboardingService {
 
       // Validate customer exists
       const customerResult = await this.dbService.query(
-        'SELECT id, first_name, last_name, email FROM customers WHERE id = $1',
+        `SELECT id, first_name, last_name, email, customer_type,
+                attribution_campaign, attribution_channel, attribution_referrer, attribution_promo_code
+           FROM customers WHERE id = $1`,
         [request.customerId]
       );
 
@@ -242,17 +275,60 @@ export class OnboardingService {
         throw new Error(`Active onboarding already exists for customer ${request.customerId}`);
       }
 
+      // Pin the onboarding to the workflow version matching this customer/order
+      let serviceType: string | undefined;
+      if (request.orderId) {
+        const orderResult = await this.dbService.query(
+          'SELECT service_type FROM orders WHERE id = $1',
+          [request.orderId]
+        );
+        serviceType = orderResult.rows[0]?.service_type || undefined;
+      }
+
+      const workflow = await this.workflowService.resolveDefinition(
+        {
+          onboardingType: request.onboardingType,
+          customerType: customerResult.rows[0].customer_type || undefined,
+          serviceType,
+        },
+        request.workflowKey
+      );
+
+      const attribution = request.attribution || mapAttribution(customerResult.rows[0]);
+
       // Create onboarding record
       const result = await this.dbService.query(
         `INSERT INTO customer_onboarding 
-         (customer_id, order_id, onboarding_type, current_step, completion_percentage, assigned_to, started_at)
-         VALUES ($1, $2, $3, 'initiated', 0, $4, NOW())
-         RETURNING id, customer_id, order_id, onboarding_type, current_step, completion_percentage, assigned_to, started_at`,
-        [request.customerId, request.orderId || null, request.onboardingType, request.assignedTo || null]
+         (customer_id, order_id, onboarding_type, current_step, completion_percentage, assigned_to, started_at, workflow_key, workflow_version,
+          attribution_campaign, attribution_channel, attribution_referrer, attribution_promo_code)
+         VALUES ($1, $2, $3, $4, 0, $5, NOW(), $6, $7, $8, $9, $10, $11)
+         RETURNING id, customer_id, order_id, onboarding_type, current_step, completion_percentage, assigned_to, started_at, workflow_key, workflow_version,
+                   attribution_campaign, attribution_channel, attribution_referrer, attribution_promo_code`,
+        [
+          request.customerId,
+          request.orderId || null,
+          request.onboardingType,
+          this.workflowService.getInitialStep(workflow).id,
+          request.assignedTo || null,
+          workflow.key,
+          workflow.version,
+          attribution?.campaign ?? null,
+          attribution?.channel ?? null,
+          attribution?.referrer ?? null,
+          attribution?.promoCode ?? null,
+        ]
       );
 
       const onboarding = result.rows[0];
 
+      await this.stepHistory.record({
+        onboardingId: onboarding.id,
+        fromStep: null,
+        toStep: onboarding.current_step,
+        actor: request.initiatedBy,
+        metadata: { workflowKey: workflow.key, workflowVersion: workflow.version },
+      });
+
       // Queue initial onboarding tasks
       await this.queueService.addOnboardingJob({
         type: 'welcome-email',
@@ -266,7 +342,7 @@ export class OnboardingService {
         await this.setupTrialWorkflow(onboarding.id, request.customerId);
       }
 
-      console.log(`Onboarding initiated successfully: ${onboarding.id}`);
+      console.log(`Onboarding initiated successfully: ${onboarding.id} (workflow ${workflow.key} v${workflow.version})`);
 
       return {
         id: onboarding.id,
@@ -278,6 +354,9 @@ export class OnboardingService {
         assignedTo: onboarding.assigned_to,
         startedAt: onboarding.started_at,
         notes: onboarding.notes,
+        workflowKey: onboarding.workflow_key,
+        workflowVersion: onboarding.workflow_version,
+        attribution: mapAttribution(onboarding),
       };
     } catch (error) {
       console.error('Error initiating onboarding:', error);
@@ -291,6 +370,8 @@ export class OnboardingService {
         `SELECT 
            co.id, co.customer_id, co.order_id, co.onboarding_type, co.current_step,
            co.completion_percentage, co.assigned_to, co.started_at, co.completed_at, co.notes,
+           co.workflow_key, co.workflow_version,
+           co.attribution_campaign, co.attribution_channel, co.attribution_referrer, co.attribution_promo_code,
            c.first_name, c.last_name, c.email, c.customer_number,
            o.order_number, o.service_type, o.service_package,
            o.status AS order_status
@@ -320,6 +401,9 @@ export class OnboardingService {
         startedAt: row.started_at,
         completedAt: row.completed_at,
         notes: row.notes,
+        workflowKey: row.workflow_key,
+        workflowVersion: row.workflow_version,
+        attribution: mapAttribution(row),
       };
     } catch (error) {
       console.error('Error getting onboarding status:', error);
@@ -332,7 +416,8 @@ export class OnboardingService {
       const result = await this.dbService.query(
         `SELECT 
            co.id, co.customer_id, co.order_id, co.onboarding_type, co.current_step,
-           co.completion_percentage, co.assigned_to, co.started_at, co.completed_at, co.notes
+           co.completion_percentage, co.assigned_to, co.started_at, co.completed_at, co.notes,
+           co.workflow_key, co.workflow_version
          FROM customer_onboarding co
          WHERE co.customer_id = $1 AND co.completed_at IS NULL
          ORDER BY co.started_at DESC
@@ -356,6 +441,8 @@ export class OnboardingService {
         startedAt: row.started_at,
         completedAt: row.completed_at,
         notes: row.notes,
+        workflowKey: row.workflow_key,
+        workflowVersion: row.workflow_version,
       };
     } catch (error) {
       console.error('Error getting customer onboarding:', error);
@@ -363,78 +450,52 @@ export class OnboardingService {
     }
   }
 
-  async updateOnboardingStep(onboardingId: string, request: UpdateStepRequest): Promise<void> {
-    try {
-      console.log(`Updating onboarding step: ${onboardingId} -> ${request.stepId}`);
-
-      // Get current onboarding status
-      const currentResult = await this.dbService.query(
-        'SELECT * FROM customer_onboarding WHERE id = $1',
-        [onboardingId]
-      );
-
-      if (currentResult.rows.length === 0) {
-        throw new Error(`Onboarding ${onboardingId} not found`);
-      }
-
-      const currentOnboarding = currentResult.rows[0];
-
-      // Update the step
-      await this.dbService.query(
-        `UPDATE customer_onboarding 
-         SET current_step = $1, 
-             completion_percentage = LEAST(100, completion_percentage + $2),
-             notes = COALESCE($3, notes)
-         WHERE id = $4`,
-        [
-          request.stepId,
-          this.getStepCompletionIncrement(request.stepId),
-          request.notes || null,
-          onboardingId
-        ]
-      );
+  async updateOnboardingStep(onboardingId: string, request: UpdateStepRequest): Promise<StepTransitionResult> {
+    return this.applyStepTransition(onboardingId, 'advance', request);
+  }
 
-      // Queue next step processing
-      await this.queueService.addOnboardingJob({
-        type: 'next-step',
-        onboardingId,
-        customerId: currentOnboarding.customer_id,
-        stepId: request.stepId,
-        metadata: request.metadata,
-      });
+  async skipOnboardingStep(onboardingId: string, request: UpdateStepRequest): Promise<StepTransitionResult> {
+    return this.applyStepTransition(onboardingId, 'skip', request);
+  }
 
-      // If this is the final step, mark as completed
-      if (request.stepId === 'completed') {
-        await this.dbService.query(
-          'UPDATE customer_onboarding SET completed_at = NOW() WHERE id = $1',
-          [onboardingId]
-        );
-      }
+  async rollbackOnboardingStep(onboardingId: string, request: UpdateStepRequest): Promise<StepTransitionResult> {
+    return this.applyStepTransition(onboardingId, 'rollback', request);
+  }
 
-      console.log(`Onboarding step updated successfully: ${onboardingId} -> ${request.stepId}`);
-    } catch (error) {
-      console.error('Error updating onboarding step:', error);
-      throw error;
-    }
+  async getStepHistory(onboardingId: string): Promise<StepTransition[]> {
+    return this.stepHistory.getHistory(onboardingId);
   }
 
-  async getTrialCustomers(): Promise<any[]> {
+  // Trials with their lifecycle status; pass statuses to filter (e.g. ['grace', 'suspended'])
+  async getTrialCustomers(statuses?: TrialStatus[]): Promise<any[]> {
     try {
       const result = await this.dbService.query(
         `SELECT 
            co.id, co.customer_id, co.current_step, co.completion_percentage,
            co.started_at, co.assigned_to,
+           COALESCE(co.trial_status, 'active') AS trial_status, co.trial_status_changed_at,
+           co.trial_grace_ends_at, co.trial_warnings_sent, co.trial_last_warning_at,
            c.first_name, c.last_name, c.email, c.customer_number,
            c.trial_start_date, c.trial_end_date
          FROM customer_onboarding co
          JOIN customers c ON co.customer_id = c.id
          WHERE co.onboarding_type = 'trial' AND co.completed_at IS NULL
-         ORDER BY co.started_at DESC`
+           AND ($1::text[] IS NULL OR COALESCE(co.trial_status, 'active') = ANY($1::text[]))
+         ORDER BY co.started_at DESC`,
+        [statuses && statuses.length > 0 ? statuses : null]
       );
 
       return result.rows.map((row: DatabaseRow) => ({
         id: row.id,
         customerId: row.customer_id,
+        status: row.trial_status,
+        statusChangedAt: row.trial_status_changed_at,
+        daysRemaining: row.trial_end_date
+          ? Math.max(Math.ceil((new Date(row.trial_end_date).getTime() - Date.now()) / (24 * 60 * 60 * 1000)), 0)
+          : null,
+        graceEndsAt: row.trial_grace_ends_at,
+        warningsSent: row.trial_warnings_sent || 0,
+        lastWarningAt: row.trial_last_warning_at,
         customer: {
           id: row.customer_id,
           firstName: row.first_name,
@@ -455,44 +516,13 @@ export class OnboardingService {
     }
   }
 
-  async convertTrialToCustomer(onboardingId: string): Promise<void> {
+  // Without a service package the trial converts at once; with one it waits in pending_conversion for payment
+  async convertTrialToCustomer(onboardingId: string, request: TrialConversionRequest = {}): Promise<TrialConversionResult> {
     try {
       console.log(`Converting trial to customer: ${onboardingId}`);
-
-      // Get onboarding details
-      const onboarding = await this.getOnboardingStatus(onboardingId);
-      if (!onboarding) {
-        throw new Error(`Onboarding ${onboardingId} not found`);
-      }
-
-      if (onboarding.onboardingType !== 'trial') {
-        throw new Error(`Onboarding ${onboardingId} is not a trial`);
-      }
-
-      // Update customer to remove trial status
-      await this.dbService.query(
-        `UPDATE customers 
-         SET is_trial = false, trial_end_date = NULL, updated_at = NOW()
-         WHERE id = $1`,
-        [onboarding.customerId]
-      );
-
-      // Update onboarding type
-      await this.dbService.query(
-        'UPDATE customer_onboarding SET onboarding_type = $1 WHERE id = $2',
-        ['new_customer', onboardingId]
-      );
-
-      // Queue conversion email
-      await this.queueService.addEmailJob({
-        type: 'completion',
-        customerId: onboarding.customerId,
-        email: '', // Will be fetched
-        template: 'trial-conversion',
-        variables: { customerId: onboarding.customerId }
-      });
-
-      console.log(`Trial converted to customer successfully: ${onboardingId}`);
+      const result = await this.trialConversions.convert(onboardingId, request);
+      console.log(`Trial conversion ${result.status}: ${onboardingId}`);
+      return result;
     } catch (error) {
       console.error('Error converting trial to customer:', error);
       throw error;
@@ -501,23 +531,48 @@ export class OnboardingService {
 
   async getOnboardingSteps(onboardingId: string): Promise<OnboardingStep[]> {
     try {
-      const onboarding = await this.getOnboardingStatus(onboardingId);
-      if (!onboarding) {
+      const result = await this.dbService.query(
+        `SELECT id, onboarding_type, current_step, completed_at, workflow_key, workflow_version
+           FROM customer_onboarding WHERE id = $1`,
+        [onboardingId]
+      );
+      if (result.rows.length === 0) {
         throw new Error(`Onboarding ${onboardingId} not found`);
       }
 
-      return this.defaultSteps.map(step => {
+      const onboarding = result.rows[0];
+      const workflow = await this.workflowService.getDefinitionForOnboarding(onboarding);
+      const history = await this.stepHistory.getHistory(onboardingId);
+
+      // Steps on the path actually taken (rolled-back steps drop off and show as pending again)
+      const reached = new Map<string, StepTransition>();
+      for (const entry of this.stateMachine.replay(workflow, history)) {
+        reached.set(entry.stepId, entry.transition);
+      }
+
+      const nextStep = onboarding.completed_at
+        ? null
+        : this.workflowService.getNextStep(workflow, onboarding.current_step, await this.workflowService.getContextForOnboarding(onboardingId));
+
+      return workflow.steps.map(step => {
+        const transition = reached.get(step.id);
         let status: 'pending' | 'in_progress' | 'completed' | 'skipped' = 'pending';
 
-        if (step.id === onboarding.currentStep) {
+        if (transition) {
+          status = transition.action === 'skip' ? 'skipped' : 'completed';
+        } else if (step.id === nextStep) {
           status = 'in_progress';
-        } else if (this.isStepCompleted(step.id, onboarding.currentStep)) {
-          status = 'completed';
         }
 
         return {
-          ...step,
-          status
+          id: step.id,
+          name: step.name,
+          description: step.description,
+          status,
+          completedAt: transition?.createdAt,
+          completedBy: transition?.actor,
+          notes: transition?.reason || transition?.notes,
+          metadata: transition?.metadata,
         };
       });
     } catch (error) {
@@ -526,51 +581,51 @@ export class OnboardingService {
     }
   }
 
-  private async setupTrialWorkflow(onboardingId: string, customerId: string): Promise<void> {
+  private async applyStepTransition(
+    onboardingId: string,
+    operation: StepOperation,
+    request: UpdateStepRequest
+  ): Promise<StepTransitionResult> {
     try {
-      // Set trial end date (30 days from now)
-      const trialEndDate = new Date();
-      trialEndDate.setDate(trialEndDate.getDate() + 30);
+      console.log(`Onboarding step ${operation}: ${onboardingId} -> ${request.stepId}`);
 
-      await this.dbService.query(
-        'UPDATE customers SET trial_end_date = $1 WHERE id = $2',
-        [trialEndDate, customerId]
-      );
+      const result = await this.stateMachine.transition(onboardingId, {
+        operation,
+        stepId: request.stepId,
+        reason: request.reason,
+        notes: request.notes,
+        metadata: request.metadata,
+        actor: request.actor,
+      });
 
-      // Schedule trial expiry reminder (7 days before expiry)
-      const reminderDate = new Date(trialEndDate);
-      reminderDate.setDate(reminderDate.getDate() - 7);
+      // Only forward moves hand off to the automated step pipeline
+      if (result.changed && operation !== 'rollback' && !result.completed) {
+        await this.queueService.addOnboardingJob({
+          type: 'next-step',
+          onboardingId,
+          customerId: result.customerId,
+          stepId: request.stepId,
+          metadata: request.metadata,
+        });
+      }
 
-      // This would be implemented with a scheduled job
-      console.log(`Trial workflow setup for customer ${customerId}, expires ${trialEndDate}`);
+      console.log(`Onboarding step updated successfully: ${onboardingId} -> ${request.stepId}`);
+      return result;
     } catch (error) {
-      console.error('Error setting up trial workflow:', error);
+      console.error(`Error applying onboarding step ${operation}:`, error);
       throw error;
     }
   }
 
-  private getStepCompletionIncrement(stepId: string): number {
-    const increments: Record<string, number> = {
-      'initiated': 10,
-      'welcome_sent': 10,
-      'service_setup': 15,
-      'equipment_ordered': 10,
-      'equipment_shipped': 15,
-      'installation_scheduled': 10,
-      'installation_completed': 15,
-      'service_activated': 10,
-      'follow_up': 5,
-      'completed': 0,
-    };
-
-    return increments[stepId] || 10;
-  }
-
-  private isStepCompleted(stepId: string, currentStep: string): boolean {
-    const stepOrder = this.defaultSteps.map(step => step.id);
-    const stepIndex = stepOrder.indexOf(stepId);
-    const currentIndex = stepOrder.indexOf(currentStep);
+  private async setupTrialWorkflow(onboardingId: string, customerId: string): Promise<void> {
+    try {
+      // Sets the trial end date and schedules expiry warnings, expiry and the grace period
+      const trialEndDate = await this.trialLifecycle.startTrial(onboardingId, customerId);
 
-    return stepIndex < currentIndex;
+      console.log(`Trial workflow setup for customer ${customerId}, expires ${trialEndDate.toISOString()}`);
+    } catch (error) {
+      console.error('Error setting up trial workflow:', error);
+      throw error;
+    }
   }
 }
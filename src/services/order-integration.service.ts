@@ -1,5 +1,6 @@
+import { randomUUID } from 'crypto';
 import type { Pool } from 'pg';
-import { PaymentService, PaymentRequest } from './payment.service.js';
+import { PaymentService, PaymentRequest, PaymentLink } from './payment.service';
 
 export interface OrderData {
   id: string;
@@ -27,13 +28,48 @@ export interface OrderData {
   };
 }
 
+export type ServicePackage = OrderData['servicePackage'];
+
+// South African packages by bandwidth code
+export const SERVICE_PACKAGES: Record<string, { name: string; speed: string; price: number; installationFee?: number }> = {
+  '20/10': { name: 'Fiber Basic', speed: '20/10 Mbps', price: 399, installationFee: 0 },
+  '50/50': { name: 'Fiber Standard', speed: '50/50 Mbps', price: 599, installationFee: 0 },
+  '100/50': { name: 'Fiber Premium', speed: '100/50 Mbps', price: 749, installationFee: 0 },
+  '200/100': { name: 'Fiber Pro', speed: '200/100 Mbps', price: 999, installationFee: 1199 },
+  '500/250': { name: 'Fiber Ultra', speed: '500/250 Mbps', price: 1299, installationFee: 1499 },
+  '1000/500': { name: 'Fiber Max', speed: '1000/500 Mbps', price: 1599, installationFee: 1699 },
+  '25/5': { name: 'Wireless Basic', speed: '25/5 Mbps', price: 299, installationFee: 699 },
+  '50/10': { name: 'Wireless Standard', speed: '50/10 Mbps', price: 449, installationFee: 899 },
+  '100/20': { name: 'Wireless Premium', speed: '100/20 Mbps', price: 699, installationFee: 1099 }
+};
+
+export function resolveServicePackage(code: string): ServicePackage | null {
+  const packageInfo = SERVICE_PACKAGES[code];
+  return packageInfo ? { ...packageInfo } : null;
+}
+
+export interface TrialConversionOrderRequest {
+  customerId: string;
+  servicePackage: ServicePackage;
+  // SERVICE_PACKAGES code the package came from, stored on the order
+  packageCode?: string;
+  locale?: string;
+}
+
+export interface TrialConversionOrder {
+  orderId: string;
+  orderNumber: string;
+  amountCents: number;
+  paymentLink: PaymentLink;
+}
+
 export class OrderIntegrationService {
   private db: Pool;
   private paymentService: PaymentService;
 
-  constructor(db: Pool) {
+  constructor(db: Pool, paymentService: PaymentService = new PaymentService(db)) {
     this.db = db;
-    this.paymentService = new PaymentService(db);
+    this.paymentService = paymentService;
   }
 
   /**
@@ -65,6 +101,60 @@ export class OrderIntegrationService {
     }
   }
 
+  /**
+   * Create the paid service order for a converting trial customer, then create and
+   * email its payment link. The trial already has service in place, so no
+   * installation fee is charged.
+   */
+  async createTrialConversionOrder(request: TrialConversionOrderRequest): Promise<TrialConversionOrder> {
+    try {
+      const customer = await this.db.query(
+        'SELECT id, first_name, last_name, email, address FROM customers WHERE id = $1',
+        [request.customerId]
+      );
+      if (customer.rows.length === 0) {
+        throw new Error(`Customer ${request.customerId} not found`);
+      }
+      const row = customer.rows[0];
+      const address = (typeof row.address === 'string' ? JSON.parse(row.address) : row.address) || {};
+
+      const orderId = randomUUID();
+      const orderNumber = `TC-${Date.now()}`;
+      const servicePackage: ServicePackage = { ...request.servicePackage, installationFee: 0 };
+
+      await this.db.query(
+        `INSERT INTO orders (id, order_number, customer_id, order_type, service_package, status, is_paid, created_at, updated_at)
+         VALUES ($1, $2, $3, 'service_change', $4, 'pending_payment', FALSE, NOW(), NOW())`,
+        [orderId, orderNumber, request.customerId, request.packageCode || servicePackage.name]
+      );
+
+      const paymentRequest: PaymentRequest = {
+        orderId,
+        customerId: request.customerId,
+        customerEmail: row.email,
+        customerName: `${row.first_name} ${row.last_name}`.trim(),
+        orderType: 'service_change',
+        servicePackage,
+        serviceAddress: {
+          street: address.street || '',
+          city: address.city || '',
+          province: address.province || address.state || '',
+          postalCode: address.postalCode || address.postal_code || ''
+        },
+        locale: request.locale
+      };
+
+      const paymentLink = await this.paymentService.createPaymentLink(paymentRequest);
+      await this.paymentService.sendPaymentEmail(paymentRequest, paymentLink);
+
+      console.log(`[OrderIntegration] Trial conversion order ${orderNumber} created for customer ${request.customerId}`);
+      return { orderId, orderNumber, amountCents: Math.round(servicePackage.price * 100), paymentLink };
+    } catch (error) {
+      console.error(`[OrderIntegration] Failed to create trial conversion order for customer ${request.customerId}`, error);
+      throw error;
+    }
+  }
+
   /**
    * Handle payment completion and trigger next workflow step
    */
@@ -128,20 +218,7 @@ export class OrderIntegrationService {
     const serviceDetails = orderData.serviceDetails || orderData.service_details || {};
     const bandwidth = serviceDetails.bandwidth || serviceDetails.service_package || 'Unknown';
     
-    // Parse South African packages
-    const packageMap: Record<string, { name: string; speed: string; price: number; installationFee?: number }> = {
-      '20/10': { name: 'Fiber Basic', speed: '20/10 Mbps', price: 399, installationFee: 0 },
-      '50/50': { name: 'Fiber Standard', speed: '50/50 Mbps', price: 599, installationFee: 0 },
-      '100/50': { name: 'Fiber Premium', speed: '100/50 Mbps', price: 749, installationFee: 0 },
-      '200/100': { name: 'Fiber Pro', speed: '200/100 Mbps', price: 999, installationFee: 1199 },
-      '500/250': { name: 'Fiber Ultra', speed: '500/250 Mbps', price: 1299, installationFee: 1499 },
-      '1000/500': { name: 'Fiber Max', speed: '1000/500 Mbps', price: 1599, installationFee: 1699 },
-      '25/5': { name: 'Wireless Basic', speed: '25/5 Mbps', price: 299, installationFee: 699 },
-      '50/10': { name: 'Wireless Standard', speed: '50/10 Mbps', price: 449, installationFee: 899 },
-      '100/20': { name: 'Wireless Premium', speed: '100/20 Mbps', price: 699, installationFee: 1099 }
-    };
-
-    const packageInfo = packageMap[bandwidth] || {
+    const packageInfo = resolveServicePackage(bandwidth) || {
       name: 'Custom Package',
       speed: bandwidth,
       price: 599, // Default price
@@ -0,0 +1,99 @@
+import type { Pool } from 'pg';
+import { PaymentService } from './payment.service';
+
+interface PaymentExpiryOptions {
+  runIntervalMs?: number;
+  batchSize?: number;
+  // Issue and email a fresh link when one expires
+  reissue?: boolean;
+  maxReissues?: number;
+}
+
+/**
+ * Expires pending payment links past expires_at. Stripe reports expiry by webhook,
+ * but Peach and mock links only expire through this sweep.
+ */
+export class PaymentExpiryService {
+  private db: Pool;
+  private paymentService: PaymentService;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private readonly intervalMs: number;
+  private readonly batchSize: number;
+  private readonly reissue: boolean;
+  private readonly maxReissues: number;
+
+  constructor(db: Pool, paymentService: PaymentService, options?: PaymentExpiryOptions) {
+    this.db = db;
+    this.paymentService = paymentService;
+    this.intervalMs = options?.runIntervalMs ?? 15 * 60 * 1000; // default: 15 minutes
+    this.batchSize = options?.batchSize ?? 50;
+    this.reissue = options?.reissue ?? false;
+    this.maxReissues = options?.maxReissues ?? 1;
+  }
+
+  public start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.sweepOnce().catch((err) => {
+        console.warn('[PaymentExpiry] sweepOnce failed:', err?.message || err);
+      });
+    }, this.intervalMs);
+
+    console.log(`[PaymentExpiry] Started with interval ${Math.round(this.intervalMs / (60 * 1000))} minutes (reissue: ${this.reissue ? 'on' : 'off'})`);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log('[PaymentExpiry] Stopped');
+    }
+  }
+
+  public async sweepOnce(): Promise<{ expired: number; paid: number; reissued: number }> {
+    const summary = { expired: 0, paid: 0, reissued: 0 };
+    // A slow gateway must not let two sweeps work the same batch
+    if (this.running) return summary;
+    this.running = true;
+
+    try {
+      const { rows } = await this.db.query(
+        `SELECT id
+         FROM payment_links
+         WHERE status = 'pending'
+           AND expires_at < NOW()
+         ORDER BY expires_at ASC
+         LIMIT $1`,
+        [this.batchSize]
+      );
+
+      for (const row of rows) {
+        try {
+          const result = await this.paymentService.expirePaymentLink(row.id, { actor: 'system:expiry-sweep' });
+          if (result === 'paid') {
+            summary.paid++;
+            console.log(`[PaymentExpiry] ${row.id} was paid; marked paid instead of expired`);
+            continue;
+          }
+          if (result !== 'expired') continue;
+          summary.expired++;
+
+          if (this.reissue) {
+            const reissued = await this.paymentService.reissuePaymentLink(row.id, { maxReissues: this.maxReissues });
+            if (reissued) summary.reissued++;
+          }
+        } catch (err: any) {
+          console.warn(`[PaymentExpiry] Expiry failed for ${row.id}:`, err?.message || err);
+        }
+      }
+
+      if (rows.length > 0) {
+        console.log(`[PaymentExpiry] Swept ${rows.length} overdue links: ${summary.expired} expired, ${summary.paid} paid, ${summary.reissued} reissued`);
+      }
+      return summary;
+    } finally {
+      this.running = false;
+    }
+  }
+}
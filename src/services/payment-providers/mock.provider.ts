@@ -0,0 +1,467 @@
+import type { PaymentRequest } from '../payment.service';
+import {
+  PaymentProvider,
+  PaymentLinkRecord,
+  CreateProviderLinkContext,
+  ProviderLink,
+  ProviderPaymentStatus,
+  VerifiedWebhook,
+  WebhookOutcome,
+  ProviderRefundRequest,
+  ProviderRefund,
+  EmailContent,
+} from './payment-provider';
+
+/**
+ * Mock provider for development
+ * Simulates a gateway without making API calls; payments complete through the hosted mock checkout page
+ */
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = 'mock';
+
+  async createLink(request: PaymentRequest, context: CreateProviderLinkContext): Promise<ProviderLink> {
+    console.log('🎭 [MockPaymentProvider] Creating mock payment link for order:', request.orderId);
+
+    const reference = `mock_peach_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+
+    // Use custom payment page with pre-filled data
+    const clientUrl = process.env.CLIENT_URL || 'http://localhost:5173';
+    const params = new URLSearchParams({
+      amount: (context.amountCents / 100).toFixed(2),
+      email: request.customerEmail,
+      reference: request.orderId,
+      orderId: request.orderId,
+      checkoutId: reference,
+      entityId: 'mock_entity_id'
+    });
+
+    return { reference, url: `${clientUrl}/payment?${params.toString()}` };
+  }
+
+  async getStatus(link: PaymentLinkRecord): Promise<ProviderPaymentStatus> {
+    const status = link.status as ProviderPaymentStatus['status'];
+    return {
+      status,
+      details: {
+        checkoutId: link.reference,
+        result: {
+          code: status === 'paid' ? '000.100.110' :
+                status === 'failed' ? '800.400.500' : '000.200.000',
+          description: status === 'paid' ? 'Request successfully processed' :
+                      status === 'failed' ? 'Transaction declined' : 'Transaction pending'
+        },
+        mockData: true
+      },
+    };
+  }
+
+  verifyWebhook(payload: any, headers: Record<string, any>): VerifiedWebhook {
+    const webhookData = Buffer.isBuffer(payload) ? JSON.parse(payload.toString('utf8')) : payload;
+    const checkoutId = webhookData?.id || webhookData?.checkoutId;
+    const status = webhookData?.status || 'completed';
+
+    if (!checkoutId) {
+      throw new Error('Invalid webhook data - missing session ID');
+    }
+
+    return {
+      providerEventId: webhookData.eventId || `${checkoutId}:${status}`,
+      eventType: 'mock_payment_status_update',
+      reference: checkoutId,
+      eventData: { ...webhookData, mockData: true },
+    };
+  }
+
+  interpretWebhook(eventType: string, webhookData: any): WebhookOutcome | null {
+    const checkoutId = webhookData.id || webhookData.checkoutId;
+    const status = webhookData.status || 'completed';
+
+    if (status === 'completed') {
+      return { status: 'paid', reference: checkoutId };
+    }
+    if (status === 'failed') {
+      return { status: 'failed', reference: checkoutId, failureReason: webhookData.reason || 'Mock payment declined' };
+    }
+    return null;
+  }
+
+  async confirm(link: PaymentLinkRecord): Promise<ProviderPaymentStatus> {
+    return this.getStatus(link);
+  }
+
+  async refund(link: PaymentLinkRecord, request: ProviderRefundRequest): Promise<ProviderRefund> {
+    console.log(`🎭 [MockPaymentProvider] Mock refund of ${request.amountCents} cents for ${link.reference}`);
+    return {
+      providerRefundId: `mock_refund_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+      status: 'succeeded',
+      amountCents: request.amountCents,
+    };
+  }
+
+  async cancel(link: PaymentLinkRecord): Promise<void> {
+    console.log(`🎭 [MockPaymentProvider] Mock payment link ${link.reference} cancelled`);
+  }
+
+  decorateEmail(content: EmailContent): EmailContent {
+    const mockBanner = `
+      <div style="background: #fbbf24; color: #92400e; padding: 15px; text-align: center; font-weight: bold; margin-bottom: 20px; border-radius: 8px;">
+        🎭 MOCK PAYMENT MODE - This is a test email for development purposes
+      </div>
+    `;
+    return {
+      subject: `[MOCK] ${content.subject}`,
+      html: content.html.replace('<div class="content">', `${mockBanner}<div class="content">`),
+      text: `[MOCK MODE - Test Email]\n\n${content.text}`,
+    };
+  }
+
+  // Mock checkout page; "Pay Now" posts a completed webhook for this link
+  renderCheckoutPage(link: PaymentLinkRecord): string {
+    const amount = (link.amountCents / 100).toFixed(2);
+
+    return `
+      <!DOCTYPE html>
+      <html lang="en">
+        <head>
+          <meta charset="UTF-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <meta http-equiv="Content-Security-Policy" content="default-src 'self'; script-src 'self' 'unsafe-inline'; style-src 'self' 'unsafe-inline'; img-src 'self' data:; font-src 'self';">
+          <title>Xnext Payment Checkout</title>
+        <style>
+          * {
+            margin: 0;
+            padding: 0;
+            box-sizing: border-box;
+          }
+          
+          body { 
+            font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+            background: linear-gradient(135deg, #1a1a2e 0%, #16213e 50%, #0f3460 100%);
+            min-height: 100vh;
+            color: #ffffff;
+            padding: 20px;
+          }
+          
+          .container {
+            max-width: 600px;
+            margin: 0 auto;
+            padding-top: 40px;
+          }
+          
+          .header {
+            text-align: center;
+            margin-bottom: 40px;
+          }
+          
+          .logo {
+            font-size: 2.5em;
+            font-weight: bold;
+            color: #ff6b35;
+            margin-bottom: 10px;
+            text-shadow: 0 2px 4px rgba(0,0,0,0.3);
+          }
+          
+          .tagline {
+            color: #b0b0b0;
+            font-size: 1.1em;
+            margin-bottom: 20px;
+          }
+          
+          .mock-banner { 
+            background: linear-gradient(45deg, #ff6b35, #ff8c42);
+            color: #ffffff;
+            padding: 15px;
+            text-align: center;
+            font-weight: bold;
+            margin-bottom: 30px;
+            border-radius: 12px;
+            box-shadow: 0 4px 15px rgba(255, 107, 53, 0.3);
+            border: 2px solid rgba(255, 255, 255, 0.1);
+          }
+          
+          .payment-card { 
+            background: rgba(255, 255, 255, 0.05);
+            backdrop-filter: blur(10px);
+            border: 1px solid rgba(255, 255, 255, 0.1);
+            padding: 40px;
+            border-radius: 20px;
+            box-shadow: 0 8px 32px rgba(0, 0, 0, 0.3);
+          }
+          
+          .payment-header {
+            text-align: center;
+            margin-bottom: 30px;
+          }
+          
+          .payment-title {
+            font-size: 1.8em;
+            font-weight: 600;
+            color: #ffffff;
+            margin-bottom: 10px;
+          }
+          
+          .amount { 
+            font-size: 2.2em;
+            font-weight: bold;
+            color: #ff6b35;
+            text-align: center;
+            margin-bottom: 30px;
+            text-shadow: 0 2px 4px rgba(0,0,0,0.3);
+          }
+          
+          .form-group { 
+            margin-bottom: 20px;
+          }
+          
+          label { 
+            display: block;
+            margin-bottom: 8px;
+            font-weight: 600;
+            color: #e0e0e0;
+            font-size: 0.95em;
+          }
+          
+          input, select { 
+            width: 100%;
+            padding: 15px;
+            border: 2px solid rgba(255, 255, 255, 0.1);
+            border-radius: 10px;
+            background: rgba(255, 255, 255, 0.05);
+            color: #ffffff;
+            font-size: 1em;
+            transition: all 0.3s ease;
+          }
+          
+          input:focus, select:focus {
+            outline: none;
+            border-color: #ff6b35;
+            box-shadow: 0 0 0 3px rgba(255, 107, 53, 0.1);
+          }
+          
+          input::placeholder {
+            color: #888;
+          }
+          
+          .btn { 
+            background: linear-gradient(45deg, #ff6b35, #ff8c42);
+            color: white;
+            padding: 18px 30px;
+            border: none;
+            border-radius: 12px;
+            font-weight: bold;
+            cursor: pointer;
+            width: 100%;
+            font-size: 1.1em;
+            transition: all 0.3s ease;
+            box-shadow: 0 4px 15px rgba(255, 107, 53, 0.3);
+            text-transform: uppercase;
+            letter-spacing: 0.5px;
+          }
+          
+          .btn:hover { 
+            transform: translateY(-2px);
+            box-shadow: 0 6px 20px rgba(255, 107, 53, 0.4);
+          }
+          
+          .btn:active {
+            transform: translateY(0);
+          }
+          
+          .btn:disabled {
+            opacity: 0.7;
+            cursor: not-allowed;
+            transform: none;
+          }
+          
+          .security-info {
+            background: rgba(255, 255, 255, 0.03);
+            border: 1px solid rgba(255, 255, 255, 0.1);
+            border-radius: 10px;
+            padding: 15px;
+            margin-top: 20px;
+            font-size: 0.9em;
+            color: #b0b0b0;
+            text-align: center;
+          }
+          
+          .card-icons {
+            display: flex;
+            justify-content: center;
+            gap: 15px;
+            margin-top: 20px;
+            opacity: 0.7;
+          }
+          
+          .card-icon {
+            width: 40px;
+            height: 25px;
+            background: #333;
+            border-radius: 4px;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            font-size: 0.8em;
+            color: #fff;
+          }
+          
+          @media (max-width: 768px) {
+            .container {
+              padding-top: 20px;
+            }
+            
+            .payment-card {
+              padding: 25px;
+              margin: 10px;
+            }
+            
+            .logo {
+              font-size: 2em;
+            }
+            
+            .amount {
+              font-size: 1.8em;
+            }
+          }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <div class="logo">Xnext</div>
+            <div class="tagline">Connecting You to Tomorrow</div>
+          </div>
+          
+          <div class="mock-banner">
+            🎭 DEVELOPMENT MODE - Mock Payment Checkout
+          </div>
+          
+          <div class="payment-card">
+            <div class="payment-header">
+              <h2 class="payment-title">Complete Your Payment</h2>
+              <div class="amount">R${amount}</div>
+            </div>
+            
+            <form id="mockPaymentForm">
+              <div class="form-group">
+                <label>Card Number</label>
+                <input type="text" placeholder="4111 1111 1111 1111" value="4111 1111 1111 1111" readonly>
+              </div>
+              
+              <div style="display: flex; gap: 15px;">
+                <div class="form-group" style="flex: 1;">
+                  <label>Expiry Date</label>
+                  <input type="text" placeholder="12/25" value="12/25" readonly>
+                </div>
+                
+                <div class="form-group" style="flex: 1;">
+                  <label>CVV</label>
+                  <input type="text" placeholder="123" value="123" readonly>
+                </div>
+              </div>
+              
+              <div class="form-group" style="background: rgba(16, 185, 129, 0.1); border: 1px solid rgba(16, 185, 129, 0.3); border-radius: 8px; padding: 15px; text-align: center;">
+                <label style="color: #10b981; margin-bottom: 5px;">🎭 Mock Payment Mode</label>
+                <p style="margin: 0; font-size: 0.9em; opacity: 0.8;">This will process a successful payment and update isPaid=true</p>
+              </div>
+              
+              <button type="submit" class="btn">Process Payment</button>
+            </form>
+            
+            <div class="card-icons">
+              <div class="card-icon">VISA</div>
+              <div class="card-icon">MC</div>
+              <div class="card-icon">AMEX</div>
+            </div>
+            
+            <div class="security-info">
+              🔒 Your payment information is secure and encrypted
+            </div>
+          </div>
+        </div>
+
+        <script>
+          document.getElementById('mockPaymentForm').addEventListener('submit', async function(e) {
+            e.preventDefault();
+            
+            // Always process as successful payment for "Pay Now" button
+            const result = 'success';
+            const btn = document.querySelector('.btn');
+            
+            btn.textContent = 'Processing Payment...';
+            btn.disabled = true;
+            
+            // Add visual feedback
+            btn.style.background = 'linear-gradient(45deg, #10b981, #059669)';
+            
+            // Simulate realistic payment processing time
+            await new Promise(resolve => setTimeout(resolve, 3000));
+            
+            // Send successful payment webhook to our server
+            try {
+              const response = await fetch('/api/payments/webhook/mock', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                  id: '${link.reference}',
+                  status: 'completed',
+                  result: {
+                    code: '000.100.110',
+                    description: 'Request successfully processed'
+                  },
+                  mockData: true
+                })
+              });
+              
+              if (response.ok) {
+                // Show success state
+                btn.textContent = '✅ Payment Successful!';
+                btn.style.background = 'linear-gradient(45deg, #10b981, #059669)';
+                
+                // Show success message
+                const successDiv = document.createElement('div');
+                successDiv.style.cssText = \`
+                  background: linear-gradient(45deg, #10b981, #059669);
+                  color: white;
+                  padding: 20px;
+                  border-radius: 12px;
+                  margin-top: 20px;
+                  text-align: center;
+                  font-weight: bold;
+                  box-shadow: 0 4px 15px rgba(16, 185, 129, 0.3);
+                \`;
+                successDiv.innerHTML = \`
+                  <h3 style="margin: 0 0 10px 0;">🎉 Payment Completed Successfully!</h3>
+                  <p style="margin: 0; opacity: 0.9;">Your order has been paid and will be processed shortly.</p>
+                  <p style="margin: 10px 0 0 0; font-size: 0.9em; opacity: 0.8;">isPaid status has been updated to: <strong>true</strong></p>
+                \`;
+                
+                document.querySelector('.payment-card').appendChild(successDiv);
+                
+                // Auto-close after showing success
+                setTimeout(() => {
+                  alert('Payment completed successfully! The order isPaid status has been updated to true.');
+                  window.close();
+                }, 2000);
+              } else {
+                throw new Error('Payment processing failed');
+              }
+            } catch (error) {
+              console.error('Error:', error);
+              btn.textContent = '❌ Payment Failed';
+              btn.style.background = 'linear-gradient(45deg, #ef4444, #dc2626)';
+              alert('Error processing payment. Please try again.');
+              
+              // Reset button after error
+              setTimeout(() => {
+                btn.textContent = 'Process Payment';
+                btn.style.background = 'linear-gradient(45deg, #ff6b35, #ff8c42)';
+                btn.disabled = false;
+              }, 3000);
+            }
+          });
+        </script>
+      </body>
+      </html>
+    `;
+  }
+}
@@ -0,0 +1,132 @@
+import type { PaymentRequest } from '../payment.service';
+
+export type PaymentLinkStatus = 'pending' | 'paid' | 'failed' | 'expired' | 'cancelled' | 'partially_refunded' | 'refunded';
+
+// payment_links row as seen by providers
+export interface PaymentLinkRecord {
+  id: string;
+  orderId: string;
+  customerId: string;
+  // Registry name of the provider that issued the link
+  provider: string;
+  // Provider's id for the checkout (Stripe session id, Peach payment link id, mock reference)
+  reference: string;
+  url: string;
+  amountCents: number;
+  currency: string;
+  status: string;
+  customerEmail?: string;
+  expiresAt: Date;
+  paidAt?: Date | null;
+  createdAt: Date;
+  // Stripe PaymentIntent behind the checkout, once known
+  paymentIntentId?: string | null;
+  failureReason?: string | null;
+}
+
+export interface CreateProviderLinkContext {
+  // Our payment_links.id for this link
+  linkId: string;
+  amountCents: number;
+  expiresAt: Date;
+}
+
+export interface ProviderLink {
+  reference: string;
+  // URL sent to the customer
+  url: string;
+  // Provider-hosted URL when `url` is our own wrapper page
+  providerUrl?: string;
+  // Stripe Checkout session id (kept in payment_links.stripe_session_id)
+  sessionId?: string;
+}
+
+export interface ProviderPaymentStatus {
+  status: PaymentLinkStatus;
+  paymentIntentId?: string | null;
+  // Provider-specific fields returned as-is by the status endpoint
+  details?: Record<string, any>;
+}
+
+// A verified webhook ready to be stored in payment_webhook_events
+export interface VerifiedWebhook {
+  providerEventId: string;
+  eventType: string;
+  reference?: string | null;
+  eventData: any;
+}
+
+// What a stored webhook event means for a payment link
+export interface WebhookOutcome {
+  status: PaymentLinkStatus;
+  // The link is found by reference, then paymentIntentId, then the latest link of orderId
+  reference?: string | null;
+  paymentIntentId?: string | null;
+  orderId?: string | null;
+  // Customer-facing reason for status 'failed'
+  failureReason?: string | null;
+  details?: Record<string, any>;
+  // Set with status 'refunded' for provider refund events
+  refund?: RefundWebhookOutcome;
+}
+
+export interface RefundWebhookOutcome {
+  providerRefundId: string;
+  status: ProviderRefund['status'];
+  amountCents: number;
+  // Our payment_refunds.id when the refund was created through the API
+  refundId?: number;
+  failureReason?: string | null;
+}
+
+export interface ProviderRefundRequest {
+  // Our payment_refunds.id; passed to the gateway so refund webhooks can be matched
+  refundId: number;
+  amountCents: number;
+  reason?: string;
+}
+
+export interface ProviderRefund {
+  providerRefundId: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  amountCents: number;
+}
+
+export interface EmailContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Contract every payment gateway implements. PaymentService owns persistence,
+ * OMS notification and email; providers only talk to their gateway.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+
+  createLink(request: PaymentRequest, context: CreateProviderLinkContext): Promise<ProviderLink>;
+
+  // Current status for the status endpoint (may call the gateway)
+  getStatus(link: PaymentLinkRecord): Promise<ProviderPaymentStatus>;
+
+  // Check the signature and extract the event id; throws when the payload cannot be trusted
+  verifyWebhook(payload: Buffer | string | any, headers: Record<string, any>): VerifiedWebhook;
+
+  // Interpret a stored event; null when the event does not affect a payment link
+  interpretWebhook(eventType: string, eventData: any): WebhookOutcome | null;
+
+  // Authoritative status used after redirect and by the reconciler
+  confirm(link: PaymentLinkRecord): Promise<ProviderPaymentStatus>;
+
+  // Left out by gateways without a refund API; their links are refused with 409
+  refund?(link: PaymentLinkRecord, request: ProviderRefundRequest): Promise<ProviderRefund>;
+
+  // Stop the link from being paid at the gateway; left out when the gateway cannot, and
+  // such links are refused with 409 rather than cancelled only locally
+  cancel?(link: PaymentLinkRecord): Promise<void>;
+
+  // Optional hooks
+  decorateEmail?(content: EmailContent): EmailContent;
+  renderCheckoutPage?(link: PaymentLinkRecord): string;
+}
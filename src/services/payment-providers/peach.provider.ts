@@ -0,0 +1,225 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import type { PaymentRequest } from '../payment.service';
+import {
+  PaymentProvider,
+  PaymentLinkRecord,
+  CreateProviderLinkContext,
+  ProviderLink,
+  ProviderPaymentStatus,
+  VerifiedWebhook,
+  WebhookOutcome,
+} from './payment-provider';
+
+export class PeachPaymentProvider implements PaymentProvider {
+  readonly name = 'peach';
+  private accessToken: string | null = null;
+  private tokenExpiry: number = 0;
+
+  /**
+   * Get OAuth token for Peach Payments Payment Links API
+   * Caches token and refreshes when expired
+   */
+  private async getOAuthToken(): Promise<string> {
+    // Check if cached token is still valid (with 60s buffer)
+    const now = Date.now();
+    if (this.accessToken && this.tokenExpiry > now + 60000) {
+      return this.accessToken;
+    }
+
+    // Get OAuth credentials from environment
+    const clientId = process.env.PEACHPAYMENTS_USERNAME;
+    const clientSecret = process.env.PEACHPAYMENTS_PASSWORD;
+    const merchantId = process.env.PEACHPAYMENTS_MERCHANT_ID;
+
+    if (!clientId || !clientSecret || !merchantId) {
+      throw new Error('Missing Peach Payments OAuth credentials: PEACHPAYMENTS_USERNAME, PEACHPAYMENTS_PASSWORD, and PEACHPAYMENTS_MERCHANT_ID are required');
+    }
+
+    // Determine OAuth endpoint (sandbox vs production)
+    const isSandbox = process.env.PEACHPAYMENTS_LINKS_BASE_URL?.includes('sandbox');
+    const oauthEndpoint = isSandbox
+      ? 'https://sandbox-dashboard.peachpayments.com/api/oauth/token'
+      : 'https://dashboard.peachpayments.com/api/oauth/token';
+
+    try {
+      console.log('[PeachPaymentProvider] Requesting OAuth token from Peach Payments...');
+      const response = await axios.post(oauthEndpoint, {
+        clientId,
+        clientSecret,
+        merchantId
+      }, {
+        headers: { 'Content-Type': 'application/json' },
+        timeout: 15000
+      });
+
+      const { access_token, expires_in } = response.data;
+      if (!access_token) {
+        throw new Error('No access token in OAuth response');
+      }
+
+      // Cache token and expiry time
+      this.accessToken = access_token;
+      this.tokenExpiry = now + (expires_in * 1000); // expires_in is in seconds
+
+      console.log('[PeachPaymentProvider] OAuth token obtained successfully, expires in:', expires_in, 'seconds');
+      return access_token;
+    } catch (error: any) {
+      console.error('[PeachPaymentProvider] OAuth token request failed:', error?.response?.data || error?.message);
+      throw new Error(`Failed to obtain Peach Payments OAuth token: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
+    }
+  }
+
+  async createLink(request: PaymentRequest, context: CreateProviderLinkContext): Promise<ProviderLink> {
+    // Peach Payment Links API
+    const entityId = process.env.PEACHPAYMENTS_ENTITY_ID;
+    const linksBaseUrl = process.env.PEACHPAYMENTS_LINKS_BASE_URL || 'https://links.peachpayments.com';
+    const baseUrl = process.env.BASE_URL || 'https://microservices-oms.onrender.com';
+
+    if (!entityId) {
+      throw new Error('PEACHPAYMENTS_ENTITY_ID is required for Payment Links');
+    }
+
+    // Get OAuth access token
+    const accessToken = await this.getOAuthToken();
+
+    const amountZAR = (context.amountCents / 100).toFixed(2);
+
+    // Parse customer name into given name and surname
+    const nameParts = request.customerName.trim().split(/\s+/);
+    const givenName = nameParts[0] || 'Customer';
+    const surname = nameParts.slice(1).join(' ') || 'User';
+
+    // Create Payment Link using Channels API
+    const createUrl = `${linksBaseUrl}/api/channels/${encodeURIComponent(entityId)}/payments`;
+    console.log('[PeachPaymentProvider] Creating Payment Link:', {
+      url: createUrl,
+      amount: amountZAR,
+      merchantInvoiceId: request.orderId
+    });
+
+    const paymentLinkResp = await axios.post(createUrl, {
+      payment: {
+        amount: parseFloat(amountZAR),
+        currency: 'ZAR',
+        merchantInvoiceId: request.orderId
+      },
+      customer: {
+        email: request.customerEmail,
+        givenName,
+        surname
+      },
+      checkout: {},
+      options: {
+        notificationUrl: `${baseUrl}/api/payments/webhook/peach`
+      }
+    }, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        'Accept': 'application/json'
+      },
+      timeout: 20000
+    });
+
+    const paymentLinkId = paymentLinkResp.data?.id;
+    const paymentLinkUrl = paymentLinkResp.data?.url;
+
+    if (!paymentLinkId || !paymentLinkUrl) {
+      console.error('[PeachPaymentProvider] Invalid Payment Link response:', paymentLinkResp.data);
+      throw new Error('Failed to create Peach Payment Link - missing id or url');
+    }
+
+    console.log('[PeachPaymentProvider] Payment Link created successfully:', {
+      id: paymentLinkId,
+      url: paymentLinkUrl
+    });
+
+    // Build our custom payment page URL with payment link embedded
+    const clientUrl = process.env.CLIENT_URL || 'http://localhost:5173';
+    const params = new URLSearchParams({
+      amount: amountZAR,
+      email: request.customerEmail,
+      reference: request.orderId,
+      orderId: request.orderId,
+      paymentLinkUrl: paymentLinkUrl,
+      paymentLinkId: paymentLinkId
+    });
+
+    return {
+      reference: paymentLinkId,
+      url: `${clientUrl}/payment?${params.toString()}`,
+      providerUrl: paymentLinkUrl,
+    };
+  }
+
+  // Payment Links status is webhook-driven; the stored status is authoritative
+  async getStatus(link: PaymentLinkRecord): Promise<ProviderPaymentStatus> {
+    return {
+      status: link.status as ProviderPaymentStatus['status'],
+      details: { reference: link.reference, url: link.url },
+    };
+  }
+
+  // HMAC SHA256 over the raw body
+  verifyWebhook(payload: any, headers: Record<string, any>): VerifiedWebhook {
+    const rawBody = Buffer.isBuffer(payload) ? payload.toString('utf8') : (typeof payload === 'string' ? payload : JSON.stringify(payload));
+    const signatureHeader = headers['x-peach-signature'] || headers['x-webhook-signature'];
+    const secret = process.env.PEACHPAYMENTS_WEBHOOK_SECRET;
+
+    if (secret && signatureHeader) {
+      const computed = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+      if (computed !== signatureHeader) {
+        console.error('[PeachPaymentProvider] Invalid webhook signature');
+        throw new Error('Invalid Peach Payment Links webhook signature');
+      }
+      console.log('[PeachPaymentProvider] Webhook signature verified');
+    } else if (secret) {
+      console.warn('[PeachPaymentProvider] Webhook secret configured but no signature header found');
+    }
+
+    const body = typeof payload === 'object' && !Buffer.isBuffer(payload) ? payload : JSON.parse(rawBody);
+    const paymentId = body?.payment?.id || body?.id;
+    const paymentStatus = body?.payment?.status || body?.status;
+    if (!paymentId) {
+      throw new Error('Peach webhook received without payment ID');
+    }
+
+    // Peach has no event id; one delivery per payment status change
+    return {
+      providerEventId: `${paymentId}:${paymentStatus}`,
+      eventType: `payment_links_${paymentStatus}`,
+      reference: paymentId,
+      eventData: body,
+    };
+  }
+
+  interpretWebhook(eventType: string, body: any): WebhookOutcome | null {
+    const paymentId = body?.payment?.id || body?.id;
+    const paymentStatus = body?.payment?.status || body?.status;
+    const merchantInvoiceId = body?.payment?.merchantInvoiceId || body?.merchantInvoiceId;
+
+    // Map Payment Links status to internal status
+    let status: WebhookOutcome['status'] | null = null;
+    if (paymentStatus === 'SUCCESSFUL') {
+      status = 'paid';
+    } else if (paymentStatus === 'FAILED') {
+      status = 'failed';
+    }
+    if (!status) return null;
+
+    return {
+      status,
+      reference: paymentId,
+      orderId: merchantInvoiceId || null,
+      details: { peachPaymentLinkId: paymentId, merchantInvoiceId },
+    };
+  }
+
+  async confirm(link: PaymentLinkRecord): Promise<ProviderPaymentStatus> {
+    return this.getStatus(link);
+  }
+
+  // No refund() or cancel(): Payment Links has no refund API and links cannot be revoked,
+  // so PaymentService refuses both for Peach links; a link lapses at its expiry
+}
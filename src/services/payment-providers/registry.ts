@@ -0,0 +1,64 @@
+import { PaymentProvider } from './payment-provider';
+import { StripePaymentProvider } from './stripe.provider';
+import { PeachPaymentProvider } from './peach.provider';
+import { MockPaymentProvider } from './mock.provider';
+
+export type PaymentProviderFactory = () => PaymentProvider;
+
+/**
+ * Named payment providers. Providers are created on first use so a gateway
+ * without credentials only fails when something actually routes to it.
+ */
+export class PaymentProviderRegistry {
+  private factories = new Map<string, PaymentProviderFactory>();
+  private instances = new Map<string, PaymentProvider>();
+
+  register(name: string, factory: PaymentProviderFactory): this {
+    this.factories.set(name, factory);
+    this.instances.delete(name);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  get(name: string): PaymentProvider {
+    const existing = this.instances.get(name);
+    if (existing) return existing;
+
+    const factory = this.factories.get(name);
+    if (!factory) {
+      throw new Error(`Unknown payment provider: ${name}`);
+    }
+
+    const provider = factory();
+    this.instances.set(name, provider);
+    return provider;
+  }
+}
+
+// The mock provider accepts unsigned webhooks, so it only exists when explicitly enabled
+export function isMockPaymentsEnabled(): boolean {
+  return process.env.USE_MOCK_PAYMENTS === 'true';
+}
+
+// Mock when explicitly enabled; otherwise Stripe unless Peach is selected
+export function resolveDefaultProviderName(): string {
+  if (isMockPaymentsEnabled()) return 'mock';
+  return process.env.PAYMENT_PROVIDER === 'peach' ? 'peach' : 'stripe';
+}
+
+export function createDefaultPaymentProviderRegistry(): PaymentProviderRegistry {
+  const registry = new PaymentProviderRegistry()
+    .register('stripe', () => new StripePaymentProvider())
+    .register('peach', () => new PeachPaymentProvider());
+  if (isMockPaymentsEnabled()) {
+    registry.register('mock', () => new MockPaymentProvider());
+  }
+  return registry;
+}
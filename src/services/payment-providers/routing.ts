@@ -0,0 +1,54 @@
+import type { PaymentRequest } from '../payment.service';
+
+/**
+ * Picks a provider for a new payment link. All conditions set on a rule must match;
+ * rules are evaluated in order and the first match wins.
+ *
+ * Example PAYMENT_ROUTING_RULES:
+ *   [{"provider":"peach","orderTypes":["new_install"]},{"provider":"stripe","minAmountCents":500000}]
+ */
+export interface PaymentRoutingRule {
+  provider: string;
+  orderTypes?: PaymentRequest['orderType'][];
+  minAmountCents?: number;
+  maxAmountCents?: number;
+}
+
+export interface PaymentRoutingContext {
+  orderType: PaymentRequest['orderType'];
+  amountCents: number;
+}
+
+export function parseRoutingRules(raw: string | undefined = process.env.PAYMENT_ROUTING_RULES): PaymentRoutingRule[] {
+  if (!raw || !raw.trim()) return [];
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      console.warn('[PaymentRouting] PAYMENT_ROUTING_RULES must be a JSON array; ignoring');
+      return [];
+    }
+    return parsed.filter((rule: any) => rule && typeof rule.provider === 'string');
+  } catch (error) {
+    console.warn('[PaymentRouting] Invalid PAYMENT_ROUTING_RULES; ignoring:', (error as Error).message);
+    return [];
+  }
+}
+
+export function ruleMatches(rule: PaymentRoutingRule, context: PaymentRoutingContext): boolean {
+  if (rule.orderTypes && rule.orderTypes.length > 0 && !rule.orderTypes.includes(context.orderType)) {
+    return false;
+  }
+  if (rule.minAmountCents !== undefined && context.amountCents < rule.minAmountCents) {
+    return false;
+  }
+  if (rule.maxAmountCents !== undefined && context.amountCents > rule.maxAmountCents) {
+    return false;
+  }
+  return true;
+}
+
+export function selectProvider(rules: PaymentRoutingRule[], context: PaymentRoutingContext, fallback: string): string {
+  const match = rules.find(rule => ruleMatches(rule, context));
+  return match ? match.provider : fallback;
+}
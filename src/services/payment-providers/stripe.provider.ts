@@ -0,0 +1,247 @@
+import Stripe from 'stripe';
+import type { PaymentRequest } from '../payment.service';
+import {
+  PaymentProvider,
+  PaymentLinkRecord,
+  CreateProviderLinkContext,
+  ProviderLink,
+  ProviderPaymentStatus,
+  VerifiedWebhook,
+  WebhookOutcome,
+  ProviderRefundRequest,
+  ProviderRefund,
+} from './payment-provider';
+
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'stripe';
+  private stripe: Stripe;
+
+  constructor(secretKey: string | undefined = process.env.STRIPE_SECRET_KEY) {
+    if (!secretKey) {
+      throw new Error('STRIPE_SECRET_KEY is required');
+    }
+    this.stripe = new Stripe(secretKey, {
+      apiVersion: '2025-09-30.clover', // Use latest stable API version
+    });
+  }
+
+  async createLink(request: PaymentRequest, context: CreateProviderLinkContext): Promise<ProviderLink> {
+    const successUrl = process.env.SUCCESS_URL || `${process.env.CLIENT_URL || 'http://localhost:5173'}/payment/success`;
+    const cancelUrl = process.env.CANCEL_URL || `${process.env.CLIENT_URL || 'http://localhost:5173'}/payment/cancelled`;
+    const serviceAmount = Math.round(request.servicePackage.price * 100);
+    const installationAmount = Math.round((request.servicePackage.installationFee || 0) * 100);
+
+    const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = [
+      {
+        price_data: {
+          currency: 'zar',
+          product_data: {
+            name: request.servicePackage.name,
+            description: `${request.servicePackage.speed} - ${request.orderType === 'new_install' ? 'New Installation' : 'Service Change'}`,
+            metadata: {
+              orderId: request.orderId,
+              customerId: request.customerId,
+              orderType: request.orderType
+            }
+          },
+          unit_amount: serviceAmount,
+        },
+        quantity: 1,
+      }
+    ];
+    if (installationAmount > 0) {
+      lineItems.push({
+        price_data: {
+          currency: 'zar',
+          product_data: {
+            name: 'Installation Fee',
+            description: request.servicePackage.installationType || 'Professional Installation',
+          },
+          unit_amount: installationAmount,
+        },
+        quantity: 1,
+      });
+    }
+
+    const metadata = {
+      orderId: request.orderId,
+      customerId: request.customerId,
+      orderType: request.orderType,
+      servicePackage: request.servicePackage.name,
+      checkoutId: context.linkId
+    };
+
+    const session = await this.stripe.checkout.sessions.create({
+      payment_method_types: ['card'],
+      line_items: lineItems,
+      mode: 'payment',
+      customer_email: request.customerEmail,
+      client_reference_id: request.orderId,
+      metadata,
+      // Lets payment_intent.* events be traced back to the order
+      payment_intent_data: { metadata },
+      success_url: `${successUrl}?session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${cancelUrl}?session_id={CHECKOUT_SESSION_ID}`,
+      expires_at: Math.floor(context.expiresAt.getTime() / 1000),
+      billing_address_collection: 'required',
+      shipping_address_collection: { allowed_countries: ['ZA'] },
+      phone_number_collection: { enabled: true },
+    });
+    if (!session.id || !session.url) {
+      throw new Error('Failed to create Stripe checkout session');
+    }
+
+    return { reference: session.id, url: session.url, sessionId: session.id };
+  }
+
+  async getStatus(link: PaymentLinkRecord): Promise<ProviderPaymentStatus> {
+    const session = await this.stripe.checkout.sessions.retrieve(link.reference);
+    return {
+      status: this.mapSessionStatus(session),
+      paymentIntentId: this.paymentIntentIdOf(session),
+      details: {
+        sessionId: session.id,
+        amount: session.amount_total,
+        currency: session.currency?.toUpperCase(),
+        paymentStatus: session.payment_status,
+        sessionStatus: session.status,
+        customerEmail: session.customer_email,
+        paymentIntent: session.payment_intent,
+      },
+    };
+  }
+
+  verifyWebhook(payload: any, headers: Record<string, any>): VerifiedWebhook {
+    const stripeSignature = headers['stripe-signature'] as string | undefined;
+    let event: Stripe.Event;
+    if (stripeSignature) {
+      const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+      if (!webhookSecret) throw new Error('STRIPE_WEBHOOK_SECRET is required for webhook verification');
+      const body: Buffer | string = Buffer.isBuffer(payload) ? (payload as Buffer) : JSON.stringify(payload);
+      if (!Buffer.isBuffer(body)) console.warn('[StripePaymentProvider] Warning: webhook payload is not a Buffer; using JSON string fallback');
+      event = this.stripe.webhooks.constructEvent(body as any, stripeSignature, webhookSecret);
+    } else {
+      throw new Error('Missing Stripe signature');
+    }
+
+    return {
+      providerEventId: event.id,
+      eventType: event.type,
+      reference: (event.data?.object as any)?.id || null,
+      eventData: event,
+    };
+  }
+
+  interpretWebhook(eventType: string, eventData: any): WebhookOutcome | null {
+    const object = (eventData as Stripe.Event)?.data?.object as any;
+    switch (eventType) {
+      case 'checkout.session.completed':
+        // Delayed payment methods complete the session before the money arrives
+        if (object.payment_status !== 'paid') return null;
+        return {
+          status: 'paid',
+          reference: object.id,
+          paymentIntentId: this.paymentIntentIdOf(object),
+          orderId: object.client_reference_id,
+          details: { stripeSessionId: object.id },
+        };
+      case 'checkout.session.expired':
+        return { status: 'expired', reference: object.id, orderId: object.client_reference_id };
+      case 'refund.created':
+      case 'refund.updated':
+      case 'refund.failed':
+      case 'charge.refund.updated': {
+        const refundId = Number(object.metadata?.refundId);
+        return {
+          status: 'refunded',
+          // Refunds made through the API carry the payment link id; dashboard refunds have no
+          // metadata and are matched by the payment intent recorded when the checkout completed
+          reference: object.metadata?.paymentLinkId || null,
+          paymentIntentId: this.paymentIntentIdOf(object),
+          orderId: object.metadata?.orderId || null,
+          refund: {
+            providerRefundId: object.id,
+            status: this.mapRefundStatus(object.status),
+            amountCents: object.amount,
+            refundId: Number.isInteger(refundId) && refundId > 0 ? refundId : undefined,
+            failureReason: object.failure_reason || null,
+          },
+        };
+      }
+      case 'payment_intent.payment_failed':
+        // checkoutId (our link id) is copied onto the intent through payment_intent_data.metadata
+        return {
+          status: 'failed',
+          reference: object.metadata?.checkoutId || null,
+          paymentIntentId: object.id,
+          orderId: object.metadata?.orderId || null,
+          failureReason: object.last_payment_error?.message || object.last_payment_error?.code || null,
+          details: { paymentIntentId: object.id, declineCode: object.last_payment_error?.decline_code },
+        };
+      default:
+        console.log(`[StripePaymentProvider] Unhandled webhook event: ${eventType}`);
+        return null;
+    }
+  }
+
+  async confirm(link: PaymentLinkRecord): Promise<ProviderPaymentStatus> {
+    const session = await this.stripe.checkout.sessions.retrieve(link.reference);
+    return {
+      status: this.mapSessionStatus(session),
+      paymentIntentId: this.paymentIntentIdOf(session),
+      details: { stripeSessionId: session.id },
+    };
+  }
+
+  async refund(link: PaymentLinkRecord, request: ProviderRefundRequest): Promise<ProviderRefund> {
+    const paymentIntent = link.paymentIntentId || this.paymentIntentIdOf(await this.stripe.checkout.sessions.retrieve(link.reference));
+    if (!paymentIntent) {
+      throw new Error(`Stripe session ${link.reference} has no payment to refund`);
+    }
+
+    const refund = await this.stripe.refunds.create({
+      payment_intent: paymentIntent,
+      amount: request.amountCents,
+      reason: 'requested_by_customer',
+      metadata: {
+        orderId: link.orderId,
+        paymentLinkId: link.id,
+        refundId: String(request.refundId),
+        ...(request.reason ? { note: request.reason } : {})
+      },
+    }, {
+      // A retried request for the same refund row must not refund twice
+      idempotencyKey: `payment_refund_${request.refundId}`,
+    });
+
+    return {
+      providerRefundId: refund.id,
+      status: this.mapRefundStatus(refund.status),
+      amountCents: refund.amount,
+    };
+  }
+
+  private paymentIntentIdOf(session: { payment_intent?: string | { id: string } | null }): string | null {
+    if (!session.payment_intent) return null;
+    return typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent.id;
+  }
+
+  private mapRefundStatus(status: string | null | undefined): ProviderRefund['status'] {
+    if (status === 'succeeded') return 'succeeded';
+    return status === 'failed' || status === 'canceled' ? 'failed' : 'pending';
+  }
+
+  async cancel(link: PaymentLinkRecord): Promise<void> {
+    const session = await this.stripe.checkout.sessions.retrieve(link.reference);
+    if (session.status === 'open') {
+      await this.stripe.checkout.sessions.expire(link.reference);
+    }
+  }
+
+  private mapSessionStatus(session: Stripe.Checkout.Session): ProviderPaymentStatus['status'] {
+    if (session.payment_status === 'paid' || session.payment_status === 'no_payment_required') {
+      return 'paid';
+    }
+    return session.status === 'expired' ? 'expired' : 'pending';
+  }
+}
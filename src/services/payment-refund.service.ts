@@ -0,0 +1,154 @@
+import type { Pool, PoolClient } from 'pg';
+
+export type PaymentRefundStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface PaymentRefund {
+  id: number;
+  paymentLinkId: string;
+  orderId: string;
+  provider: string;
+  providerRefundId: string | null;
+  amountCents: number;
+  currency: string;
+  reason: string | null;
+  status: PaymentRefundStatus;
+  failureReason: string | null;
+  requestedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt: Date | null;
+}
+
+export interface CreatePaymentRefundRequest {
+  paymentLinkId: string;
+  orderId: string;
+  provider: string;
+  amountCents: number;
+  currency: string;
+  reason?: string;
+  requestedBy?: string;
+  providerRefundId?: string;
+}
+
+export interface PaymentRefundUpdate {
+  providerRefundId?: string;
+  failureReason?: string | null;
+}
+
+type Queryable = Pool | PoolClient;
+
+/**
+ * Store for payment_refunds. Refunds start pending and are moved to
+ * succeeded or failed by the provider response or its refund webhooks.
+ */
+export class PaymentRefundService {
+  constructor(private db: Pool) {}
+
+  async create(request: CreatePaymentRefundRequest, db: Queryable = this.db): Promise<PaymentRefund> {
+    const result = await db.query(
+      `INSERT INTO payment_refunds
+         (payment_link_id, order_id, provider, provider_refund_id, amount_cents, currency, reason, status, requested_by, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, 'pending', $8, NOW(), NOW())
+       RETURNING *`,
+      [
+        request.paymentLinkId,
+        request.orderId,
+        request.provider,
+        request.providerRefundId || null,
+        request.amountCents,
+        request.currency,
+        request.reason || null,
+        request.requestedBy || null,
+      ]
+    );
+    return this.mapRow(result.rows[0]);
+  }
+
+  /**
+   * Move a refund to a new status. Returns the updated refund, or null when it
+   * already had that status, so completion side effects run exactly once.
+   */
+  async transition(refundId: number, status: PaymentRefundStatus, update: PaymentRefundUpdate = {}): Promise<PaymentRefund | null> {
+    const result = await this.db.query(
+      `UPDATE payment_refunds
+          SET status = $2,
+              provider_refund_id = COALESCE($3, provider_refund_id),
+              failure_reason = CASE WHEN $2 = 'failed' THEN $4 ELSE failure_reason END,
+              completed_at = CASE WHEN $2 = 'pending' THEN NULL ELSE NOW() END,
+              updated_at = NOW()
+        WHERE id = $1 AND status <> $2
+        RETURNING *`,
+      [refundId, status, update.providerRefundId || null, update.failureReason ? update.failureReason.slice(0, 2000) : null]
+    );
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  // Record the provider's id without changing status (refund still pending at the gateway)
+  async setProviderRefundId(refundId: number, providerRefundId: string): Promise<void> {
+    await this.db.query(
+      `UPDATE payment_refunds SET provider_refund_id = $2, updated_at = NOW() WHERE id = $1`,
+      [refundId, providerRefundId]
+    );
+  }
+
+  async get(refundId: number): Promise<PaymentRefund | null> {
+    const result = await this.db.query('SELECT * FROM payment_refunds WHERE id = $1', [refundId]);
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  async findByProviderRefundId(provider: string, providerRefundId: string): Promise<PaymentRefund | null> {
+    const result = await this.db.query(
+      'SELECT * FROM payment_refunds WHERE provider = $1 AND provider_refund_id = $2',
+      [provider, providerRefundId]
+    );
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  async listForLink(paymentLinkId: string): Promise<PaymentRefund[]> {
+    const result = await this.db.query(
+      'SELECT * FROM payment_refunds WHERE payment_link_id = $1 ORDER BY created_at ASC, id ASC',
+      [paymentLinkId]
+    );
+    return result.rows.map((row: any) => this.mapRow(row));
+  }
+
+  // Pending refunds are reserved so concurrent requests cannot over-refund
+  async reservedCents(paymentLinkId: string, db: Queryable = this.db): Promise<number> {
+    const result = await db.query(
+      `SELECT COALESCE(SUM(amount_cents), 0)::int AS total
+         FROM payment_refunds
+        WHERE payment_link_id = $1 AND status IN ('pending', 'succeeded')`,
+      [paymentLinkId]
+    );
+    return result.rows[0]?.total || 0;
+  }
+
+  async succeededCents(paymentLinkId: string): Promise<number> {
+    const result = await this.db.query(
+      `SELECT COALESCE(SUM(amount_cents), 0)::int AS total
+         FROM payment_refunds
+        WHERE payment_link_id = $1 AND status = 'succeeded'`,
+      [paymentLinkId]
+    );
+    return result.rows[0]?.total || 0;
+  }
+
+  private mapRow(row: any): PaymentRefund {
+    return {
+      id: row.id,
+      paymentLinkId: row.payment_link_id,
+      orderId: row.order_id,
+      provider: row.provider,
+      providerRefundId: row.provider_refund_id,
+      amountCents: row.amount_cents,
+      currency: row.currency,
+      reason: row.reason,
+      status: row.status,
+      failureReason: row.failure_reason,
+      requestedBy: row.requested_by,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      completedAt: row.completed_at,
+    };
+  }
+}
@@ -0,0 +1,175 @@
+import type { Pool } from 'pg';
+import type { QueueService } from './queue.service';
+
+export const DEFAULT_PAYMENT_REMINDER_SCHEDULE = '2h,12h,22h';
+
+export type ReminderSender = (paymentLinkId: string) => Promise<{ success: boolean; error?: string; messageId?: string | null }>;
+
+export interface ReminderLink {
+  id: string;
+  customerEmail?: string | null;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+const UNIT_MS: Record<string, number> = { m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+
+/**
+ * Parse PAYMENT_REMINDER_SCHEDULE: comma-separated offsets after link creation
+ * such as "2h,12h,22h" or "30m,1d". "off" (or an empty value) disables reminders.
+ * Also used for the trial warning schedule, with its own log prefix.
+ */
+export function parseReminderSchedule(
+  raw: string | undefined = process.env.PAYMENT_REMINDER_SCHEDULE ?? DEFAULT_PAYMENT_REMINDER_SCHEDULE,
+  logPrefix = '[PaymentReminders]'
+): number[] {
+  if (!raw || !raw.trim() || raw.trim().toLowerCase() === 'off') return [];
+
+  const delays: number[] = [];
+  for (const part of raw.split(',')) {
+    const match = /^\s*(\d+(?:\.\d+)?)\s*([mhd])\s*$/i.exec(part);
+    if (!match) {
+      console.warn(`${logPrefix} Ignoring invalid offset "${part.trim()}" (expected e.g. 30m, 2h, 1d)`);
+      continue;
+    }
+    delays.push(Math.round(parseFloat(match[1]) * UNIT_MS[match[2].toLowerCase()]));
+  }
+  return delays.filter(delay => delay > 0).sort((a, b) => a - b);
+}
+
+/**
+ * Reminder emails for pending payment links. Each reminder is a delayed job on the
+ * payments queue with a row in payment_notifications (scheduled -> sent | failed | cancelled).
+ */
+export class PaymentReminderService {
+  private queueService?: QueueService;
+
+  constructor(
+    private db: Pool,
+    private sendReminder: ReminderSender,
+    private schedule: number[] = parseReminderSchedule()
+  ) {}
+
+  // The payments queue is created after the payment service, so it is attached once available
+  useQueue(queueService: QueueService): void {
+    this.queueService = queueService;
+  }
+
+  // Schedule every reminder that falls before the link expires
+  async scheduleForLink(link: ReminderLink): Promise<number> {
+    if (this.schedule.length === 0 || !link.customerEmail) return 0;
+    if (!this.queueService) {
+      console.warn(`[PaymentReminders] No queue available; reminders for ${link.id} not scheduled`);
+      return 0;
+    }
+
+    const createdAt = new Date(link.createdAt).getTime();
+    const expiresAt = new Date(link.expiresAt).getTime();
+    let scheduled = 0;
+
+    for (let index = 0; index < this.schedule.length; index++) {
+      const dueAt = createdAt + this.schedule[index];
+      if (dueAt >= expiresAt) break;
+
+      const sequence = index + 1;
+      const jobId = `payment-reminder-${link.id}-${sequence}`;
+      const queued = await this.queueService.addPaymentJob(
+        { type: 'payment-reminder', paymentLinkId: link.id, sequence },
+        { delay: Math.max(dueAt - Date.now(), 0), jobId }
+      );
+      if (!queued) break;
+
+      await this.db.query(
+        `INSERT INTO payment_notifications (payment_link_id, customer_email, notification_type, status, scheduled_for, job_id, reminder_sequence)
+         VALUES ($1, $2, 'payment_reminder', 'scheduled', $3, $4, $5)
+         ON CONFLICT (job_id) WHERE job_id IS NOT NULL DO NOTHING`,
+        [link.id, link.customerEmail, new Date(dueAt), jobId, sequence]
+      );
+      scheduled++;
+    }
+
+    if (scheduled > 0) {
+      console.log(`[PaymentReminders] Scheduled ${scheduled} reminders for ${link.id}`);
+    }
+    return scheduled;
+  }
+
+  // Remove outstanding reminder jobs once the link stops being payable
+  async cancelForLink(paymentLinkId: string, reason: string): Promise<number> {
+    const result = await this.db.query(
+      `UPDATE payment_notifications
+          SET status = 'cancelled', error_message = $2
+        WHERE payment_link_id = $1 AND status = 'scheduled'
+        RETURNING job_id`,
+      [paymentLinkId, reason]
+    );
+
+    for (const row of result.rows) {
+      if (!row.job_id || !this.queueService) continue;
+      try {
+        await this.queueService.removePaymentJob(row.job_id);
+      } catch (err: any) {
+        // The job re-checks its notification row before sending, so a leftover job is harmless
+        console.warn(`[PaymentReminders] Could not remove job ${row.job_id}:`, err?.message || err);
+      }
+    }
+
+    if (result.rows.length > 0) {
+      console.log(`[PaymentReminders] Cancelled ${result.rows.length} reminders for ${paymentLinkId} (${reason})`);
+    }
+    return result.rows.length;
+  }
+
+  // Worker entry point; throws on send failure so BullMQ retries
+  async processReminderJob(paymentLinkId: string, sequence: number): Promise<void> {
+    const jobId = `payment-reminder-${paymentLinkId}-${sequence}`;
+    const notification = await this.db.query(
+      `SELECT n.id, n.status, n.customer_email, l.status AS link_status,
+              EXISTS (
+                SELECT 1 FROM customers c
+                 WHERE lower(c.email) = lower(n.customer_email) AND c.email_invalid = TRUE
+              ) AS email_invalid
+         FROM payment_notifications n
+         JOIN payment_links l ON l.id = n.payment_link_id
+        WHERE n.job_id = $1`,
+      [jobId]
+    );
+    const row = notification.rows[0];
+    if (!row || (row.status !== 'scheduled' && row.status !== 'failed')) {
+      console.log(`[PaymentReminders] Reminder ${jobId} is ${row?.status || 'unknown'}; skipping`);
+      return;
+    }
+    if (row.link_status !== 'pending') {
+      await this.markNotification(row.id, 'cancelled', `Payment link is ${row.link_status}`);
+      return;
+    }
+
+    // A hard bounce or complaint pauses automated email to the address
+    if (row.email_invalid) {
+      await this.markNotification(row.id, 'cancelled', 'Email address marked invalid after a bounce or complaint');
+      console.log(`[PaymentReminders] Skipping reminder ${jobId}: ${row.customer_email} is marked invalid`);
+      return;
+    }
+
+    const result = await this.sendReminder(paymentLinkId);
+    if (!result.success) {
+      await this.markNotification(row.id, 'failed', result.error || 'Failed to send reminder');
+      throw new Error(`Reminder ${jobId} failed: ${result.error || 'unknown error'}`);
+    }
+
+    await this.markNotification(row.id, 'sent', null, result.messageId);
+    console.log(`[PaymentReminders] Sent reminder ${sequence} for ${paymentLinkId}`);
+  }
+
+  private async markNotification(notificationId: number, status: string, errorMessage: string | null, messageId?: string | null): Promise<void> {
+    await this.db.query(
+      `UPDATE payment_notifications
+          SET status = $2,
+              error_message = $3,
+              sent_at = CASE WHEN $2 = 'sent' THEN NOW() ELSE sent_at END,
+              provider_message_id = COALESCE($4, provider_message_id)
+        WHERE id = $1`,
+      [notificationId, status, errorMessage, messageId || null]
+    );
+  }
+}
@@ -0,0 +1,173 @@
+import type { Pool } from 'pg';
+
+export type WebhookEventStatus = 'received' | 'processing' | 'processed' | 'failed' | 'legacy';
+
+export interface PaymentWebhookEvent {
+  id: number;
+  provider: string;
+  providerEventId: string | null;
+  eventType: string;
+  reference: string | null;
+  status: WebhookEventStatus;
+  processed: boolean;
+  attempts: number;
+  lastError: string | null;
+  eventData: any;
+  createdAt: Date;
+  processedAt: Date | null;
+  claimedAt: Date | null;
+}
+
+export interface RecordWebhookEventRequest {
+  provider: string;
+  // Provider's own event id; retried deliveries of the same event share it
+  providerEventId: string;
+  eventType: string;
+  // Checkout/session/payment id the event refers to
+  reference?: string | null;
+  eventData: any;
+}
+
+export interface ListWebhookEventsFilters {
+  status?: string;
+  provider?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Durable store for incoming payment provider webhooks.
+ * Events are recorded once per (provider, provider_event_id) and moved
+ * received -> processing -> processed | failed by the processor. An event still
+ * processing after the timeout is taken to belong to a dead worker and can be claimed again.
+ */
+export class PaymentWebhookEventService {
+  constructor(
+    private db: Pool,
+    private processingTimeoutMinutes: number = parseInt(process.env.PAYMENT_WEBHOOK_PROCESSING_TIMEOUT_MINUTES || '15')
+  ) {}
+
+  // Insert the event unless this provider event id was already stored
+  async record(request: RecordWebhookEventRequest): Promise<{ event: PaymentWebhookEvent; duplicate: boolean }> {
+    const inserted = await this.db.query(
+      `INSERT INTO payment_webhook_events
+         (provider, provider_event_id, event_type, peach_checkout_id, event_data, status, processed, attempts, created_at)
+       VALUES ($1, $2, $3, $4, $5, 'received', FALSE, 0, NOW())
+       ON CONFLICT (provider, provider_event_id) WHERE provider_event_id IS NOT NULL DO NOTHING
+       RETURNING *`,
+      [request.provider, request.providerEventId, request.eventType, request.reference || null, JSON.stringify(request.eventData)]
+    );
+
+    if (inserted.rows.length > 0) {
+      return { event: this.mapRow(inserted.rows[0]), duplicate: false };
+    }
+
+    const existing = await this.db.query(
+      'SELECT * FROM payment_webhook_events WHERE provider = $1 AND provider_event_id = $2',
+      [request.provider, request.providerEventId]
+    );
+    return { event: this.mapRow(existing.rows[0]), duplicate: true };
+  }
+
+  // Atomically take an event for processing; null when it is already processed or being processed
+  async claim(eventId: number): Promise<PaymentWebhookEvent | null> {
+    const result = await this.db.query(
+      `UPDATE payment_webhook_events
+          SET status = 'processing', attempts = attempts + 1, claimed_at = NOW()
+        WHERE id = $1
+          AND (status IN ('received', 'failed')
+               OR (status = 'processing' AND (claimed_at IS NULL OR claimed_at < NOW() - $2::interval)))
+        RETURNING *`,
+      [eventId, `${this.processingTimeoutMinutes} minutes`]
+    );
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  // Failed events, and events left received or processing past the timeout
+  isReplayable(event: PaymentWebhookEvent): boolean {
+    const timeoutMs = this.processingTimeoutMinutes * 60 * 1000;
+    switch (event.status) {
+      case 'failed':
+        return true;
+      case 'received':
+        return Date.now() - new Date(event.createdAt).getTime() > timeoutMs;
+      case 'processing':
+        return !event.claimedAt || Date.now() - new Date(event.claimedAt).getTime() > timeoutMs;
+      default:
+        return false;
+    }
+  }
+
+  async markProcessed(eventId: number): Promise<void> {
+    await this.db.query(
+      `UPDATE payment_webhook_events
+          SET status = 'processed', processed = TRUE, processed_at = NOW(), last_error = NULL
+        WHERE id = $1`,
+      [eventId]
+    );
+  }
+
+  async markFailed(eventId: number, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    await this.db.query(
+      `UPDATE payment_webhook_events SET status = 'failed', last_error = $2 WHERE id = $1`,
+      [eventId, message.slice(0, 2000)]
+    );
+  }
+
+  async get(eventId: number): Promise<PaymentWebhookEvent | null> {
+    const result = await this.db.query('SELECT * FROM payment_webhook_events WHERE id = $1', [eventId]);
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  async list(filters: ListWebhookEventsFilters = {}): Promise<{ events: PaymentWebhookEvent[]; total: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`status = $${params.length}`);
+    }
+    if (filters.provider) {
+      params.push(filters.provider);
+      conditions.push(`provider = $${params.length}`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = Math.min(Math.max(filters.limit || 50, 1), 500);
+    const offset = Math.max(filters.offset || 0, 0);
+
+    const [rows, count] = await Promise.all([
+      this.db.query(
+        `SELECT * FROM payment_webhook_events ${where}
+          ORDER BY created_at DESC, id DESC
+          LIMIT ${limit} OFFSET ${offset}`,
+        params
+      ),
+      this.db.query(`SELECT COUNT(*)::int AS total FROM payment_webhook_events ${where}`, params),
+    ]);
+
+    return {
+      events: rows.rows.map((row: any) => this.mapRow(row)),
+      total: count.rows[0]?.total || 0,
+    };
+  }
+
+  private mapRow(row: any): PaymentWebhookEvent {
+    return {
+      id: row.id,
+      provider: row.provider,
+      providerEventId: row.provider_event_id,
+      eventType: row.event_type,
+      reference: row.peach_checkout_id,
+      status: row.status,
+      processed: !!row.processed,
+      attempts: row.attempts || 0,
+      lastError: row.last_error,
+      eventData: row.event_data,
+      createdAt: row.created_at,
+      processedAt: row.processed_at,
+      claimedAt: row.claimed_at || null,
+    };
+  }
+}
@@ -1,8 +1,19 @@
 import axios from 'axios';
-import crypto from 'crypto';
-import nodemailer from 'nodemailer';
-import Stripe from 'stripe';
 import type { Pool } from 'pg';
+import { PaymentWebhookEventService } from './payment-webhook-event.service';
+import { PaymentRefund, PaymentRefundService } from './payment-refund.service';
+import { PaymentReminderService } from './payment-reminder.service';
+import { PaymentProvider, PaymentLinkRecord, WebhookOutcome, RefundWebhookOutcome, ProviderRefund } from './payment-providers/payment-provider';
+import {
+  PaymentProviderRegistry,
+  createDefaultPaymentProviderRegistry,
+  resolveDefaultProviderName,
+} from './payment-providers/registry';
+import { PaymentRoutingRule, parseRoutingRules, selectProvider } from './payment-providers/routing';
+import { TemplateRegistryService } from './template-registry.service';
+import { EmailSendResult, EmailTransport } from './email-transports/email-transport';
+import { createEmailTransport } from './email-transports/factory';
+import { AppError, createConflictError, createNotFoundError, createValidationError } from '../middleware/error.middleware';
 
 export interface PaymentRequest {
   orderId: string;
@@ -23,6 +34,8 @@ export interface PaymentRequest {
     province: string;
     postalCode: string;
   };
+  // Email template locale (e.g. "af-ZA"); the default locale when omitted
+  locale?: string;
 }
 
 export interface PaymentLink {
@@ -31,344 +44,203 @@ export interface PaymentLink {
   expiresAt: Date;
   checkoutId?: string;
   sessionId?: string; // Stripe session ID
+  provider?: string;
 }
 
-export class PaymentService {
-  private stripe: Stripe | null = null;
-  private emailTransporter: nodemailer.Transporter;
-  private db: Pool;
-  private provider: 'stripe' | 'peach';
-  private accessToken: string | null = null;
-  private tokenExpiry: number = 0;
-
-  constructor(db: Pool, provider: 'stripe' | 'peach' = (process.env.PAYMENT_PROVIDER === 'peach' ? 'peach' : 'stripe')) {
-    this.db = db;
-    this.provider = provider;
-    
-    // Initialize Stripe only if provider is stripe
-    if (this.provider === 'stripe') {
-      const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
-      if (!stripeSecretKey) {
-        throw new Error('STRIPE_SECRET_KEY is required');
-      }
-      this.stripe = new Stripe(stripeSecretKey, {
-        apiVersion: '2025-09-30.clover', // Use latest stable API version
-      });
-    }
-
-    // Initialize email transporter
-    this.emailTransporter = nodemailer.createTransport({
-      host: process.env.SMTP_HOST || 'smtp.gmail.com',
-      port: parseInt(process.env.SMTP_PORT || '587'),
-      secure: false,
-      auth: {
-        user: process.env.SMTP_USER || 'noreply@xnext.co.za',
-        pass: process.env.SMTP_PASS || 'dummy_password'
-      }
-    });
-  }
+// Per-request provider selection; an explicit provider wins over routing rules
+export interface CreatePaymentLinkOptions {
+  provider?: string;
+  routingRules?: PaymentRoutingRule[];
+  // Expired link this one replaces
+  reissuedFrom?: string;
+}
 
-  /**
-   * Get OAuth token for Peach Payments Payment Links API
-   * Caches token and refreshes when expired
-   */
-  private async getOAuthToken(): Promise<string> {
-    // Check if cached token is still valid (with 60s buffer)
-    const now = Date.now();
-    if (this.accessToken && this.tokenExpiry > now + 60000) {
-      return this.accessToken;
-    }
+export interface PaymentLinkStatusChangeOptions {
+  reason?: string;
+  actor?: string;
+  metadata?: Record<string, any>;
+  // Only change from these statuses / never from these statuses
+  onlyFrom?: string[];
+  notFrom?: string[];
+}
 
-    // Get OAuth credentials from environment
-    const clientId = process.env.PEACHPAYMENTS_USERNAME;
-    const clientSecret = process.env.PEACHPAYMENTS_PASSWORD;
-    const merchantId = process.env.PEACHPAYMENTS_MERCHANT_ID;
-    
-    if (!clientId || !clientSecret || !merchantId) {
-      throw new Error('Missing Peach Payments OAuth credentials: PEACHPAYMENTS_USERNAME, PEACHPAYMENTS_PASSWORD, and PEACHPAYMENTS_MERCHANT_ID are required');
-    }
+export interface PaymentLinkStatusChange {
+  id: number;
+  paymentLinkId: string;
+  fromStatus: string | null;
+  toStatus: string;
+  reason: string | null;
+  actor: string | null;
+  metadata: Record<string, any> | null;
+  createdAt: Date;
+}
 
-    // Determine OAuth endpoint (sandbox vs production)
-    const isSandbox = process.env.PEACHPAYMENTS_LINKS_BASE_URL?.includes('sandbox');
-    const oauthEndpoint = isSandbox 
-      ? 'https://sandbox-dashboard.peachpayments.com/api/oauth/token'
-      : 'https://dashboard.peachpayments.com/api/oauth/token';
+export type ExpirePaymentLinkResult = 'expired' | 'paid' | 'skipped';
 
-    try {
-      console.log('[PaymentService] Requesting OAuth token from Peach Payments...');
-      const response = await axios.post(oauthEndpoint, {
-        clientId,
-        clientSecret,
-        merchantId
-      }, {
-        headers: { 'Content-Type': 'application/json' },
-        timeout: 15000
-      });
+export interface PaymentLinkStatusEvent {
+  linkId: string;
+  fromStatus: string | null;
+  toStatus: string;
+}
 
-      const { access_token, expires_in } = response.data;
-      if (!access_token) {
-        throw new Error('No access token in OAuth response');
-      }
+// Called after a link changes status (paid, failed, expired, cancelled, ...)
+export type PaymentLinkStatusListener = (change: PaymentLinkStatusEvent) => Promise<void>;
 
-      // Cache token and expiry time
-      this.accessToken = access_token;
-      this.tokenExpiry = now + (expires_in * 1000); // expires_in is in seconds
-      
-      console.log('[PaymentService] OAuth token obtained successfully, expires in:', expires_in, 'seconds');
-      return access_token;
-    } catch (error: any) {
-      console.error('[PaymentService] OAuth token request failed:', error?.response?.data || error?.message);
-      throw new Error(`Failed to obtain Peach Payments OAuth token: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
-    }
-  }
+export interface RefundPaymentRequest {
+  // Defaults to the full remaining refundable amount
+  amountCents?: number;
+  reason?: string;
+  requestedBy?: string;
+}
 
-  async createPaymentLink(request: PaymentRequest): Promise<PaymentLink> {
-    try {
-      // Calculate total amount (service + installation) in cents
-      const serviceAmount = request.servicePackage.price * 100;
-      const installationAmount = (request.servicePackage.installationFee || 0) * 100;
-      const totalAmount = serviceAmount + installationAmount;
-
-      const successUrl = process.env.SUCCESS_URL || `${process.env.CLIENT_URL || 'http://localhost:5173'}/payment/success`;
-      const cancelUrl = process.env.CANCEL_URL || `${process.env.CLIENT_URL || 'http://localhost:5173'}/payment/cancelled`;
-
-      if (this.provider === 'peach') {
-        // Peach Payment Links API
-        const entityId = process.env.PEACHPAYMENTS_ENTITY_ID;
-        const linksBaseUrl = process.env.PEACHPAYMENTS_LINKS_BASE_URL || 'https://links.peachpayments.com';
-        const baseUrl = process.env.BASE_URL || 'https://microservices-oms.onrender.com';
-        
-        if (!entityId) {
-          throw new Error('PEACHPAYMENTS_ENTITY_ID is required for Payment Links');
-        }
+export interface ConfirmPaymentResult {
+  success: boolean;
+  orderId?: string;
+  status?: string;
+  error?: string;
+}
 
-        // Get OAuth access token
-        const accessToken = await this.getOAuthToken();
+const PAYMENT_LINK_TTL_MS = 24 * 60 * 60 * 1000;
 
-        const amountZAR = (totalAmount / 100).toFixed(2);
-        const checkoutId = `peach_link_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+// Link statuses that mean the customer has paid (refunds keep the link settled)
+const SETTLED_LINK_STATUSES = ['paid', 'partially_refunded', 'refunded'];
 
-        // Parse customer name into given name and surname
-        const nameParts = request.customerName.trim().split(/\s+/);
-        const givenName = nameParts[0] || 'Customer';
-        const surname = nameParts.slice(1).join(' ') || 'User';
+/**
+ * Provider-agnostic payment orchestration: persists payment_links, applies
+ * provider outcomes (paid / failed / expired), notifies OMS and sends emails.
+ * Gateway calls go through a PaymentProvider from the registry.
+ *
+ * Several providers can be live at once: new links are routed per order
+ * (explicit provider, request rules, PAYMENT_ROUTING_RULES, then the default)
+ * and every later call uses the provider stored on the link.
+ */
+export class PaymentService {
+  private emailTransport: EmailTransport;
+  private db: Pool;
+  public webhookEvents: PaymentWebhookEventService;
+  public refunds: PaymentRefundService;
+  public reminders: PaymentReminderService;
+  public templates: TemplateRegistryService;
+  private statusListeners: PaymentLinkStatusListener[] = [];
+
+  constructor(
+    db: Pool,
+    private registry: PaymentProviderRegistry = createDefaultPaymentProviderRegistry(),
+    public readonly defaultProvider: string = resolveDefaultProviderName(),
+    private routingRules: PaymentRoutingRule[] = parseRoutingRules()
+  ) {
+    this.db = db;
+    this.webhookEvents = new PaymentWebhookEventService(db);
+    this.refunds = new PaymentRefundService(db);
+    this.reminders = new PaymentReminderService(db, paymentLinkId => this.deliverReminderEmail(paymentLinkId));
+    this.templates = new TemplateRegistryService(db);
 
-        // Create Payment Link using Channels API
-        const createUrl = `${linksBaseUrl}/api/channels/${encodeURIComponent(entityId)}/payments`;
-        console.log('[PaymentService] Creating Payment Link:', {
-          url: createUrl,
-          amount: amountZAR,
-          merchantInvoiceId: request.orderId
-        });
+    // EMAIL_TRANSPORT, default OMS email API with SMTP fallback
+    this.emailTransport = createEmailTransport();
 
-        const paymentLinkResp = await axios.post(createUrl, {
-          payment: {
-            amount: parseFloat(amountZAR),
-            currency: 'ZAR',
-            merchantInvoiceId: request.orderId
-          },
-          customer: {
-            email: request.customerEmail,
-            givenName,
-            surname
-          },
-          checkout: {},
-          options: {
-            notificationUrl: `${baseUrl}/api/payments/webhook`
-          }
-        }, {
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'Content-Type': 'application/json',
-            'Accept': 'application/json'
-          },
-          timeout: 20000
-        });
+    console.log(`[PaymentService] Default payment provider: ${this.defaultProvider} (registered: ${this.registry.names().join(', ')})`);
+  }
 
-        const paymentLinkId = paymentLinkResp.data?.id;
-        const paymentLinkUrl = paymentLinkResp.data?.url;
+  // Listeners run after the status change is stored; a failing listener is logged, not retried
+  onLinkStatusChange(listener: PaymentLinkStatusListener): void {
+    this.statusListeners.push(listener);
+  }
 
-        if (!paymentLinkId || !paymentLinkUrl) {
-          console.error('[PaymentService] Invalid Payment Link response:', paymentLinkResp.data);
-          throw new Error('Failed to create Peach Payment Link - missing id or url');
-        }
+  async createPaymentLink(request: PaymentRequest, options: CreatePaymentLinkOptions = {}): Promise<PaymentLink> {
+    // Calculate total amount (service + installation) in cents
+    const serviceAmount = Math.round(request.servicePackage.price * 100);
+    const installationAmount = Math.round((request.servicePackage.installationFee || 0) * 100);
+    const totalAmount = serviceAmount + installationAmount;
 
-        console.log('[PaymentService] Payment Link created successfully:', {
-          id: paymentLinkId,
-          url: paymentLinkUrl
-        });
+    // Resolved outside the try so an unknown provider surfaces as a 400
+    const provider = this.registry.get(this.resolveProviderName(request, totalAmount, options));
 
-        // Build our custom payment page URL with payment link embedded
-        const clientUrl = process.env.CLIENT_URL || 'http://localhost:5173';
-        const params = new URLSearchParams({
-          amount: amountZAR,
-          email: request.customerEmail,
-          reference: request.orderId,
-          orderId: request.orderId,
-          paymentLinkUrl: paymentLinkUrl,
-          paymentLinkId: paymentLinkId
-        });
-        const customPageUrl = `${clientUrl}/payment?${params.toString()}`;
+    try {
 
-        // Store payment link in database
-        await this.db.query(
-          `INSERT INTO payment_links (id, order_id, customer_id, peach_checkout_id, stripe_session_id, url, payment_link_url, amount_cents, currency, status, expires_at, customer_email, created_at)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW())`,
-          [
-            checkoutId,
-            request.orderId,
-            request.customerId,
-            paymentLinkId,
-            null,
-            customPageUrl,
-            paymentLinkUrl,
-            totalAmount,
-            'ZAR',
-            'pending',
-            new Date(Date.now() + 24 * 60 * 60 * 1000),
-            request.customerEmail
-          ]
-        );
+      const linkId = `${provider.name}_checkout_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const expiresAt = new Date(Date.now() + PAYMENT_LINK_TTL_MS);
 
-        return {
-          id: checkoutId,
-          url: customPageUrl,
-          checkoutId: paymentLinkId,
-          expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
-        };
-      }
+      const link = await provider.createLink(request, { linkId, amountCents: totalAmount, expiresAt });
 
-      // Stripe branch (legacy)
-      const checkoutId = `stripe_checkout_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      if (!this.stripe) throw new Error('Stripe not initialized');
-      const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = [
-        {
-          price_data: {
-            currency: 'zar',
-            product_data: {
-              name: request.servicePackage.name,
-              description: `${request.servicePackage.speed} - ${request.orderType === 'new_install' ? 'New Installation' : 'Service Change'}`,
-              metadata: {
-                orderId: request.orderId,
-                customerId: request.customerId,
-                orderType: request.orderType
-              }
-            },
-            unit_amount: serviceAmount,
-          },
-          quantity: 1,
-        }
-      ];
-      if (installationAmount > 0) {
-        lineItems.push({
-          price_data: {
-            currency: 'zar',
-            product_data: {
-              name: 'Installation Fee',
-              description: request.servicePackage.installationType || 'Professional Installation',
-            },
-            unit_amount: installationAmount,
-          },
-          quantity: 1,
-        });
-      }
-      const session = await this.stripe.checkout.sessions.create({
-        payment_method_types: ['card'],
-        line_items: lineItems,
-        mode: 'payment',
-        customer_email: request.customerEmail,
-        client_reference_id: request.orderId,
-        metadata: {
-          orderId: request.orderId,
-          customerId: request.customerId,
-          orderType: request.orderType,
-          servicePackage: request.servicePackage.name,
-          checkoutId: checkoutId
-        },
-        success_url: `${successUrl}?session_id={CHECKOUT_SESSION_ID}`,
-        cancel_url: `${cancelUrl}?session_id={CHECKOUT_SESSION_ID}`,
-        expires_at: Math.floor((Date.now() + 24 * 60 * 60 * 1000) / 1000),
-        billing_address_collection: 'required',
-        shipping_address_collection: { allowed_countries: ['ZA'] },
-        phone_number_collection: { enabled: true },
-      });
-      if (!session.id || !session.url) {
-        throw new Error('Failed to create Stripe checkout session');
-      }
       await this.db.query(
-        `INSERT INTO payment_links (id, order_id, customer_id, peach_checkout_id, stripe_session_id, url, amount_cents, currency, status, expires_at, customer_email, created_at)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW())`,
+        `INSERT INTO payment_links (id, order_id, customer_id, provider, peach_checkout_id, stripe_session_id, provider_reference, url, payment_link_url, amount_cents, currency, status, expires_at, customer_email, request_payload, reissued_from, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, NOW())`,
         [
-          checkoutId,
+          linkId,
           request.orderId,
           request.customerId,
-          `stripe_migration_${session.id}`,
-          session.id,
-          session.url,
+          provider.name,
+          link.reference,
+          link.sessionId || null,
+          link.reference,
+          link.url,
+          link.providerUrl || null,
           totalAmount,
           'ZAR',
           'pending',
-          new Date(Date.now() + 24 * 60 * 60 * 1000),
-          request.customerEmail
+          expiresAt,
+          request.customerEmail,
+          JSON.stringify(request),
+          options.reissuedFrom || null
         ]
       );
-      return { id: checkoutId, url: session.url, sessionId: session.id, expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000) };
+      await this.recordStatusChange(linkId, null, 'pending', {
+        reason: options.reissuedFrom ? `Reissued for expired link ${options.reissuedFrom}` : 'Payment link created',
+        metadata: { provider: provider.name, amountCents: totalAmount },
+      });
+
+      console.log(`[PaymentService] Payment link ${linkId} created with ${provider.name} for order ${request.orderId}`);
+
+      // Reminders are best effort; a queue outage must not fail link creation
+      this.reminders
+        .scheduleForLink({ id: linkId, customerEmail: request.customerEmail, createdAt: new Date(), expiresAt })
+        .catch((err: any) => console.warn(`[PaymentService] Could not schedule reminders for ${linkId}:`, err?.message || err));
+
+      return {
+        id: linkId,
+        url: link.url,
+        expiresAt,
+        checkoutId: link.reference,
+        sessionId: link.sessionId,
+        provider: provider.name,
+      };
     } catch (error) {
       console.error('[PaymentService] Failed to create payment link:', error);
       throw new Error(`Failed to create payment link: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  // Explicit provider, then request rules, then PAYMENT_ROUTING_RULES, then the default provider
+  private resolveProviderName(request: PaymentRequest, amountCents: number, options: CreatePaymentLinkOptions): string {
+    const rules = [...(options.routingRules || []), ...this.routingRules];
+    const name = options.provider || selectProvider(rules, { orderType: request.orderType, amountCents }, this.defaultProvider);
+
+    if (name === 'mock' && !this.registry.has(name)) {
+      throw createValidationError('The mock payment provider is only available with USE_MOCK_PAYMENTS=true');
+    }
+    if (!this.registry.has(name)) {
+      throw createValidationError(`Unknown payment provider: ${name} (available: ${this.registry.names().join(', ')})`);
+    }
+    return name;
+  }
+
   async sendPaymentEmail(request: PaymentRequest, paymentLink: PaymentLink): Promise<void> {
     try {
-      const template = request.orderType === 'new_install' 
-        ? this.getNewInstallationTemplate(request, paymentLink)
-        : this.getServiceChangeTemplate(request, paymentLink);
+      const baseTemplate = await this.templates.render(
+        request.orderType === 'new_install' ? 'payment-request-new-install' : 'payment-request-service-change',
+        this.getPaymentEmailVariables(request, paymentLink),
+        { locale: request.locale }
+      );
+      const provider = this.registry.get(paymentLink.provider || this.defaultProvider);
+      const template = provider.decorateEmail ? provider.decorateEmail(baseTemplate) : baseTemplate;
 
-      // Use OMS server's email API instead of direct SMTP
-      const omsServerUrl = process.env.OMS_SERVER_URL || 'http://localhost:3003';
-      const serviceApiKey = process.env.ONBOARDING_SERVICE_API_KEY || 'oms-svc-auth-x9k2m8n4p7q1w5e8r3t6y9u2i5o8p1a4s7d0f3g6h9j2k5l8';
-      
-      try {
-        // Hosted OMS expects /email/send and header x-service-key
-        const emailResponse = await axios.post(`${omsServerUrl}/email/send`, {
-          to: request.customerEmail,
-          subject: template.subject,
-          html: template.html,
-          text: template.text
-        }, {
-          headers: {
-            'Content-Type': 'application/json',
-            'x-service-key': serviceApiKey
-          },
-          timeout: 10000
-        });
-
-        if (emailResponse.data.success) {
-          console.log(`[PaymentService] Payment email sent successfully via OMS server to ${request.customerEmail}`);
-        } else {
-          throw new Error(`OMS server email failed: ${emailResponse.data.error}`);
-        }
-      } catch (emailError: any) {
-        console.warn('[PaymentService] OMS server email failed, falling back to direct SMTP:', emailError.message);
-        
-        // Fallback to direct SMTP
-        await this.emailTransporter.sendMail({
-          from: process.env.SMTP_FROM || 'noreply@xnext.co.za',
-          to: request.customerEmail,
-          subject: template.subject,
-          html: template.html,
-          text: template.text
-        });
-        
-        console.log(`[PaymentService] Payment email sent via direct SMTP to ${request.customerEmail}`);
-      }
+      const sent = await this.deliverEmail(request.customerEmail, template);
 
       // Log email sent
       await this.db.query(
-        `INSERT INTO payment_notifications (payment_link_id, customer_email, notification_type, status, sent_at)
-         VALUES ($1, $2, $3, $4, NOW())`,
-        [paymentLink.id, request.customerEmail, 'payment_request', 'sent']
+        `INSERT INTO payment_notifications (payment_link_id, customer_email, notification_type, status, sent_at, provider_message_id)
+         VALUES ($1, $2, $3, $4, NOW(), $5)`,
+        [paymentLink.id, request.customerEmail, 'payment_request', 'sent', sent.messageId || null]
       );
 
       console.log(`[PaymentService] Payment email sent to ${request.customerEmail} for order ${request.orderId}`);
@@ -378,587 +250,784 @@ export class PaymentService {
     }
   }
 
-  private getNewInstallationTemplate(request: PaymentRequest, paymentLink: PaymentLink) {
-    const { servicePackage, serviceAddress, customerName } = request;
-    const installationFee = servicePackage.installationFee || 0;
-    const total = servicePackage.price + installationFee;
+  // "Payment failed, try again" email carrying the reissued link
+  async sendPaymentFailedEmail(request: PaymentRequest, paymentLink: PaymentLink, failureReason?: string | null): Promise<void> {
+    try {
+      const baseTemplate = await this.templates.render(
+        'payment-failed',
+        {
+          ...this.getPaymentEmailVariables(request, paymentLink),
+          failureReason: failureReason || 'Your bank or card issuer did not approve the payment.',
+        },
+        { locale: request.locale }
+      );
+      const provider = this.registry.get(paymentLink.provider || this.defaultProvider);
+      const template = provider.decorateEmail ? provider.decorateEmail(baseTemplate) : baseTemplate;
 
-    return {
-      subject: `Complete Your Payment - New Internet Installation`,
-      html: `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <meta charset="utf-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>Payment Required - New Installation</title>
-          <style>
-            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
-            .header { background: #2563eb; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
-            .content { background: #f8fafc; padding: 30px; border-radius: 0 0 8px 8px; }
-            .package-details { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #2563eb; }
-            .price-breakdown { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; }
-            .price-row { display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #e2e8f0; }
-            .price-total { font-weight: bold; font-size: 1.2em; color: #2563eb; }
-            .cta-button { display: inline-block; background: #10b981; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; margin: 20px 0; }
-            .address { background: #f1f5f9; padding: 15px; border-radius: 6px; margin: 10px 0; }
-            .footer { text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e2e8f0; color: #64748b; font-size: 0.9em; }
-          </style>
-        </head>
-        <body>
-          <div class="header">
-            <h1>🌐 New Internet Installation</h1>
-            <p>Complete your payment to proceed with installation</p>
-          </div>
-          
-          <div class="content">
-            <h2>Hi ${customerName},</h2>
-            <p>Thank you for choosing our internet services! Your new installation order is ready for payment.</p>
-            
-            <div class="package-details">
-              <h3>📦 Service Package</h3>
-              <p><strong>${servicePackage.name}</strong></p>
-              <p>Speed: <strong>${servicePackage.speed}</strong></p>
-              <p>Monthly Fee: <strong>R${servicePackage.price.toFixed(2)}</strong></p>
-              ${servicePackage.installationType ? `<p>Installation: <strong>${servicePackage.installationType}</strong></p>` : ''}
-            </div>
-
-            <div class="address">
-              <h4>📍 Installation Address</h4>
-              <p>${serviceAddress.street}<br>
-              ${serviceAddress.city}, ${serviceAddress.province}<br>
-              ${serviceAddress.postalCode}</p>
-            </div>
-
-            <div class="price-breakdown">
-              <h3>💰 Payment Breakdown</h3>
-              <div class="price-row">
-                <span>Monthly Service Fee</span>
-                <span>R${servicePackage.price.toFixed(2)}</span>
-              </div>
-              ${installationFee > 0 ? `
-              <div class="price-row">
-                <span>Installation Fee</span>
-                <span>R${installationFee.toFixed(2)}</span>
-              </div>` : ''}
-              <div class="price-row price-total">
-                <span>Total Amount</span>
-                <span>R${total.toFixed(2)}</span>
-              </div>
-            </div>
-
-            <div style="text-align: center;">
-              <a href="${paymentLink.url}" class="cta-button">💳 Pay Now - R${total.toFixed(2)}</a>
-            </div>
-
-            <p><strong>What happens next?</strong></p>
-            <ul>
-              <li>✅ Complete your payment using the secure link above</li>
-              <li>📞 Our team will contact you within 24 hours to schedule installation</li>
-              <li>🔧 Professional installation at your premises</li>
-              <li>🌐 Enjoy high-speed internet!</li>
-            </ul>
-
-            <p><em>This payment link expires in 24 hours. If you need assistance, please contact our support team.</em></p>
-          </div>
-
-          <div class="footer">
-            <p>Xnext Internet Services | Order #${request.orderId}</p>
-            <p>Need help? Contact us at support@xnext.co.za</p>
-          </div>
-        </body>
-        </html>
-      `,
-      text: `
-Hi ${customerName},
-
-Thank you for choosing our internet services! Your new installation order is ready for payment.
-
-Service Package: ${servicePackage.name}
-Speed: ${servicePackage.speed}
-Monthly Fee: R${servicePackage.price.toFixed(2)}
-
-Installation Address:
-${serviceAddress.street}
-${serviceAddress.city}, ${serviceAddress.province}
-${serviceAddress.postalCode}
-
-Payment Breakdown:
-- Monthly Service Fee: R${servicePackage.price.toFixed(2)}
-${installationFee > 0 ? `- Installation Fee: R${installationFee.toFixed(2)}` : ''}
-Total Amount: R${total.toFixed(2)}
-
-Complete your payment: ${paymentLink.url}
-
-What happens next?
-1. Complete your payment using the secure link above
-2. Our team will contact you within 24 hours to schedule installation
-3. Professional installation at your premises
-4. Enjoy high-speed internet!
-
-This payment link expires in 24 hours.
-
-Order #${request.orderId}
-Xnext Internet Services
-Need help? Contact us at support@xnext.co.za
-      `
-    };
+      const sent = await this.deliverEmail(request.customerEmail, template);
+
+      await this.db.query(
+        `INSERT INTO payment_notifications (payment_link_id, customer_email, notification_type, status, sent_at, provider_message_id)
+         VALUES ($1, $2, $3, $4, NOW(), $5)`,
+        [paymentLink.id, request.customerEmail, 'payment_failed', 'sent', sent.messageId || null]
+      );
+
+      console.log(`[PaymentService] Payment failed email sent to ${request.customerEmail} for order ${request.orderId}`);
+    } catch (error) {
+      console.error('[PaymentService] Failed to send payment failed email:', error);
+      throw new Error('Failed to send payment failed email');
+    }
+  }
+
+  // Through the configured email transport (OMS email API first, direct SMTP as fallback by default)
+  private async deliverEmail(to: string, template: { subject: string; html: string; text: string }): Promise<EmailSendResult> {
+    const result = await this.emailTransport.send({
+      to,
+      subject: template.subject,
+      html: template.html,
+      text: template.text
+    });
+    console.log(`[PaymentService] Email sent via ${result.transport} to ${to}`);
+    return result;
   }
 
-  private getServiceChangeTemplate(request: PaymentRequest, paymentLink: PaymentLink) {
-    const { servicePackage, serviceAddress, customerName } = request;
+
+  // Variables shared by the payment request and payment failed templates
+  private getPaymentEmailVariables(request: PaymentRequest, paymentLink: PaymentLink): Record<string, any> {
+    const { servicePackage } = request;
     const installationFee = servicePackage.installationFee || 0;
-    const total = servicePackage.price + installationFee;
 
     return {
-      subject: `Complete Your Payment - Service Change Request`,
-      html: `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <meta charset="utf-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>Payment Required - Service Change</title>
-          <style>
-            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
-            .header { background: #7c3aed; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
-            .content { background: #f8fafc; padding: 30px; border-radius: 0 0 8px 8px; }
-            .package-details { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #7c3aed; }
-            .price-breakdown { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; }
-            .price-row { display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #e2e8f0; }
-            .price-total { font-weight: bold; font-size: 1.2em; color: #7c3aed; }
-            .cta-button { display: inline-block; background: #10b981; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; margin: 20px 0; }
-            .address { background: #f1f5f9; padding: 15px; border-radius: 6px; margin: 10px 0; }
-            .footer { text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e2e8f0; color: #64748b; font-size: 0.9em; }
-          </style>
-        </head>
-        <body>
-          <div class="header">
-            <h1>🔄 Service Change Request</h1>
-            <p>Complete your payment to process the service change</p>
-          </div>
-          
-          <div class="content">
-            <h2>Hi ${customerName},</h2>
-            <p>Your service change request is ready for payment. Complete the payment below to proceed with updating your internet service.</p>
-            
-            <div class="package-details">
-              <h3>📦 New Service Package</h3>
-              <p><strong>${servicePackage.name}</strong></p>
-              <p>Speed: <strong>${servicePackage.speed}</strong></p>
-              <p>New Monthly Fee: <strong>R${servicePackage.price.toFixed(2)}</strong></p>
-            </div>
-
-            <div class="address">
-              <h4>📍 Service Address</h4>
-              <p>${serviceAddress.street}<br>
-              ${serviceAddress.city}, ${serviceAddress.province}<br>
-              ${serviceAddress.postalCode}</p>
-            </div>
-
-            <div class="price-breakdown">
-              <h3>💰 Payment Details</h3>
-              <div class="price-row">
-                <span>New Monthly Service Fee</span>
-                <span>R${servicePackage.price.toFixed(2)}</span>
-              </div>
-              ${installationFee > 0 ? `
-              <div class="price-row">
-                <span>Service Change Fee</span>
-                <span>R${installationFee.toFixed(2)}</span>
-              </div>` : ''}
-              <div class="price-row price-total">
-                <span>Total Amount</span>
-                <span>R${total.toFixed(2)}</span>
-              </div>
-            </div>
-
-            <div style="text-align: center;">
-              <a href="${paymentLink.url}" class="cta-button">💳 Pay Now - R${total.toFixed(2)}</a>
-            </div>
-
-            <p><strong>What happens next?</strong></p>
-            <ul>
-              <li>✅ Complete your payment using the secure link above</li>
-              <li>🔄 Our team will process your service change within 24-48 hours</li>
-              <li>📞 You'll receive confirmation once the change is complete</li>
-              <li>🌐 Start enjoying your updated service!</li>
-            </ul>
-
-            <p><em>This payment link expires in 24 hours. If you need assistance, please contact our support team.</em></p>
-          </div>
-
-          <div class="footer">
-            <p>Xnext Internet Services | Order #${request.orderId}</p>
-            <p>Need help? Contact us at support@xnext.co.za</p>
-          </div>
-        </body>
-        </html>
-      `,
-      text: `
-Hi ${customerName},
-
-Your service change request is ready for payment.
-
-New Service Package: ${servicePackage.name}
-Speed: ${servicePackage.speed}
-New Monthly Fee: R${servicePackage.price.toFixed(2)}
-
-Service Address:
-${serviceAddress.street}
-${serviceAddress.city}, ${serviceAddress.province}
-${serviceAddress.postalCode}
-
-Payment Details:
-- New Monthly Service Fee: R${servicePackage.price.toFixed(2)}
-${installationFee > 0 ? `- Service Change Fee: R${installationFee.toFixed(2)}` : ''}
-Total Amount: R${total.toFixed(2)}
-
-Complete your payment: ${paymentLink.url}
-
-What happens next?
-1. Complete your payment using the secure link above
-2. Our team will process your service change within 24-48 hours
-3. You'll receive confirmation once the change is complete
-4. Start enjoying your updated service!
-
-This payment link expires in 24 hours.
-
-Order #${request.orderId}
-Xnext Internet Services
-Need help? Contact us at support@xnext.co.za
-      `
+      customerName: request.customerName,
+      orderId: request.orderId,
+      packageName: servicePackage.name,
+      packageSpeed: servicePackage.speed,
+      monthlyFee: servicePackage.price.toFixed(2),
+      installationType: servicePackage.installationType || '',
+      installationFee: installationFee > 0 ? installationFee.toFixed(2) : '',
+      total: (servicePackage.price + installationFee).toFixed(2),
+      paymentUrl: paymentLink.url,
+      serviceAddress: request.serviceAddress,
     };
   }
 
   async getPaymentStatus(paymentLinkId: string): Promise<any> {
     try {
-      // Get payment link from database
-      const result = await this.db.query(
-        'SELECT * FROM payment_links WHERE id = $1 OR stripe_session_id = $1 OR peach_checkout_id = $1',
-        [paymentLinkId]
-      );
-
-      if (result.rows.length === 0) {
+      const link = await this.findPaymentLink(paymentLinkId);
+      if (!link) {
         throw new Error('Payment link not found');
       }
 
-      const paymentRecord = result.rows[0];
-      if (this.provider === 'peach') {
-        return {
-          id: paymentRecord.id,
-          status: paymentRecord.status,
-          amount: paymentRecord.amount_cents,
-          currency: paymentRecord.currency,
-          customerEmail: paymentRecord.customer_email,
-          reference: paymentRecord.peach_checkout_id,
-          url: paymentRecord.url
-        };
-      }
-      if (!this.stripe) throw new Error('Stripe not initialized');
-      const stripeSessionId = paymentRecord.stripe_session_id;
-      const session = await this.stripe.checkout.sessions.retrieve(stripeSessionId);
-      let status = 'pending';
-      switch (session.payment_status) {
-        case 'paid':
-          status = 'completed';
-          break;
-        case 'unpaid':
-          status = session.status === 'expired' ? 'expired' : 'pending';
-          break;
-        case 'no_payment_required':
-          status = 'completed';
-          break;
-        default:
-          status = 'pending';
-      }
-      return { id: paymentRecord.id, sessionId: stripeSessionId, status, amount: session.amount_total, currency: session.currency?.toUpperCase(), paymentStatus: session.payment_status, sessionStatus: session.status, customerEmail: session.customer_email, paymentIntent: session.payment_intent };
+      const provider = this.providerFor(link);
+      const providerStatus = await provider.getStatus(link);
+      // Gateways still report refunded checkouts as paid; refunds are tracked in payment_refunds
+      const refunded = link.status === 'partially_refunded' || link.status === 'refunded';
+
+      return {
+        id: link.id,
+        provider: provider.name,
+        status: refunded ? link.status : providerStatus.status,
+        amount: link.amountCents,
+        currency: link.currency,
+        customerEmail: link.customerEmail,
+        reference: link.reference,
+        url: link.url,
+        ...(providerStatus.details || {}),
+      };
     } catch (error) {
       console.error('[PaymentService] Failed to get payment status:', error);
       throw new Error('Failed to get payment status');
     }
   }
 
-  async handleWebhook(webhookData: any, stripeSignature?: string): Promise<void> {
+  /**
+   * Verify and store a provider webhook without processing it.
+   * Returns the stored event id; duplicate is true when the provider retried an event we already have.
+   * needsProcessing is true for a new event, and for a retried one that was never picked up
+   * (the enqueue failed or the process died before processing started).
+   * The legacy /webhook route has no provider in the path and uses the default provider.
+   */
+  async ingestWebhook(payload: any, headers: Record<string, any>, providerName: string = this.defaultProvider): Promise<{ eventId: number; duplicate: boolean; needsProcessing: boolean }> {
+    if (!this.registry.has(providerName)) {
+      throw createValidationError(`Unknown payment provider: ${providerName}`);
+    }
+    const provider = this.registry.get(providerName);
+    const verified = provider.verifyWebhook(payload, headers);
+
+    const { event, duplicate } = await this.webhookEvents.record({ provider: provider.name, ...verified });
+    // A claim is atomic, so dispatching a retried event that is already queued is harmless
+    const needsProcessing = !duplicate || event.status === 'received';
+    const action = !duplicate ? 'stored' : needsProcessing ? 'duplicate of an unprocessed event, dispatching again' : 'duplicate ignored';
+    console.log(`[PaymentService] Webhook ${action}: ${provider.name} ${verified.providerEventId} (${verified.eventType})`);
+    return { eventId: event.id, duplicate, needsProcessing };
+  }
+
+  /**
+   * Process a stored webhook event exactly once. Safe to call repeatedly (queue retries, replays):
+   * events already processed or in progress are left alone.
+   */
+  async processWebhookEvent(eventId: number): Promise<void> {
+    const event = await this.webhookEvents.claim(eventId);
+    if (!event) {
+      console.log(`[PaymentService] Webhook event ${eventId} already processed or in progress`);
+      return;
+    }
+
     try {
-      if (this.provider !== 'stripe') {
-        throw new Error('handleWebhook is Stripe-only; use handlePeachWebhook for Peach');
+      const provider = this.registry.get(event.provider);
+      const outcome = provider.interpretWebhook(event.eventType, event.eventData);
+      if (outcome) {
+        await this.applyOutcome(provider, outcome);
       }
-      if (!this.stripe) throw new Error('Stripe not initialized');
-      let event: Stripe.Event;
-      if (stripeSignature) {
-        const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
-        if (!webhookSecret) throw new Error('STRIPE_WEBHOOK_SECRET is required for webhook verification');
-        const payload: Buffer | string = Buffer.isBuffer(webhookData) ? (webhookData as Buffer) : JSON.stringify(webhookData);
-        if (!Buffer.isBuffer(payload)) console.warn('[PaymentService] Warning: webhook payload is not a Buffer; using JSON string fallback');
-        event = this.stripe.webhooks.constructEvent(payload as any, stripeSignature, webhookSecret);
-      } else {
-        event = webhookData as Stripe.Event;
-      }
-      const sessionId = (event.data.object as any).id;
-      if (!sessionId) { console.warn('[PaymentService] Webhook received without session ID'); return; }
-      await this.db.query(
-        `INSERT INTO payment_webhook_events (peach_checkout_id, event_type, event_data, created_at)
-         VALUES ($1, $2, $3, NOW())`,
-        [sessionId, event.type, JSON.stringify(event)]
-      );
-      switch (event.type) {
-        case 'checkout.session.completed':
-          const session = event.data.object as Stripe.Checkout.Session;
-          if (session.payment_status === 'paid') { await this.handlePaymentSuccess(session); }
-          break;
-        case 'checkout.session.expired':
-          await this.handlePaymentExpired(event.data.object as Stripe.Checkout.Session);
-          break;
-        case 'payment_intent.payment_failed':
-          await this.handlePaymentFailure(event.data.object);
-          break;
-        default:
-          console.log(`[PaymentService] Unhandled webhook event: ${event.type}`);
-      }
-      console.log(`[PaymentService] Webhook processed for session ${sessionId}, event: ${event.type}`);
+      await this.webhookEvents.markProcessed(eventId);
+      console.log(`[PaymentService] Webhook event ${eventId} processed (${event.provider} ${event.eventType})`);
     } catch (error) {
-      console.error('[PaymentService] Webhook handling failed:', error);
+      console.error(`[PaymentService] Webhook event ${eventId} failed:`, error);
+      await this.webhookEvents.markFailed(eventId, error);
       throw error;
     }
   }
 
-  // Peach Payment Links: webhook handler with HMAC verification
-  async handlePeachWebhook(body: any, headers: Record<string, any>): Promise<void> {
-    if (this.provider !== 'peach') {
-      throw new Error('Peach webhook called when provider is not peach');
-    }
+  /**
+   * Ask the link's provider for its authoritative status and apply it.
+   * Used after checkout redirect (session id / reference) and by the reconciler (link id).
+   */
+  async confirmPayment(reference: string): Promise<ConfirmPaymentResult> {
+    try {
+      if (!reference) {
+        return { success: false, error: 'reference is required' };
+      }
 
-    console.log('[PaymentService] Processing Peach Payment Links webhook');
+      const link = await this.findPaymentLink(reference);
+      if (!link) {
+        console.warn('[PaymentService] Payment link not found for reference:', reference);
+        return { success: false, error: 'Payment link not found' };
+      }
 
-    // Verify webhook signature using HMAC SHA256
-    const signatureHeader = headers['x-peach-signature'] || headers['x-webhook-signature'];
-    const secret = process.env.PEACHPAYMENTS_WEBHOOK_SECRET;
-    
-    if (secret && signatureHeader) {
-      const rawBody = typeof body === 'string' ? body : JSON.stringify(body);
-      const computed = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
-      
-      if (computed !== signatureHeader) {
-        console.error('[PaymentService] Invalid webhook signature');
-        throw new Error('Invalid Peach Payment Links webhook signature');
+      const provider = this.providerFor(link);
+      const result = await provider.confirm(link);
+      if (result.paymentIntentId) {
+        await this.recordPaymentIntent(link, result.paymentIntentId);
+      }
+
+      if (result.status === 'paid') {
+        await this.markLinkPaid(link, { ...(result.details || {}), paymentLinkId: link.id });
+        return { success: true, orderId: link.orderId, status: 'paid' };
       }
-      console.log('[PaymentService] Webhook signature verified');
-    } else if (secret) {
-      console.warn('[PaymentService] Webhook secret configured but no signature header found');
+      if (result.status === 'expired') {
+        await this.transitionLinkStatus(link.id, 'expired', {
+          onlyFrom: ['pending'],
+          reason: `${provider.name} reports the checkout as expired`,
+          actor: 'system:confirm',
+        });
+      }
+
+      return {
+        success: false,
+        orderId: link.orderId,
+        status: result.status,
+        error: `Payment not yet confirmed (status: ${result.status})`
+      };
+    } catch (error: any) {
+      console.error('[PaymentService] confirmPayment failed:', error);
+      return { success: false, error: error.message || 'Failed to confirm payment' };
     }
+  }
 
-    // Parse Payment Links webhook payload
-    const paymentId = body?.payment?.id || body?.id;
-    const paymentStatus = body?.payment?.status || body?.status;
-    const merchantInvoiceId = body?.payment?.merchantInvoiceId || body?.merchantInvoiceId;
+  /**
+   * Refund a paid link in full or in part through the provider that took the payment.
+   * The refund row is reserved before calling the gateway so concurrent requests cannot over-refund;
+   * pending refunds are completed by the provider's refund webhooks.
+   */
+  async refundPayment(paymentLinkId: string, request: RefundPaymentRequest = {}): Promise<PaymentRefund> {
+    const client = await this.db.connect();
+    let link: PaymentLinkRecord;
+    let refund: PaymentRefund;
+    try {
+      await client.query('BEGIN');
 
-    console.log('[PaymentService] Webhook data:', {
-      paymentId,
-      paymentStatus,
-      merchantInvoiceId
-    });
+      const linkResult = await client.query('SELECT * FROM payment_links WHERE id = $1 FOR UPDATE', [paymentLinkId]);
+      if (linkResult.rows.length === 0) {
+        throw createNotFoundError(`Payment link ${paymentLinkId}`);
+      }
+      link = this.mapLinkRow(linkResult.rows[0]);
 
-    if (!paymentId) {
-      console.warn('[PaymentService] Webhook received without payment ID');
-      return;
+      if (link.status !== 'paid' && link.status !== 'partially_refunded') {
+        throw createConflictError(`Payment link ${paymentLinkId} is ${link.status}; only paid links can be refunded`);
+      }
+      if (!this.providerFor(link).refund) {
+        throw createConflictError(`${link.provider} payments cannot be refunded through the API; refund ${paymentLinkId} from the ${link.provider} dashboard`);
+      }
+
+      const refundable = link.amountCents - await this.refunds.reservedCents(link.id, client);
+      const amountCents = request.amountCents ?? refundable;
+      if (!Number.isInteger(amountCents) || amountCents <= 0) {
+        throw createValidationError('Refund amount must be a positive whole number of cents');
+      }
+      if (amountCents > refundable) {
+        throw createValidationError(`Refund of ${amountCents} cents exceeds the refundable amount of ${refundable} cents`);
+      }
+
+      refund = await this.refunds.create({
+        paymentLinkId: link.id,
+        orderId: link.orderId,
+        provider: link.provider,
+        amountCents,
+        currency: link.currency,
+        reason: request.reason,
+        requestedBy: request.requestedBy,
+      }, client);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
     }
 
-    // Log webhook event
-    await this.db.query(
-      `INSERT INTO payment_webhook_events (peach_checkout_id, event_type, event_data, created_at)
-       VALUES ($1, $2, $3, NOW())`,
-      [paymentId, `payment_links_${paymentStatus}`, JSON.stringify(body)]
-    );
+    const provider = this.providerFor(link);
+    let providerRefund: ProviderRefund;
+    try {
+      providerRefund = await provider.refund!(link, { refundId: refund.id, amountCents: refund.amountCents, reason: request.reason });
+    } catch (error: any) {
+      console.error(`[PaymentService] ${provider.name} refund ${refund.id} for ${link.id} failed:`, error);
+      await this.refunds.transition(refund.id, 'failed', { failureReason: error?.message || String(error) });
+      throw new AppError(`Refund failed: ${error?.message || 'Unknown error'}`, 502, 'REFUND_FAILED');
+    }
+
+    console.log(`[PaymentService] Refund ${refund.id} of ${refund.amountCents} cents for ${link.id} submitted to ${provider.name} (${providerRefund.status})`);
+    return this.applyRefundStatus(refund, providerRefund.status, { providerRefundId: providerRefund.providerRefundId });
+  }
 
-    // Map Payment Links status to internal status
-    let internalStatus = 'pending';
-    if (paymentStatus === 'SUCCESSFUL') {
-      internalStatus = 'paid';
-    } else if (paymentStatus === 'FAILED') {
-      internalStatus = 'failed';
-    } else if (paymentStatus === 'PENDING') {
-      internalStatus = 'pending';
+  /**
+   * Cancel a pending link: deactivate it at the provider, then mark it cancelled.
+   * Cancelling an already cancelled link is a no-op.
+   */
+  async cancelPaymentLink(paymentLinkId: string, options: { reason?: string; actor?: string } = {}): Promise<PaymentLinkRecord> {
+    const link = await this.findPaymentLink(paymentLinkId);
+    if (!link) {
+      throw createNotFoundError(`Payment link ${paymentLinkId}`);
+    }
+    if (link.status === 'cancelled') {
+      return link;
+    }
+    if (link.status !== 'pending') {
+      throw createConflictError(`Payment link ${link.id} is ${link.status}; only pending links can be cancelled`);
     }
 
-    // Find payment by Payment Link ID or merchant invoice ID (orderId)
-    let paymentQuery;
-    if (merchantInvoiceId) {
-      paymentQuery = await this.db.query(
-        'SELECT * FROM payment_links WHERE order_id = $1',
-        [merchantInvoiceId]
-      );
-    } else {
-      paymentQuery = await this.db.query(
-        'SELECT * FROM payment_links WHERE peach_checkout_id = $1',
-        [paymentId]
-      );
+    const provider = this.providerFor(link);
+    if (!provider.cancel) {
+      // Cancelling only here would leave the link payable at the gateway
+      throw createConflictError(`${provider.name} payment links cannot be deactivated at the provider; ${link.id} stays payable until it expires`);
+    }
+    try {
+      await provider.cancel(link);
+    } catch (error: any) {
+      console.error(`[PaymentService] ${provider.name} cancel failed for ${link.id}:`, error);
+      throw new AppError(`Failed to cancel payment link at ${provider.name}: ${error?.message || 'Unknown error'}`, 502, 'CANCEL_FAILED');
     }
 
-    if (paymentQuery.rows.length === 0) {
-      console.warn('[PaymentService] Payment not found for webhook:', { paymentId, merchantInvoiceId });
-      return;
+    const changed = await this.transitionLinkStatus(link.id, 'cancelled', {
+      onlyFrom: ['pending'],
+      reason: options.reason || 'Cancelled',
+      actor: options.actor,
+    });
+    const current = (await this.findPaymentLink(link.id))!;
+    if (!changed && current.status !== 'cancelled') {
+      // Paid (or otherwise settled) between the check and the update
+      throw createConflictError(`Payment link ${link.id} is ${current.status}; only pending links can be cancelled`);
     }
 
-    const payment = paymentQuery.rows[0];
-    const orderId = payment.order_id;
+    console.log(`[PaymentService] Payment link ${link.id} cancelled (order ${link.orderId})`);
+    return current;
+  }
 
-    // Update payment status
-    await this.db.query(
-      `UPDATE payment_links 
-       SET status = $1, paid_at = CASE WHEN $1 = 'paid' THEN COALESCE(paid_at, NOW()) ELSE paid_at END, updated_at = NOW()
-       WHERE peach_checkout_id = $2`,
-      [internalStatus, paymentId]
+  // Used when an order is cancelled upstream: every pending link for it is cancelled
+  async cancelPaymentLinksForOrder(orderId: string, options: { reason?: string; actor?: string } = {}): Promise<PaymentLinkRecord[]> {
+    const result = await this.db.query(
+      `SELECT id FROM payment_links WHERE order_id = $1 AND status = 'pending' ORDER BY created_at ASC`,
+      [orderId]
     );
 
-    // If successful, update order and notify OMS
-    if (paymentStatus === 'SUCCESSFUL') {
-      console.log('[PaymentService] Payment successful, updating order:', orderId);
-      
-      await this.db.query(
-        `UPDATE orders 
-         SET is_paid = TRUE, status = 'payment_received', paid_at = COALESCE(paid_at, NOW()), updated_at = NOW()
-         WHERE id = $1`,
-        [orderId]
-      );
-
-      await this.notifyOms(orderId, { 
-        peachPaymentLinkId: paymentId,
-        merchantInvoiceId 
-      });
+    const links = (await Promise.all(result.rows.map((row: any) => this.findPaymentLink(row.id))))
+      .filter((link): link is PaymentLinkRecord => link !== null);
+    // Refuse the whole order up front rather than cancelling some of its links
+    const uncancellable = links.find(link => !this.providerFor(link).cancel);
+    if (uncancellable) {
+      throw createConflictError(`${uncancellable.provider} payment links cannot be deactivated at the provider; ${uncancellable.id} stays payable until it expires`);
+    }
 
-      console.log('[PaymentService] Order updated and OMS notified for:', orderId);
-    } else if (paymentStatus === 'FAILED') {
-      console.log('[PaymentService] Payment failed for order:', orderId);
-      
-      await this.db.query(
-        `UPDATE orders SET status = 'payment_failed', updated_at = NOW() WHERE id = $1`,
-        [orderId]
-      );
+    const cancelled: PaymentLinkRecord[] = [];
+    for (const link of links) {
+      cancelled.push(await this.cancelPaymentLink(link.id, options));
     }
+    return cancelled;
   }
 
   /**
-   * Confirm a Stripe Checkout Session after redirect without requiring frontend auth.
+   * Expire a pending link that is past expires_at. The provider is asked first so a
+   * payment whose webhook was missed is recorded as paid rather than expired.
    */
-  async confirmCheckoutSession(sessionId: string): Promise<{ success: boolean; orderId?: string; error?: string }> {
+  async expirePaymentLink(paymentLinkId: string, options: { actor?: string } = {}): Promise<ExpirePaymentLinkResult> {
+    const link = await this.findPaymentLink(paymentLinkId);
+    if (!link || link.status !== 'pending') {
+      return 'skipped';
+    }
+
+    const provider = this.providerFor(link);
     try {
-      if (this.provider !== 'stripe') return { success: false, error: 'Stripe confirmation disabled' };
-      if (!this.stripe) throw new Error('Stripe not initialized');
-      if (!sessionId) {
-        return { success: false, error: 'sessionId is required' };
+      const result = await provider.confirm(link);
+      if (result.status === 'paid') {
+        await this.markLinkPaid(link, { ...(result.details || {}), paymentLinkId: link.id });
+        return 'paid';
       }
+    } catch (error: any) {
+      console.warn(`[PaymentService] Could not confirm ${link.id} with ${provider.name} before expiry:`, error?.message || error);
+    }
 
-      // Retrieve session from Stripe
-      const session = await this.stripe.checkout.sessions.retrieve(sessionId);
-      if (!session) {
-        return { success: false, error: 'Session not found' };
-      }
+    const changed = await this.transitionLinkStatus(link.id, 'expired', {
+      onlyFrom: ['pending'],
+      reason: `Not paid by ${new Date(link.expiresAt).toISOString()}`,
+      actor: options.actor,
+    });
+    return changed ? 'expired' : 'skipped';
+  }
+
+  /**
+   * Issue a fresh link for an expired or failed one and email it to the customer
+   * (the regular payment email after expiry, the "try again" email after a failure).
+   * Returns null when the order already has a live or paid link, the link was already
+   * reissued, it predates stored request payloads, or the order reached maxReissues.
+   * A failed checkout can still be paid at the gateway, so it is closed there first and
+   * no link is reissued when that is not possible.
+   */
+  async reissuePaymentLink(linkId: string, options: { maxReissues?: number } = {}): Promise<PaymentLink | null> {
+    const result = await this.db.query('SELECT * FROM payment_links WHERE id = $1', [linkId]);
+    const row = result.rows[0];
+    if (!row || (row.status !== 'expired' && row.status !== 'failed') || row.replaced_by || !row.request_payload) {
+      return null;
+    }
 
-      // Only proceed if paid
-      if (session.payment_status !== 'paid') {
-        return { success: false, error: `Session not paid (status=${session.payment_status})` };
+    const existing = await this.db.query(
+      `SELECT
+         COUNT(*) FILTER (WHERE status = 'pending' OR status = ANY($2::text[]))::int AS live,
+         COUNT(*) FILTER (WHERE reissued_from IS NOT NULL)::int AS reissued
+       FROM payment_links
+       WHERE order_id = $1`,
+      [row.order_id, SETTLED_LINK_STATUSES]
+    );
+    const { live, reissued } = existing.rows[0];
+    const maxReissues = options.maxReissues ?? 1;
+    if (live > 0 || reissued >= maxReissues) {
+      return null;
+    }
+
+    if (row.status === 'failed') {
+      const failed = (await this.findPaymentLink(row.id))!;
+      if (!(await this.closeCheckout(failed))) {
+        console.warn(`[PaymentService] Not reissuing failed link ${row.id}: its ${row.provider} checkout could not be closed`);
+        return null;
       }
+    }
 
-      // Resolve orderId via DB, then fallback to client_reference_id or metadata
-      let orderId: string | undefined;
-      const result = await this.db.query(
-        'SELECT order_id FROM payment_links WHERE stripe_session_id = $1',
-        [sessionId]
-      );
-      if (result.rows.length > 0) {
-        orderId = result.rows[0].order_id as string;
-      } else {
-        orderId = (session.client_reference_id as string) || (session.metadata?.orderId as string) || undefined;
+    const request: PaymentRequest = row.request_payload;
+    const paymentLink = await this.createPaymentLink(request, { provider: row.provider, reissuedFrom: row.id });
+    await this.db.query(
+      `UPDATE payment_links SET replaced_by = $2, updated_at = NOW() WHERE id = $1`,
+      [row.id, paymentLink.id]
+    );
+
+    const email = row.status === 'failed'
+      ? this.sendPaymentFailedEmail(request, paymentLink, row.failure_reason)
+      : this.sendPaymentEmail(request, paymentLink);
+    email.catch((err: any) => {
+      console.warn(`[PaymentService] Reissue email for ${paymentLink.id} failed:`, err?.message || err);
+    });
+
+    console.log(`[PaymentService] Reissued ${row.status} link ${row.id} as ${paymentLink.id} for order ${row.order_id}`);
+    return paymentLink;
+  }
+
+  async getStatusHistory(paymentLinkId: string): Promise<PaymentLinkStatusChange[]> {
+    const result = await this.db.query(
+      `SELECT * FROM payment_link_status_changes WHERE payment_link_id = $1 ORDER BY created_at ASC, id ASC`,
+      [paymentLinkId]
+    );
+    return result.rows.map((row: any) => ({
+      id: row.id,
+      paymentLinkId: row.payment_link_id,
+      fromStatus: row.from_status,
+      toStatus: row.to_status,
+      reason: row.reason,
+      actor: row.actor,
+      metadata: row.metadata,
+      createdAt: row.created_at,
+    }));
+  }
+
+  // Hosted checkout page for providers that serve one (mock)
+  async getHostedCheckoutPage(paymentLinkId: string): Promise<string | null> {
+    const link = await this.findPaymentLink(paymentLinkId);
+    if (!link) return null;
+
+    const provider = this.providerFor(link);
+    return provider.renderCheckoutPage ? provider.renderCheckoutPage(link) : null;
+  }
+
+  private async applyOutcome(provider: PaymentProvider, outcome: WebhookOutcome): Promise<void> {
+    let link = outcome.reference ? await this.findPaymentLink(outcome.reference) : null;
+    if (!link && outcome.paymentIntentId) {
+      link = await this.findPaymentLink(outcome.paymentIntentId);
+    }
+    if (!link && outcome.orderId) {
+      link = await this.findLatestLinkForOrder(outcome.orderId);
+    }
+
+    if (!link) {
+      console.warn(`[PaymentService] Payment link not found for ${provider.name} webhook:`, { reference: outcome.reference, paymentIntentId: outcome.paymentIntentId, orderId: outcome.orderId });
+      return;
+    }
+    if (link.provider !== provider.name) {
+      console.warn(`[PaymentService] Ignoring ${provider.name} webhook for ${link.id}, which was issued by ${link.provider}`);
+      return;
+    }
+    if (outcome.paymentIntentId) {
+      await this.recordPaymentIntent(link, outcome.paymentIntentId);
+    }
+
+    switch (outcome.status) {
+      case 'paid':
+        await this.markLinkPaid(link, { ...(outcome.details || {}), paymentLinkId: link.id });
+        break;
+      case 'failed': {
+        const failureReason = outcome.failureReason || null;
+        const changed = await this.transitionLinkStatus(link.id, 'failed', {
+          notFrom: SETTLED_LINK_STATUSES,
+          reason: failureReason || 'Payment failed',
+          actor: `provider:${provider.name}`,
+          metadata: outcome.details,
+        });
+        if (!changed) return;
+        await this.db.query(
+          `UPDATE payment_links SET failure_reason = $2, failed_at = NOW(), updated_at = NOW() WHERE id = $1`,
+          [link.id, failureReason]
+        );
+        await this.db.query(
+          `UPDATE orders SET status = 'payment_failed', updated_at = NOW() WHERE id = $1`,
+          [link.orderId]
+        );
+        console.log(`[PaymentService] Payment failed for order ${link.orderId}:`, failureReason || 'no reason given');
+        await this.offerRetryAfterFailure(link.id);
+        break;
       }
+      case 'expired':
+        if (await this.transitionLinkStatus(link.id, 'expired', { onlyFrom: ['pending'], reason: 'Checkout expired', actor: `provider:${provider.name}` })) {
+          console.log(`[PaymentService] Payment link expired: ${link.id}`);
+        }
+        break;
+      case 'refunded':
+        if (outcome.refund) {
+          await this.applyRefundWebhook(link, outcome.refund);
+        }
+        break;
+      default:
+        console.log(`[PaymentService] No action for ${provider.name} outcome ${outcome.status} on ${link.id}`);
+    }
+  }
+
+  // Refunds issued through the API carry our refund id; ones made at the gateway are recorded on first sight
+  private async applyRefundWebhook(link: PaymentLinkRecord, outcome: RefundWebhookOutcome): Promise<void> {
+    let refund = await this.refunds.findByProviderRefundId(link.provider, outcome.providerRefundId);
+    if (!refund && outcome.refundId) {
+      const byId = await this.refunds.get(outcome.refundId);
+      refund = byId && byId.paymentLinkId === link.id ? byId : null;
+    }
+    if (!refund) {
+      if (outcome.status === 'failed') return;
+      refund = await this.refunds.create({
+        paymentLinkId: link.id,
+        orderId: link.orderId,
+        provider: link.provider,
+        providerRefundId: outcome.providerRefundId,
+        amountCents: outcome.amountCents,
+        currency: link.currency,
+        reason: 'Refunded at the payment provider',
+        requestedBy: 'provider:webhook',
+      });
+      console.log(`[PaymentService] Recorded ${link.provider} refund ${outcome.providerRefundId} made outside the API for ${link.id}`);
+    }
+
+    await this.applyRefundStatus(refund, outcome.status, {
+      providerRefundId: outcome.providerRefundId,
+      failureReason: outcome.failureReason,
+    });
+  }
 
-      if (!orderId) {
-        return { success: false, error: 'Order not associated with session' };
+  // Completion side effects (link status, OMS notification) run once, when the refund first succeeds
+  private async applyRefundStatus(
+    refund: PaymentRefund,
+    status: ProviderRefund['status'],
+    update: { providerRefundId?: string; failureReason?: string | null }
+  ): Promise<PaymentRefund> {
+    if (status === 'pending') {
+      if (update.providerRefundId && update.providerRefundId !== refund.providerRefundId) {
+        await this.refunds.setProviderRefundId(refund.id, update.providerRefundId);
       }
+      return (await this.refunds.get(refund.id)) || refund;
+    }
 
-      // Idempotent updates
-      await this.db.query(
-        `UPDATE payment_links SET status = 'paid', paid_at = COALESCE(paid_at, NOW()) WHERE stripe_session_id = $1`,
-        [sessionId]
-      );
-      await this.db.query(
-        `UPDATE orders SET is_paid = TRUE, status = 'payment_received', paid_at = COALESCE(paid_at, NOW()), updated_at = NOW() WHERE id = $1`,
-        [orderId]
-      );
+    const updated = await this.refunds.transition(refund.id, status, update);
+    if (!updated) {
+      return (await this.refunds.get(refund.id)) || refund;
+    }
+    if (status === 'failed') {
+      console.warn(`[PaymentService] Refund ${refund.id} for ${refund.paymentLinkId} failed:`, update.failureReason || 'no reason given');
+      return updated;
+    }
 
-      await this.notifyOms(orderId, { stripeSessionId: sessionId });
+    const link = await this.findPaymentLink(refund.paymentLinkId);
+    const refundedCents = await this.refunds.succeededCents(refund.paymentLinkId);
+    const fullyRefunded = !!link && refundedCents >= link.amountCents;
+    await this.transitionLinkStatus(refund.paymentLinkId, fullyRefunded ? 'refunded' : 'partially_refunded', {
+      reason: `Refund ${updated.id} of ${updated.amountCents} cents`,
+      actor: updated.requestedBy || undefined,
+      metadata: { refundId: updated.id, totalRefundedCents: refundedCents },
+    });
 
-      return { success: true, orderId };
+    await this.notifyOmsRefund(refund.orderId, {
+      paymentLinkId: refund.paymentLinkId,
+      refundId: updated.id,
+      providerRefundId: updated.providerRefundId,
+      provider: updated.provider,
+      amountCents: updated.amountCents,
+      currency: updated.currency,
+      reason: updated.reason,
+      totalRefundedCents: refundedCents,
+      fullyRefunded,
+    });
+    console.log(`[PaymentService] Refund ${updated.id} of ${updated.amountCents} cents succeeded for order ${refund.orderId}`);
+    return updated;
+  }
+
+  // Stored once; a payment intent belongs to a single checkout session
+  private async recordPaymentIntent(link: PaymentLinkRecord, paymentIntentId: string): Promise<void> {
+    if (link.paymentIntentId === paymentIntentId) return;
+    await this.db.query(
+      `UPDATE payment_links SET stripe_payment_intent_id = $2, updated_at = NOW()
+        WHERE id = $1 AND stripe_payment_intent_id IS NULL`,
+      [link.id, paymentIntentId]
+    );
+  }
+
+  // Reissue a failed link and email it as "payment failed, try again" (PAYMENT_FAILURE_REISSUE=false disables)
+  private async offerRetryAfterFailure(linkId: string): Promise<void> {
+    if (process.env.PAYMENT_FAILURE_REISSUE === 'false') return;
+    try {
+      const maxReissues = parseInt(process.env.PAYMENT_FAILURE_MAX_REISSUES || '2');
+      const reissued = await this.reissuePaymentLink(linkId, { maxReissues });
+      if (!reissued) {
+        console.log(`[PaymentService] No retry link issued for failed link ${linkId}`);
+      }
     } catch (error: any) {
-      console.error('[PaymentService] confirmCheckoutSession failed:', error);
-      return { success: false, error: error.message || 'Failed to confirm session' };
+      console.warn(`[PaymentService] Could not reissue failed link ${linkId}:`, error?.message || error);
     }
   }
 
-  // Peach Payment Links: confirm by reference (database-only, webhooks handle actual updates)
-  async confirmPeachReference(reference: string): Promise<{ success: boolean; orderId?: string; error?: string }> {
-    try {
-      if (this.provider !== 'peach') {
-        return { success: false, error: 'Peach confirmation disabled' };
+  // Once one link is paid, other pending links for the order must not be paid as well
+  private async cancelSupersededLinks(paidLink: PaymentLinkRecord): Promise<void> {
+    const result = await this.db.query(
+      `SELECT id FROM payment_links WHERE order_id = $1 AND id <> $2 AND status = 'pending'`,
+      [paidLink.orderId, paidLink.id]
+    );
+    for (const row of result.rows) {
+      try {
+        await this.cancelPaymentLink(row.id, { reason: `Superseded by paid link ${paidLink.id}`, actor: 'system:payment' });
+      } catch (error: any) {
+        console.warn(`[PaymentService] Could not cancel superseded link ${row.id}:`, error?.message || error);
       }
-      
-      if (!reference) {
-        return { success: false, error: 'reference is required' };
+    }
+
+    // Failed links keep their status, but a checkout not closed by a reissue is still payable
+    const failed = await this.db.query(
+      `SELECT id FROM payment_links WHERE order_id = $1 AND id <> $2 AND status = 'failed' AND replaced_by IS NULL`,
+      [paidLink.orderId, paidLink.id]
+    );
+    for (const row of failed.rows) {
+      const link = await this.findPaymentLink(row.id);
+      if (link && !(await this.closeCheckout(link))) {
+        console.warn(`[PaymentService] Failed link ${row.id} may still be payable at ${link.provider} after ${paidLink.id} was paid`);
       }
+    }
+  }
 
-      console.log('[PaymentService] Confirming payment reference:', reference);
+  // Close a link's checkout at its provider without changing the link; false when that is not possible
+  private async closeCheckout(link: PaymentLinkRecord): Promise<boolean> {
+    const provider = this.providerFor(link);
+    if (!provider.cancel) return false;
+    try {
+      await provider.cancel(link);
+      return true;
+    } catch (error: any) {
+      console.warn(`[PaymentService] ${provider.name} could not close the checkout of ${link.id}:`, error?.message || error);
+      return false;
+    }
+  }
 
-      // Payment Links uses webhooks exclusively for status updates
-      // This method just checks the database status that was updated by webhook
-      const res = await this.db.query(
-        'SELECT order_id, status, paid_at FROM payment_links WHERE peach_checkout_id = $1',
-        [reference]
-      );
+  // Idempotent: only the transition to paid updates the order and notifies OMS.
+  // A cancelled or expired link can still be paid at the gateway, so those statuses do not block it.
+  private async markLinkPaid(link: PaymentLinkRecord, payload: Record<string, any>): Promise<void> {
+    const changed = await this.transitionLinkStatus(link.id, 'paid', {
+      notFrom: SETTLED_LINK_STATUSES,
+      reason: 'Payment received',
+      actor: `provider:${link.provider}`,
+    });
+    if (!changed) {
+      console.log(`[PaymentService] Payment link ${link.id} already paid`);
+      return;
+    }
+    if (link.status === 'cancelled' || link.status === 'expired') {
+      console.warn(`[PaymentService] Payment received for ${link.status} link ${link.id} (order ${link.orderId})`);
+    }
 
-      if (res.rows.length === 0) {
-        console.warn('[PaymentService] Payment link not found for reference:', reference);
-        return { success: false, error: 'Payment link not found' };
-      }
+    await this.db.query(
+      `UPDATE orders 
+       SET is_paid = TRUE, status = 'payment_received', paid_at = COALESCE(paid_at, NOW()), updated_at = NOW()
+       WHERE id = $1`,
+      [link.orderId]
+    );
 
-      const paymentLink = res.rows[0];
-      const orderId = paymentLink.order_id;
-      const status = paymentLink.status;
-      const paidAt = paymentLink.paid_at;
+    await this.notifyOms(link.orderId, payload);
+    console.log(`[PaymentService] Payment completed for order ${link.orderId} (${link.id})`);
 
-      console.log('[PaymentService] Payment status from database:', {
-        orderId,
-        status,
-        paidAt: paidAt ? paidAt.toISOString() : null
+    await this.cancelSupersededLinks(link);
+  }
+
+  /**
+   * Change a link's status and record it in payment_link_status_changes in one statement.
+   * Returns false when the link is already in that status or its current status is not allowed.
+   */
+  private async transitionLinkStatus(linkId: string, toStatus: string, options: PaymentLinkStatusChangeOptions = {}): Promise<boolean> {
+    const result = await this.db.query(
+      `WITH current AS (
+         SELECT id, status FROM payment_links WHERE id = $1 FOR UPDATE
+       ), updated AS (
+         UPDATE payment_links p
+            SET status = $2::varchar,
+                paid_at = CASE WHEN $2::varchar = 'paid' THEN COALESCE(p.paid_at, NOW()) ELSE p.paid_at END,
+                cancelled_at = CASE WHEN $2::varchar = 'cancelled' THEN NOW() ELSE p.cancelled_at END,
+                updated_at = NOW()
+           FROM current c
+          WHERE p.id = c.id
+            AND c.status IS DISTINCT FROM $2::varchar
+            AND ($3::text[] IS NULL OR c.status = ANY($3::text[]))
+            AND ($4::text[] IS NULL OR c.status <> ALL($4::text[]))
+         RETURNING p.id, c.status AS from_status
+       )
+       INSERT INTO payment_link_status_changes (payment_link_id, from_status, to_status, reason, actor, metadata, created_at)
+       SELECT id, from_status, $2::varchar, $5, $6, $7, NOW() FROM updated
+       RETURNING from_status`,
+      [
+        linkId,
+        toStatus,
+        options.onlyFrom || null,
+        options.notFrom || null,
+        options.reason || null,
+        options.actor || null,
+        options.metadata ? JSON.stringify(options.metadata) : null,
+      ]
+    );
+    const changed = result.rows.length > 0;
+
+    // Only pending links are payable, so any other status ends the reminder sequence
+    if (changed && toStatus !== 'pending') {
+      await this.reminders.cancelForLink(linkId, `Payment link ${toStatus}`).catch((err: any) => {
+        console.warn(`[PaymentService] Could not cancel reminders for ${linkId}:`, err?.message || err);
       });
+    }
 
-      // Check if payment is marked as paid
-      if (status === 'paid' && paidAt) {
-        return { success: true, orderId };
+    if (changed) {
+      for (const listener of this.statusListeners) {
+        await listener({ linkId, fromStatus: result.rows[0].from_status, toStatus }).catch((err: any) => {
+          console.warn(`[PaymentService] Status listener failed for ${linkId} (${toStatus}):`, err?.message || err);
+        });
       }
+    }
+    return changed;
+  }
 
-      // Payment not yet confirmed via webhook
-      return { 
-        success: false, 
-        error: `Payment not yet confirmed (status: ${status}). Webhook will update when payment completes.` 
-      };
+  private async recordStatusChange(linkId: string, fromStatus: string | null, toStatus: string, options: PaymentLinkStatusChangeOptions = {}): Promise<void> {
+    await this.db.query(
+      `INSERT INTO payment_link_status_changes (payment_link_id, from_status, to_status, reason, actor, metadata, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, NOW())`,
+      [linkId, fromStatus, toStatus, options.reason || null, options.actor || null, options.metadata ? JSON.stringify(options.metadata) : null]
+    );
+  }
 
-    } catch (error: any) {
-      console.error('[PaymentService] confirmPeachReference failed:', error);
-      return { success: false, error: error.message || 'Failed to confirm reference' };
-    }
+  private async findPaymentLink(idOrReference: string): Promise<PaymentLinkRecord | null> {
+    const result = await this.db.query(
+      `SELECT * FROM payment_links
+        WHERE id = $1 OR provider_reference = $1 OR stripe_session_id = $1 OR peach_checkout_id = $1 OR stripe_payment_intent_id = $1
+        LIMIT 1`,
+      [idOrReference]
+    );
+    return result.rows.length > 0 ? this.mapLinkRow(result.rows[0]) : null;
+  }
+
+  private async findLatestLinkForOrder(orderId: string): Promise<PaymentLinkRecord | null> {
+    const result = await this.db.query(
+      `SELECT * FROM payment_links WHERE order_id = $1 ORDER BY created_at DESC LIMIT 1`,
+      [orderId]
+    );
+    return result.rows.length > 0 ? this.mapLinkRow(result.rows[0]) : null;
+  }
+
+  // Links are always served by the provider that issued them, whatever the current default
+  private providerFor(link: PaymentLinkRecord): PaymentProvider {
+    return this.registry.get(link.provider || this.defaultProvider);
+  }
+
+  private mapLinkRow(row: any): PaymentLinkRecord {
+    return {
+      id: row.id,
+      orderId: row.order_id,
+      customerId: row.customer_id,
+      provider: row.provider || this.defaultProvider,
+      reference: row.provider_reference || row.stripe_session_id || row.peach_checkout_id,
+      url: row.url,
+      amountCents: row.amount_cents,
+      currency: row.currency,
+      status: row.status,
+      customerEmail: row.customer_email || undefined,
+      expiresAt: row.expires_at,
+      paidAt: row.paid_at,
+      createdAt: row.created_at,
+      paymentIntentId: row.stripe_payment_intent_id || null,
+      failureReason: row.failure_reason || null,
+    };
   }
 
   private async notifyOms(orderId: string, payload: Record<string, any>): Promise<void> {
+    const body = { orderId, paidAt: new Date().toISOString(), ...payload };
+    await this.postToOms(`/orders/${orderId}/payment/success`, body, `payment success for order ${orderId}`);
+  }
+
+  private async notifyOmsRefund(orderId: string, payload: Record<string, any>): Promise<void> {
+    const body = { orderId, refundedAt: new Date().toISOString(), ...payload };
+    await this.postToOms(`/orders/${orderId}/payment/refund`, body, `refund for order ${orderId}`);
+  }
+
+  // POST to OMS with retries on transient failures; never throws
+  private async postToOms(path: string, body: Record<string, any>, description: string): Promise<void> {
     const omsServerUrl = process.env.OMS_SERVER_URL || 'http://localhost:3003';
     const serviceApiKey = process.env.ONBOARDING_SERVICE_API_KEY || 'oms-svc-auth-x9k2m8n4p7q1w5e8r3t6y9u2i5o8p1a4s7d0f3g6h9j2k5l8';
-    const body = { orderId, paidAt: new Date().toISOString(), ...payload };
     const headers = { 'Content-Type': 'application/json', 'x-service-key': serviceApiKey } as const;
     const maxRetries = 3;
     const baseDelayMs = 1000;
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
-        await axios.post(`${omsServerUrl}/orders/${orderId}/payment/success`, body, { headers, timeout: 10000 });
-        console.log(`[PaymentService] OMS notified of payment success for order ${orderId}`);
+        await axios.post(`${omsServerUrl}${path}`, body, { headers, timeout: 10000 });
+        console.log(`[PaymentService] OMS notified of ${description}`);
         break;
       } catch (err: any) {
         const status = err?.response?.status;
@@ -969,126 +1038,41 @@ Need help? Contact us at support@xnext.co.za
           await new Promise((res) => setTimeout(res, delay));
           continue;
         }
-        console.warn('[PaymentService] Failed to notify OMS of payment success:', err?.message || err);
+        console.warn(`[PaymentService] Failed to notify OMS of ${description}:`, err?.message || err);
         break;
       }
     }
   }
 
-  private async handlePaymentSuccess(session: Stripe.Checkout.Session): Promise<void> {
-    try {
-      // Get order ID from payment link using session ID
-      const result = await this.db.query(
-        'SELECT order_id FROM payment_links WHERE stripe_session_id = $1',
-        [session.id]
-      );
-
-      if (result.rows.length === 0) {
-        console.warn(`[PaymentService] No order found for session ${session.id}`);
-        return;
-      }
-
-      const orderId = result.rows[0].order_id;
-
-      // Update payment_links table
-      await this.db.query(
-        `UPDATE payment_links SET status = $1, paid_at = NOW() WHERE stripe_session_id = $2`,
-        ['paid', session.id]
-      );
 
-      // Update orders table to set isPaid = true
-      await this.db.query(
-        `UPDATE orders SET is_paid = $1, updated_at = NOW() WHERE id = $2`,
-        [true, orderId]
-      );
-
-      // Notify OMS server of payment completion (service-to-service) with retries
-      const omsUrl = process.env.OMS_SERVER_URL || 'http://localhost:3003';
-      const svcKey = process.env.ONBOARDING_SERVICE_API_KEY || '';
-      console.log(`[PaymentService] Payment completed for order ${orderId}, session ${session.id}. OMS_URL=${omsUrl.substring(0, 32)}..., KEY=${svcKey.substring(0, 6)}...`);
-      const omsServerUrl = omsUrl;
-      const serviceApiKey = svcKey || 'oms-svc-auth-x9k2m8n4p7q1w5e8r3t6y9u2i5o8p1a4s7d0f3g6h9j2k5l8';
-      const body = { orderId, stripeSessionId: session.id, paidAt: new Date().toISOString() };
-      const headers = { 'Content-Type': 'application/json', 'x-service-key': serviceApiKey } as const;
-      const maxRetries = 3;
-      const baseDelayMs = 1000;
-      for (let attempt = 0; attempt <= maxRetries; attempt++) {
-        try {
-          await axios.post(`${omsServerUrl}/orders/${orderId}/payment/success`, body, { headers, timeout: 10000 });
-          console.log(`[PaymentService] OMS notified of payment success for order ${orderId}`);
-          break;
-        } catch (notifyErr: any) {
-          const status = notifyErr?.response?.status;
-          const isTransient = status === 429 || status === 502 || status === 503 || status === 504 || notifyErr?.code === 'ECONNRESET' || notifyErr?.code === 'ETIMEDOUT' || notifyErr?.code === 'ENOTFOUND';
-          if (attempt < maxRetries && isTransient) {
-            const delay = baseDelayMs * Math.pow(2, attempt) + Math.floor(Math.random() * 250);
-            console.warn(`[PaymentService] Notify OMS attempt ${attempt + 1} failed (status: ${status || notifyErr?.code}). Retrying in ${delay}ms...`);
-            await new Promise((res) => setTimeout(res, delay));
-            continue;
-          }
-          console.warn('[PaymentService] Failed to notify OMS of payment success:', notifyErr?.message || notifyErr);
-          break;
-        }
-      }
-    } catch (error) {
-      console.error('[PaymentService] Failed to handle payment success:', error);
-    }
-  }
-
-  private async handlePaymentFailure(paymentIntent: any): Promise<void> {
-    try {
-      // Get session ID from payment intent metadata or find by payment intent ID
-      const result = await this.db.query(
-        `SELECT pl.order_id, pl.stripe_session_id 
-         FROM payment_links pl 
-         WHERE pl.stripe_session_id IN (
-           SELECT id FROM payment_links WHERE stripe_session_id IS NOT NULL
-         )`,
-        []
-      );
+  /**
+   * Resend payment email using main server's SMTP
+   */
+  async resendPaymentEmail(paymentLinkId: string): Promise<{ success: boolean; error?: string; messageId?: string | null }> {
+    console.log('[PaymentService] Resending payment email for:', paymentLinkId);
 
-      if (result.rows.length === 0) {
-        console.warn(`[PaymentService] No order found for payment intent ${paymentIntent.id}`);
-        return;
+    const result = await this.deliverReminderEmail(paymentLinkId);
+    if (result.success) {
+      try {
+        // Log the resend in payment_notifications
+        await this.db.query(
+          `INSERT INTO payment_notifications (payment_link_id, customer_email, notification_type, status, sent_at, provider_message_id)
+           SELECT id, customer_email, 'payment_reminder', 'sent', NOW(), $2 FROM payment_links WHERE id = $1`,
+          [paymentLinkId, result.messageId || null]
+        );
+      } catch (error: any) {
+        console.error('[PaymentService] Error logging payment reminder:', error);
       }
-
-      // Update payment status to failed
-      await this.db.query(
-        `UPDATE payment_links SET status = $1, updated_at = NOW() WHERE stripe_session_id = $2`,
-        ['failed', paymentIntent.id]
-      );
-      
-      console.log(`[PaymentService] Payment failed for payment intent ${paymentIntent.id}:`, paymentIntent.last_payment_error?.message);
-      
-      // Here you could send failure notification email or retry logic
-    } catch (error) {
-      console.error('[PaymentService] Failed to handle payment failure:', error);
-    }
-  }
-
-  private async handlePaymentExpired(session: Stripe.Checkout.Session): Promise<void> {
-    try {
-      // Update payment status to expired
-      await this.db.query(
-        `UPDATE payment_links SET status = $1, updated_at = NOW() WHERE stripe_session_id = $2`,
-        ['expired', session.id]
-      );
-      
-      console.log(`[PaymentService] Payment session expired: ${session.id}`);
-      
-      // Here you could send expiration notification email
-    } catch (error) {
-      console.error('[PaymentService] Failed to handle payment expiration:', error);
     }
+    return result;
   }
 
   /**
-   * Resend payment email using main server's SMTP
+   * Send the reminder email for a link without recording it; callers log the send
+   * (manual resend inserts a row, scheduled reminders update their own row).
    */
-  async resendPaymentEmail(paymentLinkId: string): Promise<{ success: boolean; error?: string }> {
+  private async deliverReminderEmail(paymentLinkId: string): Promise<{ success: boolean; error?: string; messageId?: string | null }> {
     try {
-      console.log('[PaymentService] Resending payment email for:', paymentLinkId);
-
       // Get payment link details from database
       const paymentQuery = await this.db.query(
         `SELECT * FROM payment_links WHERE id = $1`,
@@ -1105,102 +1089,25 @@ Need help? Contact us at support@xnext.co.za
         return { success: false, error: 'Customer email not found' };
       }
 
-      // Call main server's email API
-      const mainServerUrl = process.env.OMS_SERVER_URL || 'http://localhost:3003';
-      
-      const emailData = {
-        to: payment.customer_email,
-        subject: '🔔 Payment Reminder - Complete Your Service Setup',
-        html: this.getPaymentReminderTemplate(payment),
-        text: `Payment reminder for order ${payment.order_id}. Please complete your payment: ${payment.url}`
-      };
-
-      // Hosted OMS expects /email/send and header x-service-key
-      const emailResponse = await axios.post(`${mainServerUrl}/email/send`, emailData, {
-        headers: {
-          'Content-Type': 'application/json',
-          'x-service-key': process.env.ONBOARDING_SERVICE_API_KEY
+      const rendered = await this.templates.render(
+        'payment-reminder',
+        {
+          orderId: payment.order_id,
+          amount: (payment.amount_cents / 100).toFixed(2),
+          status: String(payment.status).toUpperCase(),
+          paymentUrl: payment.url,
         },
-        timeout: 10000
-      });
-
-      if (emailResponse.data.success) {
-        // Log the resend in payment_notifications
-        await this.db.query(
-          `INSERT INTO payment_notifications (payment_link_id, customer_email, notification_type, status, sent_at)
-           VALUES ($1, $2, $3, $4, NOW())`,
-          [paymentLinkId, payment.customer_email, 'payment_reminder', 'sent']
-        );
+        { locale: payment.request_payload?.locale }
+      );
+      const reminder = { subject: rendered.subject, html: rendered.html, text: rendered.text };
+      const provider = this.registry.get(payment.provider || this.defaultProvider);
+      const sent = await this.deliverEmail(payment.customer_email, provider.decorateEmail ? provider.decorateEmail(reminder) : reminder);
 
-        console.log('[PaymentService] Payment reminder email sent successfully');
-        return { success: true };
-      } else {
-        return { success: false, error: emailResponse.data.error || 'Failed to send email' };
-      }
+      console.log(`[PaymentService] Payment reminder email sent for ${paymentLinkId}`);
+      return { success: true, messageId: sent.messageId };
     } catch (error: any) {
       console.error('[PaymentService] Error resending payment email:', error);
       return { success: false, error: error.message || 'Failed to resend payment email' };
     }
   }
-
-  /**
-   * Generate payment reminder email template
-   */
-  private getPaymentReminderTemplate(payment: any): string {
-    const amountZAR = (payment.amount_cents / 100).toFixed(2);
-    
-    return `
-      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; background-color: #f9f9f9;">
-        <div style="background-color: white; padding: 30px; border-radius: 10px; box-shadow: 0 2px 10px rgba(0,0,0,0.1);">
-          <div style="text-align: center; margin-bottom: 30px;">
-            <h1 style="color: #2563eb; margin: 0;">🔔 Payment Reminder</h1>
-            <p style="color: #666; margin: 10px 0 0 0;">Complete Your Service Setup</p>
-          </div>
-          
-          <div style="background-color: #fef3c7; padding: 20px; border-radius: 8px; margin-bottom: 25px; border-left: 4px solid #f59e0b;">
-            <h3 style="margin: 0 0 10px 0; color: #92400e;">⏰ Payment Pending</h3>
-            <p style="margin: 0; color: #92400e;">Your payment is still pending. Please complete it to activate your service.</p>
-          </div>
-
-          <div style="background-color: #f8fafc; padding: 20px; border-radius: 8px; margin-bottom: 25px;">
-            <h3 style="margin: 0 0 15px 0; color: #374151;">📋 Payment Details</h3>
-            <table style="width: 100%; border-collapse: collapse;">
-              <tr>
-                <td style="padding: 8px 0; color: #6b7280; border-bottom: 1px solid #e5e7eb;">Order ID:</td>
-                <td style="padding: 8px 0; font-weight: bold; color: #374151; border-bottom: 1px solid #e5e7eb;">${payment.order_id}</td>
-              </tr>
-              <tr>
-                <td style="padding: 8px 0; color: #6b7280; border-bottom: 1px solid #e5e7eb;">Amount:</td>
-                <td style="padding: 8px 0; font-weight: bold; color: #374151; border-bottom: 1px solid #e5e7eb;">R${amountZAR}</td>
-              </tr>
-              <tr>
-                <td style="padding: 8px 0; color: #6b7280;">Status:</td>
-                <td style="padding: 8px 0; font-weight: bold; color: #f59e0b;">${payment.status.toUpperCase()}</td>
-              </tr>
-            </table>
-          </div>
-
-          <div style="text-align: center; margin: 30px 0;">
-            <a href="${payment.url}" 
-               style="display: inline-block; background-color: #2563eb; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; font-size: 16px;">
-              💳 Complete Payment Now
-            </a>
-          </div>
-
-          <div style="background-color: #fef2f2; padding: 15px; border-radius: 8px; margin-top: 25px; border-left: 4px solid #ef4444;">
-            <p style="margin: 0; color: #dc2626; font-size: 14px;">
-              <strong>⚠️ Important:</strong> This payment link will expire soon. Please complete your payment to avoid service delays.
-            </p>
-          </div>
-
-          <div style="text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
-            <p style="color: #6b7280; font-size: 12px; margin: 0;">
-              Need help? Contact our support team<br>
-              This is an automated reminder from Xnext ISP Services
-            </p>
-          </div>
-        </div>
-      </div>
-    `;
-  }
 }
@@ -1,9 +1,22 @@
 import { Queue, Worker, Job } from 'bullmq';
 import Redis from 'ioredis';
 import { DatabaseService } from './database.service';
+import { WorkflowService } from './workflow.service';
+import { OnboardingStateMachine } from './onboarding-state-machine.service';
+import { NotificationService } from './notification.service';
+import { NotificationChannelName } from './notification-channels/message-transport';
 
 export interface OnboardingJobData {
-  type: 'welcome-email' | 'next-step' | 'equipment-shipped' | 'installation-scheduled' | 'service-activated' | 'follow-up';
+  type:
+    | 'welcome-email'
+    | 'next-step'
+    | 'equipment-shipped'
+    | 'installation-scheduled'
+    | 'service-activated'
+    | 'follow-up'
+    | 'trial-expiry-warning'
+    | 'trial-expired'
+    | 'trial-grace-ended';
   onboardingId: string;
   customerId: string;
   orderId?: string;
@@ -11,24 +24,81 @@ export interface OnboardingJobData {
   metadata?: any;
 }
 
-export interface EmailJobData {
+// Steps the queue can reach on its own once the previous step is done; the rest wait for an operator or webhook
+const automatedStepJobs: Record<string, OnboardingJobData['type']> = {
+  installation_scheduled: 'installation-scheduled',
+};
+
+// Jobs on the 'email' queue; the queue keeps its name so jobs already in Redis are still processed
+export interface NotificationJobData {
   type: 'welcome' | 'reminder' | 'completion' | 'trial-expiry';
+  // Defaults to email for jobs queued before channels existed
+  channel?: NotificationChannelName;
   customerId: string;
-  email: string;
+  // Resolved from customers by the worker when omitted
+  email?: string;
+  phone?: string;
+  onboardingId?: string;
   template: string;
+  // Template locale (e.g. "af-ZA"); the default locale when omitted
+  locale?: string;
   variables: Record<string, any>;
 }
 
+export type PaymentJobData =
+  | {
+      type: 'webhook-event';
+      // payment_webhook_events.id
+      eventId: number;
+    }
+  | {
+      type: 'payment-reminder';
+      paymentLinkId: string;
+      // 1-based position in the reminder schedule
+      sequence: number;
+    };
+
+export type PaymentJobHandler = (data: PaymentJobData) => Promise<void>;
+
+export type TrialJobHandler = (data: OnboardingJobData) => Promise<void>;
+
+export type AnalyticsJobData =
+  | {
+      type: 'analytics-snapshot';
+      period: 'hourly' | 'daily';
+    }
+  | {
+      type: 'analytics-report';
+      // analytics_report_subscriptions.id
+      subscriptionId: string;
+    };
+
+export type AnalyticsJobHandler = (data: AnalyticsJobData) => Promise<void>;
+
+const TRIAL_JOB_TYPES: OnboardingJobData['type'][] = ['trial-expiry-warning', 'trial-expired', 'trial-grace-ended'];
+
 export class QueueService {
   private redis: Redis;
   private onboardingQueue!: Queue<OnboardingJobData>;
-  private emailQueue!: Queue<EmailJobData>;
+  private emailQueue!: Queue<NotificationJobData>;
+  private paymentQueue!: Queue<PaymentJobData>;
+  private analyticsQueue!: Queue<AnalyticsJobData>;
   private onboardingWorker!: Worker<OnboardingJobData>;
-  private emailWorker!: Worker<EmailJobData>;
+  private emailWorker!: Worker<NotificationJobData>;
+  private paymentWorker!: Worker<PaymentJobData>;
+  private analyticsWorker!: Worker<AnalyticsJobData>;
+  private paymentJobHandler?: PaymentJobHandler;
+  private trialJobHandler?: TrialJobHandler;
+  private analyticsJobHandlers = new Map<AnalyticsJobData['type'], AnalyticsJobHandler>();
   private isInitialized = false;
   private bullConnectionOptions: any;
 
-  constructor(private dbService: DatabaseService) {
+  constructor(
+    private dbService: DatabaseService,
+    private workflowService: WorkflowService,
+    private stateMachine: OnboardingStateMachine,
+    private notificationService: NotificationService = new NotificationService(dbService)
+  ) {
     const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
     const parsed = new URL(redisUrl);
     const rawUsername = decodeURIComponent(parsed.username || '');
@@ -83,7 +153,7 @@ export class QueueService {
         },
       });
 
-      this.emailQueue = new Queue<EmailJobData>('email', {
+      this.emailQueue = new Queue<NotificationJobData>('email', {
         connection: this.bullConnectionOptions,
         defaultJobOptions: {
           removeOnComplete: 50,
@@ -96,6 +166,34 @@ export class QueueService {
         },
       });
 
+      this.paymentQueue = new Queue<PaymentJobData>('payments', {
+        connection: this.bullConnectionOptions,
+        defaultJobOptions: {
+          removeOnComplete: 200,
+          removeOnFail: 100,
+          attempts: 5,
+          backoff: {
+            type: 'exponential',
+            delay: 5000,
+          },
+        },
+      });
+
+      // Snapshot jobs recompute everything, so a failed run just waits for the next one.
+      // Report jobs only fail before their first email is sent, so a retry never sends twice.
+      this.analyticsQueue = new Queue<AnalyticsJobData>('analytics', {
+        connection: this.bullConnectionOptions,
+        defaultJobOptions: {
+          removeOnComplete: 50,
+          removeOnFail: 50,
+          attempts: 2,
+          backoff: {
+            type: 'exponential',
+            delay: 60000,
+          },
+        },
+      });
+
       // Create workers
       this.setupWorkers();
 
@@ -116,6 +214,15 @@ export class QueueService {
         
         console.log(`Processing onboarding job: ${type} for customer ${customerId}`);
 
+        // Trial lifecycle jobs are handled by TrialLifecycleService
+        if (TRIAL_JOB_TYPES.includes(type)) {
+          if (!this.trialJobHandler) {
+            throw new Error('No trial job handler registered');
+          }
+          await this.trialJobHandler(job.data);
+          return;
+        }
+
         switch (type) {
           case 'welcome-email':
             await this.processWelcomeEmail(onboardingId, customerId);
@@ -145,15 +252,13 @@ export class QueueService {
       }
     );
 
-    // Email worker
-    this.emailWorker = new Worker<EmailJobData>(
+    // Notification worker (email, SMS and WhatsApp share the email queue)
+    this.emailWorker = new Worker<NotificationJobData>(
       'email',
-      async (job: Job<EmailJobData>) => {
-        const { type, customerId, email, template, variables } = job.data;
-        
-        console.log(`Processing email job: ${type} to ${email}`);
+      async (job: Job<NotificationJobData>) => {
+        console.log(`Processing ${job.data.channel || 'email'} job: ${job.data.type} (${job.data.template}) for customer ${job.data.customerId}`);
 
-        await this.processEmailJob(type, email, template, variables);
+        await this.processNotificationJob(job);
       },
       {
         connection: this.bullConnectionOptions,
@@ -161,6 +266,41 @@ export class QueueService {
       }
     );
 
+    // Payment worker (handler is registered by the payment side, which owns the provider logic)
+    this.paymentWorker = new Worker<PaymentJobData>(
+      'payments',
+      async (job: Job<PaymentJobData>) => {
+        console.log(`Processing payment job: ${job.data.type} (${job.id})`);
+
+        if (!this.paymentJobHandler) {
+          throw new Error('No payment job handler registered');
+        }
+        await this.paymentJobHandler(job.data);
+      },
+      {
+        connection: this.bullConnectionOptions,
+        concurrency: 5,
+      }
+    );
+
+    // Analytics worker; one snapshot or report at a time keeps the aggregate queries off the pool
+    this.analyticsWorker = new Worker<AnalyticsJobData>(
+      'analytics',
+      async (job: Job<AnalyticsJobData>) => {
+        console.log(`Processing analytics job: ${this.analyticsSchedulerId(job.data)}`);
+
+        const handler = this.analyticsJobHandlers.get(job.data.type);
+        if (!handler) {
+          throw new Error(`No analytics job handler registered for ${job.data.type}`);
+        }
+        await handler(job.data);
+      },
+      {
+        connection: this.bullConnectionOptions,
+        concurrency: 1,
+      }
+    );
+
     // Error handling
     this.onboardingWorker.on('failed', (job, err) => {
       console.error(`Onboarding job ${job?.id} failed:`, err);
@@ -169,27 +309,62 @@ export class QueueService {
     this.emailWorker.on('failed', (job, err) => {
       console.error(`Email job ${job?.id} failed:`, err);
     });
+
+    this.paymentWorker.on('failed', (job, err) => {
+      console.error(`Payment job ${job?.id} failed:`, err);
+    });
+
+    this.analyticsWorker.on('failed', (job, err) => {
+      console.error(`Analytics job ${job?.id} failed:`, err);
+    });
   }
 
   // Queue job methods
-  async addOnboardingJob(data: OnboardingJobData, delay?: number): Promise<void> {
+  // Returns false when the queue is unavailable
+  async addOnboardingJob(data: OnboardingJobData, delay?: number, jobId?: string): Promise<boolean> {
     if (!this.isInitialized) {
       console.warn('Queue service not initialized; skipping onboarding job enqueue', data);
-      return;
+      return false;
     }
 
     const jobOptions: any = {};
     if (delay) {
       jobOptions.delay = delay;
     }
+    if (jobId) {
+      jobOptions.jobId = jobId;
+    }
 
     await this.onboardingQueue.add(data.type, data, jobOptions);
+    return true;
   }
 
-  async addEmailJob(data: EmailJobData, delay?: number): Promise<void> {
+  // Remove a delayed or waiting onboarding job; false when it is missing, running or finished
+  async removeOnboardingJob(jobId: string): Promise<boolean> {
+    if (!this.isInitialized) return false;
+
+    const job = await this.onboardingQueue.getJob(jobId);
+    if (!job) return false;
+
+    const state = await job.getState();
+    if (state !== 'delayed' && state !== 'waiting') return false;
+
+    await job.remove();
+    return true;
+  }
+
+  registerTrialJobHandler(handler: TrialJobHandler): void {
+    this.trialJobHandler = handler;
+  }
+
+  /**
+   * Queue a notification. Without a channel it fans out to one job per channel the
+   * customer has enabled; returns the channels queued.
+   */
+  async addNotificationJob(data: NotificationJobData, delay?: number): Promise<NotificationChannelName[]> {
     if (!this.isInitialized) {
-      console.warn('Queue service not initialized; skipping email job enqueue', data);
-      return;
+      console.warn('Queue service not initialized; skipping notification job enqueue', data);
+      return [];
     }
 
     const jobOptions: any = {};
@@ -197,7 +372,85 @@ export class QueueService {
       jobOptions.delay = delay;
     }
 
-    await this.emailQueue.add(data.type, data, jobOptions);
+    const channels = data.channel ? [data.channel] : await this.notificationService.resolveChannels(data.customerId, data.onboardingId);
+    if (channels.length === 0) {
+      console.log(`No notification channels enabled for customer ${data.customerId}; ${data.template} not queued`);
+    }
+    for (const channel of channels) {
+      await this.emailQueue.add(`${channel}:${data.type}`, { ...data, channel }, jobOptions);
+    }
+    return channels;
+  }
+
+  registerPaymentJobHandler(handler: PaymentJobHandler): void {
+    this.paymentJobHandler = handler;
+  }
+
+  // Returns false when the queue is unavailable so the caller can process inline instead
+  async addPaymentJob(data: PaymentJobData, options: { delay?: number; jobId?: string } = {}): Promise<boolean> {
+    if (!this.isInitialized) {
+      console.warn('Queue service not initialized; payment job not enqueued', data);
+      return false;
+    }
+
+    const jobOptions: any = {};
+    if (options.delay) {
+      jobOptions.delay = options.delay;
+    }
+    if (options.jobId) {
+      jobOptions.jobId = options.jobId;
+    }
+
+    await this.paymentQueue.add(data.type, data, jobOptions);
+    return true;
+  }
+
+  // Remove a delayed or waiting payment job; false when it is missing, running or finished
+  async removePaymentJob(jobId: string): Promise<boolean> {
+    if (!this.isInitialized) return false;
+
+    const job = await this.paymentQueue.getJob(jobId);
+    if (!job) return false;
+
+    const state = await job.getState();
+    if (state !== 'delayed' && state !== 'waiting') return false;
+
+    await job.remove();
+    return true;
+  }
+
+  registerAnalyticsJobHandler(type: AnalyticsJobData['type'], handler: AnalyticsJobHandler): void {
+    this.analyticsJobHandlers.set(type, handler);
+  }
+
+  /**
+   * Run an analytics job on a cron pattern, in the given time zone (UTC by default).
+   * The scheduler is keyed by type and period or subscription, so calling this again
+   * updates the schedule instead of adding another. Returns false when the queue is
+   * unavailable.
+   */
+  async scheduleAnalyticsJob(data: AnalyticsJobData, pattern: string, timezone?: string): Promise<boolean> {
+    if (!this.isInitialized) {
+      console.warn('Queue service not initialized; analytics job not scheduled', data);
+      return false;
+    }
+
+    await this.analyticsQueue.upsertJobScheduler(
+      this.analyticsSchedulerId(data),
+      { pattern, ...(timezone ? { tz: timezone } : {}) },
+      { name: data.type, data }
+    );
+    return true;
+  }
+
+  // Stop a scheduled analytics job; false when the queue is unavailable or nothing was scheduled
+  async unscheduleAnalyticsJob(data: AnalyticsJobData): Promise<boolean> {
+    if (!this.isInitialized) return false;
+    return this.analyticsQueue.removeJobScheduler(this.analyticsSchedulerId(data));
+  }
+
+  private analyticsSchedulerId(data: AnalyticsJobData): string {
+    return data.type === 'analytics-snapshot' ? `${data.type}:${data.period}` : `${data.type}:${data.subscriptionId}`;
   }
 
   // Job processing methods
@@ -215,11 +468,11 @@ export class QueueService {
 
       const customer = customerResult.rows[0];
 
-      // Queue welcome email
-      await this.addEmailJob({
+      // Queue welcome notification on the customer's channels (the worker resolves addresses)
+      await this.addNotificationJob({
         type: 'welcome',
         customerId,
-        email: customer.email,
+        onboardingId,
         template: 'welcome',
         variables: {
           firstName: customer.first_name,
@@ -229,12 +482,9 @@ export class QueueService {
       });
 
       // Update onboarding step
-      await this.dbService.query(
-        'UPDATE customer_onboarding SET current_step = $1, completion_percentage = LEAST(100, completion_percentage + 10) WHERE id = $2',
-        ['welcome_sent', onboardingId]
-      );
+      await this.advanceStep(onboardingId, 'welcome_sent');
 
-      console.log(`Welcome email queued for customer ${customerId}`);
+      console.log(`Welcome notification queued for customer ${customerId}`);
     } catch (error) {
       console.error('Error processing welcome email:', error);
       throw error;
@@ -254,20 +504,31 @@ export class QueueService {
       }
 
       const onboarding = result.rows[0];
+
+      // The onboarding moved on (or was rolled back) since this job was queued
+      if (onboarding.completed_at || (stepId && onboarding.current_step !== stepId)) {
+        console.log(`Skipping stale next-step job for onboarding ${onboardingId}: ${stepId} (now ${onboarding.current_step})`);
+        return;
+      }
+
+      const workflow = await this.workflowService.getDefinitionForOnboarding(onboarding);
       
       // Determine next step based on current step
-      const nextStep = this.getNextStep(onboarding.current_step);
+      const context = await this.workflowService.getContextForOnboarding(onboardingId);
+      const nextStep = this.workflowService.getNextStep(workflow, onboarding.current_step, context);
+      const jobType = nextStep ? automatedStepJobs[nextStep] : undefined;
       
-      if (nextStep) {
-        // Queue next step job
-        await this.addOnboardingJob({
-          type: 'next-step',
-          onboardingId,
-          customerId: onboarding.customer_id,
-          stepId: nextStep,
-        }, 5000); // 5 second delay
+      if (!jobType) {
+        console.log(`Onboarding ${onboardingId} awaiting step: ${nextStep || 'none'}`);
+        return;
       }
 
+      await this.addOnboardingJob({
+        type: jobType,
+        onboardingId,
+        customerId: onboarding.customer_id,
+      }, 5000); // 5 second delay
+
       console.log(`Next step queued for onboarding ${onboardingId}: ${nextStep}`);
     } catch (error) {
       console.error('Error processing next step:', error);
@@ -278,10 +539,7 @@ export class QueueService {
   private async processEquipmentShipped(onboardingId: string, customerId: string, metadata: any): Promise<void> {
     try {
       // Update onboarding step
-      await this.dbService.query(
-        'UPDATE customer_onboarding SET current_step = $1, completion_percentage = LEAST(100, completion_percentage + 20) WHERE id = $2',
-        ['equipment_shipped', onboardingId]
-      );
+      if (!(await this.advanceStep(onboardingId, 'equipment_shipped'))) return;
 
       // Queue installation scheduling
       await this.addOnboardingJob({
@@ -301,10 +559,7 @@ export class QueueService {
   private async processInstallationScheduled(onboardingId: string, customerId: string, metadata: any): Promise<void> {
     try {
       // Update onboarding step
-      await this.dbService.query(
-        'UPDATE customer_onboarding SET current_step = $1, completion_percentage = LEAST(100, completion_percentage + 20) WHERE id = $2',
-        ['installation_scheduled', onboardingId]
-      );
+      await this.advanceStep(onboardingId, 'installation_scheduled');
 
       console.log(`Installation scheduled for onboarding ${onboardingId}`);
     } catch (error) {
@@ -315,17 +570,29 @@ export class QueueService {
 
   private async processServiceActivated(onboardingId: string, customerId: string): Promise<void> {
     try {
-      // Update onboarding step
-      await this.dbService.query(
-        'UPDATE customer_onboarding SET current_step = $1, completion_percentage = 100, completed_at = NOW() WHERE id = $2',
-        ['completed', onboardingId]
+      const result = await this.dbService.query(
+        'SELECT workflow_key, workflow_version FROM customer_onboarding WHERE id = $1',
+        [onboardingId]
       );
+      if (result.rows.length === 0) {
+        throw new Error(`Onboarding ${onboardingId} not found`);
+      }
+      const workflow = await this.workflowService.getDefinitionForOnboarding(result.rows[0]);
+      if (!this.workflowService.getStep(workflow, 'service_activated')) {
+        throw new Error(`Workflow ${workflow.key} v${workflow.version} has no service_activated step`);
+      }
+
+      // Update onboarding step; follow-up and completion are left to the team
+      if (!(await this.advanceStep(onboardingId, 'service_activated', { required: true }))) {
+        console.log(`Onboarding ${onboardingId} already at service_activated; completion notification not sent again`);
+        return;
+      }
 
-      // Queue completion email
-      await this.addEmailJob({
+      // Queue completion notification
+      await this.addNotificationJob({
         type: 'completion',
         customerId,
-        email: '', // Will be fetched
+        onboardingId,
         template: 'completion',
         variables: { customerId }
       });
@@ -339,11 +606,11 @@ export class QueueService {
 
   private async processFollowUp(onboardingId: string, customerId: string): Promise<void> {
     try {
-      // Queue follow-up email
-      await this.addEmailJob({
+      // Queue follow-up notification
+      await this.addNotificationJob({
         type: 'reminder',
         customerId,
-        email: '', // Will be fetched
+        onboardingId,
         template: 'follow-up',
         variables: { customerId }
       });
@@ -355,35 +622,48 @@ export class QueueService {
     }
   }
 
-  private async processEmailJob(type: string, email: string, template: string, variables: Record<string, any>): Promise<void> {
+  private async processNotificationJob(job: Job<NotificationJobData>): Promise<void> {
+    const { type, customerId, email, phone, onboardingId, template, locale, variables } = job.data;
+    const channel = job.data.channel || 'email';
     try {
-      // Here you would integrate with your email service (SendGrid, Mailgun, etc.)
-      console.log(`Sending ${type} email to ${email} using template ${template}`, variables);
-      
-      // Simulate email sending
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      console.log(`Email sent successfully to ${email}`);
+      await this.notificationService.send({
+        channel,
+        type,
+        template,
+        locale,
+        customerId,
+        onboardingId,
+        to: (channel === 'email' ? email : phone) || undefined,
+        variables,
+        jobId: job.id,
+        attempt: job.attemptsMade + 1,
+      });
     } catch (error) {
-      console.error('Error sending email:', error);
+      console.error(`Error sending ${channel} notification:`, error);
       throw error;
     }
   }
 
-  private getNextStep(currentStep: string): string | null {
-    const stepFlow: Record<string, string> = {
-      'initiated': 'welcome_sent',
-      'welcome_sent': 'service_setup',
-      'service_setup': 'equipment_ordered',
-      'equipment_ordered': 'equipment_shipped',
-      'equipment_shipped': 'installation_scheduled',
-      'installation_scheduled': 'installation_completed',
-      'installation_completed': 'service_activated',
-      'service_activated': 'follow_up',
-      'follow_up': 'completed',
-    };
-
-    return stepFlow[currentStep] || null;
+  // Advance through the state machine; a step the onboarding cannot move to is logged rather than retried,
+  // or fails the job when the step is required for what the job does next
+  private async advanceStep(onboardingId: string, stepId: string, options: { required?: boolean } = {}): Promise<boolean> {
+    try {
+      const result = await this.stateMachine.transition(onboardingId, {
+        operation: 'advance',
+        stepId,
+        actor: 'system:queue',
+      });
+      return result.changed;
+    } catch (error: any) {
+      if (error.statusCode === 409 && !options.required) {
+        console.warn(`Queue could not move onboarding ${onboardingId} to ${stepId}: ${error.message}`);
+        return false;
+      }
+      if (error.statusCode === 409) {
+        console.error(`Queue could not move onboarding ${onboardingId} to ${stepId}: ${error.message}`);
+      }
+      throw error;
+    }
   }
 
   // Queue management methods
@@ -394,10 +674,14 @@ export class QueueService {
 
     const onboardingStats = await this.onboardingQueue.getJobCounts();
     const emailStats = await this.emailQueue.getJobCounts();
+    const paymentStats = await this.paymentQueue.getJobCounts();
+    const analyticsStats = await this.analyticsQueue.getJobCounts();
 
     return {
       onboarding: onboardingStats,
       email: emailStats,
+      payments: paymentStats,
+      analytics: analyticsStats,
     };
   }
 
@@ -409,6 +693,8 @@ export class QueueService {
     await Promise.all([
       this.onboardingQueue.obliterate({ force: true }),
       this.emailQueue.obliterate({ force: true }),
+      this.paymentQueue.obliterate({ force: true }),
+      this.analyticsQueue.obliterate({ force: true }),
     ]);
   }
 
@@ -419,8 +705,12 @@ export class QueueService {
       await Promise.allSettled([
         this.onboardingWorker?.close(),
         this.emailWorker?.close(),
+        this.paymentWorker?.close(),
+        this.analyticsWorker?.close(),
         this.onboardingQueue?.close(),
         this.emailQueue?.close(),
+        this.paymentQueue?.close(),
+        this.analyticsQueue?.close(),
         this.redis.quit(),
       ]);
 
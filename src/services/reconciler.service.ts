@@ -53,7 +53,7 @@ export class ReconcilerService {
   public async reconcileOnce(): Promise<void> {
     // Find pending/unknown links that are older than threshold
     const { rows } = await this.db.query(
-      `SELECT id, order_id, peach_checkout_id, stripe_session_id, status
+      `SELECT id, order_id, status, provider
        FROM payment_links
        WHERE status IN ('pending','unknown')
          AND created_at < NOW() - ($1::interval)
@@ -69,27 +69,16 @@ export class ReconcilerService {
 
     console.log(`[Reconciler] Reconciling ${rows.length} pending payments...`);
     for (const row of rows) {
-      const ref: string | null = row.peach_checkout_id;
-      const sessionId: string | null = row.stripe_session_id;
-
       try {
-        if (ref && typeof (this.paymentService as any).confirmPeachReference === 'function') {
-          const result = await (this.paymentService as any).confirmPeachReference(ref);
-          if (result?.success) {
-            console.log(`[Reconciler] Peach payment confirmed for order ${result.orderId} [ref=${ref}]`);
-          }
-          continue;
-        }
-
-        if (sessionId && typeof (this.paymentService as any).confirmCheckoutSession === 'function') {
-          const result = await (this.paymentService as any).confirmCheckoutSession(sessionId);
-          if (result?.success) {
-            console.log(`[Reconciler] Stripe payment confirmed for order ${result.orderId} [session=${sessionId}]`);
-          }
-          continue;
+        // confirmPayment routes each link to the provider that issued it
+        const result = await this.paymentService.confirmPayment(row.id);
+        if (result.success) {
+          console.log(`[Reconciler] Payment confirmed for order ${result.orderId} [link=${row.id}, provider=${row.provider}]`);
+        } else if (!result.status) {
+          console.warn(`[Reconciler] Reconcile failed for ${row.id}:`, result.error);
+        } else if (result.status !== row.status) {
+          console.log(`[Reconciler] ${row.id} is now ${result.status}`);
         }
-
-        console.log(`[Reconciler] Skipped ${row.id}: no recognizable reference or provider method`);
       } catch (err: any) {
         const message = err?.response?.data ? JSON.stringify(err.response.data).slice(0, 500) : (err?.message || String(err));
         console.warn(`[Reconciler] Reconcile failed for ${row.id}:`, message);
@@ -1,4 +1,5 @@
 import { DatabaseService } from './database.service';
+import { WorkflowService } from './workflow.service';
 
 export type SlaStatus = 'ok' | 'warning' | 'breached' | 'unknown';
 
@@ -31,22 +32,9 @@ const orderStateSlaHours: Record<string, { warning: number; breach: number }> =
   disconnected: { warning: 2, breach: 4 },
 };
 
-// PRD-aligned thresholds for ONBOARDING canonical steps
-const onboardingStepSlaHours: Record<string, number> = {
-  initiated: 2,
-  welcome_sent: 2,
-  service_setup: 24,
-  equipment_ordered: 48,
-  equipment_shipped: 72,
-  installation_scheduled: 24,
-  installation_completed: 24,
-  service_activated: 12,
-  follow_up: 168,
-  completed: 0,
-};
-
 export class SlaService {
-  constructor(private db: DatabaseService) {}
+  // Onboarding step SLAs come from the workflow definition pinned to each onboarding
+  constructor(private db: DatabaseService, private workflowService: WorkflowService = new WorkflowService(db)) {}
 
   private parseUtcDate(input: any): Date | null {
     if (!input) return null;
@@ -107,7 +95,7 @@ export class SlaService {
 
   async getOnboardingSla(onboardingId: string): Promise<SlaResult> {
     const r = await this.db.query(
-      `SELECT id, order_id, current_step, started_at, completed_at, updated_at
+      `SELECT id, order_id, current_step, started_at, completed_at, updated_at, workflow_key, workflow_version
          FROM customer_onboarding WHERE id = $1`,
       [onboardingId]
     );
@@ -121,12 +109,13 @@ export class SlaService {
     const basis = this.parseUtcDate(row.updated_at) || this.parseUtcDate(row.started_at) || new Date();
     const nowMs = Date.now();
     const elapsedHours = Math.max(0, (nowMs - basis.getTime()) / 3600000);
-    const slaHours = onboardingStepSlaHours[step] ?? 0;
+    const workflow = await this.workflowService.getDefinitionForOnboarding(row);
+    const slaHours = this.workflowService.getStepSlaHours(workflow, step);
     let status: SlaStatus = 'unknown';
-    if (slaHours === 0) status = step === 'completed' ? 'ok' : 'unknown';
+    if (slaHours === 0) status = this.workflowService.isTerminalStep(workflow, step) ? 'ok' : 'unknown';
     else status = this.computeStatus(elapsedHours, Math.max(1, Math.floor(slaHours * 0.5)), slaHours);
     const dueAt = slaHours > 0 ? new Date(basis.getTime() + slaHours * 3600000).toISOString() : undefined;
-    return { status, elapsedHours, slaHours, dueAt, context: { step } };
+    return { status, elapsedHours, slaHours, dueAt, context: { step, workflow: `${workflow.key}@${workflow.version}` } };
   }
 }
 
@@ -0,0 +1,88 @@
+import { DatabaseService } from './database.service';
+
+// Database row types
+interface DatabaseRow {
+  [key: string]: any;
+}
+
+// Anything that can run a query: DatabaseService, or a PoolClient inside a transaction
+export interface Queryable {
+  query(text: string, params?: any[]): Promise<any>;
+}
+
+export type StepTransitionAction = 'advance' | 'skip' | 'rollback' | 'backfill';
+
+export interface StepTransition {
+  id: number;
+  onboardingId: string;
+  fromStep: string | null;
+  toStep: string;
+  action: StepTransitionAction;
+  actor?: string;
+  reason?: string;
+  notes?: string;
+  metadata?: any;
+  createdAt: Date;
+}
+
+export interface RecordTransitionRequest {
+  onboardingId: string;
+  fromStep: string | null;
+  toStep: string;
+  action?: StepTransitionAction;
+  actor?: string;
+  // Required by the state machine for skip and rollback
+  reason?: string;
+  notes?: string;
+  metadata?: any;
+}
+
+export class StepHistoryService {
+  constructor(private dbService: DatabaseService) {}
+
+  async record(request: RecordTransitionRequest, db: Queryable = this.dbService): Promise<StepTransition> {
+    const result = await db.query(
+      `INSERT INTO onboarding_step_transitions
+         (onboarding_id, from_step, to_step, action, actor, reason, notes, metadata, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb, NOW())
+       RETURNING *`,
+      [
+        request.onboardingId,
+        request.fromStep,
+        request.toStep,
+        request.action || 'advance',
+        request.actor || null,
+        request.reason || null,
+        request.notes || null,
+        request.metadata !== undefined ? JSON.stringify(request.metadata) : null,
+      ]
+    );
+    return this.mapRow(result.rows[0]);
+  }
+
+  // Chronological history for one onboarding
+  async getHistory(onboardingId: string, db: Queryable = this.dbService): Promise<StepTransition[]> {
+    const result = await db.query(
+      `SELECT * FROM onboarding_step_transitions
+        WHERE onboarding_id = $1
+        ORDER BY created_at ASC, id ASC`,
+      [onboardingId]
+    );
+    return result.rows.map((row: DatabaseRow) => this.mapRow(row));
+  }
+
+  private mapRow(row: DatabaseRow): StepTransition {
+    return {
+      id: Number(row.id),
+      onboardingId: row.onboarding_id,
+      fromStep: row.from_step,
+      toStep: row.to_step,
+      action: row.action,
+      actor: row.actor || undefined,
+      reason: row.reason || undefined,
+      notes: row.notes || undefined,
+      metadata: row.metadata || undefined,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,341 @@
+import type { Queryable } from './step-history.service';
+import {
+  DEFAULT_TEMPLATE_LOCALE,
+  EmailPartials,
+  EmailTemplateContent,
+  EmailTemplateDefinition,
+  EmailTemplateKind,
+  lookupVariable,
+  partialNames,
+  renderTemplate,
+  templateVariables,
+} from './email-templates/template-engine';
+import { BUILTIN_EMAIL_TEMPLATES } from './email-templates/builtin-templates';
+import { createConflictError, createNotFoundError, createValidationError } from '../middleware/error.middleware';
+
+// Database row types
+interface DatabaseRow {
+  [key: string]: any;
+}
+
+export interface EmailTemplateVersion extends EmailTemplateDefinition {
+  locale: string;
+  // 0 for the built-in copy
+  version: number;
+  source: 'database' | 'builtin';
+  isActive: boolean;
+  createdBy?: string | null;
+  createdAt?: Date | null;
+}
+
+export interface RenderedEmailTemplate extends EmailTemplateContent {
+  name: string;
+  locale: string;
+  version: number;
+  source: EmailTemplateVersion['source'];
+}
+
+export interface EmailTemplatePreview extends RenderedEmailTemplate {
+  variables: Record<string, any>;
+  // Required variables that neither the sample nor the request supplied
+  missingVariables: string[];
+}
+
+export interface RenderTemplateOptions {
+  locale?: string;
+  // Pin a published version; defaults to the latest active one
+  version?: number;
+}
+
+export interface CreateEmailTemplateVersionRequest {
+  name: string;
+  locale?: string;
+  kind?: EmailTemplateKind;
+  description?: string;
+  subject?: string;
+  html: string;
+  text: string;
+  sampleVariables?: Record<string, any>;
+  createdBy?: string;
+}
+
+const TEMPLATE_NAME = /^[a-z0-9][a-z0-9._-]{0,99}$/;
+const LOCALE = /^[a-z]{2,3}(-[A-Z]{2})?$/;
+
+/**
+ * Versioned email templates. Each (name, locale) has immutable published versions
+ * in email_templates and the latest active one is used; the built-in copy is the
+ * fallback. Locales fall back from "af-ZA" to "af" to the default locale.
+ */
+export class TemplateRegistryService {
+  constructor(private db: Queryable) {}
+
+  async listTemplates(): Promise<EmailTemplateVersion[]> {
+    const templates = new Map<string, EmailTemplateVersion>();
+    for (const builtin of Object.values(BUILTIN_EMAIL_TEMPLATES)) {
+      templates.set(`${builtin.name}:${DEFAULT_TEMPLATE_LOCALE}`, this.fromBuiltin(builtin));
+    }
+
+    try {
+      const result = await this.db.query(
+        `SELECT DISTINCT ON (name, locale) *
+           FROM email_templates
+          WHERE is_active = TRUE
+          ORDER BY name, locale, version DESC`
+      );
+      for (const row of result.rows) {
+        const template = this.mapRow(row);
+        templates.set(`${template.name}:${template.locale}`, template);
+      }
+    } catch (error) {
+      console.warn('[TemplateRegistry] Template listing failed, showing built-in templates only:', (error as Error).message);
+    }
+
+    return Array.from(templates.values()).sort((a, b) => a.name.localeCompare(b.name) || a.locale.localeCompare(b.locale));
+  }
+
+  async listVersions(name: string, locale?: string): Promise<EmailTemplateVersion[]> {
+    const result = await this.db.query(
+      `SELECT * FROM email_templates
+        WHERE name = $1 AND ($2::text IS NULL OR locale = $2)
+        ORDER BY locale, version DESC`,
+      [name, locale ? normalizeLocale(locale) : null]
+    );
+    const versions = result.rows.map((row: DatabaseRow) => this.mapRow(row));
+
+    const builtin = BUILTIN_EMAIL_TEMPLATES[name];
+    if (builtin && (!locale || normalizeLocale(locale) === DEFAULT_TEMPLATE_LOCALE)) {
+      versions.push(this.fromBuiltin(builtin));
+    }
+    return versions;
+  }
+
+  /**
+   * Resolve the template used for a locale: the latest active version in the first
+   * locale of the fallback chain that has one, else the built-in copy.
+   */
+  async getTemplate(name: string, options: RenderTemplateOptions = {}): Promise<EmailTemplateVersion | null> {
+    const locales = localeChain(options.locale);
+
+    if (options.version === 0) {
+      const builtin = BUILTIN_EMAIL_TEMPLATES[name];
+      return builtin ? this.fromBuiltin(builtin) : null;
+    }
+
+    try {
+      const result = options.version !== undefined
+        ? await this.db.query(
+            'SELECT * FROM email_templates WHERE name = $1 AND locale = $2 AND version = $3',
+            [name, locales[0], options.version]
+          )
+        : await this.db.query(
+            `SELECT * FROM email_templates
+              WHERE name = $1 AND locale = ANY($2::text[]) AND is_active = TRUE
+              ORDER BY array_position($2::text[], locale), version DESC
+              LIMIT 1`,
+            [name, locales]
+          );
+      if (result.rows.length > 0) {
+        return this.mapRow(result.rows[0]);
+      }
+      if (options.version !== undefined) return null;
+    } catch (error) {
+      console.warn(`[TemplateRegistry] Lookup of ${name} failed, using built-in copy:`, (error as Error).message);
+    }
+
+    const builtin = BUILTIN_EMAIL_TEMPLATES[name];
+    return builtin ? this.fromBuiltin(builtin) : null;
+  }
+
+  async render(name: string, variables: Record<string, any>, options: RenderTemplateOptions = {}): Promise<RenderedEmailTemplate> {
+    const template = await this.getTemplate(name, options);
+    if (!template || template.kind !== 'template') {
+      throw createNotFoundError(`Email template ${name}`);
+    }
+
+    const partials = await this.loadPartials(template, template.locale);
+    return {
+      ...renderTemplate(template, variables, partials),
+      name: template.name,
+      locale: template.locale,
+      version: template.version,
+      source: template.source,
+    };
+  }
+
+  // Render with the template's sample variables, overridden by the caller's
+  async preview(name: string, options: RenderTemplateOptions & { variables?: Record<string, any> } = {}): Promise<EmailTemplatePreview> {
+    const template = await this.getTemplate(name, options);
+    if (!template) {
+      throw createNotFoundError(`Email template ${name}`);
+    }
+
+    const variables = { ...(template.sampleVariables || {}), ...(options.variables || {}) };
+    const partials = await this.loadPartials(template, template.locale);
+    // Values guarded by a section are optional
+    const used = templateVariables(template, partials);
+    const missingVariables = used.variables.filter(path => !used.sections.includes(path) && lookupVariable(variables, path) === undefined);
+
+    return {
+      ...renderTemplate(template, variables, partials),
+      name: template.name,
+      locale: template.locale,
+      version: template.version,
+      source: template.source,
+      variables,
+      missingVariables,
+    };
+  }
+
+  // Publishes a new immutable version; it becomes the active copy for its locale
+  async createVersion(request: CreateEmailTemplateVersionRequest): Promise<EmailTemplateVersion> {
+    const locale = normalizeLocale(request.locale || DEFAULT_TEMPLATE_LOCALE);
+    const kind = request.kind || BUILTIN_EMAIL_TEMPLATES[request.name]?.kind || 'template';
+    await this.validateVersion(request, locale, kind);
+
+    try {
+      const result = await this.db.query(
+        `INSERT INTO email_templates
+           (name, locale, version, kind, description, subject, html, text, sample_variables, is_active, created_by, created_at)
+         VALUES (
+           $1, $2,
+           (SELECT COALESCE(MAX(version), 0) + 1 FROM email_templates WHERE name = $1 AND locale = $2),
+           $3, $4, $5, $6, $7, $8::jsonb, TRUE, $9, NOW()
+         )
+         RETURNING *`,
+        [
+          request.name,
+          locale,
+          kind,
+          request.description || BUILTIN_EMAIL_TEMPLATES[request.name]?.description || null,
+          kind === 'partial' ? '' : request.subject,
+          request.html,
+          request.text,
+          request.sampleVariables ? JSON.stringify(request.sampleVariables) : null,
+          request.createdBy || null,
+        ]
+      );
+      const template = this.mapRow(result.rows[0]);
+      console.log(`[TemplateRegistry] Published ${template.name} (${template.locale}) v${template.version}`);
+      return template;
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        throw createConflictError(`A version of ${request.name} (${locale}) was published concurrently; retry`);
+      }
+      throw error;
+    }
+  }
+
+  // Deactivating the latest version rolls back to the previous active one (or the built-in copy)
+  async setVersionActive(name: string, locale: string, version: number, isActive: boolean): Promise<void> {
+    const result = await this.db.query(
+      'UPDATE email_templates SET is_active = $1 WHERE name = $2 AND locale = $3 AND version = $4',
+      [isActive, name, normalizeLocale(locale), version]
+    );
+    if (result.rowCount === 0) {
+      throw createNotFoundError(`Email template ${name} (${locale}) v${version}`);
+    }
+  }
+
+  private async validateVersion(request: CreateEmailTemplateVersionRequest, locale: string, kind: EmailTemplateKind): Promise<void> {
+    if (!request.name || !TEMPLATE_NAME.test(request.name)) {
+      throw createValidationError('Template name must be lowercase letters, digits, ".", "-" or "_"');
+    }
+    if (!LOCALE.test(locale)) {
+      throw createValidationError(`Invalid locale: ${request.locale} (expected e.g. en, af or af-ZA)`);
+    }
+    if (kind !== 'template' && kind !== 'partial') {
+      throw createValidationError('kind must be template or partial');
+    }
+    if (typeof request.html !== 'string' || typeof request.text !== 'string' || !request.html.trim() || !request.text.trim()) {
+      throw createValidationError('html and text are required');
+    }
+    if (kind === 'template' && (typeof request.subject !== 'string' || !request.subject.trim())) {
+      throw createValidationError('subject is required for templates');
+    }
+
+    const existing = await this.getTemplate(request.name, { locale });
+    if (existing && existing.kind !== kind) {
+      throw createConflictError(`${request.name} is a ${existing.kind}; it cannot be published as a ${kind}`);
+    }
+
+    // Fail on unknown partials or nesting now rather than when the email is sent
+    try {
+      const draft = { subject: request.subject || '', html: request.html, text: request.text };
+      const partials = await this.loadPartials(draft, locale, request.name);
+      renderTemplate(draft, request.sampleVariables || {}, partials);
+    } catch (error) {
+      throw createValidationError((error as Error).message);
+    }
+  }
+
+  /**
+   * Load every partial a template includes, in the template's locale. A partial that
+   * cannot be found is left out so rendering reports it by name.
+   */
+  private async loadPartials(template: Pick<EmailTemplateContent, 'html' | 'text'> & { subject?: string }, locale: string, selfName?: string): Promise<EmailPartials> {
+    const partials: EmailPartials = {};
+    const pending = partialNames(template);
+
+    while (pending.length > 0) {
+      const name = pending.shift()!;
+      if (partials[name] || name === selfName) continue;
+
+      const partial = await this.getTemplate(name, { locale });
+      if (!partial || partial.kind !== 'partial') continue;
+
+      partials[name] = { html: partial.html, text: partial.text };
+      pending.push(...partialNames(partial));
+    }
+    return partials;
+  }
+
+  private fromBuiltin(template: EmailTemplateDefinition): EmailTemplateVersion {
+    return {
+      ...template,
+      locale: DEFAULT_TEMPLATE_LOCALE,
+      version: 0,
+      source: 'builtin',
+      isActive: true,
+      createdBy: null,
+      createdAt: null,
+    };
+  }
+
+  private mapRow(row: DatabaseRow): EmailTemplateVersion {
+    return {
+      name: row.name,
+      locale: row.locale,
+      version: row.version,
+      kind: row.kind,
+      description: row.description || undefined,
+      subject: row.subject || '',
+      html: row.html,
+      text: row.text,
+      sampleVariables: row.sample_variables || BUILTIN_EMAIL_TEMPLATES[row.name]?.sampleVariables,
+      source: 'database',
+      isActive: row.is_active,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+// "af_za" -> "af-ZA"
+export function normalizeLocale(locale: string): string {
+  const [language, region] = locale.trim().replace('_', '-').split('-');
+  return region ? `${language.toLowerCase()}-${region.toUpperCase()}` : language.toLowerCase();
+}
+
+// "af-ZA" -> ["af-ZA", "af", "en"]
+export function localeChain(locale?: string): string[] {
+  const chain: string[] = [];
+  if (locale && locale.trim()) {
+    const normalized = normalizeLocale(locale);
+    chain.push(normalized);
+    const language = normalized.split('-')[0];
+    if (language !== normalized) chain.push(language);
+  }
+  if (!chain.includes(DEFAULT_TEMPLATE_LOCALE)) chain.push(DEFAULT_TEMPLATE_LOCALE);
+  return chain;
+}
@@ -0,0 +1,46 @@
+import { DatabaseService } from './database.service';
+
+export type TrialOutcome = 'converted' | 'expired' | 'cancelled';
+
+export const TRIAL_OUTCOMES: TrialOutcome[] = ['converted', 'expired', 'cancelled'];
+
+export interface RecordTrialOutcomeRequest {
+  onboardingId: string;
+  outcome: TrialOutcome;
+  // Defaults to the onboarding's (then the customer's) attribution campaign
+  campaign?: string | null;
+  conversionId?: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Records how trials end in trial_conversion_events, the source for conversion
+ * analytics. Recording is best effort: a failed insert is logged and never fails
+ * the conversion or lifecycle step that produced it.
+ */
+export class TrialConversionEventService {
+  constructor(private dbService: DatabaseService) {}
+
+  async record(request: RecordTrialOutcomeRequest): Promise<void> {
+    try {
+      await this.dbService.query(
+        `INSERT INTO trial_conversion_events
+           (onboarding_id, customer_id, outcome, campaign, conversion_id, trial_started_at, occurred_at, metadata)
+         SELECT co.id, co.customer_id, $2, COALESCE($3, co.attribution_campaign, c.attribution_campaign), $4,
+                COALESCE(c.trial_start_date, co.started_at), NOW(), $5::jsonb
+           FROM customer_onboarding co
+           LEFT JOIN customers c ON c.id = co.customer_id
+          WHERE co.id = $1`,
+        [
+          request.onboardingId,
+          request.outcome,
+          request.campaign || null,
+          request.conversionId || null,
+          request.metadata ? JSON.stringify(request.metadata) : null,
+        ]
+      );
+    } catch (error: any) {
+      console.warn(`[TrialConversionEvents] Could not record ${request.outcome} for trial ${request.onboardingId}:`, error?.message || error);
+    }
+  }
+}
@@ -0,0 +1,341 @@
+import { randomUUID } from 'crypto';
+import { DatabaseService } from './database.service';
+import type { QueueService } from './queue.service';
+import type { PaymentLinkStatusEvent } from './payment.service';
+import { TrialLifecycleService, TrialStatus } from './trial-lifecycle.service';
+import { TrialConversionEventService } from './trial-conversion-event.service';
+import {
+  OrderIntegrationService,
+  SERVICE_PACKAGES,
+  ServicePackage,
+  resolveServicePackage,
+} from './order-integration.service';
+import { AppError, createConflictError, createNotFoundError, createValidationError } from '../middleware/error.middleware';
+
+export interface TrialConversionRequest {
+  // SERVICE_PACKAGES code, e.g. "50/50"
+  packageCode?: string;
+  // A package outside the catalogue; wins over packageCode
+  servicePackage?: ServicePackage;
+  // Payment email locale
+  locale?: string;
+  // Campaign the conversion is attributed to in analytics
+  campaign?: string;
+  requestedBy?: string;
+}
+
+export interface TrialConversionResult {
+  conversionId: string;
+  status: 'pending_conversion' | 'converted';
+  orderId?: string;
+  orderNumber?: string;
+  amountCents?: number;
+  paymentLink?: { id: string; url: string; expiresAt: Date };
+}
+
+// Trial statuses a conversion can start from; a closed trial has to start over
+const CONVERTIBLE_STATUSES: TrialStatus[] = ['active', 'grace', 'suspended'];
+
+/**
+ * Converts trials to paying customers. Without a service package the trial converts
+ * straight away. With one, an order and payment link are created and emailed, the
+ * trial waits in pending_conversion, and the conversion completes when the payment
+ * link is paid. An expired or cancelled link puts the trial back where it was.
+ * A sweep completes conversions whose paid link the status listener failed to apply.
+ */
+export class TrialConversionService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private dbService: DatabaseService,
+    private queueService: QueueService,
+    private trialLifecycle: TrialLifecycleService,
+    // Payments run in the same process; without it only unpaid conversions are possible
+    private orderIntegration?: OrderIntegrationService,
+    private events: TrialConversionEventService = new TrialConversionEventService(dbService)
+  ) {}
+
+  async convert(onboardingId: string, request: TrialConversionRequest = {}): Promise<TrialConversionResult> {
+    const result = await this.dbService.query(
+      `SELECT id, customer_id, onboarding_type, COALESCE(trial_status, 'active') AS trial_status
+         FROM customer_onboarding WHERE id = $1`,
+      [onboardingId]
+    );
+    const onboarding = result.rows[0];
+    if (!onboarding) {
+      throw createNotFoundError('Onboarding');
+    }
+    if (onboarding.onboarding_type !== 'trial') {
+      throw createConflictError(`Onboarding ${onboardingId} is not a trial`);
+    }
+    if (onboarding.trial_status === 'pending_conversion') {
+      throw createConflictError(`Trial ${onboardingId} already has a conversion awaiting payment`);
+    }
+    if (!CONVERTIBLE_STATUSES.includes(onboarding.trial_status)) {
+      throw createConflictError(`Trial ${onboardingId} is ${onboarding.trial_status} and cannot be converted`);
+    }
+
+    const servicePackage = this.resolvePackage(request);
+    if (!servicePackage) {
+      return this.convertWithoutPayment(onboardingId, onboarding.customer_id, request);
+    }
+    if (!this.orderIntegration) {
+      throw new AppError('Payments are not available for trial conversions', 503, 'PAYMENTS_UNAVAILABLE');
+    }
+
+    // Claim the trial first so a second request cannot create a second order
+    const claimed = await this.dbService.query(
+      `UPDATE customer_onboarding co
+          SET trial_status = 'pending_conversion', trial_status_changed_at = NOW()
+         FROM (SELECT id, COALESCE(trial_status, 'active') AS status FROM customer_onboarding WHERE id = $1 FOR UPDATE) previous
+        WHERE co.id = previous.id AND previous.status = ANY($2::text[])
+        RETURNING previous.status AS previous_status`,
+      [onboardingId, CONVERTIBLE_STATUSES]
+    );
+    if (claimed.rows.length === 0) {
+      throw createConflictError(`Trial ${onboardingId} changed status; try the conversion again`);
+    }
+    const previousStatus: TrialStatus = claimed.rows[0].previous_status;
+
+    // Warnings and expiry must not run while the customer is paying
+    await this.trialLifecycle.cancelForOnboarding(onboardingId);
+
+    try {
+      const order = await this.orderIntegration.createTrialConversionOrder({
+        customerId: onboarding.customer_id,
+        servicePackage,
+        packageCode: request.servicePackage ? undefined : request.packageCode,
+        locale: request.locale,
+      });
+
+      const conversionId = randomUUID();
+      await this.dbService.query(
+        `INSERT INTO trial_conversions
+           (id, onboarding_id, customer_id, order_id, payment_link_id, service_package, amount_cents, status, previous_trial_status, campaign, requested_by, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, 'pending_payment', $8, $9, $10, NOW(), NOW())`,
+        [
+          conversionId,
+          onboardingId,
+          onboarding.customer_id,
+          order.orderId,
+          order.paymentLink.id,
+          JSON.stringify(servicePackage),
+          order.amountCents,
+          previousStatus,
+          request.campaign || null,
+          request.requestedBy || null,
+        ]
+      );
+
+      console.log(`[TrialConversion] Trial ${onboardingId} awaiting payment for order ${order.orderNumber} (${order.paymentLink.id})`);
+      return {
+        conversionId,
+        status: 'pending_conversion',
+        orderId: order.orderId,
+        orderNumber: order.orderNumber,
+        amountCents: order.amountCents,
+        paymentLink: { id: order.paymentLink.id, url: order.paymentLink.url, expiresAt: order.paymentLink.expiresAt },
+      };
+    } catch (error) {
+      console.error(`[TrialConversion] Could not start paid conversion for ${onboardingId}:`, error);
+      await this.restoreTrial(onboardingId, previousStatus);
+      throw error;
+    }
+  }
+
+  /**
+   * PaymentService status listener. A paid link completes the conversion for its
+   * order, even one that already fell back after an earlier link expired. An expired
+   * or cancelled link restores the trial unless the order has another live link.
+   */
+  async handleLinkStatusChange({ linkId, toStatus }: PaymentLinkStatusEvent): Promise<void> {
+    if (toStatus !== 'paid' && toStatus !== 'expired' && toStatus !== 'cancelled') return;
+
+    const result = await this.dbService.query(
+      `SELECT tc.id, tc.onboarding_id, tc.customer_id, tc.order_id, tc.status, tc.previous_trial_status, tc.campaign
+         FROM trial_conversions tc
+         JOIN payment_links pl ON pl.order_id = tc.order_id
+        WHERE pl.id = $1 AND tc.status <> 'completed'
+        ORDER BY tc.created_at DESC
+        LIMIT 1`,
+      [linkId]
+    );
+    const conversion = result.rows[0];
+    if (!conversion) return;
+
+    if (toStatus === 'paid') {
+      await this.completeConversion(conversion, linkId);
+      return;
+    }
+    if (conversion.status !== 'pending_payment') return;
+
+    const live = await this.dbService.query(
+      `SELECT 1 FROM payment_links WHERE order_id = $1 AND status = 'pending' LIMIT 1`,
+      [conversion.order_id]
+    );
+    if (live.rows.length > 0) return;
+
+    const updated = await this.dbService.query(
+      `UPDATE trial_conversions SET status = $2, updated_at = NOW()
+        WHERE id = $1 AND status = 'pending_payment'
+        RETURNING id`,
+      [conversion.id, toStatus]
+    );
+    if (updated.rows.length === 0) return;
+
+    // Not a trial outcome: the trial carries on, and trial_conversions keeps the abandoned payment
+    await this.restoreTrial(conversion.onboarding_id, conversion.previous_trial_status || 'active');
+    console.log(`[TrialConversion] Payment link ${linkId} ${toStatus}; trial ${conversion.onboarding_id} is ${conversion.previous_trial_status || 'active'} again`);
+  }
+
+  public start(intervalMs: number = 15 * 60 * 1000): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.sweepOnce().catch((err) => {
+        console.warn('[TrialConversion] sweepOnce failed:', err?.message || err);
+      });
+    }, intervalMs);
+
+    console.log(`[TrialConversion] Started with interval ${Math.round(intervalMs / (60 * 1000))} minutes`);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log('[TrialConversion] Stopped');
+    }
+  }
+
+  // Complete conversions whose order has a paid link; status listeners are not retried
+  public async sweepOnce(): Promise<{ completed: number }> {
+    const summary = { completed: 0 };
+    if (this.running) return summary;
+    this.running = true;
+
+    try {
+      const result = await this.dbService.query(
+        `SELECT DISTINCT ON (tc.id) tc.id, tc.onboarding_id, tc.customer_id, tc.order_id, tc.status, tc.previous_trial_status, tc.campaign,
+                pl.id AS paid_link_id
+           FROM trial_conversions tc
+           JOIN payment_links pl ON pl.order_id = tc.order_id AND pl.status = 'paid'
+          WHERE tc.status <> 'completed'
+          ORDER BY tc.id, pl.paid_at ASC
+          LIMIT 50`
+      );
+
+      for (const conversion of result.rows) {
+        try {
+          if (await this.completeConversion(conversion, conversion.paid_link_id)) {
+            summary.completed++;
+          }
+        } catch (err: any) {
+          console.warn(`[TrialConversion] Could not complete conversion ${conversion.id}:`, err?.message || err);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+
+    if (summary.completed > 0) {
+      console.log(`[TrialConversion] Sweep completed ${summary.completed} paid conversions`);
+    }
+    return summary;
+  }
+
+  private resolvePackage(request: TrialConversionRequest): ServicePackage | null {
+    if (request.servicePackage) {
+      const { name, speed, price } = request.servicePackage;
+      if (!name || !speed || typeof price !== 'number' || !(price > 0)) {
+        throw createValidationError('servicePackage needs a name, a speed and a positive price');
+      }
+      return { name, speed, price, installationType: request.servicePackage.installationType };
+    }
+    if (request.packageCode) {
+      const servicePackage = resolveServicePackage(request.packageCode);
+      if (!servicePackage) {
+        throw createValidationError(`Unknown package code: ${request.packageCode} (available: ${Object.keys(SERVICE_PACKAGES).join(', ')})`);
+      }
+      return servicePackage;
+    }
+    return null;
+  }
+
+  private async convertWithoutPayment(onboardingId: string, customerId: string, request: TrialConversionRequest): Promise<TrialConversionResult> {
+    const conversionId = randomUUID();
+    await this.dbService.query(
+      `INSERT INTO trial_conversions
+         (id, onboarding_id, customer_id, status, previous_trial_status, campaign, requested_by, created_at, updated_at, completed_at)
+       SELECT $1, id, customer_id, 'completed', COALESCE(trial_status, 'active'), $3, $4, NOW(), NOW(), NOW()
+         FROM customer_onboarding WHERE id = $2`,
+      [conversionId, onboardingId, request.campaign || null, request.requestedBy || null]
+    );
+    await this.applyConversion(onboardingId, customerId, conversionId, request.campaign);
+    return { conversionId, status: 'converted' };
+  }
+
+  private async completeConversion(conversion: any, linkId: string): Promise<boolean> {
+    const claimed = await this.dbService.query(
+      `UPDATE trial_conversions
+          SET status = 'completed', payment_link_id = $2, completed_at = NOW(), updated_at = NOW()
+        WHERE id = $1 AND status <> 'completed'
+        RETURNING id`,
+      [conversion.id, linkId]
+    );
+    if (claimed.rows.length === 0) return false;
+
+    if (conversion.status !== 'pending_payment') {
+      console.warn(`[TrialConversion] Payment received for ${conversion.status} conversion ${conversion.id}; converting trial ${conversion.onboarding_id}`);
+    }
+    try {
+      await this.applyConversion(conversion.onboarding_id, conversion.customer_id, conversion.id, conversion.campaign);
+    } catch (error) {
+      // Release the claim so the sweep tries again
+      await this.dbService.query(
+        `UPDATE trial_conversions SET status = $2, completed_at = NULL, updated_at = NOW() WHERE id = $1 AND status = 'completed'`,
+        [conversion.id, conversion.status]
+      );
+      throw error;
+    }
+    return true;
+  }
+
+  private async applyConversion(onboardingId: string, customerId: string, conversionId: string, campaign?: string | null): Promise<void> {
+    await this.trialLifecycle.cancelForOnboarding(onboardingId);
+
+    await this.dbService.query(
+      `UPDATE customers
+          SET is_trial = false, trial_end_date = NULL, updated_at = NOW()
+        WHERE id = $1`,
+      [customerId]
+    );
+    await this.dbService.query(
+      `UPDATE customer_onboarding
+          SET onboarding_type = 'new_customer', trial_status = 'converted', trial_status_changed_at = NOW(), trial_grace_ends_at = NULL
+        WHERE id = $1`,
+      [onboardingId]
+    );
+
+    await this.queueService.addNotificationJob({
+      type: 'completion',
+      customerId,
+      onboardingId,
+      template: 'trial-conversion',
+      variables: { customerId },
+    });
+    await this.events.record({ onboardingId, outcome: 'converted', campaign, conversionId });
+
+    console.log(`[TrialConversion] Trial ${onboardingId} converted to customer ${customerId}`);
+  }
+
+  private async restoreTrial(onboardingId: string, status: TrialStatus): Promise<void> {
+    await this.dbService.query(
+      `UPDATE customer_onboarding
+          SET trial_status = $2, trial_status_changed_at = NOW()
+        WHERE id = $1 AND trial_status = 'pending_conversion'`,
+      [onboardingId, status]
+    );
+    await this.trialLifecycle.resumeForOnboarding(onboardingId);
+  }
+}
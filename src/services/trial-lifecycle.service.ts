@@ -0,0 +1,401 @@
+import { DatabaseService } from './database.service';
+import type { OnboardingJobData, QueueService } from './queue.service';
+import { parseReminderSchedule } from './payment-reminder.service';
+import { TrialConversionEventService } from './trial-conversion-event.service';
+
+// pending_conversion: a paid conversion is waiting for its payment; lifecycle jobs skip it
+export type TrialStatus = 'active' | 'grace' | 'suspended' | 'closed' | 'pending_conversion' | 'converted';
+
+export const TRIAL_STATUSES: TrialStatus[] = ['active', 'grace', 'suspended', 'closed', 'pending_conversion', 'converted'];
+
+export const DEFAULT_TRIAL_WARNINGS = '7d,3d,1d';
+export const DEFAULT_TRIAL_GRACE_PERIOD = '7d';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrialLifecycleOptions {
+  // Offsets before trial_end_date at which a warning is sent (TRIAL_EXPIRY_WARNINGS)
+  warnings?: number[];
+  // Time between the trial ending and suspension/closure (TRIAL_GRACE_PERIOD)
+  gracePeriodMs?: number;
+  // What happens when the grace period ends (TRIAL_GRACE_ACTION)
+  graceAction?: 'suspend' | 'close';
+  // Trial length when the customer has no future trial_end_date (TRIAL_LENGTH_DAYS)
+  trialLengthDays?: number;
+  runIntervalMs?: number;
+  batchSize?: number;
+}
+
+// Current trial state of one onboarding as read by the lifecycle jobs
+interface TrialRow {
+  id: string;
+  customerId: string;
+  onboardingType: string;
+  status: TrialStatus;
+  trialEndDate: Date | null;
+  graceEndsAt: Date | null;
+}
+
+/**
+ * Trial lifecycle: warnings before trial_end_date, then a grace period, then the
+ * onboarding is suspended or closed. Each step is a delayed job on the onboarding
+ * queue keyed by the trial end date, so a changed end date makes old jobs stale.
+ * A periodic sweep catches trials whose jobs were lost or never scheduled.
+ */
+export class TrialLifecycleService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private readonly warnings: number[];
+  private readonly gracePeriodMs: number;
+  private readonly graceAction: 'suspend' | 'close';
+  private readonly trialLengthDays: number;
+  private readonly intervalMs: number;
+  private readonly batchSize: number;
+
+  constructor(
+    private dbService: DatabaseService,
+    private queueService: QueueService,
+    options: TrialLifecycleOptions = {},
+    private events: TrialConversionEventService = new TrialConversionEventService(dbService)
+  ) {
+    // Earliest warning (largest offset) first
+    this.warnings = [...(options.warnings ?? parseReminderSchedule(process.env.TRIAL_EXPIRY_WARNINGS ?? DEFAULT_TRIAL_WARNINGS, '[TrialLifecycle]'))]
+      .sort((a, b) => b - a);
+    this.gracePeriodMs = options.gracePeriodMs
+      ?? parseReminderSchedule(process.env.TRIAL_GRACE_PERIOD ?? DEFAULT_TRIAL_GRACE_PERIOD, '[TrialLifecycle]')[0]
+      ?? 0;
+    this.graceAction = options.graceAction ?? (process.env.TRIAL_GRACE_ACTION === 'close' ? 'close' : 'suspend');
+    this.trialLengthDays = options.trialLengthDays ?? parseInt(process.env.TRIAL_LENGTH_DAYS || '30', 10);
+    this.intervalMs = options.runIntervalMs ?? 60 * 60 * 1000; // default: hourly
+    this.batchSize = options.batchSize ?? 50;
+  }
+
+  // Start a trial for a new onboarding; a future trial_end_date given at signup is kept
+  async startTrial(onboardingId: string, customerId: string): Promise<Date> {
+    const defaultEnd = new Date(Date.now() + this.trialLengthDays * DAY_MS);
+    const result = await this.dbService.query(
+      `UPDATE customers
+          SET is_trial = TRUE,
+              trial_start_date = COALESCE(trial_start_date, NOW()),
+              trial_end_date = CASE WHEN trial_end_date > NOW() THEN trial_end_date ELSE $2 END,
+              updated_at = NOW()
+        WHERE id = $1
+        RETURNING trial_end_date`,
+      [customerId, defaultEnd]
+    );
+    if (result.rows.length === 0) {
+      throw new Error(`Customer ${customerId} not found`);
+    }
+
+    await this.dbService.query(
+      `UPDATE customer_onboarding
+          SET trial_status = 'active', trial_status_changed_at = NOW(), trial_grace_ends_at = NULL, trial_warnings_sent = 0
+        WHERE id = $1`,
+      [onboardingId]
+    );
+
+    const trialEndDate = new Date(result.rows[0].trial_end_date);
+    await this.scheduleForOnboarding(onboardingId, customerId, trialEndDate);
+    return trialEndDate;
+  }
+
+  // Queue the warnings still ahead of the end date and the expiry itself
+  async scheduleForOnboarding(onboardingId: string, customerId: string, trialEndDate: Date): Promise<number> {
+    const endsAt = trialEndDate.getTime();
+    const metadata = { trialEndDate: trialEndDate.toISOString() };
+    let scheduled = 0;
+
+    for (let index = 0; index < this.warnings.length; index++) {
+      const dueAt = endsAt - this.warnings[index];
+      if (dueAt <= Date.now()) continue;
+
+      const sequence = index + 1;
+      const queued = await this.queueService.addOnboardingJob(
+        { type: 'trial-expiry-warning', onboardingId, customerId, metadata: { ...metadata, sequence } },
+        dueAt - Date.now(),
+        this.warningJobId(onboardingId, endsAt, sequence)
+      );
+      if (!queued) return scheduled;
+      scheduled++;
+    }
+
+    const queued = await this.queueService.addOnboardingJob(
+      { type: 'trial-expired', onboardingId, customerId, metadata },
+      Math.max(endsAt - Date.now(), 0),
+      `trial-expired-${onboardingId}-${endsAt}`
+    );
+    if (queued) scheduled++;
+
+    console.log(`[TrialLifecycle] Scheduled ${scheduled} jobs for trial ${onboardingId} ending ${trialEndDate.toISOString()}`);
+    return scheduled;
+  }
+
+  // Remove outstanding jobs once the trial is converted; jobs left behind re-check the status and skip
+  async cancelForOnboarding(onboardingId: string): Promise<void> {
+    const trial = await this.loadTrial(onboardingId);
+    if (!trial) return;
+
+    const jobIds: string[] = [];
+    if (trial.trialEndDate) {
+      const endsAt = trial.trialEndDate.getTime();
+      this.warnings.forEach((_, index) => jobIds.push(this.warningJobId(onboardingId, endsAt, index + 1)));
+      jobIds.push(`trial-expired-${onboardingId}-${endsAt}`);
+    }
+    if (trial.graceEndsAt) {
+      jobIds.push(`trial-grace-ended-${onboardingId}-${trial.graceEndsAt.getTime()}`);
+    }
+
+    for (const jobId of jobIds) {
+      try {
+        await this.queueService.removeOnboardingJob(jobId);
+      } catch (err: any) {
+        console.warn(`[TrialLifecycle] Could not remove job ${jobId}:`, err?.message || err);
+      }
+    }
+  }
+
+  // Re-queue the jobs removed when a conversion started, once that conversion falls through
+  async resumeForOnboarding(onboardingId: string): Promise<void> {
+    const trial = await this.loadTrial(onboardingId);
+    if (!trial) return;
+
+    if (trial.status === 'active' && trial.trialEndDate) {
+      await this.scheduleForOnboarding(onboardingId, trial.customerId, trial.trialEndDate);
+    } else if (trial.status === 'grace' && trial.graceEndsAt) {
+      await this.queueService.addOnboardingJob(
+        { type: 'trial-grace-ended', onboardingId, customerId: trial.customerId },
+        Math.max(trial.graceEndsAt.getTime() - Date.now(), 0),
+        `trial-grace-ended-${onboardingId}-${trial.graceEndsAt.getTime()}`
+      );
+    }
+  }
+
+  // Worker entry point for the trial job types
+  async processJob(data: OnboardingJobData): Promise<void> {
+    switch (data.type) {
+      case 'trial-expiry-warning':
+        await this.sendWarning(data.onboardingId, Number(data.metadata?.sequence) || 1, data.metadata?.trialEndDate);
+        break;
+      case 'trial-expired':
+        await this.expireTrial(data.onboardingId);
+        break;
+      case 'trial-grace-ended':
+        await this.endGracePeriod(data.onboardingId);
+        break;
+      default:
+        console.warn(`[TrialLifecycle] Unknown trial job type: ${data.type}`);
+    }
+  }
+
+  async sendWarning(onboardingId: string, sequence: number, scheduledEndDate?: string): Promise<boolean> {
+    const trial = await this.loadTrial(onboardingId);
+    if (!trial || trial.onboardingType !== 'trial' || trial.status !== 'active' || !trial.trialEndDate) {
+      console.log(`[TrialLifecycle] Trial ${onboardingId} is ${trial?.status || 'unknown'}; skipping warning ${sequence}`);
+      return false;
+    }
+    if (scheduledEndDate && new Date(scheduledEndDate).getTime() !== trial.trialEndDate.getTime()) {
+      console.log(`[TrialLifecycle] Trial ${onboardingId} end date changed; skipping stale warning ${sequence}`);
+      return false;
+    }
+    if (trial.trialEndDate.getTime() <= Date.now()) return false;
+
+    // Claim the warning so a retried or duplicate job does not send it twice
+    const claimed = await this.dbService.query(
+      `UPDATE customer_onboarding
+          SET trial_warnings_sent = $2, trial_last_warning_at = NOW()
+        WHERE id = $1 AND trial_warnings_sent < $2
+        RETURNING id`,
+      [onboardingId, sequence]
+    );
+    if (claimed.rows.length === 0) return false;
+
+    const daysRemaining = Math.ceil((trial.trialEndDate.getTime() - Date.now()) / DAY_MS);
+    await this.queueService.addNotificationJob({
+      type: 'trial-expiry',
+      customerId: trial.customerId,
+      onboardingId,
+      template: 'trial-expiry',
+      variables: { trialEndDate: formatDate(trial.trialEndDate), daysRemaining },
+    });
+
+    console.log(`[TrialLifecycle] Sent warning ${sequence} for trial ${onboardingId} (${daysRemaining} days left)`);
+    return true;
+  }
+
+  // Move a lapsed trial into its grace period
+  async expireTrial(onboardingId: string): Promise<boolean> {
+    const trial = await this.loadTrial(onboardingId);
+    if (!trial || trial.onboardingType !== 'trial' || trial.status !== 'active') {
+      console.log(`[TrialLifecycle] Trial ${onboardingId} is ${trial?.status || 'unknown'}; not expiring`);
+      return false;
+    }
+    // Extended since the job was queued; the new schedule takes over
+    if (!trial.trialEndDate || trial.trialEndDate.getTime() > Date.now()) return false;
+
+    const graceEndsAt = new Date(Date.now() + this.gracePeriodMs);
+    const updated = await this.dbService.query(
+      `UPDATE customer_onboarding
+          SET trial_status = 'grace', trial_status_changed_at = NOW(), trial_grace_ends_at = $2
+        WHERE id = $1 AND COALESCE(trial_status, 'active') = 'active'
+        RETURNING id`,
+      [onboardingId, graceEndsAt]
+    );
+    if (updated.rows.length === 0) return false;
+
+    if (this.gracePeriodMs <= 0) {
+      console.log(`[TrialLifecycle] Trial ${onboardingId} expired with no grace period`);
+      return this.endGracePeriod(onboardingId);
+    }
+
+    await this.queueService.addNotificationJob({
+      type: 'trial-expiry',
+      customerId: trial.customerId,
+      onboardingId,
+      template: 'trial-expired',
+      variables: { trialEndDate: formatDate(trial.trialEndDate), graceEndDate: formatDate(graceEndsAt) },
+    });
+    await this.queueService.addOnboardingJob(
+      { type: 'trial-grace-ended', onboardingId, customerId: trial.customerId },
+      this.gracePeriodMs,
+      `trial-grace-ended-${onboardingId}-${graceEndsAt.getTime()}`
+    );
+
+    console.log(`[TrialLifecycle] Trial ${onboardingId} expired; grace period until ${graceEndsAt.toISOString()}`);
+    return true;
+  }
+
+  // Suspend or close a trial whose grace period is over (TRIAL_GRACE_ACTION)
+  async endGracePeriod(onboardingId: string): Promise<boolean> {
+    const trial = await this.loadTrial(onboardingId);
+    if (!trial || trial.status !== 'grace') {
+      console.log(`[TrialLifecycle] Trial ${onboardingId} is ${trial?.status || 'unknown'}; grace period not ended`);
+      return false;
+    }
+    if (trial.graceEndsAt && trial.graceEndsAt.getTime() > Date.now()) return false;
+
+    const status: TrialStatus = this.graceAction === 'close' ? 'closed' : 'suspended';
+    const updated = await this.dbService.query(
+      `UPDATE customer_onboarding
+          SET trial_status = $2, trial_status_changed_at = NOW()
+        WHERE id = $1 AND trial_status = 'grace'
+        RETURNING id`,
+      [onboardingId, status]
+    );
+    if (updated.rows.length === 0) return false;
+
+    await this.queueService.addNotificationJob({
+      type: 'trial-expiry',
+      customerId: trial.customerId,
+      onboardingId,
+      template: 'trial-ended',
+      variables: { trialEndDate: trial.trialEndDate ? formatDate(trial.trialEndDate) : null, suspended: status === 'suspended' },
+    });
+
+    // A suspended trial can still convert; a closed one has ended for good
+    await this.events.record({ onboardingId, outcome: status === 'closed' ? 'cancelled' : 'expired', metadata: { trialStatus: status } });
+
+    console.log(`[TrialLifecycle] Trial ${onboardingId} ${status} after its grace period`);
+    return true;
+  }
+
+  public start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.sweepOnce().catch((err) => {
+        console.warn('[TrialLifecycle] sweepOnce failed:', err?.message || err);
+      });
+    }, this.intervalMs);
+
+    console.log(`[TrialLifecycle] Started with interval ${Math.round(this.intervalMs / (60 * 1000))} minutes (grace: ${Math.round(this.gracePeriodMs / DAY_MS)} days, then ${this.graceAction})`);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log('[TrialLifecycle] Stopped');
+    }
+  }
+
+  // Expire lapsed trials and end overdue grace periods the queue did not handle
+  public async sweepOnce(): Promise<{ expired: number; ended: number }> {
+    const summary = { expired: 0, ended: 0 };
+    if (this.running) return summary;
+    this.running = true;
+
+    try {
+      const lapsed = await this.dbService.query(
+        `SELECT co.id
+           FROM customer_onboarding co
+           JOIN customers c ON c.id = co.customer_id
+          WHERE co.onboarding_type = 'trial'
+            AND co.completed_at IS NULL
+            AND COALESCE(co.trial_status, 'active') = 'active'
+            AND c.trial_end_date < NOW()
+          ORDER BY c.trial_end_date ASC
+          LIMIT $1`,
+        [this.batchSize]
+      );
+      for (const row of lapsed.rows) {
+        try {
+          if (await this.expireTrial(row.id)) summary.expired++;
+        } catch (err: any) {
+          console.warn(`[TrialLifecycle] Expiry failed for ${row.id}:`, err?.message || err);
+        }
+      }
+
+      const overdue = await this.dbService.query(
+        `SELECT id
+           FROM customer_onboarding
+          WHERE trial_status = 'grace' AND trial_grace_ends_at < NOW()
+          ORDER BY trial_grace_ends_at ASC
+          LIMIT $1`,
+        [this.batchSize]
+      );
+      for (const row of overdue.rows) {
+        try {
+          if (await this.endGracePeriod(row.id)) summary.ended++;
+        } catch (err: any) {
+          console.warn(`[TrialLifecycle] Ending grace period failed for ${row.id}:`, err?.message || err);
+        }
+      }
+
+      if (summary.expired > 0 || summary.ended > 0) {
+        console.log(`[TrialLifecycle] Sweep: ${summary.expired} trials expired, ${summary.ended} grace periods ended`);
+      }
+      return summary;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async loadTrial(onboardingId: string): Promise<TrialRow | null> {
+    const result = await this.dbService.query(
+      `SELECT co.id, co.customer_id, co.onboarding_type, COALESCE(co.trial_status, 'active') AS trial_status,
+              co.trial_grace_ends_at, c.trial_end_date
+         FROM customer_onboarding co
+         JOIN customers c ON c.id = co.customer_id
+        WHERE co.id = $1`,
+      [onboardingId]
+    );
+    const row = result.rows[0];
+    if (!row) return null;
+    return {
+      id: row.id,
+      customerId: row.customer_id,
+      onboardingType: row.onboarding_type,
+      status: row.trial_status,
+      trialEndDate: row.trial_end_date ? new Date(row.trial_end_date) : null,
+      graceEndsAt: row.trial_grace_ends_at ? new Date(row.trial_grace_ends_at) : null,
+    };
+  }
+
+  private warningJobId(onboardingId: string, endsAt: number, sequence: number): string {
+    return `trial-warning-${onboardingId}-${endsAt}-${sequence}`;
+  }
+}
+
+// "2026-01-31"; job variables travel through Redis as JSON, so dates are formatted up front
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
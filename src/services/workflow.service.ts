@@ -0,0 +1,373 @@
+import { DatabaseService } from './database.service';
+import { createValidationError } from '../middleware/error.middleware';
+
+// Database row types
+interface DatabaseRow {
+  [key: string]: any;
+}
+
+export type WorkflowConditionValue = string | number | boolean;
+
+export interface WorkflowTransition {
+  to: string;
+  // All keys must match the onboarding context (scalar equality or membership in a list)
+  when?: Record<string, WorkflowConditionValue | WorkflowConditionValue[]>;
+}
+
+export interface WorkflowStepDefinition {
+  id: string;
+  name: string;
+  description: string;
+  slaHours: number;
+  weight: number;
+  // Ordered branches; first match wins. When omitted the next step in array order is used.
+  next?: WorkflowTransition[];
+}
+
+export interface WorkflowSelector {
+  onboardingTypes?: string[];
+  customerTypes?: string[];
+  serviceTypes?: string[];
+}
+
+export interface WorkflowDefinition {
+  key: string;
+  version: number;
+  name: string;
+  description?: string;
+  appliesTo: WorkflowSelector;
+  priority: number;
+  steps: WorkflowStepDefinition[];
+  isActive: boolean;
+  createdBy?: string;
+  createdAt?: Date;
+}
+
+export interface WorkflowContext {
+  onboardingType?: string;
+  customerType?: string;
+  serviceType?: string;
+  [key: string]: unknown;
+}
+
+export interface CreateWorkflowVersionRequest {
+  key: string;
+  name: string;
+  description?: string;
+  appliesTo?: WorkflowSelector;
+  priority?: number;
+  steps: WorkflowStepDefinition[];
+  createdBy?: string;
+}
+
+export const DEFAULT_WORKFLOW_KEY = 'standard';
+export const DEFAULT_WORKFLOW_VERSION = 1;
+
+// Built-in fallback, identical to the `standard` v1 row seeded by migration 005.
+// Used when the definitions table is unavailable (limited mode) or for legacy onboardings.
+export const DEFAULT_WORKFLOW_DEFINITION: WorkflowDefinition = {
+  key: DEFAULT_WORKFLOW_KEY,
+  version: DEFAULT_WORKFLOW_VERSION,
+  name: 'Standard Onboarding',
+  description: 'Canonical 10-step onboarding workflow',
+  appliesTo: {},
+  priority: 0,
+  isActive: true,
+  steps: [
+    { id: 'initiated', name: 'Onboarding Initiated', description: 'Onboarding process has been started', slaHours: 2, weight: 10 },
+    { id: 'welcome_sent', name: 'Welcome Email Sent', description: 'Welcome email has been sent to customer', slaHours: 2, weight: 10 },
+    { id: 'service_setup', name: 'Service Configuration', description: 'Configure service parameters and account setup', slaHours: 24, weight: 15 },
+    { id: 'equipment_ordered', name: 'Equipment Ordered', description: 'Equipment has been ordered for installation', slaHours: 48, weight: 10 },
+    { id: 'equipment_shipped', name: 'Equipment Shipped', description: 'Equipment has been shipped to customer', slaHours: 72, weight: 15 },
+    { id: 'installation_scheduled', name: 'Installation Scheduled', description: 'Installation appointment has been scheduled', slaHours: 24, weight: 10 },
+    { id: 'installation_completed', name: 'Installation Completed', description: 'Service installation has been completed', slaHours: 24, weight: 15 },
+    { id: 'service_activated', name: 'Service Activated', description: 'Service has been activated and tested', slaHours: 12, weight: 10 },
+    { id: 'follow_up', name: 'Follow-up & Support', description: 'Post-activation follow-up and support setup', slaHours: 168, weight: 5 },
+    { id: 'completed', name: 'Onboarding Completed', description: 'Onboarding process has been completed successfully', slaHours: 0, weight: 0 },
+  ],
+};
+
+export class WorkflowService {
+  // Published versions are immutable, so they can be cached for the life of the process
+  private readonly cache = new Map<string, WorkflowDefinition>();
+
+  constructor(private dbService: DatabaseService) {}
+
+  async listDefinitions(includeAllVersions = false): Promise<WorkflowDefinition[]> {
+    const result = await this.dbService.query(
+      includeAllVersions
+        ? `SELECT * FROM onboarding_workflow_definitions ORDER BY workflow_key, version DESC`
+        : `SELECT DISTINCT ON (workflow_key) *
+             FROM onboarding_workflow_definitions
+            ORDER BY workflow_key, version DESC`
+    );
+    return result.rows.map((row: DatabaseRow) => this.mapRow(row));
+  }
+
+  async getDefinition(key: string, version?: number): Promise<WorkflowDefinition | null> {
+    if (version !== undefined) {
+      const cached = this.cache.get(this.cacheKey(key, version));
+      if (cached) return cached;
+    }
+
+    try {
+      const result = version !== undefined
+        ? await this.dbService.query(
+            'SELECT * FROM onboarding_workflow_definitions WHERE workflow_key = $1 AND version = $2',
+            [key, version]
+          )
+        : await this.dbService.query(
+            `SELECT * FROM onboarding_workflow_definitions
+              WHERE workflow_key = $1
+              ORDER BY version DESC
+              LIMIT 1`,
+            [key]
+          );
+
+      if (result.rows.length > 0) {
+        const definition = this.mapRow(result.rows[0]);
+        this.cache.set(this.cacheKey(definition.key, definition.version), definition);
+        return definition;
+      }
+    } catch (error) {
+      console.warn('Workflow definition lookup failed, using built-in default:', (error as Error).message);
+    }
+
+    if (key === DEFAULT_WORKFLOW_KEY && (version === undefined || version === DEFAULT_WORKFLOW_VERSION)) {
+      return DEFAULT_WORKFLOW_DEFINITION;
+    }
+    return null;
+  }
+
+  /**
+   * Resolve the definition pinned to an onboarding row. Rows created before workflow
+   * pinning existed have no key/version and follow the built-in standard workflow.
+   */
+  async getDefinitionForOnboarding(row: { workflow_key?: string | null; workflow_version?: number | null }): Promise<WorkflowDefinition> {
+    if (!row.workflow_key) {
+      return DEFAULT_WORKFLOW_DEFINITION;
+    }
+    const definition = await this.getDefinition(row.workflow_key, row.workflow_version ?? undefined);
+    if (!definition) {
+      console.warn(`Workflow ${row.workflow_key} v${row.workflow_version} not found, using built-in default`);
+      return DEFAULT_WORKFLOW_DEFINITION;
+    }
+    return definition;
+  }
+
+  // Branch context of an existing onboarding, the same fields its workflow was resolved with
+  async getContextForOnboarding(onboardingId: string): Promise<WorkflowContext> {
+    const result = await this.dbService.query(
+      `SELECT co.onboarding_type, c.customer_type, o.service_type
+         FROM customer_onboarding co
+         LEFT JOIN customers c ON c.id = co.customer_id
+         LEFT JOIN orders o ON o.id = co.order_id
+        WHERE co.id = $1`,
+      [onboardingId]
+    );
+    const row = result.rows[0];
+    return {
+      onboardingType: row?.onboarding_type || undefined,
+      customerType: row?.customer_type || undefined,
+      serviceType: row?.service_type || undefined,
+    };
+  }
+
+  /**
+   * Pick the latest active version of the best matching workflow for a new onboarding.
+   * An explicit key wins; otherwise the highest priority, most specific selector match is used.
+   */
+  async resolveDefinition(context: WorkflowContext, explicitKey?: string): Promise<WorkflowDefinition> {
+    if (explicitKey) {
+      const definition = await this.getLatestActive(explicitKey);
+      if (!definition) {
+        throw new Error(`Workflow ${explicitKey} not found or inactive`);
+      }
+      return definition;
+    }
+
+    let candidates: WorkflowDefinition[] = [];
+    try {
+      const result = await this.dbService.query(
+        `SELECT DISTINCT ON (workflow_key) *
+           FROM onboarding_workflow_definitions
+          WHERE is_active = TRUE
+          ORDER BY workflow_key, version DESC`
+      );
+      candidates = result.rows.map((row: DatabaseRow) => this.mapRow(row));
+    } catch (error) {
+      console.warn('Workflow resolution failed, using built-in default:', (error as Error).message);
+    }
+
+    const matches = candidates
+      .filter(definition => this.selectorMatches(definition.appliesTo, context))
+      .sort((a, b) =>
+        (b.priority - a.priority) || (this.selectorSpecificity(b.appliesTo) - this.selectorSpecificity(a.appliesTo))
+      );
+
+    return matches[0] || DEFAULT_WORKFLOW_DEFINITION;
+  }
+
+  async createDefinitionVersion(request: CreateWorkflowVersionRequest): Promise<WorkflowDefinition> {
+    this.validateDefinition(request);
+
+    const result = await this.dbService.query(
+      `INSERT INTO onboarding_workflow_definitions
+         (workflow_key, version, name, description, applies_to, priority, steps, is_active, created_by, created_at)
+       VALUES (
+         $1,
+         (SELECT COALESCE(MAX(version), 0) + 1 FROM onboarding_workflow_definitions WHERE workflow_key = $1),
+         $2, $3, $4::jsonb, $5, $6::jsonb, TRUE, $7, NOW()
+       )
+       RETURNING *`,
+      [
+        request.key,
+        request.name,
+        request.description || null,
+        JSON.stringify(request.appliesTo || {}),
+        request.priority ?? 0,
+        JSON.stringify(request.steps),
+        request.createdBy || null,
+      ]
+    );
+
+    const definition = this.mapRow(result.rows[0]);
+    this.cache.set(this.cacheKey(definition.key, definition.version), definition);
+    return definition;
+  }
+
+  async setDefinitionActive(key: string, version: number, isActive: boolean): Promise<void> {
+    await this.dbService.query(
+      'UPDATE onboarding_workflow_definitions SET is_active = $1 WHERE workflow_key = $2 AND version = $3',
+      [isActive, key, version]
+    );
+    this.cache.delete(this.cacheKey(key, version));
+  }
+
+  getStep(definition: WorkflowDefinition, stepId: string): WorkflowStepDefinition | undefined {
+    return definition.steps.find(step => step.id === stepId);
+  }
+
+  getInitialStep(definition: WorkflowDefinition): WorkflowStepDefinition {
+    return definition.steps[0];
+  }
+
+  getTerminalStep(definition: WorkflowDefinition): WorkflowStepDefinition {
+    return definition.steps[definition.steps.length - 1];
+  }
+
+  isTerminalStep(definition: WorkflowDefinition, stepId: string): boolean {
+    return this.getTerminalStep(definition).id === stepId;
+  }
+
+  getNextStep(definition: WorkflowDefinition, currentStepId: string, context: WorkflowContext = {}): string | null {
+    const step = this.getStep(definition, currentStepId);
+    if (!step) return null;
+
+    if (step.next && step.next.length > 0) {
+      const branch = step.next.find(transition => this.conditionMatches(transition.when, context));
+      return branch ? branch.to : null;
+    }
+
+    const index = definition.steps.indexOf(step);
+    return definition.steps[index + 1]?.id ?? null;
+  }
+
+  getStepWeight(definition: WorkflowDefinition, stepId: string): number {
+    return this.getStep(definition, stepId)?.weight ?? 0;
+  }
+
+  getStepSlaHours(definition: WorkflowDefinition, stepId: string): number {
+    return this.getStep(definition, stepId)?.slaHours ?? 0;
+  }
+
+  private async getLatestActive(key: string): Promise<WorkflowDefinition | null> {
+    try {
+      const result = await this.dbService.query(
+        `SELECT * FROM onboarding_workflow_definitions
+          WHERE workflow_key = $1 AND is_active = TRUE
+          ORDER BY version DESC
+          LIMIT 1`,
+        [key]
+      );
+      if (result.rows.length > 0) {
+        return this.mapRow(result.rows[0]);
+      }
+    } catch (error) {
+      console.warn('Workflow lookup failed:', (error as Error).message);
+    }
+    return key === DEFAULT_WORKFLOW_KEY ? DEFAULT_WORKFLOW_DEFINITION : null;
+  }
+
+  private selectorMatches(selector: WorkflowSelector, context: WorkflowContext): boolean {
+    const checks: Array<[string[] | undefined, string | undefined]> = [
+      [selector.onboardingTypes, context.onboardingType],
+      [selector.customerTypes, context.customerType],
+      [selector.serviceTypes, context.serviceType],
+    ];
+    return checks.every(([allowed, value]) => !allowed || allowed.length === 0 || (value !== undefined && allowed.includes(value)));
+  }
+
+  private selectorSpecificity(selector: WorkflowSelector): number {
+    return [selector.onboardingTypes, selector.customerTypes, selector.serviceTypes]
+      .filter(list => list && list.length > 0).length;
+  }
+
+  private conditionMatches(when: WorkflowTransition['when'], context: WorkflowContext): boolean {
+    if (!when) return true;
+    return Object.entries(when).every(([key, expected]) => {
+      const actual = context[key] as WorkflowConditionValue | undefined;
+      return Array.isArray(expected) ? expected.includes(actual as WorkflowConditionValue) : actual === expected;
+    });
+  }
+
+  private validateDefinition(request: CreateWorkflowVersionRequest): void {
+    if (!request.key || !request.name) {
+      throw createValidationError('Workflow key and name are required');
+    }
+    if (!Array.isArray(request.steps) || request.steps.length < 2) {
+      throw createValidationError('Workflow must define at least two steps');
+    }
+
+    const ids = new Set<string>();
+    for (const step of request.steps) {
+      if (!step.id || !step.name) {
+        throw createValidationError('Every workflow step requires an id and a name');
+      }
+      if (ids.has(step.id)) {
+        throw createValidationError(`Duplicate workflow step: ${step.id}`);
+      }
+      if (typeof step.weight !== 'number' || step.weight < 0 || typeof step.slaHours !== 'number' || step.slaHours < 0) {
+        throw createValidationError(`Step ${step.id} requires non-negative weight and slaHours`);
+      }
+      ids.add(step.id);
+    }
+
+    for (const step of request.steps) {
+      for (const transition of step.next || []) {
+        if (!ids.has(transition.to)) {
+          throw createValidationError(`Step ${step.id} branches to unknown step ${transition.to}`);
+        }
+      }
+    }
+  }
+
+  private cacheKey(key: string, version: number): string {
+    return `${key}@${version}`;
+  }
+
+  private mapRow(row: DatabaseRow): WorkflowDefinition {
+    return {
+      key: row.workflow_key,
+      version: row.version,
+      name: row.name,
+      description: row.description || undefined,
+      appliesTo: row.applies_to || {},
+      priority: row.priority ?? 0,
+      steps: row.steps,
+      isActive: row.is_active,
+      createdBy: row.created_by || undefined,
+      createdAt: row.created_at,
+    };
+  }
+}